@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Users, CheckSquare, Calendar, CreditCard, ChevronDown, Settings, LogOut, Webhook } from 'lucide-react';
+import { Users, CheckSquare, Calendar, CreditCard, ChevronDown, Settings, LogOut, Webhook, LayoutDashboard } from 'lucide-react';
 import ClientList from './components/ClientList';
 import ChatInterface from './components/ChatInterface';
 import ClientPanel from './components/ClientPanel';
@@ -8,12 +8,13 @@ import ProfileMenu from './components/ProfileMenu';
 import AllTasksView from './components/AllTasksView';
 import AllMeetingsView from './components/AllMeetingsView';
 import WebhookPanel from './components/WebhookPanel';
+import DashboardView from './components/DashboardView';
 import AuthWrapper from './components/AuthWrapper';
 import { useAuth } from './contexts/AuthContext';
 import { useToast } from './lib/toast';
 import { signOut } from './services/authService';
 
-type View = 'clients' | 'tasks' | 'meetings' | 'webhooks';
+type View = 'clients' | 'tasks' | 'meetings' | 'dashboard' | 'webhooks';
 
 function AppContent() {
   const { profile, subscription } = useAuth();
@@ -168,6 +169,17 @@ function AppContent() {
               <Calendar className="w-4 h-4" />
               <span className="font-medium">Reuniões</span>
             </button>
+            <button
+              onClick={() => handleViewChange('dashboard')}
+              className={`flex items-center gap-2 px-4 py-3 border-b-2 transition-colors ${
+                currentView === 'dashboard'
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <LayoutDashboard className="w-4 h-4" />
+              <span className="font-medium">Indicadores</span>
+            </button>
             <button
               onClick={() => handleViewChange('webhooks')}
               className={`flex items-center gap-2 px-4 py-3 border-b-2 transition-colors ${
@@ -203,6 +215,7 @@ function AppContent() {
               onClearClient={() => setSelectedClientId(null)}
             />
           )}
+          {currentView === 'dashboard' && <DashboardView />}
           {currentView === 'webhooks' && <WebhookPanel />}
         </div>
       </main>
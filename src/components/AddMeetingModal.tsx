@@ -1,12 +1,15 @@
 import { useState, useEffect } from 'react';
-import { X, Loader2, Calendar } from 'lucide-react';
+import { X, Loader2, Calendar, Upload, FileText } from 'lucide-react';
 import * as Icons from 'lucide-react';
-import { addMeeting, summarizeMeeting } from '../services/meetingService';
-import { createTasks } from '../services/taskService';
+import { addMeeting, summarizeMeeting, getPlannedMeetingsByClient, type SummaryProgress } from '../services/meetingService';
+import { getDraftTasksByMeeting, confirmDraftTasks } from '../services/taskService';
 import { draftEmail } from '../services/emailService';
 import { getActiveMeetingTypes, type MeetingTypeDetails } from '../services/meetingTypeService';
+import { importTranscriptFile, SUPPORTED_TRANSCRIPT_EXTENSIONS, type ImportedTranscript } from '../services/transcriptImportService';
 import { useToast } from '../lib/toast';
-import type { MeetingType } from '../lib/database.types';
+import type { Database, MeetingType } from '../lib/database.types';
+
+type Meeting = Database['public']['Tables']['meetings']['Row'];
 
 interface AddMeetingModalProps {
   clientId: string;
@@ -20,8 +23,13 @@ export default function AddMeetingModal({ clientId, clientName, onClose, onSucce
   const [meetingTypes, setMeetingTypes] = useState<MeetingTypeDetails[]>([]);
   const [meetingType, setMeetingType] = useState<MeetingType>('');
   const [datetime, setDatetime] = useState('');
+  const [plannedMeetings, setPlannedMeetings] = useState<Meeting[]>([]);
+  const [plannedMeetingId, setPlannedMeetingId] = useState('');
   const [transcript, setTranscript] = useState('');
+  const [importedTranscript, setImportedTranscript] = useState<ImportedTranscript | null>(null);
+  const [importing, setImporting] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<SummaryProgress | null>(null);
   const [meetingId, setMeetingId] = useState<string | null>(null);
   const [summary, setSummary] = useState<any>(null);
   const [emailDraft, setEmailDraft] = useState<any>(null);
@@ -29,8 +37,31 @@ export default function AddMeetingModal({ clientId, clientName, onClose, onSucce
 
   useEffect(() => {
     loadMeetingTypes();
+    loadPlannedMeetings();
   }, []);
 
+  const loadPlannedMeetings = async () => {
+    try {
+      setPlannedMeetings(await getPlannedMeetingsByClient(clientId));
+    } catch (error) {
+      console.error('Error loading planned meetings:', error);
+    }
+  };
+
+  const toDateTimeLocal = (iso: string) => {
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+  };
+
+  const handleSelectPlanned = (id: string) => {
+    setPlannedMeetingId(id);
+    const planned = plannedMeetings.find(meeting => meeting.id === id);
+    if (planned) {
+      setMeetingType(planned.type);
+      setDatetime(toDateTimeLocal(planned.datetime));
+    }
+  };
+
   const loadMeetingTypes = async () => {
     try {
       const types = await getActiveMeetingTypes();
@@ -49,6 +80,30 @@ export default function AddMeetingModal({ clientId, clientName, onClose, onSucce
     return <IconComponent className="w-4 h-4" />;
   };
 
+  const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const imported = await importTranscriptFile(file);
+      setImportedTranscript(imported);
+      setTranscript(imported.text);
+      showToast(`Transcrição importada de ${imported.file_name}`, 'success');
+    } catch (error: any) {
+      console.error('Error importing transcript file:', error);
+      showToast(error?.message || 'Erro ao importar arquivo de transcrição', 'error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleClearImport = () => {
+    setImportedTranscript(null);
+    setTranscript('');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!datetime || !transcript.trim()) return;
@@ -59,12 +114,16 @@ export default function AddMeetingModal({ clientId, clientName, onClose, onSucce
         client_id: clientId,
         type: meetingType,
         datetime: new Date(datetime).toISOString(),
-        transcript_text: transcript.trim()
+        transcript_text: transcript.trim(),
+        transcript_segments: importedTranscript?.segments,
+        transcript_source: importedTranscript?.format || 'manual',
+        transcript_file_name: importedTranscript?.file_name,
+        planned_meeting_id: plannedMeetingId || undefined
       });
 
       setMeetingId(meeting.id);
 
-      const summaryResult = await summarizeMeeting(meeting.id);
+      const summaryResult = await summarizeMeeting(meeting.id, { onProgress: setProgress });
       setSummary(summaryResult);
 
       setStep('summary');
@@ -74,6 +133,35 @@ export default function AddMeetingModal({ clientId, clientName, onClose, onSucce
       showToast(errorMessage, 'error');
     } finally {
       setLoading(false);
+      setProgress(null);
+    }
+  };
+
+  const getProgressLabel = (current: SummaryProgress | null) => {
+    if (!current) return 'Salvando reunião...';
+    switch (current.stage) {
+      case 'analyzing':
+        return 'Analisando transcrição...';
+      case 'extracting':
+        return `Processando trecho ${current.current} de ${current.total}...`;
+      case 'consolidating':
+        return 'Consolidando resumo...';
+      case 'saving':
+        return 'Salvando resumo...';
+    }
+  };
+
+  const getProgressPercent = (current: SummaryProgress | null) => {
+    if (!current) return 5;
+    switch (current.stage) {
+      case 'analyzing':
+        return 40;
+      case 'extracting':
+        return 10 + Math.round(((current.current - 1) / current.total) * 70);
+      case 'consolidating':
+        return 85;
+      case 'saving':
+        return 95;
     }
   };
 
@@ -82,16 +170,8 @@ export default function AddMeetingModal({ clientId, clientName, onClose, onSucce
 
     setLoading(true);
     try {
-      await createTasks(
-        summary.suggested_tasks.map((task: any) => ({
-          client_id: clientId,
-          meeting_id: meetingId,
-          title: task.title,
-          description: task.description,
-          owner: task.owner,
-          due_date: task.due_date
-        }))
-      );
+      const draftTasks = await getDraftTasksByMeeting(meetingId);
+      await confirmDraftTasks(draftTasks.map(task => task.id));
 
       const draft = await draftEmail({ meeting_id: meetingId });
       setEmailDraft(draft);
@@ -138,6 +218,26 @@ export default function AddMeetingModal({ clientId, clientName, onClose, onSucce
         <div className="flex-1 overflow-y-auto p-6">
           {step === 'form' && (
             <form onSubmit={handleSubmit} className="space-y-4">
+              {plannedMeetings.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Reunião agendada
+                  </label>
+                  <select
+                    value={plannedMeetingId}
+                    onChange={(e) => handleSelectPlanned(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Nova reunião (não agendada)</option>
+                    {plannedMeetings.map((meeting) => (
+                      <option key={meeting.id} value={meeting.id}>
+                        {meeting.type} - {new Date(meeting.datetime).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Tipo de Reunião
@@ -173,9 +273,40 @@ export default function AddMeetingModal({ clientId, clientName, onClose, onSucce
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Transcrição da Reunião
-                </label>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Transcrição da Reunião
+                  </label>
+                  <label className={`inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 cursor-pointer ${importing || loading ? 'opacity-50 pointer-events-none' : ''}`}>
+                    {importing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+                    {importing ? 'Importando...' : 'Importar arquivo'}
+                    <input
+                      type="file"
+                      accept={SUPPORTED_TRANSCRIPT_EXTENSIONS.join(',')}
+                      onChange={handleFileImport}
+                      className="hidden"
+                      disabled={importing || loading}
+                    />
+                  </label>
+                </div>
+                {importedTranscript && (
+                  <div className="flex items-center justify-between gap-2 mb-2 px-3 py-2 bg-blue-50 border border-blue-200 rounded-lg text-xs text-blue-900">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <FileText className="w-4 h-4 flex-shrink-0" />
+                      <span className="truncate">
+                        {importedTranscript.file_name} • {importedTranscript.segments.length} trecho(s)
+                        {importedTranscript.speakers.length > 0 && ` • ${importedTranscript.speakers.join(', ')}`}
+                      </span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={handleClearImport}
+                      className="text-blue-700 hover:text-blue-900 flex-shrink-0"
+                    >
+                      Remover
+                    </button>
+                  </div>
+                )}
                 <textarea
                   value={transcript}
                   onChange={(e) => setTranscript(e.target.value)}
@@ -185,10 +316,27 @@ export default function AddMeetingModal({ clientId, clientName, onClose, onSucce
                   required
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Cole o conteúdo do arquivo .txt da transcrição
+                  Cole o texto ou importe a exportação do Meet, Zoom ou Teams ({SUPPORTED_TRANSCRIPT_EXTENSIONS.join(', ')})
                 </p>
               </div>
 
+              {loading && (
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                  <div className="flex items-center justify-between text-sm text-blue-900 mb-2">
+                    <span>{getProgressLabel(progress)}</span>
+                    {progress?.stage === 'extracting' && (
+                      <span className="text-xs text-blue-700">Transcrição longa</span>
+                    )}
+                  </div>
+                  <div className="w-full bg-blue-100 rounded-full h-2">
+                    <div
+                      className="bg-blue-600 h-2 rounded-full transition-all"
+                      style={{ width: `${getProgressPercent(progress)}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"
@@ -256,6 +404,11 @@ export default function AddMeetingModal({ clientId, clientName, onClose, onSucce
                     </div>
                   ))}
                 </div>
+                {summary.suggested_tasks.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    As tarefas sugeridas ficam salvas como rascunho no painel do cliente até serem confirmadas.
+                  </p>
+                )}
               </div>
 
               {summary.risk_signals && summary.risk_signals !== 'Nenhum sinal identificado' && (
@@ -7,7 +7,7 @@ import PromptEditor from './PromptEditor';
 import PlanSelector from './PlanSelector';
 import SubscriptionManager from './SubscriptionManager';
 import MeetingTypesManager from './MeetingTypesManager';
-import { testOpenAIConnection } from '../lib/openai';
+import { testLLMConnection } from '../lib/llm';
 
 interface AdminPanelProps {
   onClose: () => void;
@@ -120,13 +120,13 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
     setTesting(true);
     setTestResult(null);
     try {
-      const result = await testOpenAIConnection();
+      const result = await testLLMConnection();
       if (result.success) {
         setTestResult({
           success: true,
-          message: `Conexão bem-sucedida! Modelo: ${result.model}`
+          message: `Conexão bem-sucedida! ${result.provider} • Modelo: ${result.model}`
         });
-        showToast('Conexão com OpenAI funcionando!', 'success');
+        showToast(`Conexão com ${result.provider} funcionando!`, 'success');
       } else {
         setTestResult({
           success: false,
@@ -1,20 +1,31 @@
 import { useEffect, useState } from 'react';
-import { Calendar, Eye, Trash2, Mail, ArrowLeft, User, CheckCircle, AlertTriangle, FileText } from 'lucide-react';
+import { Calendar, Eye, Trash2, Mail, ArrowLeft, User, CheckCircle, AlertTriangle, FileText, Search, Loader2, X, Clock, UserX, CalendarClock, CalendarPlus } from 'lucide-react';
 import * as Icons from 'lucide-react';
-import { getAllMeetings, deleteMeeting } from '../services/meetingService';
+import { getAllMeetings, deleteMeeting, updateMeetingStatus, rescheduleMeeting, type MeetingWithClient } from '../services/meetingService';
+import { getOverdueFollowUps, type OverdueFollowUp } from '../services/followUpService';
 import { draftEmail } from '../services/emailService';
+import { downloadMeetingInvitation } from '../services/calendarService';
+import { searchMeetings, type MeetingSearchResult } from '../services/embeddingService';
 import { getAllMeetingTypes, type MeetingTypeDetails } from '../services/meetingTypeService';
 import { useToast } from '../lib/toast';
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/database.types';
 import EmailPreviewModal from './EmailPreviewModal';
+import SummaryVersionsPanel from './SummaryVersionsPanel';
 
-type Meeting = Database['public']['Tables']['meetings']['Row'];
 type Client = Database['public']['Tables']['clients']['Row'];
+type MeetingStatus = Database['public']['Tables']['meetings']['Row']['status'];
 
-interface MeetingWithClient extends Meeting {
-  client: Client;
-}
+const STATUS_BADGES: Record<Exclude<MeetingStatus, 'done'>, { label: string; className: string }> = {
+  planned: { label: 'Agendada', className: 'bg-blue-50 text-blue-700' },
+  no_show: { label: 'Não compareceu', className: 'bg-red-50 text-red-700' },
+  rescheduled: { label: 'Remarcada', className: 'bg-gray-100 text-gray-600' },
+};
+
+const OVERDUE_REASONS: Record<OverdueFollowUp['reason'], string> = {
+  not_recorded: 'agendada e não registrada',
+  not_scheduled: 'cadência sem reunião agendada',
+};
 
 interface AllMeetingsViewProps {
   selectedClientId: string | null;
@@ -30,13 +41,67 @@ export default function AllMeetingsView({ selectedClientId, onSelectClient, onCl
   const [generatingEmail, setGeneratingEmail] = useState(false);
   const [emailPreview, setEmailPreview] = useState<{ subject: string; html_body: string } | null>(null);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [searchResults, setSearchResults] = useState<MeetingSearchResult[] | null>(null);
+  const [overdue, setOverdue] = useState<OverdueFollowUp[]>([]);
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
+  const [rescheduleDatetime, setRescheduleDatetime] = useState('');
   const { showToast } = useToast();
 
   useEffect(() => {
     loadMeetingTypes();
     loadMeetings();
+    loadOverdue();
+    setSearchResults(null);
   }, [selectedClientId]);
 
+  const loadOverdue = async () => {
+    try {
+      const data = await getOverdueFollowUps();
+      setOverdue(selectedClientId ? data.filter(item => item.client_id === selectedClientId) : data);
+    } catch (error) {
+      console.error('Error loading overdue follow-ups:', error);
+    }
+  };
+
+  const handleStatusChange = async (meetingId: string, status: 'done' | 'no_show', e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await updateMeetingStatus(meetingId, status);
+      showToast(status === 'done' ? 'Reunião marcada como realizada' : 'Ausência registrada', 'success');
+      await Promise.all([loadMeetings(), loadOverdue()]);
+    } catch (error) {
+      console.error('Error updating meeting status:', error);
+      showToast('Erro ao atualizar reunião', 'error');
+    }
+  };
+
+  const handleReschedule = async (meetingId: string) => {
+    if (!rescheduleDatetime) return;
+
+    try {
+      await rescheduleMeeting(meetingId, new Date(rescheduleDatetime).toISOString());
+      showToast('Reunião remarcada', 'success');
+      setReschedulingId(null);
+      setRescheduleDatetime('');
+      await Promise.all([loadMeetings(), loadOverdue()]);
+    } catch (error: any) {
+      console.error('Error rescheduling meeting:', error);
+      showToast(error?.message || 'Erro ao remarcar reunião', 'error');
+    }
+  };
+
+  const handleDownloadInvitation = async (meetingId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await downloadMeetingInvitation(meetingId);
+    } catch (error: any) {
+      console.error('Error generating meeting invitation:', error);
+      showToast(error?.message || 'Erro ao gerar convite', 'error');
+    }
+  };
+
   const loadMeetingTypes = async () => {
     try {
       const types = await getAllMeetingTypes();
@@ -94,7 +159,10 @@ export default function AllMeetingsView({ selectedClientId, onSelectClient, onCl
         filteredMeetings = data.filter(meeting => meeting.client_id === selectedClientId);
       }
 
-      setMeetings((filteredMeetings as any) || []);
+      setMeetings(filteredMeetings);
+      setSelectedMeeting(prev =>
+        prev ? filteredMeetings.find(meeting => meeting.id === prev.id) || null : prev
+      );
     } catch (error) {
       console.error('Error loading meetings:', error);
       showToast('Erro ao carregar reuniões', 'error');
@@ -135,6 +203,36 @@ export default function AllMeetingsView({ selectedClientId, onSelectClient, onCl
     }
   };
 
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchQuery.trim()) return;
+
+    setSearching(true);
+    try {
+      const results = await searchMeetings(searchQuery, { clientId: selectedClientId });
+      setSearchResults(results);
+    } catch (error: any) {
+      console.error('Error searching meetings:', error);
+      showToast(error?.message || 'Erro ao buscar nas reuniões', 'error');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleClearSearch = () => {
+    setSearchQuery('');
+    setSearchResults(null);
+  };
+
+  const handleOpenSearchResult = (result: MeetingSearchResult) => {
+    const meeting = meetings.find(m => m.id === result.meeting_id);
+    if (meeting) {
+      setSelectedMeeting(meeting);
+    } else {
+      showToast('Reunião não encontrada na lista atual', 'error');
+    }
+  };
+
   const handleGenerateEmail = async () => {
     if (!selectedMeeting) return;
 
@@ -177,6 +275,37 @@ export default function AllMeetingsView({ selectedClientId, onSelectClient, onCl
           ) : (
             <h2 className="text-xl font-semibold text-gray-900">Todas as Reuniões</h2>
           )}
+
+          <form onSubmit={handleSearch} className="mt-4 flex gap-2">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Busca semântica: ex. clientes que falaram de previdência e se preocupam com custo"
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={searching || !searchQuery.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-2 text-sm"
+            >
+              {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+              Buscar
+            </button>
+            {searchResults && (
+              <button
+                type="button"
+                onClick={handleClearSearch}
+                className="p-2 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Limpar busca"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </form>
         </div>
 
         <div className="flex-1 overflow-y-auto p-6">
@@ -184,12 +313,84 @@ export default function AllMeetingsView({ selectedClientId, onSelectClient, onCl
             <div className="flex items-center justify-center h-32">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
             </div>
-          ) : meetings.length === 0 ? (
+          ) : searchResults ? (
+            searchResults.length === 0 ? (
+              <div className="text-center text-gray-500 mt-8">
+                Nenhum trecho relevante encontrado para "{searchQuery}"
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-500">
+                  {searchResults.length} trecho(s) relevante(s) para "{searchQuery}"
+                </p>
+                {searchResults.map((result) => (
+                  <button
+                    key={result.id}
+                    onClick={() => handleOpenSearchResult(result)}
+                    className={`w-full text-left border rounded-lg p-4 transition-all duration-200 ${
+                      selectedMeeting?.id === result.meeting_id
+                        ? 'bg-blue-50 border-blue-300 shadow-md'
+                        : 'bg-white border-gray-200 hover:border-blue-200 hover:shadow-sm'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-gray-900">{result.client_name}</span>
+                        <span
+                          className="inline-flex items-center gap-1.5 px-2.5 py-0.5 rounded-full text-xs font-medium"
+                          style={{
+                            backgroundColor: meetingTypes[result.meeting_type]?.color + '20' || '#3B82F620',
+                            color: meetingTypes[result.meeting_type]?.color || '#3B82F6'
+                          }}
+                        >
+                          {meetingTypes[result.meeting_type] && renderIcon(meetingTypes[result.meeting_type].icon)}
+                          {getMeetingTypeLabel(result.meeting_type)}
+                        </span>
+                      </div>
+                      <span className="text-xs font-medium text-blue-700">
+                        {Math.round(result.similarity * 100)}% relevante
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs text-gray-500 mb-2">
+                      <Calendar className="w-3 h-3" />
+                      {formatDateTime(result.meeting_datetime)}
+                    </div>
+                    <p className="text-sm text-gray-700 leading-relaxed">{result.snippet}</p>
+                  </button>
+                ))}
+              </div>
+            )
+          ) : meetings.length === 0 && overdue.length === 0 ? (
             <div className="text-center text-gray-500 mt-8">
               Nenhuma reunião registrada
             </div>
           ) : (
             <div className="space-y-3">
+              {overdue.length > 0 && (
+                <div className="border border-red-200 bg-red-50 rounded-lg p-4">
+                  <h3 className="text-sm font-semibold text-red-800 flex items-center gap-2 mb-2">
+                    <Clock className="w-4 h-4" />
+                    Follow-ups atrasados ({overdue.length})
+                  </h3>
+                  <div className="space-y-1">
+                    {overdue.map(item => (
+                      <button
+                        key={`${item.client_id}-${item.meeting_id || item.meeting_type}`}
+                        onClick={() => onSelectClient(item.client_id)}
+                        className="w-full flex items-center justify-between gap-2 text-sm text-left hover:bg-red-100 rounded px-2 py-1"
+                      >
+                        <span className="text-gray-900 truncate">
+                          {item.client_name} · {getMeetingTypeLabel(item.meeting_type)}
+                          <span className="text-xs text-gray-500"> ({OVERDUE_REASONS[item.reason]})</span>
+                        </span>
+                        <span className="text-xs text-red-700 font-medium flex-shrink-0">
+                          {item.days_overdue} dia(s) de atraso
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
               {meetings.map((meeting) => {
                 const decisionsCount = meeting.decisions ? (Array.isArray(meeting.decisions) ? meeting.decisions.length : 0) : 0;
                 const hasRiskSignals = meeting.risk_signals && meeting.risk_signals !== 'Nenhum sinal identificado';
@@ -234,6 +435,11 @@ export default function AllMeetingsView({ selectedClientId, onSelectClient, onCl
                               {meetingTypes[meeting.type] && renderIcon(meetingTypes[meeting.type].icon)}
                               {getMeetingTypeLabel(meeting.type)}
                             </span>
+                            {meeting.status !== 'done' && (
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[meeting.status].className}`}>
+                                {STATUS_BADGES[meeting.status].label}
+                              </span>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -277,6 +483,71 @@ export default function AllMeetingsView({ selectedClientId, onSelectClient, onCl
                       </div>
                     </button>
 
+                    {(meeting.status === 'planned' || meeting.status === 'no_show') && (
+                      <div className="px-5 pb-4 flex items-center gap-2 flex-wrap">
+                        {meeting.status === 'planned' && (
+                          <>
+                            <button
+                              onClick={(e) => handleStatusChange(meeting.id, 'done', e)}
+                              className="flex items-center gap-1 px-2.5 py-1 text-xs bg-green-50 text-green-700 rounded hover:bg-green-100"
+                            >
+                              <CheckCircle className="w-3.5 h-3.5" />
+                              Realizada
+                            </button>
+                            <button
+                              onClick={(e) => handleStatusChange(meeting.id, 'no_show', e)}
+                              className="flex items-center gap-1 px-2.5 py-1 text-xs bg-red-50 text-red-700 rounded hover:bg-red-100"
+                            >
+                              <UserX className="w-3.5 h-3.5" />
+                              Não compareceu
+                            </button>
+                            <button
+                              onClick={(e) => handleDownloadInvitation(meeting.id, e)}
+                              className="flex items-center gap-1 px-2.5 py-1 text-xs bg-blue-50 text-blue-700 rounded hover:bg-blue-100"
+                              title="Arquivo .ics para anexar ao email de convite do cliente"
+                            >
+                              <CalendarPlus className="w-3.5 h-3.5" />
+                              Convite (.ics)
+                            </button>
+                          </>
+                        )}
+                        {reschedulingId === meeting.id ? (
+                          <>
+                            <input
+                              type="datetime-local"
+                              value={rescheduleDatetime}
+                              onChange={(e) => setRescheduleDatetime(e.target.value)}
+                              className="px-2 py-1 border border-gray-300 rounded text-xs"
+                            />
+                            <button
+                              onClick={() => handleReschedule(meeting.id)}
+                              disabled={!rescheduleDatetime}
+                              className="px-2.5 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                            >
+                              Confirmar
+                            </button>
+                            <button
+                              onClick={() => setReschedulingId(null)}
+                              className="px-2 py-1 text-xs text-gray-600 hover:text-gray-900"
+                            >
+                              Cancelar
+                            </button>
+                          </>
+                        ) : (
+                          <button
+                            onClick={() => {
+                              setReschedulingId(meeting.id);
+                              setRescheduleDatetime('');
+                            }}
+                            className="flex items-center gap-1 px-2.5 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                          >
+                            <CalendarClock className="w-3.5 h-3.5" />
+                            Remarcar
+                          </button>
+                        )}
+                      </div>
+                    )}
+
                     <button
                       onClick={(e) => handleDeleteMeeting(meeting.id, e)}
                       className="absolute top-4 right-4 p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -376,6 +647,12 @@ export default function AllMeetingsView({ selectedClientId, onSelectClient, onCl
               </div>
             )}
 
+            <SummaryVersionsPanel
+              meetingId={selectedMeeting.id}
+              hasTranscript={!!selectedMeeting.transcript_text}
+              onPromoted={loadMeetings}
+            />
+
             {selectedMeeting.transcript_text && (
               <div>
                 <h4 className="font-semibold text-gray-900 mb-2">Transcrição</h4>
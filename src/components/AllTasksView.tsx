@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
-import { CheckCircle2, Edit2, Trash2, AlertCircle, Save, X, ArrowLeft, User, LayoutGrid, List } from 'lucide-react';
+import { CheckCircle2, Edit2, Trash2, AlertCircle, Save, X, ArrowLeft, User, LayoutGrid, List, Lock, Unlock } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { getAllTasks, updateTaskStatus } from '../services/taskService';
+import { getAllTasks, updateTaskStatus, setTaskBlocked } from '../services/taskService';
 import { useToast } from '../lib/toast';
 import type { Database } from '../lib/database.types';
 import KanbanBoard from './KanbanBoard';
@@ -102,6 +102,23 @@ export default function AllTasksView({ selectedClientId, onSelectClient, onClear
     }
   };
 
+  const handleToggleBlocked = async (task: Task) => {
+    let reason: string | undefined;
+    if (!task.blocked) {
+      const answer = prompt('Motivo do bloqueio (opcional):');
+      if (answer === null) return;
+      reason = answer;
+    }
+
+    try {
+      await setTaskBlocked(task.id, !task.blocked, reason);
+      loadTasks();
+      showToast(task.blocked ? 'Tarefa desbloqueada' : 'Tarefa bloqueada', 'success');
+    } catch (error) {
+      showToast('Erro ao atualizar tarefa', 'error');
+    }
+  };
+
   const handleEdit = (task: Task) => {
     setEditingTask(task.id);
     setEditForm(task);
@@ -388,6 +405,12 @@ export default function AllTasksView({ selectedClientId, onSelectClient, onClear
                             {task.description && (
                               <p className="text-sm text-gray-600 mt-1">{task.description}</p>
                             )}
+                            {task.blocked && (
+                              <p className="text-xs text-orange-700 mt-1 flex items-center gap-1">
+                                <Lock className="w-3 h-3" />
+                                Bloqueada{task.blocked_reason ? `: ${task.blocked_reason}` : ''}
+                              </p>
+                            )}
                             <div className="flex items-center gap-3 mt-2 text-xs text-gray-500">
                               {!selectedClientId && (
                                 <>
@@ -410,6 +433,13 @@ export default function AllTasksView({ selectedClientId, onSelectClient, onClear
                           {overdue && (
                             <AlertCircle className="w-5 h-5 text-red-600" />
                           )}
+                          <button
+                            onClick={() => handleToggleBlocked(task)}
+                            className="p-2 text-orange-600 hover:bg-orange-50 rounded-lg"
+                            title={task.blocked ? 'Desbloquear' : 'Bloquear'}
+                          >
+                            {task.blocked ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+                          </button>
                           <button
                             onClick={() => handleEdit(task)}
                             className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { CalendarDays, Copy, CheckCircle, RefreshCw, Download, Loader2 } from 'lucide-react';
+import {
+  getCalendarFeed,
+  regenerateCalendarFeedToken,
+  updateCalendarFeedIncludeTasks,
+  downloadUserCalendar,
+  type CalendarFeedDetails,
+} from '../services/calendarService';
+import { useToast } from '../lib/toast';
+
+export default function CalendarSettings() {
+  const { showToast } = useToast();
+  const [feed, setFeed] = useState<CalendarFeedDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [regenerating, setRegenerating] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    loadFeed();
+  }, []);
+
+  const loadFeed = async () => {
+    setLoading(true);
+    try {
+      setFeed(await getCalendarFeed());
+    } catch (error) {
+      console.error('Error loading calendar feed:', error);
+      showToast('Erro ao carregar link da agenda', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      setCopied(true);
+      showToast('Link copiado para a área de transferência', 'success');
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      showToast('Erro ao copiar link', 'error');
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!confirm('Gerar um novo link? Calendários inscritos com o link atual deixarão de ser atualizados.')) {
+      return;
+    }
+
+    setRegenerating(true);
+    try {
+      setFeed(await regenerateCalendarFeedToken());
+      showToast('Novo link gerado', 'success');
+    } catch (error) {
+      console.error('Error regenerating calendar feed token:', error);
+      showToast('Erro ao gerar novo link', 'error');
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  const handleToggleTasks = async (includeTasks: boolean) => {
+    if (!feed) return;
+    try {
+      await updateCalendarFeedIncludeTasks(includeTasks);
+      setFeed({ ...feed, include_tasks: includeTasks });
+    } catch (error) {
+      console.error('Error updating calendar feed:', error);
+      showToast('Erro ao atualizar agenda', 'error');
+    }
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadUserCalendar(feed?.include_tasks ?? true);
+    } catch (error) {
+      console.error('Error downloading calendar:', error);
+      showToast('Erro ao exportar agenda', 'error');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <CalendarDays className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Agenda</h3>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Assine este link no Google Agenda ("Outras agendas" → "Do URL") ou no Outlook ("Adicionar calendário" → "Assinar da Web")
+        para ver as reuniões agendadas e os prazos de tarefas junto com seus outros compromissos.
+      </p>
+
+      {feed && (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={feed.url}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono text-gray-700 bg-gray-50"
+            />
+            <button
+              onClick={handleCopy}
+              className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors flex items-center gap-2"
+            >
+              {copied ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              {copied ? 'Copiado!' : 'Copiar'}
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>
+              {feed.last_accessed_at
+                ? `Última sincronização: ${new Date(feed.last_accessed_at).toLocaleString('pt-BR')}`
+                : 'Nenhum calendário sincronizou este link ainda'}
+            </span>
+            <button
+              onClick={handleRegenerate}
+              disabled={regenerating}
+              className="flex items-center gap-1 text-red-600 hover:text-red-700 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-3.5 h-3.5 ${regenerating ? 'animate-spin' : ''}`} />
+              Gerar novo link
+            </button>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={feed.include_tasks}
+              onChange={(e) => handleToggleTasks(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded"
+            />
+            Incluir prazos de tarefas
+          </label>
+
+          <p className="text-xs text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+            Quem tiver este link pode ver sua agenda. Se ele for compartilhado por engano, gere um novo link.
+          </p>
+        </div>
+      )}
+
+      <div className="border-t border-gray-200 pt-4">
+        <button
+          onClick={handleDownload}
+          disabled={downloading}
+          className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 border border-gray-300 hover:bg-gray-50 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {downloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Baixar agenda (.ics)
+        </button>
+        <p className="text-xs text-gray-500 mt-1">
+          Importação única, para calendários que não aceitam assinatura por link.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from 'react';
-import { Send, Loader2 } from 'lucide-react';
+import { Send, Loader2, Square } from 'lucide-react';
 import { sendChatMessage, getConversationHistory, type ChatMessage } from '../services/chatService';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../lib/toast';
@@ -14,7 +14,9 @@ export default function ChatInterface({ selectedClientId, onRefresh }: ChatInter
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadingHistory, setLoadingHistory] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { user, subscription } = useAuth();
   const { showToast } = useToast();
 
@@ -26,6 +28,12 @@ export default function ChatInterface({ selectedClientId, onRefresh }: ChatInter
     }
   }, [selectedClientId]);
 
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, [selectedClientId]);
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
@@ -57,31 +65,66 @@ export default function ChatInterface({ selectedClientId, onRefresh }: ChatInter
     setInput('');
     setLoading(true);
 
+    const assistantMessageId = `response-${Date.now()}`;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const upsertAssistantMessage = (content: string, sources?: ChatMessage['sources']) => {
+      setMessages(prev => {
+        const existing = prev.find(m => m.id === assistantMessageId);
+        if (existing) {
+          return prev.map(m => (m.id === assistantMessageId ? { ...m, content, sources: sources ?? m.sources } : m));
+        }
+        return [...prev, {
+          id: assistantMessageId,
+          role: 'assistant',
+          content,
+          timestamp: new Date().toISOString(),
+          sources,
+        }];
+      });
+    };
+
     try {
-      const { response } = await sendChatMessage(
+      const { response, sources, cancelled } = await sendChatMessage(
         user.id,
         selectedClientId,
         userMessage.content,
-        messages
+        messages,
+        {
+          signal: controller.signal,
+          onToken: (partialResponse) => {
+            setStreamingMessageId(assistantMessageId);
+            upsertAssistantMessage(partialResponse);
+          },
+        }
       );
 
-      const assistantMessage: ChatMessage = {
-        id: `response-${Date.now()}`,
-        role: 'assistant',
-        content: response,
-        timestamp: new Date().toISOString(),
-      };
+      if (cancelled && !response) {
+        setMessages(prev => prev.filter(m => m.id !== userMessage.id && m.id !== assistantMessageId));
+        setInput(userMessage.content);
+        return;
+      }
 
-      setMessages(prev => [...prev, assistantMessage]);
+      upsertAssistantMessage(response, sources);
+      if (cancelled) {
+        showToast('Resposta interrompida', 'info');
+      }
       onRefresh();
     } catch (error: any) {
       showToast(error?.message || 'Erro ao enviar mensagem', 'error');
-      setMessages(prev => prev.filter(m => m.id !== userMessage.id));
+      setMessages(prev => prev.filter(m => m.id !== userMessage.id && m.id !== assistantMessageId));
     } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
       setLoading(false);
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -166,7 +209,24 @@ export default function ChatInterface({ selectedClientId, onRefresh }: ChatInter
                       : 'bg-gray-100 text-gray-900'
                   }`}
                 >
-                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  <p className="text-sm whitespace-pre-wrap">
+                    {message.content}
+                    {message.id === streamingMessageId && (
+                      <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-500 animate-pulse" />
+                    )}
+                  </p>
+                  {message.sources && message.sources.length > 0 && (
+                    <div className="mt-3 pt-2 border-t border-gray-200 space-y-1">
+                      <p className="text-xs font-medium text-gray-600">Fontes</p>
+                      {message.sources.map((source) => (
+                        <div key={source.id} className="text-xs text-gray-600" title={source.excerpt}>
+                          <span className="font-mono font-medium text-blue-700">[{source.id}]</span>{' '}
+                          <span className="font-medium">{source.label}</span>
+                          <span className="text-gray-500"> — {source.excerpt.length > 120 ? `${source.excerpt.substring(0, 120)}...` : source.excerpt}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   <p className={`text-xs mt-1 ${
                     message.role === 'user' ? 'text-blue-100' : 'text-gray-500'
                   }`}>
@@ -178,7 +238,7 @@ export default function ChatInterface({ selectedClientId, onRefresh }: ChatInter
                 </div>
               </div>
             ))}
-            {loading && (
+            {loading && !streamingMessageId && (
               <div className="flex justify-start">
                 <div className="bg-gray-100 rounded-lg px-4 py-3">
                   <Loader2 className="w-5 h-5 text-gray-600 animate-spin" />
@@ -205,17 +265,23 @@ export default function ChatInterface({ selectedClientId, onRefresh }: ChatInter
             className="flex-1 px-4 py-2 border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
             rows={2}
           />
-          <button
-            onClick={handleSend}
-            disabled={!selectedClientId || !input.trim() || loading}
-            className="px-6 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-          >
-            {loading ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
+          {loading ? (
+            <button
+              onClick={handleStop}
+              className="px-6 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors flex items-center gap-2"
+              title="Parar resposta"
+            >
+              <Square className="w-4 h-4" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!selectedClientId || !input.trim()}
+              className="px-6 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
               <Send className="w-4 h-4" />
-            )}
-          </button>
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,353 @@
+import { useState } from 'react';
+import { X, Upload, FileSpreadsheet, Loader2, CheckCircle, AlertTriangle, XCircle, Copy, ArrowLeft } from 'lucide-react';
+import {
+  parseImportFile,
+  suggestColumnMapping,
+  validateColumnMapping,
+  buildImportReport,
+  getImportableRows,
+  importClients,
+  customFieldKey,
+  IMPORT_FIELDS,
+  SUPPORTED_IMPORT_EXTENSIONS,
+  MAX_IMPORT_ROWS,
+  type ParsedImportFile,
+  type ImportColumnTarget,
+  type ImportReport,
+  type ImportRow,
+  type ImportResult,
+  type DuplicateMatch,
+} from '../services/clientImportService';
+import { useToast } from '../lib/toast';
+
+interface ClientImportWizardProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type WizardStep = 'upload' | 'mapping' | 'report' | 'done';
+
+type RowFilter = 'all' | 'ready' | 'duplicate' | 'invalid';
+
+const CUSTOM_TARGET = '__custom__';
+
+const DUPLICATE_LABELS: Record<DuplicateMatch, string> = {
+  document: 'mesmo CPF/CNPJ',
+  email: 'mesmo e-mail',
+  phone: 'mesmo telefone',
+  name: 'mesmo nome',
+};
+
+function rowState(row: ImportRow): Exclude<RowFilter, 'all'> {
+  if (row.errors.length > 0) return 'invalid';
+  if (row.duplicate) return 'duplicate';
+  return 'ready';
+}
+
+export default function ClientImportWizard({ onClose, onImported }: ClientImportWizardProps) {
+  const { showToast } = useToast();
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [file, setFile] = useState<ParsedImportFile | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnTarget[]>([]);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [rowFilter, setRowFilter] = useState<RowFilter>('all');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    setWorking(true);
+    try {
+      const parsed = await parseImportFile(selected);
+      setFile(parsed);
+      setMapping(suggestColumnMapping(parsed.headers));
+      setStep('mapping');
+    } catch (error: any) {
+      console.error('Error reading import file:', error);
+      showToast(error?.message || 'Erro ao ler arquivo', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const updateMapping = (index: number, value: string) => {
+    const next = [...mapping];
+    next[index] = value === ''
+      ? null
+      : value === CUSTOM_TARGET
+        ? `custom:${customFieldKey(file!.headers[index])}`
+        : value as ImportColumnTarget;
+    setMapping(next);
+  };
+
+  const handleValidate = async () => {
+    if (!file) return;
+
+    const mappingError = validateColumnMapping(mapping);
+    if (mappingError) {
+      showToast(mappingError, 'error');
+      return;
+    }
+
+    setWorking(true);
+    try {
+      setReport(await buildImportReport(file, mapping));
+      setRowFilter('all');
+      setStep('report');
+    } catch (error: any) {
+      console.error('Error validating import:', error);
+      showToast(error?.message || 'Erro ao validar arquivo', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!report) return;
+
+    setWorking(true);
+    try {
+      const imported = await importClients(report, { include_duplicates: includeDuplicates });
+      setResult(imported);
+      setStep('done');
+      onImported();
+    } catch (error: any) {
+      console.error('Error importing clients:', error);
+      showToast(`Nenhum cliente foi importado: ${error?.message || 'erro desconhecido'}`, 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const importableCount = report ? getImportableRows(report, { include_duplicates: includeDuplicates }).length : 0;
+  const visibleRows = report ? report.rows.filter(row => rowFilter === 'all' || rowState(row) === rowFilter) : [];
+  const sampleValue = (index: number) => file?.rows.find(row => row[index])?.[index] || '';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <FileSpreadsheet className="w-6 h-6 text-blue-600" />
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Importar Clientes</h2>
+              {file && <p className="text-sm text-gray-500">{file.file_name} · {file.rows.length} linha(s)</p>}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Fechar"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center gap-3 border-2 border-dashed border-gray-300 rounded-lg py-16 cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-colors">
+              {working ? <Loader2 className="w-10 h-10 text-blue-600 animate-spin" /> : <Upload className="w-10 h-10 text-gray-400" />}
+              <span className="text-sm font-medium text-gray-700">
+                {working ? 'Lendo arquivo...' : 'Selecione uma planilha CSV ou XLSX'}
+              </span>
+              <span className="text-xs text-gray-500">
+                A primeira linha deve conter os nomes das colunas · até {MAX_IMPORT_ROWS} clientes · 5 MB
+              </span>
+              <input
+                type="file"
+                accept={SUPPORTED_IMPORT_EXTENSIONS.join(',')}
+                onChange={handleFileSelected}
+                className="hidden"
+                disabled={working}
+              />
+            </label>
+          )}
+
+          {step === 'mapping' && file && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Associe cada coluna do arquivo a um campo do cliente. Colunas sem correspondência podem virar campos personalizados ou ser ignoradas.
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Coluna do arquivo</th>
+                    <th className="py-2 pr-4 font-medium">Exemplo</th>
+                    <th className="py-2 font-medium">Campo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {file.headers.map((header, index) => {
+                    const target = mapping[index];
+                    const selectValue = target?.startsWith('custom:') ? CUSTOM_TARGET : target || '';
+                    return (
+                      <tr key={index} className="border-b border-gray-100">
+                        <td className="py-2 pr-4 font-medium text-gray-900">{header}</td>
+                        <td className="py-2 pr-4 text-gray-500 truncate max-w-[200px]">{sampleValue(index)}</td>
+                        <td className="py-2">
+                          <select
+                            value={selectValue}
+                            onChange={(e) => updateMapping(index, e.target.value)}
+                            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                          >
+                            <option value="">Ignorar coluna</option>
+                            <optgroup label="Cliente">
+                              {IMPORT_FIELDS.filter(field => field.target === 'client').map(field => (
+                                <option key={field.key} value={field.key}>{field.label}</option>
+                              ))}
+                            </optgroup>
+                            <optgroup label="Dados completos">
+                              {IMPORT_FIELDS.filter(field => field.target === 'metadata').map(field => (
+                                <option key={field.key} value={field.key}>{field.label}</option>
+                              ))}
+                            </optgroup>
+                            <option value={CUSTOM_TARGET}>Campo personalizado ({customFieldKey(header)})</option>
+                          </select>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {step === 'report' && report && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-4 gap-3">
+                {([
+                  { filter: 'all', label: 'Linhas', value: report.total, className: 'text-gray-900' },
+                  { filter: 'ready', label: 'Prontos', value: report.valid, className: 'text-green-700' },
+                  { filter: 'duplicate', label: 'Duplicados', value: report.duplicates, className: 'text-yellow-700' },
+                  { filter: 'invalid', label: 'Com erro', value: report.invalid, className: 'text-red-700' },
+                ] as const).map(card => (
+                  <button
+                    key={card.filter}
+                    onClick={() => setRowFilter(card.filter)}
+                    className={`text-left border rounded-lg p-3 transition-colors ${
+                      rowFilter === card.filter ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <p className="text-xs text-gray-500">{card.label}</p>
+                    <p className={`text-2xl font-semibold ${card.className}`}>{card.value}</p>
+                  </button>
+                ))}
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Simulação: nenhum dado foi gravado. Linhas com erro não são importadas; corrija a planilha e envie novamente.
+              </p>
+
+              {report.duplicates > 0 && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={includeDuplicates}
+                    onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded"
+                  />
+                  Importar também os {report.duplicates} duplicado(s) como novos clientes
+                </label>
+              )}
+
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {visibleRows.length === 0 ? (
+                  <p className="p-4 text-sm text-gray-500 text-center">Nenhuma linha nesta categoria</p>
+                ) : (
+                  visibleRows.map(row => {
+                    const state = rowState(row);
+                    return (
+                      <div key={row.row_number} className="px-4 py-2.5 flex items-start gap-3 text-sm">
+                        {state === 'ready' && <CheckCircle className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />}
+                        {state === 'duplicate' && <Copy className="w-4 h-4 text-yellow-600 mt-0.5 flex-shrink-0" />}
+                        {state === 'invalid' && <XCircle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />}
+                        <span className="text-xs text-gray-400 w-14 flex-shrink-0 mt-0.5">Linha {row.row_number}</span>
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-gray-900">
+                            {row.client.name || <span className="italic text-gray-400">sem nome</span>}
+                            {row.client.email && <span className="font-normal text-gray-500"> · {row.client.email}</span>}
+                          </p>
+                          {row.errors.map((message, index) => (
+                            <p key={`e${index}`} className="text-xs text-red-600">{message}</p>
+                          ))}
+                          {row.duplicate && (
+                            <p className="text-xs text-yellow-700">
+                              Duplicado de {row.duplicate.client_id ? `"${row.duplicate.name}" (já cadastrado)` : `linha ${row.duplicate.row_number}`} · {DUPLICATE_LABELS[row.duplicate.matched_on]}
+                            </p>
+                          )}
+                          {row.warnings.map((message, index) => (
+                            <p key={`w${index}`} className="text-xs text-gray-500 flex items-center gap-1">
+                              <AlertTriangle className="w-3 h-3" />
+                              {message}
+                            </p>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && result && (
+            <div className="flex flex-col items-center justify-center gap-3 py-12 text-center">
+              <CheckCircle className="w-12 h-12 text-green-600" />
+              <p className="text-lg font-semibold text-gray-900">{result.imported} cliente(s) importado(s)</p>
+              {result.skipped > 0 && (
+                <p className="text-sm text-gray-600">{result.skipped} linha(s) ignorada(s) por erro ou duplicidade</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between p-6 border-t border-gray-200 bg-gray-50">
+          <div>
+            {(step === 'mapping' || step === 'report') && (
+              <button
+                onClick={() => setStep(step === 'report' ? 'mapping' : 'upload')}
+                disabled={working}
+                className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-200 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Voltar
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              {step === 'done' ? 'Fechar' : 'Cancelar'}
+            </button>
+            {step === 'mapping' && (
+              <button
+                onClick={handleValidate}
+                disabled={working}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+              >
+                {working && <Loader2 className="w-4 h-4 animate-spin" />}
+                Validar (simulação)
+              </button>
+            )}
+            {step === 'report' && (
+              <button
+                onClick={handleImport}
+                disabled={working || importableCount === 0}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+              >
+                {working && <Loader2 className="w-4 h-4 animate-spin" />}
+                Importar {importableCount} cliente(s)
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
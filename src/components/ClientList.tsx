@@ -1,7 +1,20 @@
 import { useEffect, useState } from 'react';
-import { Users, AlertCircle, Clock, Plus, Search } from 'lucide-react';
+import { Users, AlertCircle, Clock, Plus, Search, Upload } from 'lucide-react';
 import { listClients, createClient } from '../services/clientService';
+import { getRiskScoringConfig, classifyRiskScore, DEFAULT_RISK_SCORING_CONFIG, type RiskClassification, type RiskScoringConfig } from '../services/riskRuleService';
 import { useToast } from '../lib/toast';
+import RiskDigestBanner from './RiskDigestBanner';
+import ClientImportWizard from './ClientImportWizard';
+import DuplicateClientsBanner from './DuplicateClientsBanner';
+import { getClientJourneys, JOURNEY_STATUS_LABELS, type ClientJourney } from '../services/journeyService';
+import {
+  getCustomFieldDefinitions,
+  getClientCustomFieldValues,
+  matchesCustomFieldFilter,
+  type CustomFieldDefinition,
+  type CustomFieldFilter,
+  type CustomFieldValues,
+} from '../services/customFieldService';
 import type { Database } from '../lib/database.types';
 
 type Client = Database['public']['Tables']['clients']['Row'];
@@ -12,14 +25,26 @@ interface ClientListProps {
   refreshTrigger: number;
 }
 
-type FilterType = 'all' | 'high_risk' | 'no_advance';
+type FilterType = 'all' | 'high_risk' | 'no_advance' | 'stuck_journey';
+
+const RISK_COLOR_CLASSES: Record<RiskClassification, { text: string; bg: string; border: string }> = {
+  Alto: { text: 'text-red-600', bg: 'bg-red-50', border: 'border-red-200' },
+  'Médio': { text: 'text-yellow-600', bg: 'bg-yellow-50', border: 'border-yellow-200' },
+  Baixo: { text: 'text-green-600', bg: 'bg-green-50', border: 'border-green-200' },
+};
 
 export default function ClientList({ selectedClientId, onSelectClient, refreshTrigger }: ClientListProps) {
   const [clients, setClients] = useState<Client[]>([]);
+  const [riskConfig, setRiskConfig] = useState<RiskScoringConfig>(DEFAULT_RISK_SCORING_CONFIG);
+  const [journeys, setJourneys] = useState<Map<string, ClientJourney>>(new Map());
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<FilterType>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [showNewClientModal, setShowNewClientModal] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
+  const [fieldDefinitions, setFieldDefinitions] = useState<CustomFieldDefinition[]>([]);
+  const [fieldValues, setFieldValues] = useState<Map<string, CustomFieldValues>>(new Map());
+  const [fieldFilter, setFieldFilter] = useState<CustomFieldFilter | null>(null);
 
   useEffect(() => {
     loadClients();
@@ -36,8 +61,20 @@ export default function ClientList({ selectedClientId, onSelectClient, refreshTr
         filterParams = { no_advance_days: 30 };
       }
 
-      const data = await listClients(filterParams);
+      const [data, config, definitions] = await Promise.all([
+        listClients(filterParams),
+        getRiskScoringConfig(),
+        getCustomFieldDefinitions(),
+      ]);
       setClients(data);
+      setRiskConfig(config);
+      setFieldDefinitions(definitions);
+      const [clientJourneys, values] = await Promise.all([
+        getClientJourneys(data),
+        definitions.length > 0 ? getClientCustomFieldValues(data.map(client => client.id)) : new Map(),
+      ]);
+      setJourneys(clientJourneys);
+      setFieldValues(values);
     } catch (error) {
       console.error('Error loading clients:', error);
     } finally {
@@ -45,21 +82,16 @@ export default function ClientList({ selectedClientId, onSelectClient, refreshTr
     }
   };
 
+  const filterDefinition = fieldFilter && fieldDefinitions.find(definition => definition.key === fieldFilter.key);
+
   const filteredClients = clients.filter(client =>
-    client.name.toLowerCase().includes(searchQuery.toLowerCase())
+    client.name.toLowerCase().includes(searchQuery.toLowerCase()) &&
+    (filter !== 'stuck_journey' || journeys.get(client.id)?.status === 'stuck') &&
+    (!fieldFilter || !filterDefinition ||
+      matchesCustomFieldFilter(filterDefinition, fieldValues.get(client.id)?.[fieldFilter.key], fieldFilter))
   );
 
-  const getRiskColor = (score: number) => {
-    if (score >= 70) return 'bg-red-100 text-red-800 border-red-300';
-    if (score >= 40) return 'bg-yellow-100 text-yellow-800 border-yellow-300';
-    return 'bg-green-100 text-green-800 border-green-300';
-  };
-
-  const getRiskLabel = (score: number) => {
-    if (score >= 70) return 'Alto';
-    if (score >= 40) return 'Médio';
-    return 'Baixo';
-  };
+  const getRiskLabel = (score: number) => classifyRiskScore(score, riskConfig);
 
   const getDaysSinceActivity = (lastActivityDate: string | null) => {
     if (!lastActivityDate) return null;
@@ -76,13 +108,22 @@ export default function ClientList({ selectedClientId, onSelectClient, refreshTr
             <Users className="w-5 h-5 text-blue-600" />
             <h2 className="font-semibold text-gray-900">Clientes</h2>
           </div>
-          <button
-            onClick={() => setShowNewClientModal(true)}
-            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-            title="Novo Cliente"
-          >
-            <Plus className="w-5 h-5 text-gray-600" />
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setShowImportWizard(true)}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Importar Clientes"
+            >
+              <Upload className="w-5 h-5 text-gray-600" />
+            </button>
+            <button
+              onClick={() => setShowNewClientModal(true)}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Novo Cliente"
+            >
+              <Plus className="w-5 h-5 text-gray-600" />
+            </button>
+          </div>
         </div>
 
         <div className="relative mb-3">
@@ -127,9 +168,36 @@ export default function ClientList({ selectedClientId, onSelectClient, refreshTr
           >
             30+ dias
           </button>
+          <button
+            onClick={() => setFilter('stuck_journey')}
+            className={`px-3 py-1 text-xs rounded-full transition-colors ${
+              filter === 'stuck_journey'
+                ? 'bg-purple-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            Jornada parada
+          </button>
         </div>
+
+        {fieldDefinitions.length > 0 && (
+          <CustomFieldFilterControls
+            definitions={fieldDefinitions}
+            filter={fieldFilter}
+            onChange={setFieldFilter}
+          />
+        )}
       </div>
 
+      <RiskDigestBanner onSelectClient={onSelectClient} />
+      <DuplicateClientsBanner
+        refreshKey={`${refreshTrigger}:${clients.length}`}
+        onMerged={(survivingClientId) => {
+          loadClients();
+          onSelectClient(survivingClientId);
+        }}
+      />
+
       <div className="flex-1 overflow-y-auto">
         {loading ? (
           <div className="flex items-center justify-center h-32">
@@ -151,11 +219,9 @@ export default function ClientList({ selectedClientId, onSelectClient, refreshTr
                 .join('')
                 .toUpperCase();
 
-              const riskColorClasses = {
-                text: client.risk_score >= 70 ? 'text-red-600' : client.risk_score >= 40 ? 'text-yellow-600' : 'text-green-600',
-                bg: client.risk_score >= 70 ? 'bg-red-50' : client.risk_score >= 40 ? 'bg-yellow-50' : 'bg-green-50',
-                border: client.risk_score >= 70 ? 'border-red-200' : client.risk_score >= 40 ? 'border-yellow-200' : 'border-green-200',
-              };
+              const riskLabel = getRiskLabel(client.risk_score);
+              const riskColorClasses = RISK_COLOR_CLASSES[riskLabel];
+              const journey = journeys.get(client.id);
 
               return (
                 <button
@@ -180,7 +246,7 @@ export default function ClientList({ selectedClientId, onSelectClient, refreshTr
                         <span
                           className={`px-2 py-0.5 text-xs font-medium rounded-full border ${riskColorClasses.bg} ${riskColorClasses.text} ${riskColorClasses.border}`}
                         >
-                          {getRiskLabel(client.risk_score)}
+                          {riskLabel}
                         </span>
                       </div>
 
@@ -193,6 +259,16 @@ export default function ClientList({ selectedClientId, onSelectClient, refreshTr
                           }`}>
                             {client.status === 'ativo' ? 'Ativo' : client.status === 'inativo' ? 'Inativo' : 'Prospecto'}
                           </span>
+                          {journey && (
+                            <span
+                              className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-medium ${
+                                journey.status === 'stuck' ? 'bg-red-50 text-red-700' : 'bg-gray-100 text-gray-700'
+                              }`}
+                              title={`${JOURNEY_STATUS_LABELS[journey.status]} · ${journey.days_in_stage} dia(s) na etapa`}
+                            >
+                              {journey.current_stage || '—'} → {journey.next_stage}
+                            </span>
+                          )}
                         </div>
                       )}
 
@@ -203,7 +279,7 @@ export default function ClientList({ selectedClientId, onSelectClient, refreshTr
                             <span>{days}d sem atividade</span>
                           </div>
                         )}
-                        {client.risk_score >= 70 && (
+                        {riskLabel === 'Alto' && (
                           <div className="flex items-center gap-1 text-red-600 font-medium">
                             <AlertCircle className="w-3.5 h-3.5" />
                             <span>Requer atenção</span>
@@ -228,10 +304,86 @@ export default function ClientList({ selectedClientId, onSelectClient, refreshTr
           }}
         />
       )}
+
+      {showImportWizard && (
+        <ClientImportWizard
+          onClose={() => setShowImportWizard(false)}
+          onImported={loadClients}
+        />
+      )}
     </aside>
   );
 }
 
+interface CustomFieldFilterControlsProps {
+  definitions: CustomFieldDefinition[];
+  filter: CustomFieldFilter | null;
+  onChange: (filter: CustomFieldFilter | null) => void;
+}
+
+function CustomFieldFilterControls({ definitions, filter, onChange }: CustomFieldFilterControlsProps) {
+  const definition = filter && definitions.find(item => item.key === filter.key);
+  const controlClass = 'w-full px-2 py-1 border border-gray-300 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const update = (changes: Partial<CustomFieldFilter>) => filter && onChange({ ...filter, ...changes });
+
+  return (
+    <div className="mt-3 space-y-2">
+      <select
+        value={filter?.key || ''}
+        onChange={(e) => onChange(e.target.value ? { key: e.target.value, value: '', valueTo: '' } : null)}
+        className={controlClass}
+      >
+        <option value="">Filtrar por campo personalizado</option>
+        {definitions.map(item => (
+          <option key={item.key} value={item.key}>{item.label}</option>
+        ))}
+      </select>
+
+      {filter && definition && (
+        definition.field_type === 'select' || definition.field_type === 'multi_select' ? (
+          <select value={filter.value} onChange={(e) => update({ value: e.target.value })} className={controlClass}>
+            <option value="">Qualquer valor preenchido</option>
+            {definition.options.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        ) : definition.field_type === 'boolean' ? (
+          <select value={filter.value} onChange={(e) => update({ value: e.target.value })} className={controlClass}>
+            <option value="">Qualquer valor preenchido</option>
+            <option value="true">Sim</option>
+            <option value="false">Não</option>
+          </select>
+        ) : definition.field_type === 'text' ? (
+          <input
+            type="text"
+            value={filter.value}
+            onChange={(e) => update({ value: e.target.value })}
+            placeholder="Contém..."
+            className={controlClass}
+          />
+        ) : (
+          <div className="flex gap-2">
+            <input
+              type={definition.field_type === 'date' ? 'date' : 'number'}
+              value={filter.value}
+              onChange={(e) => update({ value: e.target.value })}
+              placeholder="De"
+              className={controlClass}
+            />
+            <input
+              type={definition.field_type === 'date' ? 'date' : 'number'}
+              value={filter.valueTo}
+              onChange={(e) => update({ valueTo: e.target.value })}
+              placeholder="Até"
+              className={controlClass}
+            />
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
 function NewClientModal({ onClose, onSuccess }: { onClose: () => void; onSuccess: () => void }) {
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
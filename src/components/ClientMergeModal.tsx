@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react';
+import { X, GitMerge, Loader2, ArrowRight } from 'lucide-react';
+import {
+  getMergeSides,
+  suggestSurvivor,
+  defaultFieldChoices,
+  buildMergeSelection,
+  getMergeFieldValue,
+  mergeClients,
+  dismissDuplicate,
+  DUPLICATE_REASON_LABELS,
+  MERGE_CLIENT_FIELDS,
+  MERGE_METADATA_FIELDS,
+  type DuplicateCandidate,
+  type MergeSide,
+  type MergeFieldChoices,
+} from '../services/clientMergeService';
+import { useToast } from '../lib/toast';
+
+interface ClientMergeModalProps {
+  candidates: DuplicateCandidate[];
+  onClose: () => void;
+  onMerged: (survivingClientId: string) => void;
+  onDismissed: (key: string) => void;
+}
+
+export default function ClientMergeModal({ candidates, onClose, onMerged, onDismissed }: ClientMergeModalProps) {
+  const { showToast } = useToast();
+  const [selectedKey, setSelectedKey] = useState<string | null>(candidates[0]?.key || null);
+  const [sides, setSides] = useState<[MergeSide, MergeSide] | null>(null);
+  const [survivor, setSurvivor] = useState<0 | 1>(0);
+  const [choices, setChoices] = useState<MergeFieldChoices | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [merging, setMerging] = useState(false);
+
+  const selected = candidates.find(candidate => candidate.key === selectedKey) || null;
+
+  useEffect(() => {
+    if (!selected) {
+      setSides(null);
+      return;
+    }
+    loadSides(selected);
+  }, [selectedKey]);
+
+  const loadSides = async (candidate: DuplicateCandidate) => {
+    setLoading(true);
+    try {
+      const data = await getMergeSides(candidate.clients[0].id, candidate.clients[1].id);
+      const suggested = suggestSurvivor(data);
+      setSides(data);
+      setSurvivor(suggested);
+      setChoices(defaultFieldChoices(data, suggested));
+    } catch (error) {
+      console.error('Error loading clients to merge:', error);
+      showToast('Erro ao carregar clientes', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSurvivorChange = (index: 0 | 1) => {
+    if (!sides) return;
+    setSurvivor(index);
+    setChoices(defaultFieldChoices(sides, index));
+  };
+
+  const selectNext = (removedKey: string) => {
+    const next = candidates.find(candidate =>
+      candidate.key !== removedKey &&
+      !candidate.clients.some(client => selected?.clients.some(removed => removed.id === client.id))
+    );
+    setSelectedKey(next?.key || null);
+  };
+
+  const handleMerge = async () => {
+    if (!sides || !choices || !selected) return;
+
+    const surviving = sides[survivor];
+    const merged = sides[survivor === 0 ? 1 : 0];
+    if (!confirm(`Mesclar "${merged.name}" em "${surviving.name}"? O cadastro duplicado será excluído.`)) {
+      return;
+    }
+
+    setMerging(true);
+    try {
+      await mergeClients(surviving.id, merged.id, buildMergeSelection(sides, choices));
+      showToast('Clientes mesclados', 'success');
+      selectNext(selected.key);
+      onMerged(surviving.id);
+    } catch (error: any) {
+      console.error('Error merging clients:', error);
+      showToast(error?.message || 'Erro ao mesclar clientes', 'error');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const handleDismiss = async () => {
+    if (!selected) return;
+    try {
+      await dismissDuplicate(selected.clients[0].id, selected.clients[1].id);
+      const next = candidates.find(candidate => candidate.key !== selected.key);
+      setSelectedKey(next?.key || null);
+      onDismissed(selected.key);
+    } catch (error) {
+      console.error('Error dismissing duplicate:', error);
+      showToast('Erro ao salvar', 'error');
+    }
+  };
+
+  const fields = [...MERGE_CLIENT_FIELDS, ...MERGE_METADATA_FIELDS].filter(({ key }) =>
+    sides && (getMergeFieldValue(sides[0], key) !== null || getMergeFieldValue(sides[1], key) !== null)
+  );
+  const merged = sides ? sides[survivor === 0 ? 1 : 0] : null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <GitMerge className="w-6 h-6 text-blue-600" />
+            <h2 className="text-xl font-semibold text-gray-900">Possíveis Duplicados</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Fechar"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-64 border-r border-gray-200 overflow-y-auto">
+            {candidates.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">Nenhum duplicado pendente</p>
+            ) : (
+              candidates.map(candidate => (
+                <button
+                  key={candidate.key}
+                  onClick={() => setSelectedKey(candidate.key)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 transition-colors ${
+                    candidate.key === selectedKey ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <p className="text-sm font-medium text-gray-900 truncate">{candidate.clients[0].name}</p>
+                  <p className="text-sm text-gray-700 truncate">{candidate.clients[1].name}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {candidate.score}% · {candidate.reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(', ')}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+              </div>
+            ) : sides && choices && merged ? (
+              <div className="space-y-4">
+                <div className="grid grid-cols-[160px_1fr_1fr] gap-3 items-start">
+                  <div />
+                  {sides.map((side, index) => (
+                    <label
+                      key={side.id}
+                      className={`border rounded-lg p-3 cursor-pointer ${
+                        survivor === index ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="radio"
+                          checked={survivor === index}
+                          onChange={() => handleSurvivorChange(index as 0 | 1)}
+                          className="w-4 h-4 text-blue-600"
+                        />
+                        <span className="text-sm font-medium text-gray-900">
+                          {survivor === index ? 'Manter este cadastro' : 'Será excluído'}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Criado em {new Date(side.created_at).toLocaleDateString('pt-BR')} · {side.meeting_count} reunião(ões) · {side.task_count} tarefa(s)
+                      </p>
+                    </label>
+                  ))}
+
+                  {fields.map(({ key, label }) => {
+                    const values = [getMergeFieldValue(sides[0], key), getMergeFieldValue(sides[1], key)];
+                    const same = values[0] === values[1];
+                    return (
+                      <div key={key} className="contents">
+                        <span className="text-sm text-gray-600 pt-1.5">{label}</span>
+                        {values.map((value, index) => (
+                          <label
+                            key={index}
+                            className={`flex items-start gap-2 text-sm px-2 py-1.5 rounded ${
+                              value === null ? 'text-gray-400' : 'cursor-pointer hover:bg-gray-50'
+                            }`}
+                          >
+                            {!same && value !== null && (
+                              <input
+                                type="radio"
+                                checked={choices[key] === index}
+                                onChange={() => setChoices({ ...choices, [key]: index as 0 | 1 })}
+                                className="mt-0.5 w-4 h-4 text-blue-600"
+                              />
+                            )}
+                            <span className={`break-words ${same ? 'text-gray-700' : 'text-gray-900'}`}>
+                              {value ?? '—'}
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700 flex items-start gap-2">
+                  <ArrowRight className="w-4 h-4 mt-0.5 flex-shrink-0 text-blue-600" />
+                  <p>
+                    Reuniões, tarefas, decisões, emails, histórico de risco, conversas e acessos ao portal de "{merged.name}" passam
+                    para o cadastro mantido. Tags e campos personalizados dos dois cadastros são combinados.
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-12">Selecione um par de clientes</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            onClick={handleDismiss}
+            disabled={!selected || merging}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Não são a mesma pessoa
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Fechar
+            </button>
+            <button
+              onClick={handleMerge}
+              disabled={!sides || loading || merging}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              {merging ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitMerge className="w-4 h-4" />}
+              Mesclar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
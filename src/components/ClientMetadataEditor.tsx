@@ -1,6 +1,13 @@
 import { useState, useEffect } from 'react';
 import { X, Save } from 'lucide-react';
 import { getClientMetadata, upsertClientMetadata } from '../services/exportService';
+import {
+  getCustomFieldDefinitions,
+  validateCustomFields,
+  parseCustomFieldValue,
+  type CustomFieldDefinition,
+  type CustomFieldValues,
+} from '../services/customFieldService';
 import { useToast } from '../lib/toast';
 import type { Database } from '../lib/database.types';
 
@@ -30,7 +37,10 @@ export default function ClientMetadataEditor({ clientId, clientName, onClose, on
     best_contact_time: '',
     tags: [],
     notes: '',
+    custom_fields: {},
   });
+  const [fieldDefinitions, setFieldDefinitions] = useState<CustomFieldDefinition[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [tagInput, setTagInput] = useState('');
   const { showToast } = useToast();
 
@@ -41,10 +51,14 @@ export default function ClientMetadataEditor({ clientId, clientName, onClose, on
   const loadMetadata = async () => {
     setLoading(true);
     try {
-      const data = await getClientMetadata(clientId);
+      const [data, definitions] = await Promise.all([
+        getClientMetadata(clientId),
+        getCustomFieldDefinitions(),
+      ]);
       if (data) {
         setMetadata(data);
       }
+      setFieldDefinitions(definitions);
     } catch (error) {
       console.error('Error loading metadata:', error);
       showToast('Erro ao carregar metadados', 'error');
@@ -53,10 +67,28 @@ export default function ClientMetadataEditor({ clientId, clientName, onClose, on
     }
   };
 
+  const customFields: CustomFieldValues = metadata.custom_fields || {};
+
+  const setCustomField = (key: string, value: unknown) => {
+    setMetadata({ ...metadata, custom_fields: { ...customFields, [key]: value } });
+    if (fieldErrors[key]) {
+      const rest = { ...fieldErrors };
+      delete rest[key];
+      setFieldErrors(rest);
+    }
+  };
+
   const handleSave = async () => {
+    const { values, errors } = validateCustomFields(fieldDefinitions, customFields);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      showToast('Corrija os campos personalizados destacados', 'error');
+      return;
+    }
+
     setSaving(true);
     try {
-      await upsertClientMetadata(clientId, metadata);
+      await upsertClientMetadata(clientId, { ...metadata, custom_fields: values });
       showToast('Metadados salvos com sucesso', 'success');
       if (onSaved) onSaved();
       onClose();
@@ -307,6 +339,30 @@ export default function ClientMetadataEditor({ clientId, clientName, onClose, on
             </div>
           </div>
 
+          {fieldDefinitions.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">Campos Personalizados</h3>
+              <div className="grid grid-cols-2 gap-4">
+                {fieldDefinitions.map(definition => (
+                  <div key={definition.id} className={definition.field_type === 'multi_select' ? 'col-span-2' : ''}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {definition.label}{definition.required && ' *'}
+                    </label>
+                    <CustomFieldInput
+                      definition={definition}
+                      value={customFields[definition.key]}
+                      invalid={!!fieldErrors[definition.key]}
+                      onChange={(value) => setCustomField(definition.key, value)}
+                    />
+                    {fieldErrors[definition.key] && (
+                      <p className="text-xs text-red-600 mt-1">{fieldErrors[definition.key]}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Observações
@@ -341,3 +397,103 @@ export default function ClientMetadataEditor({ clientId, clientName, onClose, on
     </div>
   );
 }
+
+interface CustomFieldInputProps {
+  definition: CustomFieldDefinition;
+  value: unknown;
+  invalid: boolean;
+  onChange: (value: unknown) => void;
+}
+
+function CustomFieldInput({ definition, value: raw, invalid, onChange }: CustomFieldInputProps) {
+  // Imported values are plain strings ("sim", "15/03/2024"); show them in the typed input when they parse.
+  // Free-typed fields keep the raw text so partially typed numbers are not rewritten.
+  const freeTyped = ['text', 'number', 'currency'].includes(definition.field_type);
+  const value = freeTyped ? raw : parseCustomFieldValue({ ...definition, required: false }, raw).value ?? raw;
+  const inputClass = `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    invalid ? 'border-red-400' : 'border-gray-300'
+  }`;
+
+  switch (definition.field_type) {
+    case 'number':
+    case 'currency':
+      return (
+        <input
+          type="text"
+          inputMode="decimal"
+          value={value === null || value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value || null)}
+          className={inputClass}
+          placeholder={definition.field_type === 'currency' ? '0,00' : ''}
+        />
+      );
+    case 'date':
+      return (
+        <input
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          className={inputClass}
+        />
+      );
+    case 'select':
+      return (
+        <select
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          className={inputClass}
+        >
+          <option value="">Selecione</option>
+          {definition.options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    case 'multi_select': {
+      const selected = Array.isArray(value) ? value.map(String) : [];
+      return (
+        <div className="flex flex-wrap gap-2">
+          {definition.options.map(option => {
+            const active = selected.includes(option);
+            return (
+              <button
+                key={option}
+                type="button"
+                onClick={() => onChange(active ? selected.filter(item => item !== option) : [...selected, option])}
+                className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                  active
+                    ? 'bg-blue-100 text-blue-700 border-blue-300'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {option}
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+    case 'boolean':
+      return (
+        <select
+          value={value === true || value === false ? String(value) : ''}
+          onChange={(e) => onChange(e.target.value === '' ? null : e.target.value === 'true')}
+          className={inputClass}
+        >
+          <option value="">Não informado</option>
+          <option value="true">Sim</option>
+          <option value="false">Não</option>
+        </select>
+      );
+    default:
+      return (
+        <input
+          type="text"
+          value={value === null || value === undefined ? '' : String(value)}
+          maxLength={definition.max_length ?? undefined}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClass}
+        />
+      );
+  }
+}
@@ -1,14 +1,29 @@
 import { useEffect, useState } from 'react';
-import { Calendar as CalendarIcon, CheckCircle2, AlertCircle, Plus, Trash2, Download, Database, Calendar } from 'lucide-react';
+import { Calendar as CalendarIcon, CheckCircle2, AlertCircle, Plus, Trash2, Download, Database, Calendar, Flag, Check, X } from 'lucide-react';
 import * as Icons from 'lucide-react';
 import { getClient, deleteClient, type ClientWithMetrics } from '../services/clientService';
-import { calculateRiskScore, type RiskScoreBreakdown } from '../services/riskService';
-import { updateTaskStatus } from '../services/taskService';
+import { calculateRiskScore, explainRiskScore, getRiskHistory, type RiskScoreBreakdown, type RiskSnapshot } from '../services/riskService';
+import { getRiskScoringConfig, classifyRiskScore, DEFAULT_RISK_SCORING_CONFIG, type RiskClassification, type RiskScoringConfig } from '../services/riskRuleService';
+import { updateTaskStatus, getDraftTasksByClient, confirmDraftTasks, discardDraftTasks } from '../services/taskService';
+import { getDecisionsByClient, setDecisionImplemented, type DecisionWithMeeting } from '../services/decisionService';
 import { exportCompleteClientData, downloadJSON, copyToClipboard } from '../services/exportService';
 import { getAllMeetingTypes, type MeetingTypeDetails } from '../services/meetingTypeService';
+import { getClientJourney, type ClientJourney } from '../services/journeyService';
 import AddMeetingModal from './AddMeetingModal';
 import ClientMetadataEditor from './ClientMetadataEditor';
+import RiskTrend from './RiskTrend';
+import JourneyStepper from './JourneyStepper';
+import MeetingSchedulePanel from './MeetingSchedulePanel';
 import { useToast } from '../lib/toast';
+import type { Database as DatabaseTypes } from '../lib/database.types';
+
+type Task = DatabaseTypes['public']['Tables']['tasks']['Row'];
+
+const RISK_COLORS: Record<RiskClassification, string> = {
+  Alto: 'text-red-600 bg-red-100',
+  'Médio': 'text-yellow-600 bg-yellow-100',
+  Baixo: 'text-green-600 bg-green-100',
+};
 
 interface ClientPanelProps {
   clientId: string;
@@ -20,6 +35,9 @@ export default function ClientPanel({ clientId, onRefresh, onClientDeleted }: Cl
   const [client, setClient] = useState<ClientWithMetrics | null>(null);
   const [meetingTypes, setMeetingTypes] = useState<Record<string, MeetingTypeDetails>>({});
   const [riskBreakdown, setRiskBreakdown] = useState<RiskScoreBreakdown | null>(null);
+  const [riskConfig, setRiskConfig] = useState<RiskScoringConfig>(DEFAULT_RISK_SCORING_CONFIG);
+  const [riskHistory, setRiskHistory] = useState<RiskSnapshot[]>([]);
+  const [journey, setJourney] = useState<ClientJourney | null>(null);
   const [loading, setLoading] = useState(true);
   const [showAddMeeting, setShowAddMeeting] = useState(false);
   const [calculatingRisk, setCalculatingRisk] = useState(false);
@@ -28,11 +46,16 @@ export default function ClientPanel({ clientId, onRefresh, onClientDeleted }: Cl
   const [confirmName, setConfirmName] = useState('');
   const [showMetadataEditor, setShowMetadataEditor] = useState(false);
   const [exporting, setExporting] = useState(false);
+  const [decisions, setDecisions] = useState<DecisionWithMeeting[]>([]);
+  const [showImplemented, setShowImplemented] = useState(false);
+  const [draftTasks, setDraftTasks] = useState<Task[]>([]);
   const { showToast } = useToast();
 
   useEffect(() => {
     loadMeetingTypes();
     loadClientData();
+    loadMeetingRecords();
+    loadRiskBreakdown();
   }, [clientId]);
 
   const loadMeetingTypes = async () => {
@@ -62,6 +85,7 @@ export default function ClientPanel({ clientId, onRefresh, onClientDeleted }: Cl
     try {
       const data = await getClient({ id: clientId });
       setClient(data);
+      setJourney(data ? await getClientJourney(data) : null);
     } catch (error) {
       console.error('Error loading client:', error);
     } finally {
@@ -69,11 +93,75 @@ export default function ClientPanel({ clientId, onRefresh, onClientDeleted }: Cl
     }
   };
 
+  const loadRiskBreakdown = async () => {
+    setRiskBreakdown(null);
+    setRiskHistory([]);
+    try {
+      const config = await getRiskScoringConfig();
+      setRiskConfig(config);
+      const [breakdown, history] = await Promise.all([
+        explainRiskScore(clientId, config),
+        getRiskHistory(clientId),
+      ]);
+      setRiskBreakdown(breakdown);
+      setRiskHistory(history);
+    } catch (error) {
+      console.error('Error loading risk breakdown:', error);
+    }
+  };
+
+  const loadMeetingRecords = async () => {
+    try {
+      const [decisionsData, draftsData] = await Promise.all([
+        getDecisionsByClient(clientId),
+        getDraftTasksByClient(clientId),
+      ]);
+      setDecisions(decisionsData);
+      setDraftTasks(draftsData);
+    } catch (error) {
+      console.error('Error loading decisions and draft tasks:', error);
+    }
+  };
+
+  const handleToggleDecision = async (decision: DecisionWithMeeting) => {
+    try {
+      const updated = await setDecisionImplemented(decision.id, !decision.is_implemented);
+      setDecisions(prev => prev.map(d => (d.id === updated.id ? { ...d, ...updated } : d)));
+    } catch (error) {
+      console.error('Error updating decision:', error);
+      showToast('Erro ao atualizar decisão', 'error');
+    }
+  };
+
+  const handleConfirmDraft = async (taskId: string) => {
+    try {
+      await confirmDraftTasks([taskId]);
+      setDraftTasks(prev => prev.filter(t => t.id !== taskId));
+      await loadClientData();
+      onRefresh();
+      showToast('Tarefa confirmada', 'success');
+    } catch (error) {
+      console.error('Error confirming draft task:', error);
+      showToast('Erro ao confirmar tarefa', 'error');
+    }
+  };
+
+  const handleDiscardDraft = async (taskId: string) => {
+    try {
+      await discardDraftTasks([taskId]);
+      setDraftTasks(prev => prev.filter(t => t.id !== taskId));
+    } catch (error) {
+      console.error('Error discarding draft task:', error);
+      showToast('Erro ao descartar tarefa', 'error');
+    }
+  };
+
   const handleCalculateRisk = async () => {
     setCalculatingRisk(true);
     try {
       const breakdown = await calculateRiskScore(clientId);
       setRiskBreakdown(breakdown);
+      setRiskHistory(await getRiskHistory(clientId));
       await loadClientData();
       onRefresh();
     } catch (error) {
@@ -157,11 +245,11 @@ export default function ClientPanel({ clientId, onRefresh, onClientDeleted }: Cl
 
   if (!client) return null;
 
-  const getRiskColor = (score: number) => {
-    if (score >= 70) return 'text-red-600 bg-red-100';
-    if (score >= 40) return 'text-yellow-600 bg-yellow-100';
-    return 'text-green-600 bg-green-100';
-  };
+  const pendingDecisions = decisions.filter(d => !d.is_implemented);
+  const implementedDecisions = decisions.filter(d => d.is_implemented);
+  const visibleDecisions = showImplemented ? decisions : pendingDecisions;
+
+  const getRiskColor = (score: number) => RISK_COLORS[classifyRiskScore(score, riskConfig)];
 
   return (
     <aside className="w-96 bg-white border-l border-gray-200 overflow-y-auto">
@@ -214,6 +302,19 @@ export default function ClientPanel({ clientId, onRefresh, onClientDeleted }: Cl
       </div>
 
       <div className="p-6 space-y-6">
+        {journey && (
+          <div>
+            <h3 className="font-semibold text-gray-900 text-sm mb-3">Jornada W1</h3>
+            <JourneyStepper journey={journey} />
+          </div>
+        )}
+
+        <MeetingSchedulePanel
+          clientId={clientId}
+          meetingTypes={meetingTypes}
+          onChanged={loadClientData}
+        />
+
         <div>
           <div className="flex items-center justify-between mb-3">
             <h3 className="font-semibold text-gray-900 text-sm">Risk Score</h3>
@@ -243,18 +344,33 @@ export default function ClientPanel({ clientId, onRefresh, onClientDeleted }: Cl
           {riskBreakdown && (
             <div className="mt-3 space-y-1">
               <p className="text-xs font-medium text-gray-700 mb-2">
-                Classificação: {riskBreakdown.classification}
+                Classificação: {classifyRiskScore(client.risk_score, riskConfig)}
               </p>
-              {riskBreakdown.factors.map((factor, i) => (
-                <div key={i} className="text-xs text-gray-600">
-                  <span className={factor.impact > 0 ? 'text-red-600' : 'text-green-600'}>
-                    {factor.impact > 0 ? '+' : ''}{factor.impact}
-                  </span>
-                  {' '}{factor.factor}
-                </div>
-              ))}
+              {riskBreakdown.total_score !== client.risk_score && (
+                <p className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1 mb-2">
+                  Pelas regras atuais o score seria {riskBreakdown.total_score} ({riskBreakdown.classification}). Clique em Recalcular para atualizar.
+                </p>
+              )}
+              {riskBreakdown.factors.length === 0 ? (
+                <p className="text-xs text-gray-500">Nenhum fator de risco ativo no momento</p>
+              ) : (
+                riskBreakdown.factors.map((factor) => (
+                  <div key={factor.key} className="text-xs text-gray-600">
+                    <span className={factor.impact > 0 ? 'text-red-600' : 'text-green-600'}>
+                      {factor.impact > 0 ? '+' : ''}{factor.impact}
+                    </span>
+                    {' '}{factor.factor}
+                    <span className="block pl-6 text-gray-500">{factor.description}</span>
+                  </div>
+                ))
+              )}
             </div>
           )}
+
+          <div className="mt-4">
+            <p className="text-xs font-medium text-gray-700 mb-2">Evolução do risco</p>
+            <RiskTrend history={riskHistory} config={riskConfig} />
+          </div>
         </div>
 
         <div>
@@ -364,6 +480,97 @@ export default function ClientPanel({ clientId, onRefresh, onClientDeleted }: Cl
             </div>
           )}
         </div>
+
+        {draftTasks.length > 0 && (
+          <div>
+            <h3 className="font-semibold text-gray-900 text-sm mb-3 flex items-center gap-2">
+              <CheckCircle2 className="w-4 h-4 text-blue-600" />
+              Tarefas Sugeridas ({draftTasks.length})
+            </h3>
+            <div className="space-y-2">
+              {draftTasks.map((task) => (
+                <div
+                  key={task.id}
+                  className="flex items-start gap-2 p-2 rounded-lg border border-dashed border-blue-300 bg-blue-50"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900">{task.title}</p>
+                    <div className="flex items-center gap-2 mt-1 text-xs text-gray-600">
+                      <span className="font-medium">{task.owner}</span>
+                      <span>• {formatDate(task.due_date)}</span>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleConfirmDraft(task.id)}
+                    className="p-1 text-green-600 hover:bg-green-100 rounded"
+                    title="Confirmar tarefa"
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDiscardDraft(task.id)}
+                    className="p-1 text-gray-500 hover:bg-gray-200 rounded"
+                    title="Descartar sugestão"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-gray-900 text-sm flex items-center gap-2">
+              <Flag className="w-4 h-4" />
+              Decisões Pendentes ({pendingDecisions.length})
+            </h3>
+            {implementedDecisions.length > 0 && (
+              <button
+                onClick={() => setShowImplemented(!showImplemented)}
+                className="text-xs text-blue-600 hover:text-blue-700"
+              >
+                {showImplemented ? 'Ocultar implementadas' : `Ver implementadas (${implementedDecisions.length})`}
+              </button>
+            )}
+          </div>
+          {visibleDecisions.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {decisions.length === 0 ? 'Nenhuma decisão registrada' : 'Todas as decisões foram implementadas'}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {visibleDecisions.map((decision) => (
+                <label
+                  key={decision.id}
+                  className={`flex items-start gap-2 p-2 rounded-lg border cursor-pointer ${
+                    decision.is_implemented ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={decision.is_implemented}
+                    onChange={() => handleToggleDecision(decision)}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${decision.is_implemented ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+                      {decision.description}
+                    </p>
+                    <div className="flex items-center gap-2 mt-1 text-xs text-gray-600">
+                      <span className="font-medium">{getMeetingTypeLabel(decision.meeting.type)}</span>
+                      <span>• {formatDate(decision.meeting.datetime)}</span>
+                      {decision.implemented_at && (
+                        <span>• implementada em {formatDate(decision.implemented_at)}</span>
+                      )}
+                    </div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
 
       {showAddMeeting && (
@@ -374,6 +581,7 @@ export default function ClientPanel({ clientId, onRefresh, onClientDeleted }: Cl
           onSuccess={() => {
             setShowAddMeeting(false);
             loadClientData();
+            loadMeetingRecords();
             onRefresh();
           }}
         />
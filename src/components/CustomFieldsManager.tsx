@@ -0,0 +1,387 @@
+import { useEffect, useState } from 'react';
+import { SlidersHorizontal, Plus, Edit2, Power, PowerOff, ArrowUp, ArrowDown, Save, X, Loader2 } from 'lucide-react';
+import {
+  getCustomFieldDefinitions,
+  createCustomFieldDefinition,
+  updateCustomFieldDefinition,
+  setCustomFieldDefinitionActive,
+  reorderCustomFieldDefinitions,
+  customFieldKeyFromLabel,
+  CUSTOM_FIELD_TYPE_LABELS,
+  type CustomFieldDefinition,
+  type CustomFieldInput,
+  type CustomFieldType,
+} from '../services/customFieldService';
+import { useToast } from '../lib/toast';
+
+interface FieldForm {
+  label: string;
+  key: string;
+  field_type: CustomFieldType;
+  options: string;
+  required: boolean;
+  min_value: string;
+  max_value: string;
+  max_length: string;
+}
+
+const EMPTY_FORM: FieldForm = {
+  label: '',
+  key: '',
+  field_type: 'text',
+  options: '',
+  required: false,
+  min_value: '',
+  max_value: '',
+  max_length: '',
+};
+
+function toForm(definition: CustomFieldDefinition): FieldForm {
+  return {
+    label: definition.label,
+    key: definition.key,
+    field_type: definition.field_type,
+    options: definition.options.join('\n'),
+    required: definition.required,
+    min_value: definition.min_value?.toString() ?? '',
+    max_value: definition.max_value?.toString() ?? '',
+    max_length: definition.max_length?.toString() ?? '',
+  };
+}
+
+function toInput(form: FieldForm): CustomFieldInput {
+  const number = (value: string) => (value.trim() === '' ? null : Number(value));
+  return {
+    label: form.label,
+    key: form.key || undefined,
+    field_type: form.field_type,
+    options: form.options.split('\n'),
+    required: form.required,
+    min_value: number(form.min_value),
+    max_value: number(form.max_value),
+    max_length: number(form.max_length),
+  };
+}
+
+export default function CustomFieldsManager() {
+  const { showToast } = useToast();
+  const [definitions, setDefinitions] = useState<CustomFieldDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // null: no form open; 'new': creating; otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<FieldForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    loadDefinitions();
+  }, []);
+
+  const loadDefinitions = async () => {
+    try {
+      setDefinitions(await getCustomFieldDefinitions(true));
+    } catch (error) {
+      console.error('Error loading custom fields:', error);
+      showToast('Erro ao carregar campos personalizados', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startCreating = () => {
+    setEditing('new');
+    setForm(EMPTY_FORM);
+  };
+
+  const startEditing = (definition: CustomFieldDefinition) => {
+    setEditing(definition.id);
+    setForm(toForm(definition));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    setSaving(true);
+    try {
+      const input = toInput(form);
+      if (editing === 'new') {
+        await createCustomFieldDefinition(input);
+        showToast('Campo criado', 'success');
+      } else {
+        await updateCustomFieldDefinition(editing, input);
+        showToast('Campo atualizado', 'success');
+      }
+      setEditing(null);
+      await loadDefinitions();
+    } catch (error: any) {
+      console.error('Error saving custom field:', error);
+      showToast(error.message || 'Erro ao salvar campo', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (definition: CustomFieldDefinition) => {
+    try {
+      await setCustomFieldDefinitionActive(definition.id, !definition.is_active);
+      await loadDefinitions();
+    } catch (error: any) {
+      console.error('Error toggling custom field:', error);
+      showToast(error.message || 'Erro ao alterar campo', 'error');
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= definitions.length) return;
+
+    const reordered = [...definitions];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setDefinitions(reordered);
+
+    try {
+      await reorderCustomFieldDefinitions(reordered.map(definition => definition.id));
+    } catch (error) {
+      console.error('Error reordering custom fields:', error);
+      showToast('Erro ao reordenar campos', 'error');
+      await loadDefinitions();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const renderForm = () => {
+    const hasOptions = form.field_type === 'select' || form.field_type === 'multi_select';
+    const isNumeric = form.field_type === 'number' || form.field_type === 'currency';
+
+    return (
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Nome *</label>
+            <input
+              type="text"
+              value={form.label}
+              onChange={(e) => setForm({ ...form, label: e.target.value })}
+              placeholder="Ex: Perfil de investidor"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Chave</label>
+            <input
+              type="text"
+              value={form.key}
+              onChange={(e) => setForm({ ...form, key: e.target.value.toLowerCase() })}
+              disabled={editing !== 'new'}
+              placeholder={customFieldKeyFromLabel(form.label) || 'perfil_investidor'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:text-gray-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {editing === 'new' ? 'Gerada a partir do nome se ficar vazia' : 'A chave não pode ser alterada'}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tipo</label>
+            <select
+              value={form.field_type}
+              onChange={(e) => setForm({ ...form, field_type: e.target.value as CustomFieldType })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => (
+                <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 pt-7 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.required}
+              onChange={(e) => setForm({ ...form, required: e.target.checked })}
+              className="w-4 h-4 text-blue-600 rounded"
+            />
+            Obrigatório
+          </label>
+        </div>
+
+        {hasOptions && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Opções (uma por linha) *</label>
+            <textarea
+              value={form.options}
+              onChange={(e) => setForm({ ...form, options: e.target.value })}
+              rows={4}
+              placeholder={'Conservador\nModerado\nArrojado'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        )}
+
+        {isNumeric && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Valor mínimo</label>
+              <input
+                type="number"
+                value={form.min_value}
+                onChange={(e) => setForm({ ...form, min_value: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Valor máximo</label>
+              <input
+                type="number"
+                value={form.max_value}
+                onChange={(e) => setForm({ ...form, max_value: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+        )}
+
+        {form.field_type === 'text' && (
+          <div className="w-1/2 pr-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tamanho máximo</label>
+            <input
+              type="number"
+              min={1}
+              value={form.max_length}
+              onChange={(e) => setForm({ ...form, max_length: e.target.value })}
+              placeholder="Sem limite"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Salvar
+          </button>
+          <button
+            onClick={() => setEditing(null)}
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors flex items-center gap-2"
+          >
+            <X className="w-4 h-4" />
+            Cancelar
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Campos Personalizados</h3>
+        </div>
+        <button
+          onClick={startCreating}
+          disabled={editing === 'new'}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          Novo Campo
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Os campos aparecem em "Dados Completos" de cada cliente, podem ser usados como filtro na lista de clientes
+        e são incluídos na exportação e no contexto do assistente.
+      </p>
+
+      {editing === 'new' && renderForm()}
+
+      {definitions.length === 0 && editing !== 'new' ? (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-8 text-center">
+          <p className="text-gray-600">Nenhum campo personalizado criado ainda</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {definitions.map((definition, index) => (
+            editing === definition.id ? (
+              <div key={definition.id}>{renderForm()}</div>
+            ) : (
+              <div
+                key={definition.id}
+                className={`border rounded-lg p-4 flex items-center justify-between ${
+                  definition.is_active ? 'bg-white border-gray-200' : 'bg-gray-50 border-gray-300 opacity-60'
+                }`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium text-gray-900">{definition.label}</span>
+                    <span className="px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded">
+                      {CUSTOM_FIELD_TYPE_LABELS[definition.field_type]}
+                    </span>
+                    {definition.required && (
+                      <span className="px-2 py-0.5 bg-yellow-50 text-yellow-700 text-xs rounded">Obrigatório</span>
+                    )}
+                    {!definition.is_active && (
+                      <span className="px-2 py-0.5 bg-gray-200 text-gray-600 text-xs rounded">Inativo</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 font-mono mt-1">{definition.key}</p>
+                  {definition.options.length > 0 && (
+                    <p className="text-xs text-gray-600 mt-1 truncate">{definition.options.join(' · ')}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30"
+                    title="Mover para cima"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === definitions.length - 1}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30"
+                    title="Mover para baixo"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => startEditing(definition)}
+                    className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                    title="Editar"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleToggleActive(definition)}
+                    className={`p-2 rounded-lg transition-colors ${
+                      definition.is_active
+                        ? 'text-gray-600 hover:text-red-600 hover:bg-red-50'
+                        : 'text-gray-600 hover:text-green-600 hover:bg-green-50'
+                    }`}
+                    title={definition.is_active ? 'Desativar (os valores são mantidos)' : 'Ativar'}
+                  >
+                    {definition.is_active ? <PowerOff className="w-4 h-4" /> : <Power className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+            )
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+import { useEffect, useState } from 'react';
+import { LayoutDashboard, Users, Calendar, CheckSquare, Clock, Loader2 } from 'lucide-react';
+import { getPortfolioAnalytics, type AnalyticsDateRange, type PortfolioAnalytics } from '../services/analyticsService';
+import { getAllMeetingTypes, type MeetingTypeDetails } from '../services/meetingTypeService';
+import type { ClientStatus } from '../lib/database.types';
+import type { RiskClassification } from '../services/riskRuleService';
+import { useToast } from '../lib/toast';
+
+const RANGE_PRESETS = [
+  { days: 30, label: '30 dias' },
+  { days: 90, label: '90 dias' },
+  { days: 180, label: '6 meses' },
+  { days: 365, label: '12 meses' },
+];
+
+const STATUS_LABELS: Record<ClientStatus, string> = {
+  ativo: 'Ativos',
+  prospecto: 'Prospectos',
+  inativo: 'Inativos',
+};
+
+const RISK_BAR_COLORS: Record<RiskClassification, string> = {
+  Baixo: 'bg-green-500',
+  'Médio': 'bg-yellow-500',
+  Alto: 'bg-red-500',
+};
+
+const SENTIMENT_STYLES = [
+  { key: 'positive', label: 'Positivo', color: 'bg-green-500' },
+  { key: 'neutral', label: 'Neutro', color: 'bg-gray-400' },
+  { key: 'concerned', label: 'Preocupado', color: 'bg-red-500' },
+] as const;
+
+const DEFAULT_TYPE_COLOR = '#3B82F6';
+const CHART_HEIGHT = 128;
+
+function toDateInput(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function lastDays(days: number): AnalyticsDateRange {
+  const to = new Date();
+  const from = new Date();
+  from.setDate(from.getDate() - days + 1);
+  return { from: toDateInput(from), to: toDateInput(to) };
+}
+
+function formatWeek(weekStart: string): string {
+  const [, month, day] = weekStart.split('-');
+  return `${day}/${month}`;
+}
+
+export default function DashboardView() {
+  const { showToast } = useToast();
+  const [range, setRange] = useState<AnalyticsDateRange>(lastDays(90));
+  const [analytics, setAnalytics] = useState<PortfolioAnalytics | null>(null);
+  const [meetingTypes, setMeetingTypes] = useState<Record<string, MeetingTypeDetails>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadMeetingTypes();
+  }, []);
+
+  useEffect(() => {
+    if (range.from && range.to && range.from <= range.to) {
+      loadAnalytics();
+    }
+  }, [range]);
+
+  const loadMeetingTypes = async () => {
+    try {
+      const types = await getAllMeetingTypes();
+      setMeetingTypes(Object.fromEntries(types.map(type => [type.code, type])));
+    } catch (error) {
+      console.error('Error loading meeting types:', error);
+    }
+  };
+
+  const loadAnalytics = async () => {
+    setLoading(true);
+    try {
+      setAnalytics(await getPortfolioAnalytics(range));
+    } catch (error) {
+      console.error('Error loading analytics:', error);
+      showToast('Erro ao carregar indicadores', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getTypeColor = (code: string) => meetingTypes[code]?.color || DEFAULT_TYPE_COLOR;
+  const getTypeLabel = (code: string) => meetingTypes[code]?.display_name || code;
+
+  const renderContent = () => {
+    if (loading && !analytics) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+        </div>
+      );
+    }
+
+    if (!analytics) return null;
+
+    const maxWeekMeetings = Math.max(1, ...analytics.meetings_per_week.map(week => week.total));
+    const maxWeekSentiment = Math.max(
+      1,
+      ...analytics.sentiment_trend.map(week => week.positive + week.neutral + week.concerned)
+    );
+    const maxFunnel = Math.max(1, ...analytics.funnel.map(stage => stage.clients));
+    const activeClients = Object.values(analytics.clients_by_status.ativo).reduce((sum, count) => sum + count, 0);
+    const highRiskActive = analytics.clients_by_status.ativo.Alto;
+    const totalTasks = analytics.task_completion.reduce((sum, owner) => sum + owner.total, 0);
+    const completedTasks = analytics.task_completion.reduce((sum, owner) => sum + owner.completed, 0);
+
+    return (
+      <div className={`space-y-6 ${loading ? 'opacity-60' : ''}`}>
+        <div className="grid grid-cols-4 gap-4">
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Users className="w-4 h-4" />
+              Clientes ativos
+            </div>
+            <p className="text-2xl font-bold text-gray-900 mt-1">{activeClients}</p>
+            <p className="text-xs text-red-600 mt-1">{highRiskActive} em risco alto</p>
+          </div>
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Calendar className="w-4 h-4" />
+              Reuniões no período
+            </div>
+            <p className="text-2xl font-bold text-gray-900 mt-1">{analytics.total_meetings}</p>
+          </div>
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <CheckSquare className="w-4 h-4" />
+              Tarefas concluídas
+            </div>
+            <p className="text-2xl font-bold text-gray-900 mt-1">
+              {totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0}%
+            </p>
+            <p className="text-xs text-gray-500 mt-1">{completedTasks} de {totalTasks} com prazo no período</p>
+          </div>
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Clock className="w-4 h-4" />
+              Intervalo médio entre reuniões
+            </div>
+            <p className="text-2xl font-bold text-gray-900 mt-1">
+              {analytics.average_days_between_meetings !== null
+                ? `${analytics.average_days_between_meetings} dias`
+                : '—'}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <h3 className="text-sm font-semibold text-gray-900">Clientes por status e risco</h3>
+            <p className="text-xs text-gray-500 mb-4">Situação atual da carteira</p>
+            <div className="space-y-3">
+              {(Object.keys(STATUS_LABELS) as ClientStatus[]).map(status => {
+                const counts = analytics.clients_by_status[status];
+                const total = counts.Baixo + counts['Médio'] + counts.Alto;
+                return (
+                  <div key={status}>
+                    <div className="flex justify-between text-xs text-gray-600 mb-1">
+                      <span>{STATUS_LABELS[status]}</span>
+                      <span>{total}</span>
+                    </div>
+                    <div className="flex h-3 bg-gray-100 rounded overflow-hidden">
+                      {(['Baixo', 'Médio', 'Alto'] as RiskClassification[]).map(classification => (
+                        counts[classification] > 0 && (
+                          <div
+                            key={classification}
+                            className={RISK_BAR_COLORS[classification]}
+                            style={{ width: `${(counts[classification] / total) * 100}%` }}
+                            title={`${classification}: ${counts[classification]}`}
+                          />
+                        )
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex gap-4 mt-4 text-xs text-gray-600">
+              {(['Baixo', 'Médio', 'Alto'] as RiskClassification[]).map(classification => (
+                <span key={classification} className="flex items-center gap-1">
+                  <span className={`w-2 h-2 rounded-full ${RISK_BAR_COLORS[classification]}`} />
+                  {classification}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <h3 className="text-sm font-semibold text-gray-900">Funil W1</h3>
+            <p className="text-xs text-gray-500 mb-4">Clientes com reunião de cada etapa no período</p>
+            <div className="space-y-3">
+              {analytics.funnel.map(stage => (
+                <div key={stage.stage} className="flex items-center gap-3">
+                  <span className="w-8 text-xs font-medium text-gray-700">{stage.stage}</span>
+                  <div className="flex-1 h-6 bg-gray-100 rounded">
+                    <div
+                      className="h-6 rounded flex items-center px-2 text-xs text-white font-medium"
+                      style={{
+                        width: `${Math.max((stage.clients / maxFunnel) * 100, stage.clients > 0 ? 8 : 0)}%`,
+                        backgroundColor: getTypeColor(stage.stage),
+                      }}
+                    >
+                      {stage.clients > 0 && stage.clients}
+                    </div>
+                  </div>
+                  <span className="w-12 text-right text-xs text-gray-500">
+                    {stage.conversion !== null ? `${stage.conversion}%` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-900 mb-4">Reuniões por semana</h3>
+          {analytics.total_meetings === 0 ? (
+            <p className="text-sm text-gray-500">Nenhuma reunião no período</p>
+          ) : (
+            <>
+              <div className="flex items-end gap-1" style={{ height: CHART_HEIGHT }}>
+                {analytics.meetings_per_week.map(week => (
+                  <div
+                    key={week.week_start}
+                    className="flex-1 flex flex-col-reverse"
+                    style={{ height: `${(week.total / maxWeekMeetings) * 100}%` }}
+                    title={`Semana de ${formatWeek(week.week_start)}: ${week.total} reunião(ões)`}
+                  >
+                    {analytics.meeting_types.map(type => (
+                      week.by_type[type] ? (
+                        <div
+                          key={type}
+                          style={{
+                            height: `${(week.by_type[type] / week.total) * 100}%`,
+                            backgroundColor: getTypeColor(type),
+                          }}
+                        />
+                      ) : null
+                    ))}
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-1 mt-1">
+                {analytics.meetings_per_week.map((week, index) => (
+                  <span key={week.week_start} className="flex-1 text-center text-[10px] text-gray-400">
+                    {index % Math.ceil(analytics.meetings_per_week.length / 12) === 0 ? formatWeek(week.week_start) : ''}
+                  </span>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-4 mt-3 text-xs text-gray-600">
+                {analytics.meeting_types.map(type => (
+                  <span key={type} className="flex items-center gap-1">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: getTypeColor(type) }} />
+                    {getTypeLabel(type)}
+                  </span>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <h3 className="text-sm font-semibold text-gray-900">Conclusão de tarefas por responsável</h3>
+            <p className="text-xs text-gray-500 mb-4">Tarefas com prazo no período</p>
+            <div className="space-y-4">
+              {analytics.task_completion.map(owner => (
+                <div key={owner.owner}>
+                  <div className="flex justify-between text-xs text-gray-600 mb-1">
+                    <span className="font-medium text-gray-900">{owner.owner}</span>
+                    <span>
+                      {owner.completed}/{owner.total} ({owner.rate}%) · {owner.completed_on_time} no prazo
+                    </span>
+                  </div>
+                  <div className="h-3 bg-gray-100 rounded overflow-hidden">
+                    <div className="h-3 bg-blue-600" style={{ width: `${owner.rate}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <h3 className="text-sm font-semibold text-gray-900">Sentimento das reuniões</h3>
+            <p className="text-xs text-gray-500 mb-4">
+              Detectado nas transcrições processadas
+              {analytics.meetings_without_sentiment > 0 && ` · ${analytics.meetings_without_sentiment} reunião(ões) sem análise`}
+            </p>
+            <div className="flex items-end gap-1" style={{ height: CHART_HEIGHT / 2 }}>
+              {analytics.sentiment_trend.map(week => {
+                const total = week.positive + week.neutral + week.concerned;
+                return (
+                  <div
+                    key={week.week_start}
+                    className="flex-1 flex flex-col-reverse"
+                    style={{ height: `${(total / maxWeekSentiment) * 100}%` }}
+                    title={`Semana de ${formatWeek(week.week_start)}: ${week.positive} positiva(s), ${week.neutral} neutra(s), ${week.concerned} preocupada(s)`}
+                  >
+                    {SENTIMENT_STYLES.map(sentiment => (
+                      week[sentiment.key] > 0 && (
+                        <div
+                          key={sentiment.key}
+                          className={sentiment.color}
+                          style={{ height: `${(week[sentiment.key] / total) * 100}%` }}
+                        />
+                      )
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex gap-4 mt-3 text-xs text-gray-600">
+              {SENTIMENT_STYLES.map(sentiment => (
+                <span key={sentiment.key} className="flex items-center gap-1">
+                  <span className={`w-2 h-2 rounded-full ${sentiment.color}`} />
+                  {sentiment.label}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full overflow-y-auto bg-gray-50">
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div className="flex items-center gap-2">
+            <LayoutDashboard className="w-5 h-5 text-blue-600" />
+            <h2 className="text-xl font-semibold text-gray-900">Indicadores da Carteira</h2>
+          </div>
+          <div className="flex items-center gap-2 flex-wrap">
+            {RANGE_PRESETS.map(preset => {
+              const presetRange = lastDays(preset.days);
+              const active = presetRange.from === range.from && presetRange.to === range.to;
+              return (
+                <button
+                  key={preset.days}
+                  onClick={() => setRange(presetRange)}
+                  className={`px-3 py-1 text-xs rounded-full transition-colors ${
+                    active ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              );
+            })}
+            <input
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-xs"
+            />
+            <span className="text-xs text-gray-500">até</span>
+            <input
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-xs"
+            />
+          </div>
+        </div>
+
+        {renderContent()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { Users } from 'lucide-react';
+import { findDuplicateClients, type DuplicateCandidate } from '../services/clientMergeService';
+import ClientMergeModal from './ClientMergeModal';
+
+interface DuplicateClientsBannerProps {
+  refreshKey: string;
+  onMerged: (survivingClientId: string) => void;
+}
+
+export default function DuplicateClientsBanner({ refreshKey, onMerged }: DuplicateClientsBannerProps) {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [showModal, setShowModal] = useState(false);
+
+  useEffect(() => {
+    loadCandidates();
+  }, [refreshKey]);
+
+  const loadCandidates = async () => {
+    try {
+      setCandidates(await findDuplicateClients());
+    } catch (error) {
+      console.error('Error loading duplicate clients:', error);
+    }
+  };
+
+  const handleMerged = (survivingClientId: string) => {
+    // Pairs involving the deleted client disappear; other scores may change too
+    loadCandidates();
+    onMerged(survivingClientId);
+  };
+
+  const handleDismissed = (key: string) => {
+    setCandidates(prev => prev.filter(candidate => candidate.key !== key));
+  };
+
+  if (candidates.length === 0 && !showModal) return null;
+
+  return (
+    <>
+      {candidates.length > 0 && (
+        <div className="mx-4 mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-medium text-yellow-800">
+            <Users className="w-4 h-4 flex-shrink-0" />
+            {candidates.length} possível(is) cliente(s) duplicado(s)
+          </div>
+          <button
+            onClick={() => setShowModal(true)}
+            className="px-2 py-1 text-xs font-medium text-yellow-800 hover:bg-yellow-100 rounded"
+          >
+            Revisar
+          </button>
+        </div>
+      )}
+
+      {showModal && (
+        <ClientMergeModal
+          candidates={candidates}
+          onClose={() => setShowModal(false)}
+          onMerged={handleMerged}
+          onDismissed={handleDismissed}
+        />
+      )}
+    </>
+  );
+}
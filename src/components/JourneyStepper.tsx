@@ -0,0 +1,77 @@
+import { Check, AlertTriangle, CalendarClock } from 'lucide-react';
+import { JOURNEY_STATUS_LABELS, getW1Stage, type ClientJourney } from '../services/journeyService';
+
+interface JourneyStepperProps {
+  journey: ClientJourney;
+}
+
+const STATUS_STYLES: Record<ClientJourney['status'], string> = {
+  not_started: 'bg-gray-100 text-gray-700',
+  on_track: 'bg-green-100 text-green-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  stuck: 'bg-red-100 text-red-800',
+  maintenance: 'bg-purple-100 text-purple-800',
+};
+
+export default function JourneyStepper({ journey }: JourneyStepperProps) {
+  const nextStage = getW1Stage(journey.next_stage);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center">
+        {journey.steps.map((step, index) => (
+          <div key={step.stage.code} className="flex items-center flex-1 last:flex-none">
+            <div
+              className="flex flex-col items-center gap-1"
+              title={`${step.stage.code} ${step.stage.label}: ${step.stage.goal}${
+                step.completed_at ? ` · última em ${new Date(step.completed_at).toLocaleDateString('pt-BR')}` : ''
+              }`}
+            >
+              <div
+                className={`w-7 h-7 rounded-full flex items-center justify-center text-[10px] font-semibold ${
+                  step.status === 'done'
+                    ? 'bg-blue-600 text-white'
+                    : step.status === 'next'
+                      ? journey.status === 'stuck'
+                        ? 'bg-red-50 text-red-700 border-2 border-red-500'
+                        : 'bg-white text-blue-700 border-2 border-blue-600'
+                      : 'bg-gray-100 text-gray-400'
+                }`}
+              >
+                {step.status === 'done' && step.stage.code !== 'FUP' ? <Check className="w-3.5 h-3.5" /> : step.stage.code}
+              </div>
+              <span className="text-[10px] text-gray-500">
+                {step.stage.code === 'FUP' && step.meeting_count > 0 ? `${step.meeting_count}x` : step.stage.label}
+              </span>
+            </div>
+            {index < journey.steps.length - 1 && (
+              <div className={`flex-1 h-0.5 mx-1 mb-4 ${step.status === 'done' ? 'bg-blue-600' : 'bg-gray-200'}`} />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-start justify-between gap-2 text-xs">
+        <div className="text-gray-600">
+          <p>
+            Próximo passo: <span className="font-medium text-gray-900">{nextStage.code} {nextStage.label}</span>
+          </p>
+          {journey.next_meeting_at ? (
+            <p className="flex items-center gap-1 text-blue-700 mt-0.5">
+              <CalendarClock className="w-3 h-3" />
+              Agendada para {new Date(journey.next_meeting_at).toLocaleDateString('pt-BR')}
+            </p>
+          ) : (
+            <p className={`flex items-center gap-1 mt-0.5 ${journey.status === 'stuck' ? 'text-red-600' : 'text-gray-500'}`}>
+              {journey.status === 'stuck' && <AlertTriangle className="w-3 h-3" />}
+              {journey.days_in_stage} dia(s) na etapa · esperado até {journey.expected_days}
+            </p>
+          )}
+        </div>
+        <span className={`px-2 py-0.5 rounded-full font-medium flex-shrink-0 ${STATUS_STYLES[journey.status]}`}>
+          {JOURNEY_STATUS_LABELS[journey.status]}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,530 @@
+import { useState, useEffect } from 'react';
+import {
+  Inbox,
+  Plus,
+  Trash2,
+  Power,
+  Copy,
+  Eye,
+  EyeOff,
+  RefreshCw,
+  Settings,
+  CheckCircle,
+  XCircle,
+  AlertCircle,
+  Users,
+} from 'lucide-react';
+import { useToast } from '../lib/toast';
+import {
+  getLeadIntakeKeys,
+  getLeadIntakeLogs,
+  getLeadIntakeUrl,
+  createLeadIntakeKey,
+  updateLeadIntakeKey,
+  regenerateLeadIntakeSecret,
+  deleteLeadIntakeKey,
+  previewLeadPayload,
+  buildSampleRequest,
+  LEAD_FIELDS,
+  type LeadIntakeKey,
+  type LeadIntakeLogEntry,
+} from '../services/leadIntakeService';
+import { getActiveMeetingTypes, type MeetingTypeDetails } from '../services/meetingTypeService';
+import { getCustomFieldDefinitions, type CustomFieldDefinition } from '../services/customFieldService';
+import type { LeadIntakeStatus } from '../lib/database.types';
+
+const STATUS_STYLES: Record<LeadIntakeStatus, string> = {
+  created: 'bg-green-100 text-green-700',
+  duplicate: 'bg-yellow-100 text-yellow-700',
+  rejected: 'bg-red-100 text-red-700',
+  error: 'bg-red-100 text-red-700',
+};
+
+const SAMPLE_PAYLOAD = JSON.stringify({
+  nome: 'Maria Silva',
+  email: 'maria@example.com',
+  whatsapp: '(11) 98765-4321',
+  mensagem: 'Quero organizar minhas finanças',
+  utm_source: 'instagram',
+}, null, 2);
+
+interface MappingRow {
+  source: string;
+  target: string;
+}
+
+export default function LeadIntakePanel() {
+  const { showToast } = useToast();
+  const [keys, setKeys] = useState<LeadIntakeKey[]>([]);
+  const [logs, setLogs] = useState<LeadIntakeLogEntry[]>([]);
+  const [meetingTypes, setMeetingTypes] = useState<MeetingTypeDetails[]>([]);
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const [newKeyName, setNewKeyName] = useState('');
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [configuringKey, setConfiguringKey] = useState<string | null>(null);
+  const [mappingRows, setMappingRows] = useState<MappingRow[]>([]);
+  const [samplePayload, setSamplePayload] = useState(SAMPLE_PAYLOAD);
+  const [loadingLogs, setLoadingLogs] = useState(false);
+
+  useEffect(() => {
+    loadKeys();
+    loadLogs();
+    getActiveMeetingTypes()
+      .then(setMeetingTypes)
+      .catch(error => console.error('Error loading meeting types:', error));
+    getCustomFieldDefinitions()
+      .then(setCustomFields)
+      .catch(error => console.error('Error loading custom fields:', error));
+  }, []);
+
+  const loadKeys = async () => {
+    try {
+      setKeys(await getLeadIntakeKeys());
+    } catch (error) {
+      console.error('Error loading lead intake keys:', error);
+      showToast('Failed to load lead intake keys', 'error');
+    }
+  };
+
+  const loadLogs = async () => {
+    setLoadingLogs(true);
+    try {
+      setLogs(await getLeadIntakeLogs());
+    } catch (error) {
+      console.error('Error loading lead intake logs:', error);
+    } finally {
+      setLoadingLogs(false);
+    }
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    showToast('Copied to clipboard', 'success');
+  };
+
+  const handleCreateKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const key = await createLeadIntakeKey(newKeyName);
+      setNewKeyName('');
+      setRevealedSecret(key.id);
+      showToast('API key created', 'success');
+      await loadKeys();
+    } catch (error: any) {
+      console.error('Error creating lead intake key:', error);
+      showToast(error.message || 'Failed to create API key', 'error');
+    }
+  };
+
+  const handleUpdateKey = async (key: LeadIntakeKey, settings: Parameters<typeof updateLeadIntakeKey>[1]) => {
+    try {
+      const updated = await updateLeadIntakeKey(key.id, settings);
+      setKeys(keys.map(item => (item.id === key.id ? updated : item)));
+    } catch (error: any) {
+      console.error('Error updating lead intake key:', error);
+      showToast(error.message || 'Failed to update API key', 'error');
+    }
+  };
+
+  const handleRegenerateSecret = async (key: LeadIntakeKey) => {
+    if (!confirm('Regenerate the signing secret? Integrations using the current secret will stop working.')) return;
+
+    try {
+      await regenerateLeadIntakeSecret(key.id);
+      setRevealedSecret(key.id);
+      showToast('Signing secret regenerated', 'success');
+      await loadKeys();
+    } catch (error) {
+      console.error('Error regenerating signing secret:', error);
+      showToast('Failed to regenerate secret', 'error');
+    }
+  };
+
+  const handleDeleteKey = async (key: LeadIntakeKey) => {
+    if (!confirm(`Delete the API key "${key.name}"? Requests using it will be refused.`)) return;
+
+    try {
+      await deleteLeadIntakeKey(key.id);
+      showToast('API key deleted', 'success');
+      await loadKeys();
+    } catch (error) {
+      console.error('Error deleting lead intake key:', error);
+      showToast('Failed to delete API key', 'error');
+    }
+  };
+
+  const openConfiguration = (key: LeadIntakeKey) => {
+    if (configuringKey === key.id) {
+      setConfiguringKey(null);
+      return;
+    }
+    setConfiguringKey(key.id);
+    setMappingRows(Object.entries(key.field_mapping || {}).map(([source, target]) => ({ source, target })));
+  };
+
+  const handleSaveMapping = async (key: LeadIntakeKey) => {
+    const invalid = mappingRows.find(row =>
+      row.source.trim() && row.target.startsWith('custom:') && !/^custom:[a-z][a-z0-9_]*$/.test(row.target)
+    );
+    if (invalid) {
+      showToast(`Custom field key for "${invalid.source}" must use lowercase letters, numbers and underscores`, 'error');
+      return;
+    }
+
+    const fieldMapping = Object.fromEntries(
+      mappingRows
+        .filter(row => row.source.trim() && row.target)
+        .map(row => [row.source.trim(), row.target])
+    );
+    await handleUpdateKey(key, { field_mapping: fieldMapping });
+    showToast('Field mapping saved', 'success');
+  };
+
+  const handleCopySampleRequest = async (key: LeadIntakeKey) => {
+    try {
+      copyToClipboard(await buildSampleRequest(key, samplePayload));
+    } catch {
+      showToast('Sample payload is not valid JSON', 'error');
+    }
+  };
+
+  const updateMappingRow = (index: number, changes: Partial<MappingRow>) => {
+    setMappingRows(mappingRows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const renderConfiguration = (key: LeadIntakeKey) => {
+    const preview = previewLeadPayload({ ...key, field_mapping: Object.fromEntries(
+      mappingRows.filter(row => row.source.trim() && row.target).map(row => [row.source.trim(), row.target])
+    ) }, samplePayload, customFields);
+
+    return (
+      <div className="mt-4 pt-4 border-t border-gray-200 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-800 mb-1">Field Mapping</h4>
+            <p className="text-xs text-gray-500 mb-2">
+              Fields named like "nome", "email", "whatsapp" or "cpf" are recognised automatically.
+              Map anything else here; use dots for nested fields (contact.email).
+            </p>
+            <div className="space-y-2">
+              {mappingRows.map((row, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    value={row.source}
+                    onChange={(e) => updateMappingRow(index, { source: e.target.value })}
+                    placeholder="Incoming field"
+                    className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded text-sm font-mono"
+                  />
+                  <span className="text-gray-400">→</span>
+                  <select
+                    value={row.target.startsWith('custom:') ? 'custom:' : row.target}
+                    onChange={(e) => updateMappingRow(index, { target: e.target.value })}
+                    className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded text-sm"
+                  >
+                    <option value="">Ignore</option>
+                    {LEAD_FIELDS.map(field => (
+                      <option key={field.key} value={field.key}>{field.label}</option>
+                    ))}
+                    <option value="custom:">Custom field…</option>
+                  </select>
+                  {row.target.startsWith('custom:') && (
+                    <input
+                      type="text"
+                      value={row.target.slice('custom:'.length)}
+                      onChange={(e) => updateMappingRow(index, { target: `custom:${e.target.value.toLowerCase()}` })}
+                      placeholder="key"
+                      className="w-28 px-2 py-1.5 border border-gray-300 rounded text-sm font-mono"
+                    />
+                  )}
+                  <button
+                    onClick={() => setMappingRows(mappingRows.filter((_, i) => i !== index))}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2 mt-2">
+              <button
+                onClick={() => setMappingRows([...mappingRows, { source: '', target: '' }])}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded hover:bg-gray-50 flex items-center gap-1"
+              >
+                <Plus className="w-3 h-3" />
+                Add Mapping
+              </button>
+              <button
+                onClick={() => handleSaveMapping(key)}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                Save Mapping
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-800 mb-2">First Meeting</h4>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={key.auto_schedule_meeting}
+                onChange={(e) => handleUpdateKey(key, { auto_schedule_meeting: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded"
+              />
+              Schedule a meeting for every new lead
+            </label>
+            {key.auto_schedule_meeting && (
+              <div className="flex gap-2 items-center mt-2 text-sm text-gray-700">
+                <select
+                  value={key.meeting_type}
+                  onChange={(e) => handleUpdateKey(key, { meeting_type: e.target.value })}
+                  className="px-2 py-1.5 border border-gray-300 rounded text-sm"
+                >
+                  {meetingTypes.map(type => (
+                    <option key={type.code} value={type.code}>{type.code} - {type.display_name}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  max={30}
+                  value={key.meeting_delay_days}
+                  onChange={(e) => handleUpdateKey(key, { meeting_delay_days: parseInt(e.target.value) || 0 })}
+                  className="w-16 px-2 py-1.5 border border-gray-300 rounded text-sm"
+                />
+                <span>business days later, 10:00 (Brasília)</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-800 mb-1">Sample Payload</h4>
+          <textarea
+            value={samplePayload}
+            onChange={(e) => setSamplePayload(e.target.value)}
+            rows={8}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono"
+          />
+          <div className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded-lg text-xs">
+            {preview.lead ? (
+              <div className="space-y-1 text-gray-700">
+                <div className="flex items-center gap-1 text-green-700 font-medium">
+                  <CheckCircle className="w-3 h-3" />
+                  Would create "{preview.lead.client.name}"
+                </div>
+                <div>Email: {preview.lead.client.email || '—'} · Phone: {preview.lead.client.phone || '—'}</div>
+                {Object.keys(preview.lead.metadata).length > 0 && (
+                  <pre className="whitespace-pre-wrap break-all text-gray-600">
+                    {JSON.stringify(preview.lead.metadata, null, 2)}
+                  </pre>
+                )}
+              </div>
+            ) : (
+              <div className="text-red-600 space-y-1">
+                {preview.errors.map(error => (
+                  <div key={error} className="flex items-center gap-1">
+                    <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                    {error}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => handleCopySampleRequest(key)}
+            className="mt-2 px-3 py-1.5 text-sm border border-gray-300 rounded hover:bg-gray-50 flex items-center gap-1"
+          >
+            <Copy className="w-3 h-3" />
+            Copy signed curl request
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="mb-4">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+          <Inbox className="w-6 h-6" />
+          Inbound Lead Intake
+        </h2>
+        <p className="text-gray-600 mt-1">
+          Let landing pages, form tools and CRMs create clients by posting leads to your intake endpoint
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-4 space-y-3">
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <span className="font-medium text-gray-700">Endpoint</span>
+          <code className="bg-gray-100 px-2 py-1 rounded break-all">POST {getLeadIntakeUrl()}</code>
+          <button onClick={() => copyToClipboard(getLeadIntakeUrl())} className="text-gray-400 hover:text-gray-600">
+            <Copy className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Send the API key in <code>X-Api-Key</code>, the Unix time in <code>X-Lead-Timestamp</code> and
+          {' '}<code>X-Lead-Signature: sha256=HMAC_SHA256(secret, timestamp + "." + body)</code>.
+          Requests more than 5 minutes old are refused. Leads matching an existing client by CPF/CNPJ, email or phone
+          are logged as duplicates instead of creating a new client.
+        </p>
+
+        <form onSubmit={handleCreateKey} className="flex gap-2 pt-2">
+          <input
+            type="text"
+            value={newKeyName}
+            onChange={(e) => setNewKeyName(e.target.value)}
+            placeholder="Key name, e.g. Landing page"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            required
+          />
+          <button
+            type="submit"
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add API Key
+          </button>
+        </form>
+      </div>
+
+      <div className="grid gap-4 mb-6">
+        {keys.map(key => (
+          <div key={key.id} className="bg-white rounded-lg shadow p-6">
+            <div className="flex justify-between items-start">
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex items-center gap-3">
+                  <h3 className="text-lg font-semibold text-gray-800">{key.name}</h3>
+                  <span className={`px-2 py-1 rounded text-xs font-medium ${
+                    key.enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+                  }`}>
+                    {key.enabled ? 'Active' : 'Disabled'}
+                  </span>
+                  {key.auto_schedule_meeting && (
+                    <span className="px-2 py-1 rounded text-xs font-medium bg-blue-50 text-blue-700">
+                      Auto {key.meeting_type}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <span className="w-24 text-gray-500">API key</span>
+                  <code className="bg-gray-100 px-2 py-1 rounded">{key.key_id}</code>
+                  <button onClick={() => copyToClipboard(key.key_id)} className="text-gray-400 hover:text-gray-600">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <span className="w-24 text-gray-500">Signing secret</span>
+                  <code className="bg-gray-100 px-2 py-1 rounded break-all">
+                    {revealedSecret === key.id ? key.signing_secret : '•'.repeat(24)}
+                  </code>
+                  <button
+                    onClick={() => setRevealedSecret(revealedSecret === key.id ? null : key.id)}
+                    className="text-gray-400 hover:text-gray-600"
+                    title={revealedSecret === key.id ? 'Hide' : 'Reveal'}
+                  >
+                    {revealedSecret === key.id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                  <button onClick={() => copyToClipboard(key.signing_secret)} className="text-gray-400 hover:text-gray-600">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {key.last_used_at
+                    ? `Last request ${new Date(key.last_used_at).toLocaleString()}`
+                    : 'No requests yet'}
+                </p>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleUpdateKey(key, { enabled: !key.enabled })}
+                  className={`p-2 rounded hover:bg-gray-100 ${key.enabled ? 'text-green-600' : 'text-gray-400'}`}
+                  title={key.enabled ? 'Disable' : 'Enable'}
+                >
+                  <Power className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => openConfiguration(key)}
+                  className="p-2 rounded hover:bg-gray-100 text-gray-600"
+                  title="Configure"
+                >
+                  <Settings className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleRegenerateSecret(key)}
+                  className="p-2 rounded hover:bg-gray-100 text-gray-600"
+                  title="Regenerate Secret"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDeleteKey(key)}
+                  className="p-2 rounded hover:bg-gray-100 text-red-600"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {configuringKey === key.id && renderConfiguration(key)}
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="font-semibold text-gray-800">Intake Log</h3>
+          <button
+            onClick={loadLogs}
+            disabled={loadingLogs}
+            className="p-2 rounded hover:bg-gray-100 text-gray-600 disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${loadingLogs ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+        {logs.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500">No leads received yet</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {logs.map(log => (
+              <details key={log.id} className="px-4 py-3">
+                <summary className="flex items-center gap-3 cursor-pointer text-sm">
+                  {log.status === 'created' ? (
+                    <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+                  ) : log.status === 'duplicate' ? (
+                    <Users className="w-4 h-4 text-yellow-600 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                  )}
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[log.status]}`}>
+                    {log.status}
+                  </span>
+                  <span className="text-gray-800 truncate">
+                    {log.client?.name || log.error_message || '—'}
+                  </span>
+                  <span className="ml-auto text-xs text-gray-500 flex-shrink-0">
+                    {keys.find(key => key.id === log.intake_key_id)?.name || 'Deleted key'} · {new Date(log.created_at).toLocaleString()}
+                  </span>
+                </summary>
+                <div className="mt-2 space-y-2">
+                  {log.error_message && log.client && (
+                    <p className="text-xs text-red-600">{log.error_message}</p>
+                  )}
+                  <pre className="text-xs bg-gray-50 border border-gray-200 rounded p-3 overflow-x-auto">
+                    {JSON.stringify(log.payload, null, 2)}
+                  </pre>
+                </div>
+              </details>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useEffect, useState } from 'react';
+import { CalendarPlus, Repeat, Loader2, Download } from 'lucide-react';
+import { getPlannedMeetingsByClient, scheduleMeeting } from '../services/meetingService';
+import {
+  getFollowUpCadence,
+  saveFollowUpCadence,
+  DEFAULT_FOLLOW_UP_CADENCE,
+  type FollowUpCadenceInput,
+} from '../services/followUpService';
+import { downloadMeetingInvitation } from '../services/calendarService';
+import type { MeetingTypeDetails } from '../services/meetingTypeService';
+import { useToast } from '../lib/toast';
+import type { Database } from '../lib/database.types';
+
+type Meeting = Database['public']['Tables']['meetings']['Row'];
+
+interface MeetingSchedulePanelProps {
+  clientId: string;
+  meetingTypes: Record<string, MeetingTypeDetails>;
+  onChanged: () => void;
+}
+
+export default function MeetingSchedulePanel({ clientId, meetingTypes, onChanged }: MeetingSchedulePanelProps) {
+  const { showToast } = useToast();
+  const [planned, setPlanned] = useState<Meeting[]>([]);
+  const [cadence, setCadence] = useState<FollowUpCadenceInput | null>(null);
+  const [editingCadence, setEditingCadence] = useState<FollowUpCadenceInput>(DEFAULT_FOLLOW_UP_CADENCE);
+  const [showCadenceForm, setShowCadenceForm] = useState(false);
+  const [showScheduleForm, setShowScheduleForm] = useState(false);
+  const [scheduleType, setScheduleType] = useState('FUP');
+  const [scheduleDatetime, setScheduleDatetime] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [clientId]);
+
+  const loadSchedule = async () => {
+    try {
+      const [plannedData, cadenceData] = await Promise.all([
+        getPlannedMeetingsByClient(clientId),
+        getFollowUpCadence(clientId),
+      ]);
+      setPlanned(plannedData);
+      setCadence(cadenceData);
+      setEditingCadence(cadenceData || DEFAULT_FOLLOW_UP_CADENCE);
+    } catch (error) {
+      console.error('Error loading meeting schedule:', error);
+    }
+  };
+
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!scheduleDatetime) return;
+
+    setSaving(true);
+    try {
+      await scheduleMeeting({
+        client_id: clientId,
+        type: scheduleType,
+        datetime: new Date(scheduleDatetime).toISOString(),
+      });
+      showToast('Reunião agendada', 'success');
+      setShowScheduleForm(false);
+      setScheduleDatetime('');
+      await loadSchedule();
+      onChanged();
+    } catch (error: any) {
+      console.error('Error scheduling meeting:', error);
+      showToast(error?.message || 'Erro ao agendar reunião', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveCadence = async () => {
+    setSaving(true);
+    try {
+      await saveFollowUpCadence(clientId, editingCadence);
+      showToast('Cadência de follow-up salva', 'success');
+      setShowCadenceForm(false);
+      await loadSchedule();
+      onChanged();
+    } catch (error: any) {
+      console.error('Error saving follow-up cadence:', error);
+      showToast(error?.message || 'Erro ao salvar cadência', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownloadInvitation = async (meetingId: string) => {
+    try {
+      await downloadMeetingInvitation(meetingId);
+    } catch (error: any) {
+      console.error('Error generating meeting invitation:', error);
+      showToast(error?.message || 'Erro ao gerar convite', 'error');
+    }
+  };
+
+  const typeLabel = (code: string) => meetingTypes[code]?.display_name || code;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900 text-sm flex items-center gap-2">
+          <CalendarPlus className="w-4 h-4" />
+          Próximas Reuniões
+        </h3>
+        <button
+          onClick={() => setShowScheduleForm(!showScheduleForm)}
+          className="text-xs text-blue-600 hover:text-blue-700"
+        >
+          {showScheduleForm ? 'Cancelar' : 'Agendar'}
+        </button>
+      </div>
+
+      {showScheduleForm && (
+        <form onSubmit={handleSchedule} className="flex gap-2">
+          <select
+            value={scheduleType}
+            onChange={(e) => setScheduleType(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded text-xs"
+          >
+            {Object.values(meetingTypes).map(type => (
+              <option key={type.code} value={type.code}>{type.code}</option>
+            ))}
+          </select>
+          <input
+            type="datetime-local"
+            value={scheduleDatetime}
+            onChange={(e) => setScheduleDatetime(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-xs"
+            required
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-3 h-3 animate-spin" /> : 'OK'}
+          </button>
+        </form>
+      )}
+
+      {planned.length === 0 ? (
+        <p className="text-xs text-gray-500">Nenhuma reunião agendada</p>
+      ) : (
+        <div className="space-y-1">
+          {planned.map(meeting => {
+            const overdue = new Date(meeting.datetime) < new Date();
+            return (
+              <div key={meeting.id} className="flex items-center justify-between text-xs bg-gray-50 rounded px-2 py-1.5">
+                <span style={{ color: meetingTypes[meeting.type]?.color || '#3B82F6' }} className="font-medium">
+                  {typeLabel(meeting.type)}
+                  {meeting.follow_up_cadence_id && <Repeat className="inline w-3 h-3 ml-1" />}
+                </span>
+                <span className="flex items-center gap-2">
+                  <span className={overdue ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                    {new Date(meeting.datetime).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                    {overdue && ' · não registrada'}
+                  </span>
+                  {!overdue && (
+                    <button
+                      onClick={() => handleDownloadInvitation(meeting.id)}
+                      className="text-gray-400 hover:text-blue-600"
+                      title="Baixar convite (.ics) para o cliente"
+                    >
+                      <Download className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="border-t border-gray-100 pt-3">
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-700 flex items-center gap-1">
+            <Repeat className="w-3.5 h-3.5" />
+            {cadence?.enabled
+              ? `${cadence.meeting_type} a cada ${cadence.interval_days} dias${cadence.start_after ? ` após ${cadence.start_after}` : ''}`
+              : 'Sem cadência de follow-up'}
+          </p>
+          <button
+            onClick={() => setShowCadenceForm(!showCadenceForm)}
+            className="text-xs text-blue-600 hover:text-blue-700"
+          >
+            {showCadenceForm ? 'Cancelar' : cadence ? 'Editar' : 'Definir'}
+          </button>
+        </div>
+
+        {showCadenceForm && (
+          <div className="mt-2 space-y-2">
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="block text-[11px] text-gray-600 mb-0.5">Tipo</label>
+                <select
+                  value={editingCadence.meeting_type}
+                  onChange={(e) => setEditingCadence({ ...editingCadence, meeting_type: e.target.value })}
+                  className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+                >
+                  {Object.values(meetingTypes).map(type => (
+                    <option key={type.code} value={type.code}>{type.code}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-[11px] text-gray-600 mb-0.5">A cada (dias)</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={editingCadence.interval_days}
+                  onChange={(e) => setEditingCadence({ ...editingCadence, interval_days: Number(e.target.value) })}
+                  className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+                />
+              </div>
+              <div>
+                <label className="block text-[11px] text-gray-600 mb-0.5">Começa após</label>
+                <select
+                  value={editingCadence.start_after || ''}
+                  onChange={(e) => setEditingCadence({ ...editingCadence, start_after: e.target.value || null })}
+                  className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+                >
+                  <option value="">Qualquer reunião</option>
+                  {Object.values(meetingTypes).map(type => (
+                    <option key={type.code} value={type.code}>{type.code}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={editingCadence.enabled}
+                onChange={(e) => setEditingCadence({ ...editingCadence, enabled: e.target.checked })}
+                className="w-3.5 h-3.5 text-blue-600 rounded"
+              />
+              Agendar automaticamente a próxima reunião
+            </label>
+            <button
+              onClick={handleSaveCadence}
+              disabled={saving}
+              className="w-full px-3 py-1.5 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 disabled:opacity-50"
+            >
+              Salvar cadência
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { User, CreditCard, History, ExternalLink, X, AlertTriangle, Settings, Eye, EyeOff, Save, FileText, CheckCircle, XCircle } from 'lucide-react';
+import { User, CreditCard, History, ExternalLink, X, AlertTriangle, Settings, Eye, EyeOff, Save, FileText, CheckCircle, XCircle, ShieldAlert, CalendarDays, SlidersHorizontal } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { createCustomerPortalSession, getUserPaymentTransactions, formatCurrency, formatDate, type PaymentTransaction } from '../services/paymentService';
 import { cancelSubscription as cancelUserSubscription } from '../services/subscriptionService';
@@ -8,14 +8,52 @@ import PlanSelector from './PlanSelector';
 import { updateSetting } from '../services/settingsService';
 import { supabase } from '../lib/supabase';
 import PromptEditor from './PromptEditor';
-import { resetOpenAI, testOpenAIConnection } from '../lib/openai';
+import RiskRulesEditor from './RiskRulesEditor';
+import CalendarSettings from './CalendarSettings';
+import CustomFieldsManager from './CustomFieldsManager';
+import { resetOpenAI } from '../lib/openai';
+import { testLLMConnection, LLM_PROVIDERS, LLM_SETTING_KEYS, type LLMProviderId } from '../lib/llm';
+
+interface ProviderField {
+  key: string;
+  label: string;
+  placeholder: string;
+  secret?: boolean;
+  required?: boolean;
+}
+
+const PROVIDER_FIELDS: Record<LLMProviderId, ProviderField[]> = {
+  openai: [
+    { key: 'openai_api_key', label: 'Chave de API da OpenAI', placeholder: 'sk-...', secret: true, required: true },
+    { key: 'openai_model', label: 'Modelo', placeholder: LLM_PROVIDERS.openai.defaultModel },
+  ],
+  anthropic: [
+    { key: LLM_SETTING_KEYS.ANTHROPIC_API_KEY, label: 'Chave de API da Anthropic', placeholder: 'sk-ant-...', secret: true, required: true },
+    { key: LLM_SETTING_KEYS.ANTHROPIC_MODEL, label: 'Modelo', placeholder: LLM_PROVIDERS.anthropic.defaultModel },
+  ],
+  azure: [
+    { key: LLM_SETTING_KEYS.AZURE_API_KEY, label: 'Chave de API do Azure OpenAI', placeholder: 'Chave do recurso', secret: true, required: true },
+    { key: LLM_SETTING_KEYS.AZURE_ENDPOINT, label: 'Endpoint', placeholder: 'https://seu-recurso.openai.azure.com/', required: true },
+    { key: LLM_SETTING_KEYS.AZURE_DEPLOYMENT, label: 'Deployment', placeholder: 'nome-do-deployment', required: true },
+    { key: LLM_SETTING_KEYS.AZURE_API_VERSION, label: 'Versão da API', placeholder: '2024-10-21' },
+  ],
+  ollama: [
+    { key: LLM_SETTING_KEYS.OLLAMA_BASE_URL, label: 'URL do servidor', placeholder: 'http://localhost:11434' },
+    { key: LLM_SETTING_KEYS.OLLAMA_MODEL, label: 'Modelo', placeholder: LLM_PROVIDERS.ollama.defaultModel },
+  ],
+};
+
+const LLM_SETTINGS_TO_LOAD = [
+  LLM_SETTING_KEYS.PROVIDER,
+  ...Object.values(PROVIDER_FIELDS).flat().map(field => field.key),
+];
 
 interface ProfileMenuProps {
   onClose: () => void;
   onOpenSettings: () => void;
 }
 
-type TabType = 'profile' | 'subscription' | 'history' | 'settings' | 'prompts';
+type TabType = 'profile' | 'subscription' | 'history' | 'settings' | 'prompts' | 'risk' | 'calendar' | 'fields';
 
 export default function ProfileMenu({ onClose, onOpenSettings }: ProfileMenuProps) {
   const { user, profile, subscription, refreshSubscription } = useAuth();
@@ -25,7 +63,8 @@ export default function ProfileMenu({ onClose, onOpenSettings }: ProfileMenuProp
   const [loadingPortal, setLoadingPortal] = useState(false);
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [loadingCancel, setLoadingCancel] = useState(false);
-  const [openaiKey, setOpenaiKey] = useState('');
+  const [llmProvider, setLlmProvider] = useState<LLMProviderId>('openai');
+  const [providerSettings, setProviderSettings] = useState<Record<string, string>>({});
   const [showKey, setShowKey] = useState(false);
   const [loadingSettings, setLoadingSettings] = useState(false);
   const [savingSettings, setSavingSettings] = useState(false);
@@ -91,30 +130,46 @@ export default function ProfileMenu({ onClose, onOpenSettings }: ProfileMenuProp
     try {
       const { data, error } = await supabase
         .from('settings')
-        .select('value')
-        .eq('key', 'openai_api_key')
-        .eq('user_id', user.id)
-        .maybeSingle();
+        .select('key, value')
+        .in('key', LLM_SETTINGS_TO_LOAD)
+        .eq('user_id', user.id);
 
       if (error) throw error;
-      setOpenaiKey(data?.value || '');
+
+      const values: Record<string, string> = {};
+      (data || []).forEach(setting => {
+        values[setting.key] = setting.value || '';
+      });
+
+      const savedProvider = values[LLM_SETTING_KEYS.PROVIDER];
+      setLlmProvider(savedProvider && savedProvider in LLM_PROVIDERS ? (savedProvider as LLMProviderId) : 'openai');
+      setProviderSettings(values);
     } catch (error: any) {
       showToast('Erro ao carregar configurações', 'error');
-      setOpenaiKey('');
+      setProviderSettings({});
     } finally {
       setLoadingSettings(false);
     }
   };
 
+  const providerFields = PROVIDER_FIELDS[llmProvider];
+  const missingRequiredField = providerFields.some(field => field.required && !providerSettings[field.key]?.trim());
+
+  const handleProviderFieldChange = (key: string, value: string) => {
+    setProviderSettings(prev => ({ ...prev, [key]: value }));
+    setConnectionStatus('idle');
+  };
+
   const handleSaveSettings = async () => {
     if (!user) return;
 
-    if (!openaiKey.trim()) {
-      showToast('Por favor, insira uma chave de API válida', 'error');
+    if (missingRequiredField) {
+      showToast('Preencha os campos obrigatórios do provedor', 'error');
       return;
     }
 
-    if (!openaiKey.trim().startsWith('sk-')) {
+    const openaiKey = providerSettings.openai_api_key?.trim() || '';
+    if (llmProvider === 'openai' && !openaiKey.startsWith('sk-')) {
       showToast('A chave da OpenAI deve começar com "sk-"', 'error');
       return;
     }
@@ -122,9 +177,15 @@ export default function ProfileMenu({ onClose, onOpenSettings }: ProfileMenuProp
     setSavingSettings(true);
     setConnectionStatus('idle');
     try {
-      await updateSetting('openai_api_key', openaiKey.trim());
+      await updateSetting(LLM_SETTING_KEYS.PROVIDER, llmProvider, 'Provedor de IA usado nas reuniões, e-mails e chat');
+      for (const field of providerFields) {
+        const value = providerSettings[field.key]?.trim();
+        if (value) {
+          await updateSetting(field.key, value);
+        }
+      }
       await resetOpenAI();
-      showToast('Chave salva com sucesso! O cache foi limpo.', 'success');
+      showToast(`Configurações de ${LLM_PROVIDERS[llmProvider].label} salvas! O cache foi limpo.`, 'success');
     } catch (error: any) {
       showToast(error?.message || 'Erro ao salvar configurações', 'error');
     } finally {
@@ -133,21 +194,21 @@ export default function ProfileMenu({ onClose, onOpenSettings }: ProfileMenuProp
   };
 
   const handleTestConnection = async () => {
-    if (!openaiKey.trim()) {
-      showToast('Salve a chave antes de testar', 'error');
+    if (missingRequiredField) {
+      showToast('Salve a configuração antes de testar', 'error');
       return;
     }
 
     setTestingConnection(true);
     setConnectionStatus('idle');
     try {
-      const result = await testOpenAIConnection();
+      const result = await testLLMConnection();
       if (result.success) {
         setConnectionStatus('success');
-        showToast(`Conexão OK! Modelo: ${result.model}`, 'success');
+        showToast(`Conexão OK! ${result.provider} • Modelo: ${result.model}`, 'success');
       } else {
         setConnectionStatus('error');
-        showToast(`Erro: ${result.error}`, 'error');
+        showToast(`Erro${result.provider ? ` (${result.provider})` : ''}: ${result.error}`, 'error');
       }
     } catch (error: any) {
       setConnectionStatus('error');
@@ -167,6 +228,9 @@ export default function ProfileMenu({ onClose, onOpenSettings }: ProfileMenuProp
     { id: 'profile' as TabType, label: 'Perfil', icon: User },
     { id: 'subscription' as TabType, label: 'Assinatura', icon: CreditCard },
     { id: 'prompts' as TabType, label: 'Prompts', icon: FileText },
+    { id: 'risk' as TabType, label: 'Risco', icon: ShieldAlert },
+    { id: 'calendar' as TabType, label: 'Agenda', icon: CalendarDays },
+    { id: 'fields' as TabType, label: 'Campos', icon: SlidersHorizontal },
     { id: 'settings' as TabType, label: 'API', icon: Settings },
     { id: 'history' as TabType, label: 'Histórico', icon: History },
   ];
@@ -394,6 +458,12 @@ export default function ProfileMenu({ onClose, onOpenSettings }: ProfileMenuProp
 
           {currentTab === 'prompts' && <PromptEditor />}
 
+          {currentTab === 'risk' && <RiskRulesEditor />}
+
+          {currentTab === 'calendar' && <CalendarSettings />}
+
+          {currentTab === 'fields' && <CustomFieldsManager />}
+
           {currentTab === 'settings' && (
             <div className="space-y-6">
               <div>
@@ -406,29 +476,57 @@ export default function ProfileMenu({ onClose, onOpenSettings }: ProfileMenuProp
                   <div className="space-y-4">
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Chave de API da OpenAI
+                        Provedor de IA
                       </label>
-                      <div className="relative">
-                        <input
-                          type={showKey ? 'text' : 'password'}
-                          value={openaiKey}
-                          onChange={(e) => setOpenaiKey(e.target.value)}
-                          placeholder="sk-..."
-                          className="w-full px-4 py-2 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        />
-                        <button
-                          type="button"
-                          onClick={() => setShowKey(!showKey)}
-                          className="absolute right-3 top-1/2 -translate-y-1/2 p-1 hover:bg-gray-100 rounded transition-colors"
-                        >
-                          {showKey ? (
-                            <EyeOff className="w-5 h-5 text-gray-500" />
-                          ) : (
-                            <Eye className="w-5 h-5 text-gray-500" />
+                      <select
+                        value={llmProvider}
+                        onChange={(e) => {
+                          setLlmProvider(e.target.value as LLMProviderId);
+                          setConnectionStatus('idle');
+                        }}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        {(Object.keys(LLM_PROVIDERS) as LLMProviderId[]).map(id => (
+                          <option key={id} value={id}>{LLM_PROVIDERS[id].label}</option>
+                        ))}
+                      </select>
+                      <p className="mt-2 text-xs text-gray-600">
+                        Usado para resumos de reuniões, e-mails e chat. A busca semântica continua usando embeddings da OpenAI.
+                      </p>
+                    </div>
+
+                    {providerFields.map(field => (
+                      <div key={field.key}>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          {field.label}{field.required && ' *'}
+                        </label>
+                        <div className="relative">
+                          <input
+                            type={field.secret && !showKey ? 'password' : 'text'}
+                            value={providerSettings[field.key] || ''}
+                            onChange={(e) => handleProviderFieldChange(field.key, e.target.value)}
+                            placeholder={field.placeholder}
+                            className={`w-full px-4 py-2 ${field.secret ? 'pr-12 ' : ''}border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+                          />
+                          {field.secret && (
+                            <button
+                              type="button"
+                              onClick={() => setShowKey(!showKey)}
+                              className="absolute right-3 top-1/2 -translate-y-1/2 p-1 hover:bg-gray-100 rounded transition-colors"
+                            >
+                              {showKey ? (
+                                <EyeOff className="w-5 h-5 text-gray-500" />
+                              ) : (
+                                <Eye className="w-5 h-5 text-gray-500" />
+                              )}
+                            </button>
                           )}
-                        </button>
+                        </div>
                       </div>
-                      <p className="mt-2 text-xs text-gray-600">
+                    ))}
+
+                    {llmProvider === 'openai' && (
+                      <p className="text-xs text-gray-600">
                         Sua chave de API é armazenada de forma segura e usada apenas para processar suas reuniões.
                         Obtenha sua chave em{' '}
                         <a
@@ -440,12 +538,12 @@ export default function ProfileMenu({ onClose, onOpenSettings }: ProfileMenuProp
                           platform.openai.com/api-keys
                         </a>
                       </p>
-                    </div>
+                    )}
 
                     <div className="flex gap-3">
                       <button
                         onClick={handleSaveSettings}
-                        disabled={savingSettings || !openaiKey.trim()}
+                        disabled={savingSettings || missingRequiredField}
                         className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         {savingSettings ? (
@@ -463,7 +561,7 @@ export default function ProfileMenu({ onClose, onOpenSettings }: ProfileMenuProp
 
                       <button
                         onClick={handleTestConnection}
-                        disabled={testingConnection || !openaiKey.trim()}
+                        disabled={testingConnection || missingRequiredField}
                         className="flex-1 flex items-center justify-center gap-2 px-4 py-2 border-2 border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         {testingConnection ? (
@@ -493,7 +591,7 @@ export default function ProfileMenu({ onClose, onOpenSettings }: ProfileMenuProp
                     <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                       <p className="text-sm text-blue-900">
                         <strong>Dica:</strong> Configure sua própria chave de API para garantir disponibilidade e controle dos custos.
-                        Os custos de uso da API são cobrados diretamente pela OpenAI.
+                        Os custos de uso da API são cobrados diretamente pelo provedor escolhido.
                       </p>
                     </div>
                   </div>
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { getUnreadRiskDigests, markRiskDigestsRead, type RiskDigest } from '../services/riskService';
+
+interface RiskDigestBannerProps {
+  onSelectClient: (clientId: string) => void;
+}
+
+export default function RiskDigestBanner({ onSelectClient }: RiskDigestBannerProps) {
+  const [digests, setDigests] = useState<RiskDigest[]>([]);
+
+  useEffect(() => {
+    loadDigests();
+  }, []);
+
+  const loadDigests = async () => {
+    try {
+      setDigests(await getUnreadRiskDigests());
+    } catch (error) {
+      console.error('Error loading risk digests:', error);
+    }
+  };
+
+  const handleDismiss = async () => {
+    const ids = digests.map(digest => digest.id);
+    setDigests([]);
+    try {
+      await markRiskDigestsRead(ids);
+    } catch (error) {
+      console.error('Error dismissing risk digests:', error);
+    }
+  };
+
+  // A client can appear in several unread digests; keep its most recent entry
+  const clients = [...new Map(
+    digests.flatMap(digest => digest.clients).reverse().map(client => [client.id, client])
+  ).values()].reverse();
+
+  if (clients.length === 0) return null;
+
+  return (
+    <div className="mx-4 mt-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-red-800">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          {clients.length} cliente(s) passaram para risco Alto
+        </div>
+        <button
+          onClick={handleDismiss}
+          className="p-0.5 text-red-400 hover:text-red-600"
+          title="Marcar como visto"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-xs text-red-700 mt-1">
+        Recálculo automático de {new Date(digests[0].created_at).toLocaleDateString('pt-BR')}
+      </p>
+      <div className="mt-2 space-y-1">
+        {clients.map(client => (
+          <button
+            key={client.id}
+            onClick={() => onSelectClient(client.id)}
+            className="w-full flex items-center justify-between text-xs text-left hover:bg-red-100 rounded px-1 py-0.5"
+          >
+            <span className="text-gray-900 truncate">{client.name}</span>
+            <span className="text-red-700 flex-shrink-0">
+              {client.previous_score} → {client.risk_score}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useEffect, useState } from 'react';
+import { ShieldAlert, Save, RotateCcw, Eye, Loader2, ArrowRight } from 'lucide-react';
+import {
+  getRiskScoringConfig,
+  saveRiskScoringConfig,
+  validateRiskScoringConfig,
+  RISK_FACTORS,
+  DEFAULT_RISK_SCORING_CONFIG,
+  type RiskClassification,
+  type RiskRule,
+  type RiskScoringConfig,
+} from '../services/riskRuleService';
+import { previewRiskScoring, recalculatePortfolioRisk, type RiskPreview } from '../services/riskService';
+import { useToast } from '../lib/toast';
+
+const CLASSIFICATION_STYLES: Record<RiskClassification, string> = {
+  Baixo: 'bg-green-100 text-green-800',
+  'Médio': 'bg-yellow-100 text-yellow-800',
+  Alto: 'bg-red-100 text-red-800',
+};
+
+export default function RiskRulesEditor() {
+  const { showToast } = useToast();
+  const [config, setConfig] = useState<RiskScoringConfig>(DEFAULT_RISK_SCORING_CONFIG);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [preview, setPreview] = useState<RiskPreview | null>(null);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  useEffect(() => {
+    loadConfig();
+  }, []);
+
+  const loadConfig = async () => {
+    setLoading(true);
+    try {
+      const data = await getRiskScoringConfig();
+      setConfig(data);
+      setHasChanges(false);
+    } catch (error) {
+      console.error('Error loading risk scoring config:', error);
+      showToast('Erro ao carregar regras de risco', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyChange = (next: RiskScoringConfig) => {
+    setConfig(next);
+    setPreview(null);
+    setHasChanges(true);
+  };
+
+  const updateRule = (key: RiskRule['key'], changes: Partial<RiskRule>) => {
+    applyChange({
+      ...config,
+      rules: config.rules.map(rule => (rule.key === key ? { ...rule, ...changes } : rule)),
+    });
+  };
+
+  const handlePreview = async () => {
+    const validationError = validateRiskScoringConfig(config);
+    if (validationError) {
+      showToast(validationError, 'error');
+      return;
+    }
+
+    setPreviewing(true);
+    try {
+      const data = await previewRiskScoring(config);
+      setPreview(data);
+    } catch (error) {
+      console.error('Error previewing risk scoring:', error);
+      showToast('Erro ao pré-visualizar regras', 'error');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await saveRiskScoringConfig(config);
+      setConfig(saved);
+      setHasChanges(false);
+      const updated = await recalculatePortfolioRisk();
+      setPreview(null);
+      showToast(`Regras salvas. ${updated} cliente(s) com risco atualizado.`, 'success');
+    } catch (error: any) {
+      console.error('Error saving risk scoring config:', error);
+      showToast(error?.message || 'Erro ao salvar regras de risco', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (!confirm('Restaurar as regras e limites padrão? A alteração só vale depois de salvar.')) {
+      return;
+    }
+    applyChange(DEFAULT_RISK_SCORING_CONFIG);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const changedRows = preview ? preview.rows.filter(row => row.proposed_score !== row.current_score) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Regras de Risco</h3>
+        </div>
+        <button
+          onClick={handleReset}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Restaurar padrão
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Cada fator ativo soma (ou subtrai) seu peso ao risk score quando a condição é atendida. O resultado é limitado entre 0 e 100.
+      </p>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Risco médio a partir de</label>
+          <input
+            type="number"
+            min={1}
+            max={99}
+            value={config.medium_threshold}
+            onChange={(e) => applyChange({ ...config, medium_threshold: Number(e.target.value) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Risco alto a partir de</label>
+          <input
+            type="number"
+            min={2}
+            max={100}
+            value={config.high_threshold}
+            onChange={(e) => applyChange({ ...config, high_threshold: Number(e.target.value) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {config.rules.map(rule => {
+          const definition = RISK_FACTORS[rule.key];
+          return (
+            <div
+              key={rule.key}
+              className={`border rounded-lg p-4 ${rule.enabled ? 'border-gray-200' : 'border-gray-100 bg-gray-50'}`}
+            >
+              <div className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(rule.key, { enabled: e.target.checked })}
+                  className="mt-1 w-4 h-4 text-blue-600 rounded"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm font-medium ${rule.enabled ? 'text-gray-900' : 'text-gray-500'}`}>
+                    {definition.label(rule.threshold)}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-0.5">{definition.help}</p>
+                  <div className="grid grid-cols-2 gap-3 mt-3">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">{definition.thresholdLabel}</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={rule.threshold}
+                        disabled={!rule.enabled}
+                        onChange={(e) => updateRule(rule.key, { threshold: Number(e.target.value) })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-100"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Peso (negativo reduz o risco)</label>
+                      <input
+                        type="number"
+                        min={-100}
+                        max={100}
+                        value={rule.weight}
+                        disabled={!rule.enabled}
+                        onChange={(e) => updateRule(rule.key, { weight: Number(e.target.value) })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-100"
+                      />
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={handlePreview}
+          disabled={previewing}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 disabled:opacity-50 transition-colors"
+        >
+          {previewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+          Pré-visualizar na carteira
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || !hasChanges}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Salvar e recalcular
+        </button>
+      </div>
+
+      {preview && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900">Efeito na carteira</h4>
+            <p className="text-xs text-gray-500">
+              Regras atuais comparadas às novas, com os dados de hoje. {preview.changed_clients} de {preview.rows.length} cliente(s) mudam de score.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            {(['Baixo', 'Médio', 'Alto'] as RiskClassification[]).map(classification => (
+              <div key={classification} className="bg-gray-50 rounded-lg p-3">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${CLASSIFICATION_STYLES[classification]}`}>
+                  {classification}
+                </span>
+                <div className="flex items-center gap-2 mt-2 text-lg font-bold text-gray-900">
+                  {preview.current_counts[classification]}
+                  <ArrowRight className="w-4 h-4 text-gray-400" />
+                  {preview.proposed_counts[classification]}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {changedRows.length > 0 && (
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {changedRows.map(row => (
+                <div key={row.client_id} className="border border-gray-100 rounded-lg p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900 truncate">{row.client_name}</span>
+                    <div className="flex items-center gap-2 text-sm flex-shrink-0">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${CLASSIFICATION_STYLES[row.current_classification]}`}>
+                        {row.current_score}
+                      </span>
+                      <ArrowRight className="w-3 h-3 text-gray-400" />
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${CLASSIFICATION_STYLES[row.proposed_classification]}`}>
+                        {row.proposed_score}
+                      </span>
+                    </div>
+                  </div>
+                  {row.proposed_factors.length > 0 && (
+                    <div className="mt-2 space-y-0.5">
+                      {row.proposed_factors.map(factor => (
+                        <p key={factor.key} className="text-xs text-gray-600">
+                          <span className={factor.impact > 0 ? 'text-red-600' : 'text-green-600'}>
+                            {factor.impact > 0 ? '+' : ''}{factor.impact}
+                          </span>
+                          {' '}{factor.factor} — {factor.description}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
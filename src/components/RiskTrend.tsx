@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import type { RiskSnapshot } from '../services/riskService';
+import type { RiskScoringConfig } from '../services/riskRuleService';
+
+interface RiskTrendProps {
+  history: RiskSnapshot[];
+  config: Pick<RiskScoringConfig, 'medium_threshold' | 'high_threshold'>;
+}
+
+const CHART_WIDTH = 100;
+const CHART_HEIGHT = 32;
+const VISIBLE_EVENTS = 5;
+
+export default function RiskTrend({ history, config }: RiskTrendProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  if (history.length === 0) {
+    return <p className="text-xs text-gray-500">Nenhum histórico registrado ainda</p>;
+  }
+
+  const toY = (score: number) => CHART_HEIGHT - (score / 100) * CHART_HEIGHT;
+  const toX = (index: number) =>
+    history.length === 1 ? CHART_WIDTH / 2 : (index / (history.length - 1)) * CHART_WIDTH;
+
+  const points = history.map((snapshot, i) => `${toX(i)},${toY(snapshot.score)}`).join(' ');
+  const first = history[0];
+  const last = history[history.length - 1];
+  const delta = last.score - first.score;
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return `${date.toLocaleDateString('pt-BR')} ${date.toLocaleTimeString('pt-BR', {
+      hour: '2-digit',
+      minute: '2-digit'
+    })}`;
+  };
+
+  const events = [...history].reverse();
+  const visibleEvents = showAll ? events : events.slice(0, VISIBLE_EVENTS);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <span>Últimos {history.length} cálculo(s)</span>
+        <span className={`flex items-center gap-1 font-medium ${
+          delta > 0 ? 'text-red-600' : delta < 0 ? 'text-green-600' : 'text-gray-500'
+        }`}>
+          {delta > 0 ? <TrendingUp className="w-3.5 h-3.5" /> : delta < 0 ? <TrendingDown className="w-3.5 h-3.5" /> : <Minus className="w-3.5 h-3.5" />}
+          {delta > 0 ? '+' : ''}{delta} desde {new Date(first.created_at).toLocaleDateString('pt-BR')}
+        </span>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-12 bg-gray-50 rounded"
+      >
+        <line x1={0} x2={CHART_WIDTH} y1={toY(config.high_threshold)} y2={toY(config.high_threshold)} stroke="#fecaca" strokeWidth={0.5} strokeDasharray="2 1" />
+        <line x1={0} x2={CHART_WIDTH} y1={toY(config.medium_threshold)} y2={toY(config.medium_threshold)} stroke="#fde68a" strokeWidth={0.5} strokeDasharray="2 1" />
+        <polyline points={points} fill="none" stroke="#2563eb" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        {history.map((snapshot, i) => (
+          <circle key={snapshot.id} cx={toX(i)} cy={toY(snapshot.score)} r={1.2} fill="#2563eb">
+            <title>{`${formatDate(snapshot.created_at)}: ${snapshot.score} (${snapshot.classification})`}</title>
+          </circle>
+        ))}
+      </svg>
+
+      <div className="space-y-1">
+        {visibleEvents.map(snapshot => {
+          const change = snapshot.score - snapshot.previous_score;
+          const crossed = snapshot.classification !== snapshot.previous_classification;
+          return (
+            <div key={snapshot.id} className="text-xs">
+              <button
+                onClick={() => setExpandedId(expandedId === snapshot.id ? null : snapshot.id)}
+                className="w-full flex items-center justify-between gap-2 py-1 text-left hover:bg-gray-50 rounded"
+              >
+                <span className="text-gray-500">{formatDate(snapshot.created_at)}</span>
+                <span className="flex items-center gap-2">
+                  {crossed && (
+                    <span className="px-1.5 py-0.5 bg-blue-50 text-blue-700 rounded">
+                      {snapshot.previous_classification} → {snapshot.classification}
+                    </span>
+                  )}
+                  <span className="font-medium text-gray-900">{snapshot.score}</span>
+                  {change !== 0 && (
+                    <span className={change > 0 ? 'text-red-600' : 'text-green-600'}>
+                      ({change > 0 ? '+' : ''}{change})
+                    </span>
+                  )}
+                </span>
+              </button>
+              {expandedId === snapshot.id && (
+                <div className="pl-2 pb-1 space-y-0.5">
+                  {snapshot.factors.length === 0 ? (
+                    <p className="text-gray-500">Nenhum fator ativo</p>
+                  ) : (
+                    snapshot.factors.map(factor => (
+                      <p key={factor.key} className="text-gray-600">
+                        <span className={factor.impact > 0 ? 'text-red-600' : 'text-green-600'}>
+                          {factor.impact > 0 ? '+' : ''}{factor.impact}
+                        </span>
+                        {' '}{factor.factor} — {factor.description}
+                      </p>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {events.length > VISIBLE_EVENTS && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="text-xs text-blue-600 hover:text-blue-700"
+        >
+          {showAll ? 'Mostrar menos' : `Ver todos (${events.length})`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+import { useEffect, useState } from 'react';
+import { History, RefreshCw, Loader2, GitCompare, ArrowUpCircle, X } from 'lucide-react';
+import { summarizeMeeting, promoteSummaryVersion } from '../services/meetingService';
+import {
+  getSummaryVersions,
+  diffSummaryVersions,
+  type SummaryVersion,
+  type DiffRow,
+} from '../services/summaryVersionService';
+import { getLLMProvider, LLM_PROVIDERS } from '../lib/llm';
+import { useToast } from '../lib/toast';
+
+interface SummaryVersionsPanelProps {
+  meetingId: string;
+  hasTranscript: boolean;
+  onPromoted: () => void;
+}
+
+const DIFF_ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+  same: { left: 'text-gray-700', right: 'text-gray-700' },
+  added: { left: '', right: 'bg-green-50 text-green-800' },
+  removed: { left: 'bg-red-50 text-red-800 line-through', right: '' },
+  changed: { left: 'bg-yellow-50 text-yellow-900', right: 'bg-yellow-50 text-yellow-900' },
+};
+
+export default function SummaryVersionsPanel({ meetingId, hasTranscript, onPromoted }: SummaryVersionsPanelProps) {
+  const [versions, setVersions] = useState<SummaryVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showRegenerate, setShowRegenerate] = useState(false);
+  const [model, setModel] = useState('');
+  const [customInstructions, setCustomInstructions] = useState('');
+  const [regenerating, setRegenerating] = useState(false);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<[string, string] | null>(null);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    loadVersions();
+    setCompareIds(null);
+    setShowRegenerate(false);
+  }, [meetingId]);
+
+  useEffect(() => {
+    getLLMProvider()
+      .then(provider => setModel(provider.model))
+      .catch(error => console.error('Error loading LLM provider:', error));
+  }, []);
+
+  const loadVersions = async () => {
+    setLoading(true);
+    try {
+      const data = await getSummaryVersions(meetingId);
+      setVersions(data);
+    } catch (error) {
+      console.error('Error loading summary versions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const currentVersion = versions.find(v => v.is_current) || null;
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setRegenerating(true);
+    try {
+      const result = await summarizeMeeting(meetingId, {
+        model,
+        customInstructions,
+        promote: false,
+      });
+      await loadVersions();
+      setShowRegenerate(false);
+      setCustomInstructions('');
+      if (currentVersion && currentVersion.id !== result.version_id) {
+        setCompareIds([currentVersion.id, result.version_id]);
+      }
+      showToast(`Versão ${result.version_number} gerada`, 'success');
+    } catch (error: any) {
+      console.error('Error regenerating summary:', error);
+      showToast(error?.message || 'Erro ao gerar nova versão', 'error');
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  const handlePromote = async (version: SummaryVersion) => {
+    if (!confirm(`Promover a versão ${version.version_number}? O resumo, as decisões e as tarefas sugeridas da reunião serão substituídos.`)) {
+      return;
+    }
+
+    setPromotingId(version.id);
+    try {
+      await promoteSummaryVersion(version.id);
+      await loadVersions();
+      setCompareIds(null);
+      onPromoted();
+      showToast(`Versão ${version.version_number} promovida`, 'success');
+    } catch (error: any) {
+      console.error('Error promoting summary version:', error);
+      showToast(error?.message || 'Erro ao promover versão', 'error');
+    } finally {
+      setPromotingId(null);
+    }
+  };
+
+  const handleCompare = (version: SummaryVersion) => {
+    const baseline = currentVersion && currentVersion.id !== version.id
+      ? currentVersion
+      : versions.find(v => v.id !== version.id);
+    if (!baseline) return;
+    setCompareIds([baseline.id, version.id]);
+  };
+
+  const formatDateTime = (dateString: string) => {
+    const date = new Date(dateString);
+    return `${date.toLocaleDateString('pt-BR')} ${date.toLocaleTimeString('pt-BR', {
+      hour: '2-digit',
+      minute: '2-digit'
+    })}`;
+  };
+
+  const leftVersion = compareIds ? versions.find(v => v.id === compareIds[0]) : null;
+  const rightVersion = compareIds ? versions.find(v => v.id === compareIds[1]) : null;
+  const diff = leftVersion && rightVersion ? diffSummaryVersions(leftVersion, rightVersion) : null;
+
+  const renderDiffSection = (title: string, rows: DiffRow[]) => {
+    if (rows.length === 0) return null;
+    return (
+      <div>
+        <p className="text-xs font-semibold text-gray-600 uppercase mb-1">{title}</p>
+        <div className="grid grid-cols-2 gap-2">
+          {rows.map((row, i) => (
+            <div key={i} className="contents">
+              <div className={`text-xs rounded px-2 py-1 ${DIFF_ROW_STYLES[row.type].left}`}>
+                {row.left}
+              </div>
+              <div className={`text-xs rounded px-2 py-1 ${DIFF_ROW_STYLES[row.type].right}`}>
+                {row.right}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold text-gray-900 flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Versões do Resumo
+        </h4>
+        {hasTranscript && (
+          <button
+            onClick={() => setShowRegenerate(!showRegenerate)}
+            className="text-sm text-blue-600 hover:text-blue-700 flex items-center gap-1"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Regenerar
+          </button>
+        )}
+      </div>
+
+      {showRegenerate && (
+        <form onSubmit={handleRegenerate} className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-3 space-y-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Modelo</label>
+            <input
+              type="text"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Instruções adicionais (opcional)</label>
+            <textarea
+              value={customInstructions}
+              onChange={(e) => setCustomInstructions(e.target.value)}
+              rows={3}
+              placeholder="Ex.: dê mais ênfase às decisões sobre investimentos"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <p className="text-xs text-gray-600">
+            A nova versão consome 1 crédito e não substitui a versão atual até ser promovida.
+          </p>
+          <button
+            type="submit"
+            disabled={regenerating || !model.trim()}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center justify-center gap-2 text-sm"
+          >
+            {regenerating ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Gerando...
+              </>
+            ) : (
+              'Gerar Nova Versão'
+            )}
+          </button>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-gray-500">Nenhuma versão registrada</p>
+      ) : (
+        <div className="space-y-2">
+          {versions.map((version) => (
+            <div
+              key={version.id}
+              className={`rounded-lg p-3 border ${
+                version.is_current ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                    Versão {version.version_number}
+                    {version.is_current && (
+                      <span className="px-2 py-0.5 bg-green-600 text-white text-xs rounded-full">Atual</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-600 mt-1">
+                    {LLM_PROVIDERS[version.provider]?.label || version.provider} • {version.model}
+                    {version.prompt_template_version !== null && ` • prompt v${version.prompt_template_version}`}
+                    {` • ${formatDateTime(version.created_at)}`}
+                    {` • ${version.credits_used} crédito${version.credits_used === 1 ? '' : 's'}`}
+                  </p>
+                  {version.custom_instructions && (
+                    <p className="text-xs text-gray-500 mt-1 italic line-clamp-2">"{version.custom_instructions}"</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {versions.length > 1 && (
+                    <button
+                      onClick={() => handleCompare(version)}
+                      className="p-1.5 text-gray-600 hover:bg-gray-200 rounded"
+                      title="Comparar"
+                    >
+                      <GitCompare className="w-4 h-4" />
+                    </button>
+                  )}
+                  {!version.is_current && (
+                    <button
+                      onClick={() => handlePromote(version)}
+                      disabled={promotingId !== null}
+                      className="p-1.5 text-green-700 hover:bg-green-100 rounded disabled:opacity-50"
+                      title="Promover esta versão"
+                    >
+                      {promotingId === version.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <ArrowUpCircle className="w-4 h-4" />
+                      )}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {diff && leftVersion && rightVersion && (
+        <div className="mt-3 border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="grid grid-cols-2 gap-2 flex-1 text-sm font-medium text-gray-900">
+              <span>Versão {leftVersion.version_number}{leftVersion.is_current && ' (atual)'}</span>
+              <span>Versão {rightVersion.version_number}{rightVersion.is_current && ' (atual)'}</span>
+            </div>
+            <button
+              onClick={() => setCompareIds(null)}
+              className="p-1 text-gray-500 hover:bg-gray-100 rounded"
+              title="Fechar comparação"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {renderDiffSection('Resumo', diff.summary)}
+          {renderDiffSection('Decisões', diff.decisions)}
+          {renderDiffSection('Tarefas Sugeridas', diff.suggested_tasks)}
+          {renderDiffSection('Sinais de Risco', diff.risk_signals)}
+          {!rightVersion.is_current && (
+            <button
+              onClick={() => handlePromote(rightVersion)}
+              disabled={promotingId !== null}
+              className="w-full px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors flex items-center justify-center gap-2 text-sm"
+            >
+              <ArrowUpCircle className="w-4 h-4" />
+              Promover Versão {rightVersion.version_number}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, CheckCircle, XCircle, AlertCircle, Filter } from 'lucide-react';
+import {
+  WEBHOOK_FILTER_OPERATORS,
+  getWebhookEventDefinition,
+  sampleWebhookPayload,
+  findUnmatchedWebhookFilter,
+  describeWebhookFilter,
+  renderWebhookTemplate,
+  payloadPaths,
+  type WebhookFilter,
+  type WebhookFilterOperator,
+  type WebhookPayloadVersion,
+} from '../services/webhookService';
+
+interface WebhookDeliveryRulesProps {
+  events: string[];
+  payloadVersion: WebhookPayloadVersion;
+  filters: WebhookFilter[];
+  payloadTemplate: string;
+  onFiltersChange: (filters: WebhookFilter[]) => void;
+  onTemplateChange: (template: string) => void;
+}
+
+const TEMPLATE_PRESETS = [
+  {
+    label: 'Slack message',
+    template: JSON.stringify({ text: '*{{event_type}}*: {{data.name}} ({{data.status}})' }, null, 2),
+  },
+  {
+    label: 'Flat record (n8n / CRM)',
+    template: JSON.stringify({ event: '{{event_type}}', occurred_at: '{{timestamp}}', record: '{{data}}' }, null, 2),
+  },
+];
+
+function samplePayloadText(eventType: string, version: WebhookPayloadVersion): string {
+  const definition = getWebhookEventDefinition(eventType);
+  return definition ? JSON.stringify(sampleWebhookPayload(definition, version), null, 2) : '';
+}
+
+export default function WebhookDeliveryRules({
+  events,
+  payloadVersion,
+  filters,
+  payloadTemplate,
+  onFiltersChange,
+  onTemplateChange,
+}: WebhookDeliveryRulesProps) {
+  const [previewEvent, setPreviewEvent] = useState(events[0] || '');
+  const [sampleText, setSampleText] = useState(() => samplePayloadText(events[0] || '', payloadVersion));
+
+  useEffect(() => {
+    if (!events.includes(previewEvent)) {
+      setPreviewEvent(events[0] || '');
+    }
+  }, [events]);
+
+  useEffect(() => {
+    setSampleText(samplePayloadText(previewEvent, payloadVersion));
+  }, [previewEvent, payloadVersion]);
+
+  const pathSuggestions = (eventType: string | null) => {
+    const types = eventType ? [eventType] : events;
+    const paths = types.flatMap(type => {
+      const definition = getWebhookEventDefinition(type);
+      return definition ? payloadPaths(sampleWebhookPayload(definition, payloadVersion)) : [];
+    });
+    return Array.from(new Set(paths)).filter(path => path.startsWith('data.') || path.startsWith('previous_values.'));
+  };
+
+  const updateFilter = (index: number, changes: Partial<WebhookFilter>) => {
+    onFiltersChange(filters.map((filter, i) => (i === index ? { ...filter, ...changes } : filter)));
+  };
+
+  const renderPreview = () => {
+    if (!previewEvent) {
+      return <p className="text-xs text-gray-500">Select at least one event to preview deliveries.</p>;
+    }
+
+    let payload: { event_type: string };
+    try {
+      payload = JSON.parse(sampleText);
+    } catch {
+      return (
+        <p className="text-xs text-red-600 flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" />
+          Sample event is not valid JSON
+        </p>
+      );
+    }
+
+    const unmatched = findUnmatchedWebhookFilter(filters.filter(filter => filter.path.trim()), payload);
+    if (unmatched) {
+      return (
+        <p className="text-xs text-gray-700 flex items-center gap-1">
+          <XCircle className="w-3 h-3 text-gray-500" />
+          Not delivered: {describeWebhookFilter(unmatched)} is not met
+        </p>
+      );
+    }
+
+    let body: unknown = payload;
+    if (payloadTemplate.trim()) {
+      try {
+        body = renderWebhookTemplate(payloadTemplate, payload);
+      } catch (error) {
+        return (
+          <p className="text-xs text-red-600 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {error instanceof Error ? error.message : 'Invalid template'}
+          </p>
+        );
+      }
+    }
+
+    return (
+      <div>
+        <p className="text-xs text-green-700 flex items-center gap-1 mb-1">
+          <CheckCircle className="w-3 h-3" />
+          Delivered with this body
+        </p>
+        <pre className="text-xs bg-white p-3 rounded border overflow-x-auto max-h-48">
+          {JSON.stringify(body, null, 2)}
+        </pre>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+          <Filter className="w-4 h-4" />
+          Conditions (Optional)
+        </label>
+        <p className="text-xs text-gray-500 mb-2">
+          Only deliver events whose payload matches every condition for that event, e.g. data.status equals ativo
+          or data.risk_score at least 70.
+        </p>
+        <div className="space-y-2">
+          {filters.map((filter, index) => (
+            <div key={index} className="flex gap-2 items-center">
+              <select
+                value={filter.event_type || ''}
+                onChange={(e) => updateFilter(index, { event_type: e.target.value || null })}
+                className="w-40 px-2 py-1.5 border border-gray-300 rounded text-sm"
+              >
+                <option value="">All events</option>
+                {events.map(event => (
+                  <option key={event} value={event}>{event}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={filter.path}
+                onChange={(e) => updateFilter(index, { path: e.target.value })}
+                list={`webhook-filter-paths-${index}`}
+                placeholder="data.status"
+                className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded text-sm font-mono"
+              />
+              <datalist id={`webhook-filter-paths-${index}`}>
+                {pathSuggestions(filter.event_type).map(path => (
+                  <option key={path} value={path} />
+                ))}
+              </datalist>
+              <select
+                value={filter.operator}
+                onChange={(e) => updateFilter(index, { operator: e.target.value as WebhookFilterOperator })}
+                className="px-2 py-1.5 border border-gray-300 rounded text-sm"
+              >
+                {WEBHOOK_FILTER_OPERATORS.map(operator => (
+                  <option key={operator.value} value={operator.value}>{operator.label}</option>
+                ))}
+              </select>
+              {filter.operator !== 'exists' && (
+                <input
+                  type="text"
+                  value={filter.value}
+                  onChange={(e) => updateFilter(index, { value: e.target.value })}
+                  placeholder="ativo"
+                  className="w-28 px-2 py-1.5 border border-gray-300 rounded text-sm"
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => onFiltersChange(filters.filter((_, i) => i !== index))}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => onFiltersChange([...filters, { event_type: events[0] || null, path: '', operator: 'eq', value: '' }])}
+          className="mt-2 text-sm text-blue-600 hover:text-blue-700 flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          Add Condition
+        </button>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-1">
+          <label className="block text-sm font-medium text-gray-700">
+            Payload Template (Optional)
+          </label>
+          <div className="flex gap-2">
+            {TEMPLATE_PRESETS.map(preset => (
+              <button
+                key={preset.label}
+                type="button"
+                onClick={() => onTemplateChange(preset.template)}
+                className="text-xs text-blue-600 hover:text-blue-700"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <textarea
+          value={payloadTemplate}
+          onChange={(e) => onTemplateChange(e.target.value)}
+          rows={4}
+          placeholder={'{"text": "{{data.name}} is now {{data.status}}"}'}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-blue-500"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          JSON sent instead of the standard payload. {'{{path}}'} inserts a value from the event; a string that is
+          only a placeholder keeps its type, so {'"{{data}}"'} inserts the whole object. Leave empty to send the standard payload.
+        </p>
+      </div>
+
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-gray-700">Preview</span>
+          <select
+            value={previewEvent}
+            onChange={(e) => setPreviewEvent(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded text-xs"
+          >
+            {events.map(event => (
+              <option key={event} value={event}>{event}</option>
+            ))}
+          </select>
+        </div>
+        <textarea
+          value={sampleText}
+          onChange={(e) => setSampleText(e.target.value)}
+          rows={6}
+          className="w-full px-3 py-2 border border-gray-300 rounded text-xs font-mono mb-2"
+        />
+        {renderPreview()}
+      </div>
+    </div>
+  );
+}
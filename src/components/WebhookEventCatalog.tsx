@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { BookOpen, Copy } from 'lucide-react';
+import { useToast } from '../lib/toast';
+import {
+  WEBHOOK_EVENT_CATALOG,
+  WEBHOOK_PAYLOAD_VERSIONS,
+  WEBHOOK_VERSION_NOTES,
+  WEBHOOK_VERSION_HEADER,
+  LATEST_WEBHOOK_PAYLOAD_VERSION,
+  groupWebhookEvents,
+  webhookEventSchema,
+  sampleWebhookPayload,
+  type WebhookPayloadVersion,
+} from '../services/webhookService';
+
+interface WebhookEventCatalogProps {
+  onClose: () => void;
+}
+
+export default function WebhookEventCatalog({ onClose }: WebhookEventCatalogProps) {
+  const { showToast } = useToast();
+  const [selectedType, setSelectedType] = useState<string>(WEBHOOK_EVENT_CATALOG[0].type);
+  const [version, setVersion] = useState<WebhookPayloadVersion>(LATEST_WEBHOOK_PAYLOAD_VERSION);
+  const [view, setView] = useState<'sample' | 'schema'>('sample');
+
+  const definition = WEBHOOK_EVENT_CATALOG.find(event => event.type === selectedType) || WEBHOOK_EVENT_CATALOG[0];
+  const content = JSON.stringify(
+    view === 'schema' ? webhookEventSchema(definition, version) : sampleWebhookPayload(definition, version),
+    null,
+    2
+  );
+  const changedIn = WEBHOOK_PAYLOAD_VERSIONS.filter(v => v > 1 && definition.versions[v]);
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    showToast('Copied to clipboard', 'success');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-xl font-bold flex items-center gap-2">
+              <BookOpen className="w-5 h-5" />
+              Event Catalog
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Every delivery carries the payload version in the <code>{WEBHOOK_VERSION_HEADER}</code> header.
+              Fields may be added within a version; anything renamed, moved or removed ships as a new version.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-64 border-r border-gray-200 overflow-y-auto">
+            {groupWebhookEvents().map(group => (
+              <div key={group.label}>
+                <div className="px-4 py-2 bg-gray-50 border-b border-gray-100 text-xs font-semibold text-gray-500 uppercase">
+                  {group.label}
+                </div>
+                {group.events.map(event => (
+                  <button
+                    key={event.type}
+                    onClick={() => setSelectedType(event.type)}
+                    className={`w-full text-left px-4 py-3 border-b border-gray-100 ${
+                      event.type === definition.type ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="text-sm font-medium text-gray-800">{event.label}</div>
+                    <code className="text-xs text-gray-500">{event.type}</code>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 min-w-0 p-6 overflow-y-auto">
+            <div className="flex items-center gap-3 mb-1">
+              <h4 className="text-lg font-semibold text-gray-800">{definition.label}</h4>
+              <code className="bg-gray-100 px-2 py-1 rounded text-sm">{definition.type}</code>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">{definition.description}</p>
+
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <span className="text-sm text-gray-700">Version</span>
+              {WEBHOOK_PAYLOAD_VERSIONS.map(v => (
+                <button
+                  key={v}
+                  onClick={() => setVersion(v)}
+                  className={`px-3 py-1 rounded text-sm ${
+                    v === version ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  v{v}{v === LATEST_WEBHOOK_PAYLOAD_VERSION ? ' (latest)' : ''}
+                </button>
+              ))}
+              <span className="text-xs text-gray-500 ml-2">
+                {changedIn.length > 0
+                  ? `Payload changed in v${changedIn.join(', v')}`
+                  : 'Same payload in every version'}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500 mb-4">v{version}: {WEBHOOK_VERSION_NOTES[version]}</p>
+
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
+                {(['sample', 'schema'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-3 py-1 rounded text-sm ${
+                      view === option ? 'bg-white shadow text-gray-800' : 'text-gray-600'
+                    }`}
+                  >
+                    {option === 'sample' ? 'Sample payload' : 'JSON Schema'}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => copyToClipboard(content)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded hover:bg-gray-50 flex items-center gap-1"
+              >
+                <Copy className="w-3 h-3" />
+                Copy
+              </button>
+            </div>
+            <pre className="text-xs bg-gray-50 p-4 rounded border overflow-x-auto">{content}</pre>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,9 @@ import {
   RefreshCw,
   AlertCircle,
   List,
+  RotateCcw,
+  PauseCircle,
+  BookOpen,
 } from 'lucide-react';
 import { useToast } from '../lib/toast';
 import {
@@ -29,12 +32,27 @@ import {
   getWebhookQueue,
   getDispatcherStatus,
   forceProcessWebhooks,
+  replayWebhookEvent,
+  replayDeadLetters,
+  probeWebhookNow,
+  retrySchedule,
+  formatDelay,
+  CIRCUIT_BREAKER_THRESHOLD,
   WEBHOOK_EVENTS,
+  groupWebhookEvents,
+  WEBHOOK_PAYLOAD_VERSIONS,
+  WEBHOOK_VERSION_NOTES,
+  LATEST_WEBHOOK_PAYLOAD_VERSION,
+  type WebhookPayloadVersion,
+  type WebhookFilter,
   type WebhookConfig,
   type WebhookDeliveryLog,
   type WebhookEventQueue,
   type WebhookDispatcherStatus,
 } from '../services/webhookService';
+import LeadIntakePanel from './LeadIntakePanel';
+import WebhookEventCatalog from './WebhookEventCatalog';
+import WebhookDeliveryRules from './WebhookDeliveryRules';
 
 export default function WebhookPanel() {
   const { showToast } = useToast();
@@ -45,13 +63,17 @@ export default function WebhookPanel() {
   const [showModal, setShowModal] = useState(false);
   const [showLogsModal, setShowLogsModal] = useState(false);
   const [showQueueModal, setShowQueueModal] = useState(false);
+  const [showCatalog, setShowCatalog] = useState(false);
   const [showSecretKey, setShowSecretKey] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [testingWebhook, setTestingWebhook] = useState<string | null>(null);
+  const [testMenuFor, setTestMenuFor] = useState<string | null>(null);
   const [stats, setStats] = useState<Record<string, any>>({});
   const [urlError, setUrlError] = useState<string | null>(null);
   const [dispatcherStatus, setDispatcherStatus] = useState<WebhookDispatcherStatus | null>(null);
   const [forcingProcess, setForcingProcess] = useState(false);
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const [probingWebhook, setProbingWebhook] = useState<string | null>(null);
 
   const [formData, setFormData] = useState<{
     name: string;
@@ -59,12 +81,18 @@ export default function WebhookPanel() {
     events: string[];
     headers: Record<string, string>;
     http_method: string;
+    payload_version: WebhookPayloadVersion;
+    filters: WebhookFilter[];
+    payload_template: string;
   }>({
     name: '',
     url: '',
     events: [WEBHOOK_EVENTS.CLIENT_CREATED],
     headers: {},
     http_method: 'POST',
+    payload_version: LATEST_WEBHOOK_PAYLOAD_VERSION,
+    filters: [],
+    payload_template: '',
   });
 
   useEffect(() => {
@@ -167,6 +195,48 @@ export default function WebhookPanel() {
     }
   };
 
+  const handleReplayEvent = async (event: WebhookEventQueue) => {
+    setReplaying(event.id);
+    try {
+      await replayWebhookEvent(event);
+      showToast('Event sent back to the queue', 'success');
+      await loadQueue(event.webhook_config_id);
+    } catch (error) {
+      console.error('Error replaying event:', error);
+      showToast('Failed to replay event', 'error');
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const handleReplayDeadLetters = async (webhookId: string) => {
+    setReplaying('all');
+    try {
+      const count = await replayDeadLetters(webhookId);
+      showToast(`${count} event${count === 1 ? '' : 's'} sent back to the queue`, 'success');
+      await loadQueue(webhookId);
+    } catch (error) {
+      console.error('Error replaying dead letters:', error);
+      showToast('Failed to replay events', 'error');
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const handleProbeNow = async (webhookId: string) => {
+    setProbingWebhook(webhookId);
+    try {
+      const result = await probeWebhookNow(webhookId);
+      showToast(result.message, result.success ? 'success' : 'error');
+      await loadWebhooks();
+    } catch (error) {
+      console.error('Error probing webhook:', error);
+      showToast('Failed to check endpoint', 'error');
+    } finally {
+      setProbingWebhook(null);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -196,7 +266,7 @@ export default function WebhookPanel() {
       }
     } catch (error) {
       console.error('Error saving webhook:', error);
-      showToast('Failed to save webhook', 'error');
+      showToast(error instanceof Error ? error.message : 'Failed to save webhook', 'error');
     } finally {
       setLoading(false);
     }
@@ -226,10 +296,11 @@ export default function WebhookPanel() {
     }
   };
 
-  const handleTestWebhook = async (webhookId: string) => {
+  const handleTestWebhook = async (webhookId: string, eventType?: string) => {
+    setTestMenuFor(null);
     setTestingWebhook(webhookId);
     try {
-      const result = await sendTestWebhook(webhookId);
+      const result = await sendTestWebhook(webhookId, eventType);
       if (result.success) {
         showToast(
           `Test successful! Response: ${result.statusCode} (${result.duration})`,
@@ -295,6 +366,9 @@ export default function WebhookPanel() {
       events: [WEBHOOK_EVENTS.CLIENT_CREATED],
       headers: {},
       http_method: 'POST',
+      payload_version: LATEST_WEBHOOK_PAYLOAD_VERSION,
+      filters: [],
+      payload_template: '',
     });
     setSelectedWebhook(null);
     setUrlError(null);
@@ -308,6 +382,9 @@ export default function WebhookPanel() {
       events: webhook.events,
       headers: webhook.headers,
       http_method: webhook.http_method || 'POST',
+      payload_version: webhook.payload_version || 1,
+      filters: webhook.filters || [],
+      payload_template: webhook.payload_template || '',
     });
     setShowModal(true);
   };
@@ -317,12 +394,7 @@ export default function WebhookPanel() {
     showToast('Copied to clipboard', 'success');
   };
 
-  const eventOptions = [
-    { value: WEBHOOK_EVENTS.CLIENT_CREATED, label: 'Client Created' },
-    { value: WEBHOOK_EVENTS.CLIENT_UPDATED, label: 'Client Updated' },
-    { value: WEBHOOK_EVENTS.CLIENT_DELETED, label: 'Client Deleted' },
-    { value: WEBHOOK_EVENTS.CLIENT_STATUS_CHANGED, label: 'Client Status Changed' },
-  ];
+  const eventGroups = groupWebhookEvents();
 
   return (
     <div className="p-6">
@@ -336,16 +408,25 @@ export default function WebhookPanel() {
             Configure webhooks to receive real-time notifications when events occur
           </p>
         </div>
-        <button
-          onClick={() => {
-            resetForm();
-            setShowModal(true);
-          }}
-          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
-        >
-          <Plus className="w-4 h-4" />
-          Add Webhook
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowCatalog(true)}
+            className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 flex items-center gap-2"
+          >
+            <BookOpen className="w-4 h-4" />
+            Event Catalog
+          </button>
+          <button
+            onClick={() => {
+              resetForm();
+              setShowModal(true);
+            }}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Webhook
+          </button>
+        </div>
       </div>
 
       {dispatcherStatus && (
@@ -495,14 +576,58 @@ export default function WebhookPanel() {
                     >
                       {webhook.enabled ? 'Active' : 'Disabled'}
                     </span>
+                    <span className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-600">
+                      v{webhook.payload_version || 1}
+                    </span>
+                    {webhook.filters?.length > 0 && (
+                      <span className="px-2 py-1 rounded text-xs font-medium bg-purple-50 text-purple-700">
+                        {webhook.filters.length} condition{webhook.filters.length === 1 ? '' : 's'}
+                      </span>
+                    )}
+                    {webhook.payload_template && (
+                      <span className="px-2 py-1 rounded text-xs font-medium bg-purple-50 text-purple-700">
+                        Custom body
+                      </span>
+                    )}
                     {webhook.failure_count > 0 && (
                       <span className="px-2 py-1 rounded text-xs font-medium bg-red-100 text-red-700 flex items-center gap-1">
                         <AlertCircle className="w-3 h-3" />
                         {webhook.failure_count} failures
                       </span>
                     )}
+                    {webhook.circuit_opened_at && (
+                      <span className="px-2 py-1 rounded text-xs font-medium bg-orange-100 text-orange-700 flex items-center gap-1">
+                        <PauseCircle className="w-3 h-3" />
+                        Paused
+                      </span>
+                    )}
                   </div>
 
+                  {webhook.circuit_opened_at && (
+                    <div className="mb-3 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800 flex items-start justify-between gap-4">
+                      <div>
+                        <p>
+                          Deliveries paused since {new Date(webhook.circuit_opened_at).toLocaleString()} after{' '}
+                          {CIRCUIT_BREAKER_THRESHOLD} consecutive failures. New events are held until the endpoint answers.
+                        </p>
+                        <p className="text-xs mt-1">
+                          {webhook.last_error && <>Last error: {webhook.last_error} · </>}
+                          {webhook.next_probe_at
+                            ? `Next health check ${new Date(webhook.next_probe_at).toLocaleString()}`
+                            : 'Health check pending'}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleProbeNow(webhook.id)}
+                        disabled={probingWebhook === webhook.id}
+                        className="px-3 py-1.5 bg-white border border-orange-300 rounded text-xs font-medium hover:bg-orange-100 disabled:opacity-50 flex items-center gap-1 flex-shrink-0"
+                      >
+                        <RefreshCw className={`w-3 h-3 ${probingWebhook === webhook.id ? 'animate-spin' : ''}`} />
+                        Check now
+                      </button>
+                    </div>
+                  )}
+
                   <div className="flex items-center gap-2 text-sm text-gray-600 mb-3">
                     <code className="bg-gray-100 px-2 py-1 rounded">{webhook.url}</code>
                     <button
@@ -560,18 +685,42 @@ export default function WebhookPanel() {
                   >
                     <Power className="w-4 h-4" />
                   </button>
-                  <button
-                    onClick={() => handleTestWebhook(webhook.id)}
-                    disabled={testingWebhook === webhook.id}
-                    className="p-2 rounded hover:bg-gray-100 text-blue-600 disabled:opacity-50"
-                    title="Send Test"
-                  >
-                    {testingWebhook === webhook.id ? (
-                      <RefreshCw className="w-4 h-4 animate-spin" />
-                    ) : (
-                      <Send className="w-4 h-4" />
+                  <div className="relative">
+                    <button
+                      onClick={() => setTestMenuFor(testMenuFor === webhook.id ? null : webhook.id)}
+                      disabled={testingWebhook === webhook.id}
+                      className="p-2 rounded hover:bg-gray-100 text-blue-600 disabled:opacity-50"
+                      title="Send Test"
+                    >
+                      {testingWebhook === webhook.id ? (
+                        <RefreshCw className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Send className="w-4 h-4" />
+                      )}
+                    </button>
+                    {testMenuFor === webhook.id && (
+                      <div className="absolute right-0 mt-1 w-64 max-h-72 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg z-10 py-1">
+                        <button
+                          onClick={() => handleTestWebhook(webhook.id)}
+                          className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                          Connection test
+                        </button>
+                        <div className="px-3 pt-2 pb-1 text-xs text-gray-500 border-t border-gray-100">
+                          Send a sample event
+                        </div>
+                        {webhook.events.map(event => (
+                          <button
+                            key={event}
+                            onClick={() => handleTestWebhook(webhook.id, event)}
+                            className="w-full text-left px-3 py-1.5 text-xs font-mono text-gray-700 hover:bg-gray-50"
+                          >
+                            {event}
+                          </button>
+                        ))}
+                      </div>
                     )}
-                  </button>
+                  </div>
                   <button
                     onClick={() => handleViewLogs(webhook)}
                     className="p-2 rounded hover:bg-gray-100 text-gray-600"
@@ -607,6 +756,8 @@ export default function WebhookPanel() {
         </div>
       )}
 
+      <LeadIntakePanel />
+
       {showModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
@@ -715,37 +866,76 @@ export default function WebhookPanel() {
                     </p>
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Payload Version
+                    </label>
+                    <select
+                      value={formData.payload_version}
+                      onChange={(e) => setFormData({ ...formData, payload_version: Number(e.target.value) as WebhookPayloadVersion })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      {WEBHOOK_PAYLOAD_VERSIONS.map(version => (
+                        <option key={version} value={version}>
+                          v{version}{version === LATEST_WEBHOOK_PAYLOAD_VERSION ? ' (latest)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {WEBHOOK_VERSION_NOTES[formData.payload_version]}{' '}
+                      <button type="button" onClick={() => setShowCatalog(true)} className="text-blue-600 hover:underline">
+                        See the event catalog
+                      </button>
+                    </p>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Events to Monitor
                     </label>
-                    <div className="space-y-2">
-                      {eventOptions.map((event) => (
-                        <label key={event.value} className="flex items-center gap-2">
-                          <input
-                            type="checkbox"
-                            checked={formData.events.includes(event.value)}
-                            onChange={(e) => {
-                              if (e.target.checked) {
-                                setFormData({
-                                  ...formData,
-                                  events: [...formData.events, event.value],
-                                });
-                              } else {
-                                setFormData({
-                                  ...formData,
-                                  events: formData.events.filter((ev) => ev !== event.value),
-                                });
-                              }
-                            }}
-                            className="rounded"
-                          />
-                          <span className="text-sm text-gray-700">{event.label}</span>
-                        </label>
+                    <div className="space-y-3">
+                      {eventGroups.map(group => (
+                        <div key={group.label}>
+                          <p className="text-xs font-semibold text-gray-500 uppercase mb-1">{group.label}</p>
+                          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+                            {group.events.map((event) => (
+                              <label key={event.type} className="flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={formData.events.includes(event.type)}
+                                  onChange={(e) => {
+                                    if (e.target.checked) {
+                                      setFormData({
+                                        ...formData,
+                                        events: [...formData.events, event.type],
+                                      });
+                                    } else {
+                                      setFormData({
+                                        ...formData,
+                                        events: formData.events.filter((ev) => ev !== event.type),
+                                      });
+                                    }
+                                  }}
+                                  className="rounded"
+                                />
+                                <span className="text-sm text-gray-700">{event.label}</span>
+                              </label>
+                            ))}
+                          </div>
+                        </div>
                       ))}
                     </div>
                   </div>
 
+                  <WebhookDeliveryRules
+                    events={formData.events}
+                    payloadVersion={formData.payload_version}
+                    filters={formData.filters}
+                    payloadTemplate={formData.payload_template}
+                    onFiltersChange={(filters) => setFormData({ ...formData, filters })}
+                    onTemplateChange={(payload_template) => setFormData({ ...formData, payload_template })}
+                  />
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Custom Headers (Optional)
@@ -959,9 +1149,24 @@ export default function WebhookPanel() {
                 </button>
               </div>
 
-              <p className="text-sm text-gray-600 mb-4">
-                View pending, processing, and failed webhook events. Events are processed automatically by the system.
-              </p>
+              <div className="flex justify-between items-start gap-4 mb-4">
+                <p className="text-sm text-gray-600">
+                  View pending, processing, and dead-lettered webhook events. Events are processed automatically by the system.
+                  Failed deliveries are retried after about{' '}
+                  {retrySchedule(queue[0]?.max_attempts || 5).map(formatDelay).join(', ')} (with jitter); events that run out
+                  of attempts move to the dead-letter queue and can be replayed.
+                </p>
+                {queue.some(event => event.status === 'dead_letter') && (
+                  <button
+                    onClick={() => handleReplayDeadLetters(selectedWebhook.id)}
+                    disabled={replaying !== null}
+                    className="px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2 flex-shrink-0"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Replay all dead letters ({queue.filter(event => event.status === 'dead_letter').length})
+                  </button>
+                )}
+              </div>
 
               {queue.length === 0 ? (
                 <div className="text-center py-8 text-gray-500">
@@ -975,10 +1180,12 @@ export default function WebhookPanel() {
                       className={`border rounded-lg p-4 ${
                         event.status === 'completed'
                           ? 'border-green-200 bg-green-50'
-                          : event.status === 'failed'
+                          : event.status === 'dead_letter'
                           ? 'border-red-200 bg-red-50'
                           : event.status === 'processing'
                           ? 'border-blue-200 bg-blue-50'
+                          : event.status === 'filtered'
+                          ? 'border-gray-200 bg-gray-50'
                           : 'border-yellow-200 bg-yellow-50'
                       }`}
                     >
@@ -987,10 +1194,12 @@ export default function WebhookPanel() {
                           <div className="flex items-center gap-2">
                             {event.status === 'completed' ? (
                               <CheckCircle className="w-4 h-4 text-green-600" />
-                            ) : event.status === 'failed' ? (
+                            ) : event.status === 'dead_letter' ? (
                               <XCircle className="w-4 h-4 text-red-600" />
                             ) : event.status === 'processing' ? (
                               <RefreshCw className="w-4 h-4 text-blue-600 animate-spin" />
+                            ) : event.status === 'filtered' ? (
+                              <XCircle className="w-4 h-4 text-gray-400" />
                             ) : (
                               <Clock className="w-4 h-4 text-yellow-600" />
                             )}
@@ -999,15 +1208,20 @@ export default function WebhookPanel() {
                               className={`px-2 py-1 rounded text-xs font-medium ${
                                 event.status === 'completed'
                                   ? 'bg-green-100 text-green-700'
-                                  : event.status === 'failed'
+                                  : event.status === 'dead_letter'
                                   ? 'bg-red-100 text-red-700'
                                   : event.status === 'processing'
                                   ? 'bg-blue-100 text-blue-700'
+                                  : event.status === 'filtered'
+                                  ? 'bg-gray-100 text-gray-600'
                                   : 'bg-yellow-100 text-yellow-700'
                               }`}
                             >
-                              {event.status}
+                              {event.status === 'dead_letter' ? 'dead letter' : event.status}
                             </span>
+                            {event.replay_count > 0 && (
+                              <span className="text-xs text-gray-500">replayed {event.replay_count}×</span>
+                            )}
                           </div>
                           <div className="text-xs text-gray-500 mt-1">
                             Created: {new Date(event.created_at).toLocaleString()}
@@ -1016,8 +1230,20 @@ export default function WebhookPanel() {
                             Scheduled for: {new Date(event.scheduled_for).toLocaleString()}
                           </div>
                         </div>
-                        <div className="text-sm text-gray-600">
-                          Attempt {event.attempts} / {event.max_attempts}
+                        <div className="flex flex-col items-end gap-2">
+                          <div className="text-sm text-gray-600">
+                            Attempt {event.attempts} / {event.max_attempts}
+                          </div>
+                          {(event.status === 'dead_letter' || event.status === 'completed') && (
+                            <button
+                              onClick={() => handleReplayEvent(event)}
+                              disabled={replaying !== null}
+                              className="px-2 py-1 bg-white border border-gray-300 rounded text-xs hover:bg-gray-50 disabled:opacity-50 flex items-center gap-1"
+                            >
+                              <RotateCcw className={`w-3 h-3 ${replaying === event.id ? 'animate-spin' : ''}`} />
+                              Replay
+                            </button>
+                          )}
                         </div>
                       </div>
 
@@ -1025,6 +1251,17 @@ export default function WebhookPanel() {
                         Event ID: <code className="bg-white px-1 rounded">{event.event_id}</code>
                       </div>
 
+                      {event.last_error && event.status === 'filtered' && (
+                        <div className="text-xs text-gray-600 mb-1">Skipped: {event.last_error}</div>
+                      )}
+
+                      {event.last_error && event.status !== 'completed' && event.status !== 'filtered' && (
+                        <div className="text-xs text-red-700 mb-1">
+                          Last error: {event.last_error}
+                          {event.dead_lettered_at && ` · dead-lettered ${new Date(event.dead_lettered_at).toLocaleString()}`}
+                        </div>
+                      )}
+
                       {event.processed_at && (
                         <div className="text-xs text-gray-500">
                           Processed: {new Date(event.processed_at).toLocaleString()}
@@ -1047,6 +1284,8 @@ export default function WebhookPanel() {
           </div>
         </div>
       )}
+
+      {showCatalog && <WebhookEventCatalog onClose={() => setShowCatalog(false)} />}
     </div>
   );
 }
@@ -1,9 +1,20 @@
+import type { WebhookPayloadVersion } from '../../supabase/functions/_shared/webhookCatalog';
+import type { CustomFieldType } from '../../supabase/functions/_shared/customFields';
+
 export type MeetingType = string;
 export type TaskStatus = 'backlog' | 'pendente' | 'em_andamento' | 'em_revisao' | 'concluida' | 'cancelada';
 export type TaskPriority = 'baixa' | 'media' | 'alta' | 'urgente';
 export type TaskOwner = 'Leonardo' | 'Cliente';
 export type ClientStatus = 'ativo' | 'inativo' | 'prospecto';
 export type UserRole = 'user' | 'admin' | 'webmaster';
+export type TranscriptSource = 'manual' | 'vtt' | 'srt' | 'docx' | 'txt';
+export type LLMProviderId = 'openai' | 'anthropic' | 'azure' | 'ollama';
+export type MeetingSentiment = 'positive' | 'neutral' | 'concerned';
+export type MeetingStatus = 'planned' | 'done' | 'no_show' | 'rescheduled';
+export type LeadIntakeStatus = 'created' | 'duplicate' | 'rejected' | 'error';
+export type { CustomFieldType };
+export type SubscriptionStatus = 'active' | 'cancelled' | 'expired' | 'pending';
+export type WebhookEventStatus = 'pending' | 'processing' | 'completed' | 'dead_letter' | 'filtered';
 
 export interface Database {
   public: {
@@ -36,6 +47,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       meeting_types: {
         Row: {
@@ -80,6 +92,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       webmaster_audit_logs: {
         Row: {
@@ -109,6 +122,7 @@ export interface Database {
           metadata?: any;
           created_at?: string;
         };
+        Relationships: [];
       };
       clients: {
         Row: {
@@ -150,6 +164,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       meetings: {
         Row: {
@@ -158,9 +173,17 @@ export interface Database {
           type: MeetingType;
           datetime: string;
           transcript_text: string | null;
+          transcript_segments: any;
+          transcript_source: TranscriptSource;
+          transcript_file_name: string | null;
           summary: string | null;
           decisions: any;
           risk_signals: string | null;
+          transcript_sentiment: MeetingSentiment | null;
+          status: MeetingStatus;
+          rescheduled_to_id: string | null;
+          follow_up_cadence_id: string | null;
+          current_summary_version_id: string | null;
           created_at: string;
         };
         Insert: {
@@ -169,9 +192,17 @@ export interface Database {
           type: MeetingType;
           datetime: string;
           transcript_text?: string | null;
+          transcript_segments?: any;
+          transcript_source?: TranscriptSource;
+          transcript_file_name?: string | null;
           summary?: string | null;
           decisions?: any;
           risk_signals?: string | null;
+          transcript_sentiment?: MeetingSentiment | null;
+          status?: MeetingStatus;
+          rescheduled_to_id?: string | null;
+          follow_up_cadence_id?: string | null;
+          current_summary_version_id?: string | null;
           created_at?: string;
         };
         Update: {
@@ -180,11 +211,28 @@ export interface Database {
           type?: MeetingType;
           datetime?: string;
           transcript_text?: string | null;
+          transcript_segments?: any;
+          transcript_source?: TranscriptSource;
+          transcript_file_name?: string | null;
           summary?: string | null;
           decisions?: any;
           risk_signals?: string | null;
+          transcript_sentiment?: MeetingSentiment | null;
+          status?: MeetingStatus;
+          rescheduled_to_id?: string | null;
+          follow_up_cadence_id?: string | null;
+          current_summary_version_id?: string | null;
           created_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'meetings_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'clients';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       tasks: {
         Row: {
@@ -202,6 +250,7 @@ export interface Database {
           order_position: number;
           blocked: boolean;
           blocked_reason: string | null;
+          is_draft: boolean;
           created_at: string;
         };
         Insert: {
@@ -219,6 +268,7 @@ export interface Database {
           order_position?: number;
           blocked?: boolean;
           blocked_reason?: string | null;
+          is_draft?: boolean;
           created_at?: string;
         };
         Update: {
@@ -236,8 +286,18 @@ export interface Database {
           order_position?: number;
           blocked?: boolean;
           blocked_reason?: string | null;
+          is_draft?: boolean;
           created_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'tasks_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'clients';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       decisions: {
         Row: {
@@ -264,6 +324,15 @@ export interface Database {
           implemented_at?: string | null;
           created_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'decisions_meeting_id_fkey';
+            columns: ['meeting_id'];
+            isOneToOne: false;
+            referencedRelation: 'meetings';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       email_drafts: {
         Row: {
@@ -290,6 +359,7 @@ export interface Database {
           html_body?: string;
           created_at?: string;
         };
+        Relationships: [];
       };
       conversation_history: {
         Row: {
@@ -319,6 +389,467 @@ export interface Database {
           embedding?: number[] | null;
           timestamp?: string;
         };
+        Relationships: [];
+      };
+      meeting_chunks: {
+        Row: {
+          id: string;
+          meeting_id: string;
+          client_id: string;
+          user_id: string;
+          chunk_index: number;
+          content: string;
+          embedding: number[];
+          embedding_model: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          meeting_id: string;
+          client_id: string;
+          user_id: string;
+          chunk_index: number;
+          content: string;
+          embedding: number[];
+          embedding_model: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          meeting_id?: string;
+          client_id?: string;
+          user_id?: string;
+          chunk_index?: number;
+          content?: string;
+          embedding?: number[];
+          embedding_model?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      risk_scoring_configs: {
+        Row: {
+          id: string;
+          user_id: string;
+          rules: any;
+          medium_threshold: number;
+          high_threshold: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          rules?: any;
+          medium_threshold?: number;
+          high_threshold?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          rules?: any;
+          medium_threshold?: number;
+          high_threshold?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      risk_recalculation_runs: {
+        Row: {
+          id: string;
+          triggered_by: string;
+          started_at: string;
+          completed_at: string | null;
+          clients_processed: number;
+          scores_changed: number;
+          success: boolean | null;
+          error_message: string | null;
+          request_id: number | null;
+        };
+        Insert: {
+          id?: string;
+          triggered_by?: string;
+          started_at?: string;
+          completed_at?: string | null;
+          clients_processed?: number;
+          scores_changed?: number;
+          success?: boolean | null;
+          error_message?: string | null;
+          request_id?: number | null;
+        };
+        Update: {
+          id?: string;
+          triggered_by?: string;
+          started_at?: string;
+          completed_at?: string | null;
+          clients_processed?: number;
+          scores_changed?: number;
+          success?: boolean | null;
+          error_message?: string | null;
+          request_id?: number | null;
+        };
+        Relationships: [];
+      };
+      risk_digests: {
+        Row: {
+          id: string;
+          user_id: string;
+          run_id: string | null;
+          clients: any;
+          clients_recalculated: number;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          run_id?: string | null;
+          clients?: any;
+          clients_recalculated?: number;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          run_id?: string | null;
+          clients?: any;
+          clients_recalculated?: number;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      follow_up_cadences: {
+        Row: {
+          id: string;
+          client_id: string;
+          user_id: string;
+          meeting_type: string;
+          interval_days: number;
+          start_after: string | null;
+          enabled: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          client_id: string;
+          user_id: string;
+          meeting_type?: string;
+          interval_days?: number;
+          start_after?: string | null;
+          enabled?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          client_id?: string;
+          user_id?: string;
+          meeting_type?: string;
+          interval_days?: number;
+          start_after?: string | null;
+          enabled?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'follow_up_cadences_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'clients';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      calendar_feed_tokens: {
+        Row: {
+          id: string;
+          user_id: string;
+          token: string;
+          include_tasks: boolean;
+          created_at: string;
+          last_accessed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          token?: string;
+          include_tasks?: boolean;
+          created_at?: string;
+          last_accessed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          token?: string;
+          include_tasks?: boolean;
+          created_at?: string;
+          last_accessed_at?: string | null;
+        };
+        Relationships: [];
+      };
+      client_merges: {
+        Row: {
+          id: string;
+          user_id: string;
+          surviving_client_id: string | null;
+          merged_client_id: string;
+          merged_client: any;
+          field_values: any;
+          reparented: any;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          surviving_client_id?: string | null;
+          merged_client_id: string;
+          merged_client: any;
+          field_values?: any;
+          reparented?: any;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          surviving_client_id?: string | null;
+          merged_client_id?: string;
+          merged_client?: any;
+          field_values?: any;
+          reparented?: any;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      client_duplicate_dismissals: {
+        Row: {
+          id: string;
+          user_id: string;
+          client_a_id: string;
+          client_b_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          client_a_id: string;
+          client_b_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          client_a_id?: string;
+          client_b_id?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      custom_field_definitions: {
+        Row: {
+          id: string;
+          user_id: string;
+          key: string;
+          label: string;
+          field_type: CustomFieldType;
+          options: string[];
+          required: boolean;
+          min_value: number | null;
+          max_value: number | null;
+          max_length: number | null;
+          position: number;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          key: string;
+          label: string;
+          field_type: CustomFieldType;
+          options?: string[];
+          required?: boolean;
+          min_value?: number | null;
+          max_value?: number | null;
+          max_length?: number | null;
+          position?: number;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          key?: string;
+          label?: string;
+          field_type?: CustomFieldType;
+          options?: string[];
+          required?: boolean;
+          min_value?: number | null;
+          max_value?: number | null;
+          max_length?: number | null;
+          position?: number;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      lead_intake_keys: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          key_id: string;
+          signing_secret: string;
+          enabled: boolean;
+          field_mapping: Record<string, string>;
+          auto_schedule_meeting: boolean;
+          meeting_type: string;
+          meeting_delay_days: number;
+          last_used_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          key_id?: string;
+          signing_secret?: string;
+          enabled?: boolean;
+          field_mapping?: Record<string, string>;
+          auto_schedule_meeting?: boolean;
+          meeting_type?: string;
+          meeting_delay_days?: number;
+          last_used_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          key_id?: string;
+          signing_secret?: string;
+          enabled?: boolean;
+          field_mapping?: Record<string, string>;
+          auto_schedule_meeting?: boolean;
+          meeting_type?: string;
+          meeting_delay_days?: number;
+          last_used_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      lead_intake_logs: {
+        Row: {
+          id: string;
+          user_id: string;
+          intake_key_id: string | null;
+          status: LeadIntakeStatus;
+          client_id: string | null;
+          meeting_id: string | null;
+          payload: any;
+          error_message: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          intake_key_id?: string | null;
+          status: LeadIntakeStatus;
+          client_id?: string | null;
+          meeting_id?: string | null;
+          payload?: any;
+          error_message?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          intake_key_id?: string | null;
+          status?: LeadIntakeStatus;
+          client_id?: string | null;
+          meeting_id?: string | null;
+          payload?: any;
+          error_message?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'lead_intake_logs_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'clients';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      meeting_summary_versions: {
+        Row: {
+          id: string;
+          meeting_id: string;
+          user_id: string;
+          version_number: number;
+          summary: any;
+          decisions: any;
+          suggested_tasks: any;
+          risk_signals: string | null;
+          provider: LLMProviderId;
+          model: string;
+          prompt_template_id: string | null;
+          prompt_template_version: number | null;
+          custom_instructions: string | null;
+          credits_used: number;
+          is_current: boolean;
+          promoted_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          meeting_id: string;
+          user_id: string;
+          version_number: number;
+          summary?: any;
+          decisions?: any;
+          suggested_tasks?: any;
+          risk_signals?: string | null;
+          provider?: LLMProviderId;
+          model: string;
+          prompt_template_id?: string | null;
+          prompt_template_version?: number | null;
+          custom_instructions?: string | null;
+          credits_used?: number;
+          is_current?: boolean;
+          promoted_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          meeting_id?: string;
+          user_id?: string;
+          version_number?: number;
+          summary?: any;
+          decisions?: any;
+          suggested_tasks?: any;
+          risk_signals?: string | null;
+          provider?: LLMProviderId;
+          model?: string;
+          prompt_template_id?: string | null;
+          prompt_template_version?: number | null;
+          custom_instructions?: string | null;
+          credits_used?: number;
+          is_current?: boolean;
+          promoted_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
       };
       risk_events: {
         Row: {
@@ -327,6 +858,11 @@ export interface Database {
           event_type: string;
           description: string | null;
           score_impact: number;
+          score: number | null;
+          previous_score: number | null;
+          classification: string | null;
+          previous_classification: string | null;
+          factors: any;
           created_at: string;
         };
         Insert: {
@@ -335,6 +871,11 @@ export interface Database {
           event_type: string;
           description?: string | null;
           score_impact?: number;
+          score?: number | null;
+          previous_score?: number | null;
+          classification?: string | null;
+          previous_classification?: string | null;
+          factors?: any;
           created_at?: string;
         };
         Update: {
@@ -343,12 +884,19 @@ export interface Database {
           event_type?: string;
           description?: string | null;
           score_impact?: number;
+          score?: number | null;
+          previous_score?: number | null;
+          classification?: string | null;
+          previous_classification?: string | null;
+          factors?: any;
           created_at?: string;
         };
+        Relationships: [];
       };
       settings: {
         Row: {
           id: string;
+          user_id: string | null;
           key: string;
           value: string | null;
           description: string | null;
@@ -356,6 +904,7 @@ export interface Database {
         };
         Insert: {
           id?: string;
+          user_id?: string | null;
           key: string;
           value?: string | null;
           description?: string | null;
@@ -363,11 +912,13 @@ export interface Database {
         };
         Update: {
           id?: string;
+          user_id?: string | null;
           key?: string;
           value?: string | null;
           description?: string | null;
           updated_at?: string;
         };
+        Relationships: [];
       };
       client_metadata: {
         Row: {
@@ -430,6 +981,15 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'client_metadata_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: true;
+            referencedRelation: 'clients';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       client_portal_access: {
         Row: {
@@ -459,6 +1019,15 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'client_portal_access_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'clients';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       plans: {
         Row: {
@@ -497,6 +1066,7 @@ export interface Database {
           is_active?: boolean;
           created_at?: string;
         };
+        Relationships: [];
       };
       plan_limits: {
         Row: {
@@ -532,13 +1102,14 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       subscriptions: {
         Row: {
           id: string;
           user_id: string;
           plan_id: string;
-          status: string;
+          status: SubscriptionStatus;
           current_period_start: string;
           current_period_end: string;
           credits_used: number;
@@ -548,6 +1119,7 @@ export interface Database {
           stripe_subscription_id: string | null;
           stripe_price_id: string | null;
           cancel_at_period_end: boolean;
+          managed_by: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -555,7 +1127,7 @@ export interface Database {
           id?: string;
           user_id: string;
           plan_id: string;
-          status?: string;
+          status?: SubscriptionStatus;
           current_period_start?: string;
           current_period_end?: string;
           credits_used?: number;
@@ -565,6 +1137,7 @@ export interface Database {
           stripe_subscription_id?: string | null;
           stripe_price_id?: string | null;
           cancel_at_period_end?: boolean;
+          managed_by?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -572,7 +1145,7 @@ export interface Database {
           id?: string;
           user_id?: string;
           plan_id?: string;
-          status?: string;
+          status?: SubscriptionStatus;
           current_period_start?: string;
           current_period_end?: string;
           credits_used?: number;
@@ -582,9 +1155,455 @@ export interface Database {
           stripe_subscription_id?: string | null;
           stripe_price_id?: string | null;
           cancel_at_period_end?: boolean;
+          managed_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'subscriptions_plan_id_fkey';
+            columns: ['plan_id'];
+            isOneToOne: false;
+            referencedRelation: 'plans';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      prompt_templates: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          meeting_type: string;
+          system_prompt: string;
+          summary_instructions: string;
+          task_generation_instructions: string;
+          is_default: boolean;
+          version: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          meeting_type: string;
+          system_prompt: string;
+          summary_instructions: string;
+          task_generation_instructions: string;
+          is_default?: boolean;
+          version?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          meeting_type?: string;
+          system_prompt?: string;
+          summary_instructions?: string;
+          task_generation_instructions?: string;
+          is_default?: boolean;
+          version?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      usage_logs: {
+        Row: {
+          id: string;
+          user_id: string;
+          subscription_id: string | null;
+          action_type: string;
+          credits_consumed: number;
+          metadata: any;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          subscription_id?: string | null;
+          action_type: string;
+          credits_consumed?: number;
+          metadata?: any;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          subscription_id?: string | null;
+          action_type?: string;
+          credits_consumed?: number;
+          metadata?: any;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      payment_transactions: {
+        Row: {
+          id: string;
+          user_id: string;
+          subscription_id: string | null;
+          stripe_payment_intent_id: string | null;
+          stripe_invoice_id: string | null;
+          amount: number;
+          currency: string;
+          status: string;
+          payment_method_type: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          subscription_id?: string | null;
+          stripe_payment_intent_id?: string | null;
+          stripe_invoice_id?: string | null;
+          amount: number;
+          currency?: string;
+          status?: string;
+          payment_method_type?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          subscription_id?: string | null;
+          stripe_payment_intent_id?: string | null;
+          stripe_invoice_id?: string | null;
+          amount?: number;
+          currency?: string;
+          status?: string;
+          payment_method_type?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      webhook_configurations: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          url: string;
+          secret_key: string;
+          enabled: boolean;
+          events: string[];
+          headers: any;
+          http_method: string;
+          payload_version: WebhookPayloadVersion;
+          filters: any;
+          payload_template: string | null;
+          created_at: string;
+          updated_at: string;
+          last_triggered_at: string | null;
+          failure_count: number;
+          circuit_opened_at: string | null;
+          next_probe_at: string | null;
+          last_probe_at: string | null;
+          probe_attempts: number;
+          last_error: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          url: string;
+          secret_key: string;
+          enabled?: boolean;
+          events?: string[];
+          headers?: any;
+          http_method?: string;
+          payload_version?: WebhookPayloadVersion;
+          filters?: any;
+          payload_template?: string | null;
+          created_at?: string;
+          updated_at?: string;
+          last_triggered_at?: string | null;
+          failure_count?: number;
+          circuit_opened_at?: string | null;
+          next_probe_at?: string | null;
+          last_probe_at?: string | null;
+          probe_attempts?: number;
+          last_error?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          url?: string;
+          secret_key?: string;
+          enabled?: boolean;
+          events?: string[];
+          headers?: any;
+          http_method?: string;
+          payload_version?: WebhookPayloadVersion;
+          filters?: any;
+          payload_template?: string | null;
           created_at?: string;
           updated_at?: string;
+          last_triggered_at?: string | null;
+          failure_count?: number;
+          circuit_opened_at?: string | null;
+          next_probe_at?: string | null;
+          last_probe_at?: string | null;
+          probe_attempts?: number;
+          last_error?: string | null;
         };
+        Relationships: [];
+      };
+      webhook_delivery_logs: {
+        Row: {
+          id: string;
+          webhook_config_id: string;
+          event_type: string;
+          event_id: string;
+          payload: any;
+          status_code: number | null;
+          response_body: string | null;
+          response_headers: any | null;
+          attempt_number: number;
+          error_message: string | null;
+          duration_ms: number | null;
+          success: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          webhook_config_id: string;
+          event_type: string;
+          event_id: string;
+          payload: any;
+          status_code?: number | null;
+          response_body?: string | null;
+          response_headers?: any | null;
+          attempt_number?: number;
+          error_message?: string | null;
+          duration_ms?: number | null;
+          success?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          webhook_config_id?: string;
+          event_type?: string;
+          event_id?: string;
+          payload?: any;
+          status_code?: number | null;
+          response_body?: string | null;
+          response_headers?: any | null;
+          attempt_number?: number;
+          error_message?: string | null;
+          duration_ms?: number | null;
+          success?: boolean;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'webhook_delivery_logs_webhook_config_id_fkey';
+            columns: ['webhook_config_id'];
+            isOneToOne: false;
+            referencedRelation: 'webhook_configurations';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      webhook_events_queue: {
+        Row: {
+          id: string;
+          webhook_config_id: string;
+          event_type: string;
+          event_id: string;
+          payload: any;
+          scheduled_for: string;
+          attempts: number;
+          max_attempts: number;
+          status: WebhookEventStatus;
+          last_error: string | null;
+          last_status_code: number | null;
+          dead_lettered_at: string | null;
+          replay_count: number;
+          created_at: string;
+          processed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          webhook_config_id: string;
+          event_type: string;
+          event_id: string;
+          payload: any;
+          scheduled_for?: string;
+          attempts?: number;
+          max_attempts?: number;
+          status?: WebhookEventStatus;
+          last_error?: string | null;
+          last_status_code?: number | null;
+          dead_lettered_at?: string | null;
+          replay_count?: number;
+          created_at?: string;
+          processed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          webhook_config_id?: string;
+          event_type?: string;
+          event_id?: string;
+          payload?: any;
+          scheduled_for?: string;
+          attempts?: number;
+          max_attempts?: number;
+          status?: WebhookEventStatus;
+          last_error?: string | null;
+          last_status_code?: number | null;
+          dead_lettered_at?: string | null;
+          replay_count?: number;
+          created_at?: string;
+          processed_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'webhook_events_queue_webhook_config_id_fkey';
+            columns: ['webhook_config_id'];
+            isOneToOne: false;
+            referencedRelation: 'webhook_configurations';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      webhook_dispatcher_config: {
+        Row: {
+          id: string;
+          supabase_url: string;
+          internal_secret: string;
+          enabled: boolean;
+          debounce_seconds: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          supabase_url: string;
+          internal_secret?: string;
+          enabled?: boolean;
+          debounce_seconds?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          supabase_url?: string;
+          internal_secret?: string;
+          enabled?: boolean;
+          debounce_seconds?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {};
+    Functions: {
+      match_meeting_chunks: {
+        Args: {
+          query_embedding: number[];
+          match_count?: number;
+          match_threshold?: number;
+          filter_client_id?: string | null;
+        };
+        Returns: {
+          id: string;
+          meeting_id: string;
+          client_id: string;
+          client_name: string;
+          meeting_type: string;
+          meeting_datetime: string;
+          chunk_index: number;
+          content: string;
+          similarity: number;
+        }[];
+      };
+      replace_meeting_chunks: {
+        Args: {
+          p_meeting_id: string;
+          p_embedding_model: string;
+          p_chunks: { content: string; embedding: number[] }[];
+        };
+        Returns: number;
+      };
+      get_webhook_dispatcher_status: {
+        Args: Record<string, never>;
+        Returns: any;
+      };
+      trigger_webhooks: {
+        Args: {
+          p_event_type: string;
+          p_data: unknown;
+          p_previous_values?: unknown;
+        };
+        Returns: undefined;
+      };
+      reschedule_meeting: {
+        Args: {
+          p_meeting_id: string;
+          p_datetime: string;
+        };
+        Returns: Database['public']['Tables']['meetings']['Row'];
+      };
+      import_clients: {
+        Args: {
+          p_rows: {
+            client: Pick<Database['public']['Tables']['clients']['Insert'], 'name' | 'email' | 'phone' | 'revenue_bracket' | 'status'>;
+            metadata: Omit<Database['public']['Tables']['client_metadata']['Insert'], 'client_id'> | null;
+          }[];
+        };
+        Returns: Database['public']['Tables']['clients']['Row'][];
+      };
+      merge_clients: {
+        Args: {
+          p_surviving_id: string;
+          p_merged_id: string;
+          p_client?: Partial<Pick<Database['public']['Tables']['clients']['Row'], 'name' | 'email' | 'phone' | 'revenue_bracket' | 'status'>>;
+          p_metadata?: Partial<Omit<Database['public']['Tables']['client_metadata']['Row'], 'id' | 'client_id' | 'created_at' | 'updated_at'>> | null;
+        };
+        Returns: Database['public']['Tables']['client_merges']['Row'];
+      };
+      record_portal_access: {
+        Args: {
+          p_token: string;
+        };
+        Returns: undefined;
+      };
+      create_summary_version: {
+        Args: {
+          p_meeting_id: string;
+          p_model: string;
+          p_provider?: LLMProviderId;
+          p_summary?: unknown;
+          p_decisions?: unknown;
+          p_suggested_tasks?: unknown;
+          p_risk_signals?: string | null;
+          p_prompt_template_id?: string | null;
+          p_prompt_template_version?: number | null;
+          p_custom_instructions?: string | null;
+          p_credits_used?: number;
+        };
+        Returns: Database['public']['Tables']['meeting_summary_versions']['Row'];
+      };
+      promote_summary_version: {
+        Args: {
+          p_version_id: string;
+        };
+        Returns: Database['public']['Tables']['meeting_summary_versions']['Row'];
+      };
+      get_latest_risk_snapshots: {
+        Args: {
+          p_client_ids: string[];
+        };
+        Returns: {
+          client_id: string;
+          score: number | null;
+          factors: unknown;
+        }[];
       };
     };
   };
@@ -0,0 +1,27 @@
+import { readZipEntry } from './zip';
+
+const DOCUMENT_ENTRY = 'word/document.xml';
+
+export async function extractDocxText(buffer: ArrayBuffer): Promise<string> {
+  const documentXml = await readZipEntry(buffer, DOCUMENT_ENTRY, 'DOCX');
+  if (!documentXml) {
+    throw new Error('Arquivo DOCX inválido: conteúdo do documento não encontrado');
+  }
+
+  const xml = new DOMParser().parseFromString(new TextDecoder().decode(documentXml), 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Arquivo DOCX inválido: XML do documento corrompido');
+  }
+
+  const paragraphs = Array.from(xml.getElementsByTagName('w:p')).map(paragraph => {
+    let text = '';
+    Array.from(paragraph.getElementsByTagName('*')).forEach(node => {
+      if (node.localName === 't') text += node.textContent || '';
+      else if (node.localName === 'tab') text += '\t';
+      else if (node.localName === 'br') text += '\n';
+    });
+    return text;
+  });
+
+  return paragraphs.join('\n');
+}
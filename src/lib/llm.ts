@@ -0,0 +1,389 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { getOpenAI, getModels } from './openai';
+import { getSetting } from '../services/settingsService';
+import type { LLMProviderId } from './database.types';
+import { formatSchemaIssues, type Schema, type SchemaIssue } from './schema';
+
+export type { LLMProviderId };
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LLMEmbeddingRequest {
+  input: string[];
+  dimensions: number;
+}
+
+export interface LLMEmbeddingResult {
+  embeddings: number[][];
+  model: string;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  model: string;
+  complete(request: LLMCompletionRequest): Promise<string>;
+  stream(request: LLMCompletionRequest, onToken: (token: string) => void): Promise<string>;
+  // Only providers that can return vectors of the requested size implement it
+  embed?(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult>;
+}
+
+export const LLM_PROVIDERS: Record<LLMProviderId, { label: string; defaultModel: string }> = {
+  openai: { label: 'OpenAI', defaultModel: 'gpt-5-nano' },
+  anthropic: { label: 'Anthropic', defaultModel: 'claude-3-5-haiku-latest' },
+  azure: { label: 'Azure OpenAI', defaultModel: '' },
+  ollama: { label: 'Local (Ollama)', defaultModel: 'llama3.1' },
+};
+
+export const LLM_SETTING_KEYS = {
+  PROVIDER: 'llm_provider',
+  ANTHROPIC_API_KEY: 'anthropic_api_key',
+  ANTHROPIC_MODEL: 'anthropic_model',
+  AZURE_API_KEY: 'azure_openai_api_key',
+  AZURE_ENDPOINT: 'azure_openai_endpoint',
+  AZURE_DEPLOYMENT: 'azure_openai_deployment',
+  AZURE_API_VERSION: 'azure_openai_api_version',
+  OLLAMA_BASE_URL: 'ollama_base_url',
+  OLLAMA_MODEL: 'ollama_model',
+} as const;
+
+const DEFAULT_VALIDATION_ATTEMPTS = 3;
+
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+
+function isLLMProviderId(value: string | null): value is LLMProviderId {
+  return !!value && value in LLM_PROVIDERS;
+}
+
+// Reasoning models (o-series, gpt-5) reject any temperature other than the default
+function supportsTemperature(model: string): boolean {
+  return !/^(o\d|gpt-5)/.test(model);
+}
+
+function createOpenAICompatibleProvider(
+  id: LLMProviderId,
+  client: OpenAI,
+  model: string,
+  options: { tokenParam: 'max_tokens' | 'max_completion_tokens'; embeddingModel?: string }
+): LLMProvider {
+  const { embeddingModel } = options;
+  const buildParams = (request: LLMCompletionRequest) => {
+    const requestModel = request.model || model;
+    return {
+      model: requestModel,
+      messages: request.messages,
+      ...(request.temperature !== undefined && supportsTemperature(requestModel) ? { temperature: request.temperature } : {}),
+      ...(request.maxTokens ? { [options.tokenParam]: request.maxTokens } : {}),
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+    };
+  };
+
+  return {
+    id,
+    label: LLM_PROVIDERS[id].label,
+    model,
+    async complete(request) {
+      const completion = await client.chat.completions.create(
+        { ...buildParams(request), stream: false },
+        { signal: request.signal }
+      );
+      return completion.choices[0]?.message?.content || '';
+    },
+    async stream(request, onToken) {
+      const stream = await client.chat.completions.create(
+        { ...buildParams(request), stream: true },
+        { signal: request.signal }
+      );
+
+      let text = '';
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) {
+          text += token;
+          onToken(token);
+        }
+      }
+      return text;
+    },
+    ...(embeddingModel ? { embed: (request: LLMEmbeddingRequest) => embedWithOpenAI(client, embeddingModel, request) } : {}),
+  };
+}
+
+// Only text-embedding-3 models accept a target size; older models always return their native size
+async function embedWithOpenAI(client: OpenAI, model: string, request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult> {
+  const response = await client.embeddings.create({
+    model,
+    input: request.input,
+    ...(model.startsWith('text-embedding-3') ? { dimensions: request.dimensions } : {}),
+  });
+
+  return {
+    embeddings: response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding),
+    model,
+  };
+}
+
+function createAnthropicProvider(apiKey: string, model: string): LLMProvider {
+  const buildBody = (request: LLMCompletionRequest, stream: boolean) => {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    const messages = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({ role: message.role, content: message.content }));
+
+    // Anthropic has no JSON mode; prefilling the answer with "{" keeps the output a bare object
+    if (request.json) {
+      messages.push({ role: 'assistant', content: '{' });
+    }
+
+    return JSON.stringify({
+      model: request.model || model,
+      max_tokens: request.maxTokens || ANTHROPIC_DEFAULT_MAX_TOKENS,
+      ...(system ? { system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      messages,
+      stream,
+    });
+  };
+
+  const send = async (request: LLMCompletionRequest, stream: boolean): Promise<Response> => {
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: buildBody(request, stream),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      let message = `HTTP ${response.status}`;
+      try {
+        const body = await response.json();
+        message = body?.error?.message || message;
+      } catch {
+        // Body was not JSON; keep the status code
+      }
+      throw new Error(message);
+    }
+
+    return response;
+  };
+
+  return {
+    id: 'anthropic',
+    label: LLM_PROVIDERS.anthropic.label,
+    model,
+    async complete(request) {
+      const response = await send(request, false);
+      const body = await response.json();
+      const text = (body.content || [])
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('');
+      return request.json ? `{${text}` : text;
+    },
+    async stream(request, onToken) {
+      const response = await send(request, true);
+      if (!response.body) throw new Error('Resposta de streaming vazia');
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let text = '';
+
+      if (request.json) {
+        text = '{';
+        onToken('{');
+      }
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue;
+          const event = JSON.parse(line.slice(5).trim());
+
+          if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+            text += event.delta.text;
+            onToken(event.delta.text);
+          } else if (event.type === 'error') {
+            throw new Error(event.error?.message || 'Erro no streaming da Anthropic');
+          }
+        }
+      }
+
+      return text;
+    },
+  };
+}
+
+export async function getLLMProviderId(): Promise<LLMProviderId> {
+  const value = await getSetting(LLM_SETTING_KEYS.PROVIDER);
+  return isLLMProviderId(value) ? value : 'openai';
+}
+
+export async function getLLMProvider(): Promise<LLMProvider> {
+  const providerId = await getLLMProviderId();
+
+  switch (providerId) {
+    case 'anthropic': {
+      const apiKey = await getSetting(LLM_SETTING_KEYS.ANTHROPIC_API_KEY);
+      if (!apiKey || apiKey.trim() === '') {
+        throw new Error('Chave da Anthropic não configurada. Configure sua chave em Configurações.');
+      }
+      const model = await getSetting(LLM_SETTING_KEYS.ANTHROPIC_MODEL) || LLM_PROVIDERS.anthropic.defaultModel;
+      return createAnthropicProvider(apiKey.trim(), model);
+    }
+
+    case 'azure': {
+      const [apiKey, endpoint, deployment, apiVersion] = await Promise.all([
+        getSetting(LLM_SETTING_KEYS.AZURE_API_KEY),
+        getSetting(LLM_SETTING_KEYS.AZURE_ENDPOINT),
+        getSetting(LLM_SETTING_KEYS.AZURE_DEPLOYMENT),
+        getSetting(LLM_SETTING_KEYS.AZURE_API_VERSION),
+      ]);
+      if (!apiKey || !endpoint || !deployment) {
+        throw new Error('Azure OpenAI incompleto: informe chave, endpoint e deployment em Configurações.');
+      }
+      const client = new AzureOpenAI({
+        apiKey: apiKey.trim(),
+        endpoint: endpoint.trim(),
+        deployment: deployment.trim(),
+        apiVersion: apiVersion?.trim() || DEFAULT_AZURE_API_VERSION,
+        dangerouslyAllowBrowser: true,
+      });
+      return createOpenAICompatibleProvider('azure', client, deployment.trim(), { tokenParam: 'max_completion_tokens' });
+    }
+
+    case 'ollama': {
+      const baseUrl = (await getSetting(LLM_SETTING_KEYS.OLLAMA_BASE_URL) || DEFAULT_OLLAMA_BASE_URL).replace(/\/+$/, '');
+      const model = await getSetting(LLM_SETTING_KEYS.OLLAMA_MODEL) || LLM_PROVIDERS.ollama.defaultModel;
+      const client = new OpenAI({
+        baseURL: baseUrl.endsWith('/v1') ? baseUrl : `${baseUrl}/v1`,
+        apiKey: 'ollama',
+        dangerouslyAllowBrowser: true,
+      });
+      return createOpenAICompatibleProvider('ollama', client, model, { tokenParam: 'max_tokens' });
+    }
+
+    default: {
+      const client = await getOpenAI();
+      const models = await getModels();
+      return createOpenAICompatibleProvider('openai', client, models.GPT4_TURBO, {
+        tokenParam: 'max_completion_tokens',
+        embeddingModel: models.EMBEDDING,
+      });
+    }
+  }
+}
+
+export async function testLLMConnection(): Promise<{ success: boolean; error?: string; model?: string; provider?: string }> {
+  let provider: LLMProvider | null = null;
+  try {
+    provider = await getLLMProvider();
+
+    await provider.complete({
+      messages: [{ role: 'user', content: 'test' }],
+      maxTokens: 5,
+    });
+
+    return {
+      success: true,
+      model: provider.model,
+      provider: provider.label,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'Erro desconhecido ao testar conexão',
+      provider: provider?.label,
+    };
+  }
+}
+
+export interface ValidatedCompletion<T> {
+  data: T;
+  attempts: number;
+}
+
+function parseJSONOutput(content: string): { value?: unknown; issues: SchemaIssue[] } {
+  const trimmed = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return { value: JSON.parse(trimmed), issues: [] };
+  } catch (error: any) {
+    return { issues: [{ path: '(raiz)', message: `JSON inválido: ${error?.message || 'não foi possível interpretar'}` }] };
+  }
+}
+
+// Asks for JSON, validates it and, on failure, re-prompts the model with the
+// validation errors so it can repair its own answer
+export async function completeValidated<T>(
+  provider: LLMProvider,
+  request: LLMCompletionRequest,
+  schema: Schema<T>,
+  options: { maxAttempts?: number } = {}
+): Promise<ValidatedCompletion<T>> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_VALIDATION_ATTEMPTS;
+  const messages = [...request.messages];
+  let issues: SchemaIssue[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const content = await provider.complete({ ...request, messages, json: true });
+    const parsed = parseJSONOutput(content);
+
+    if (parsed.issues.length === 0) {
+      const result = schema.validate(parsed.value);
+      if (result.success) {
+        return { data: result.data, attempts: attempt };
+      }
+      issues = result.issues;
+    } else {
+      issues = parsed.issues;
+    }
+
+    console.warn(`[LLM] Resposta inválida (tentativa ${attempt}/${maxAttempts}):`, issues);
+
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Sua resposta não passou na validação:\n${formatSchemaIssues(issues)}\n\n` +
+          'Corrija esses problemas e responda novamente APENAS com o JSON completo e válido, na mesma estrutura pedida.',
+      }
+    );
+  }
+
+  throw new Error(
+    `A resposta do provedor de IA continuou inválida após ${maxAttempts} tentativas:\n${formatSchemaIssues(issues)}`
+  );
+}
@@ -50,29 +50,6 @@ async function getKeySource(): Promise<string> {
   return sources.length > 0 ? sources.join(' ou ') : 'nenhuma';
 }
 
-export async function testOpenAIConnection(): Promise<{ success: boolean; error?: string; model?: string }> {
-  try {
-    const openai = await getOpenAI();
-    const models = await getModels();
-
-    const response = await openai.chat.completions.create({
-      model: models.GPT4_TURBO,
-      messages: [{ role: 'user', content: 'test' }],
-      max_completion_tokens: 5
-    });
-
-    return {
-      success: true,
-      model: models.GPT4_TURBO
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error?.message || 'Erro desconhecido ao testar conexão'
-    };
-  }
-}
-
 export async function getModels() {
   const gptModel = await getSetting('openai_model') || 'gpt-5-nano';
   const embeddingModel = await getSetting('openai_embedding_model') || 'text-embedding-3-small';
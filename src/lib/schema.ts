@@ -0,0 +1,133 @@
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: SchemaIssue[] };
+
+export interface Schema<T> {
+  validate(value: unknown, path?: string): SchemaResult<T>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function fail<T>(path: string, message: string): SchemaResult<T> {
+  return { success: false, issues: [{ path: path || '(raiz)', message }] };
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function string(options: { min?: number; max?: number; pattern?: RegExp; patternMessage?: string } = {}): Schema<string> {
+  return {
+    validate(value, path = '') {
+      if (typeof value !== 'string') {
+        return fail(path, `esperado texto, recebido ${describe(value)}`);
+      }
+      const trimmed = value.trim();
+      if (options.min !== undefined && trimmed.length < options.min) {
+        return fail(path, options.min === 1 ? 'não pode ser vazio' : `deve ter ao menos ${options.min} caracteres`);
+      }
+      if (options.max !== undefined && trimmed.length > options.max) {
+        return fail(path, `deve ter no máximo ${options.max} caracteres`);
+      }
+      if (options.pattern && !options.pattern.test(trimmed)) {
+        return fail(path, options.patternMessage || `formato inválido ("${trimmed}")`);
+      }
+      return { success: true, data: trimmed };
+    },
+  };
+}
+
+function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    validate(value, path = '') {
+      if (typeof value === 'string' && (values as readonly string[]).includes(value)) {
+        return { success: true, data: value as T };
+      }
+      return fail(path, `deve ser um de ${values.map(v => `"${v}"`).join(', ')}, recebido ${JSON.stringify(value)}`);
+    },
+  };
+}
+
+function isoDate(): Schema<string> {
+  const base = string({ pattern: /^\d{4}-\d{2}-\d{2}$/, patternMessage: 'deve estar no formato YYYY-MM-DD' });
+  return {
+    validate(value, path = '') {
+      const result = base.validate(value, path);
+      if (!result.success) return result;
+
+      const [year, month, day] = result.data.split('-').map(Number);
+      const date = new Date(Date.UTC(year, month - 1, day));
+      if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return fail(path, `data inexistente ("${result.data}")`);
+      }
+      return result;
+    },
+  };
+}
+
+function array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+  return {
+    validate(value, path = '') {
+      if (!Array.isArray(value)) {
+        return fail(path, `esperado array, recebido ${describe(value)}`);
+      }
+      if (options.min !== undefined && value.length < options.min) {
+        return fail(path, `deve ter ao menos ${options.min} item(ns)`);
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        return fail(path, `deve ter no máximo ${options.max} itens`);
+      }
+
+      const data: T[] = [];
+      const issues: SchemaIssue[] = [];
+      value.forEach((element, index) => {
+        const result = item.validate(element, `${path}[${index}]`);
+        if (result.success) data.push(result.data);
+        else issues.push(...result.issues);
+      });
+
+      return issues.length > 0 ? { success: false, issues } : { success: true, data };
+    },
+  };
+}
+
+function object<S extends Record<string, Schema<any>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return {
+    validate(value, path = '') {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(path, `esperado objeto, recebido ${describe(value)}`);
+      }
+
+      const data: Record<string, unknown> = {};
+      const issues: SchemaIssue[] = [];
+      for (const key of Object.keys(shape)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const fieldValue = (value as Record<string, unknown>)[key];
+        if (fieldValue === undefined) {
+          issues.push({ path: fieldPath, message: 'campo obrigatório ausente' });
+          continue;
+        }
+        const result = shape[key].validate(fieldValue, fieldPath);
+        if (result.success) data[key] = result.data;
+        else issues.push(...result.issues);
+      }
+
+      return issues.length > 0
+        ? { success: false, issues }
+        : { success: true, data: data as { [K in keyof S]: Infer<S[K]> } };
+    },
+  };
+}
+
+export const s = { string, oneOf, isoDate, array, object };
+
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n');
+}
@@ -0,0 +1,141 @@
+import { readZipEntry } from './zip';
+
+const WORKBOOK_ENTRY = 'xl/workbook.xml';
+const WORKBOOK_RELS_ENTRY = 'xl/_rels/workbook.xml.rels';
+const SHARED_STRINGS_ENTRY = 'xl/sharedStrings.xml';
+const STYLES_ENTRY = 'xl/styles.xml';
+const DEFAULT_SHEET_ENTRY = 'xl/worksheets/sheet1.xml';
+
+// Built-in number formats that display dates (ECMA-376 §18.8.30)
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+// Serial 0 is 1899-12-30 once Excel's fictitious 1900-02-29 is accounted for
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function readXml(buffer: ArrayBuffer, entryName: string): Promise<Document | null> {
+  const data = await readZipEntry(buffer, entryName, 'XLSX');
+  if (!data) return null;
+
+  const xml = new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Arquivo XLSX inválido: XML corrompido em ${entryName}`);
+  }
+  return xml;
+}
+
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+// Text of a shared or inline string, ignoring phonetic runs
+function stringItemText(item: Element): string {
+  return elements(item, 't')
+    .filter(node => node.parentElement?.localName !== 'rPh')
+    .map(node => node.textContent || '')
+    .join('');
+}
+
+async function findFirstSheetEntry(buffer: ArrayBuffer): Promise<string> {
+  const [workbook, rels] = await Promise.all([
+    readXml(buffer, WORKBOOK_ENTRY),
+    readXml(buffer, WORKBOOK_RELS_ENTRY),
+  ]);
+  if (!workbook || !rels) return DEFAULT_SHEET_ENTRY;
+
+  const firstSheet = elements(workbook, 'sheet')[0];
+  const relationId = firstSheet?.getAttribute('r:id')
+    || firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+  const relation = elements(rels, 'Relationship').find(rel => rel.getAttribute('Id') === relationId);
+  const target = relation?.getAttribute('Target');
+  if (!target) return DEFAULT_SHEET_ENTRY;
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+// Style indexes (cellXfs position) whose number format renders the value as a date
+async function findDateStyles(buffer: ArrayBuffer): Promise<Set<number>> {
+  const styles = await readXml(buffer, STYLES_ENTRY);
+  const dateStyles = new Set<number>();
+  if (!styles) return dateStyles;
+
+  const customDateFormats = new Set<number>();
+  elements(styles, 'numFmt').forEach(format => {
+    const code = (format.getAttribute('formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+    if (/[dy]/i.test(code)) {
+      customDateFormats.add(Number(format.getAttribute('numFmtId')));
+    }
+  });
+
+  const cellXfs = elements(styles, 'cellXfs')[0];
+  if (!cellXfs) return dateStyles;
+
+  Array.from(cellXfs.children).forEach((xf, index) => {
+    const formatId = Number(xf.getAttribute('numFmtId') || 0);
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+      dateStyles.add(index);
+    }
+  });
+
+  return dateStyles;
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function serialToDate(serial: number): string {
+  return new Date(EXCEL_EPOCH_MS + Math.round(serial * DAY_MS)).toISOString().split('T')[0];
+}
+
+// Rows of the first worksheet as displayed text. Dates become YYYY-MM-DD; other
+// numbers keep their stored value, so leading zeros of unformatted CPFs are lost
+// exactly as they are in Excel.
+export async function extractXlsxRows(buffer: ArrayBuffer): Promise<string[][]> {
+  const sheetEntry = await findFirstSheetEntry(buffer);
+  const [sheet, sharedStringsXml, dateStyles] = await Promise.all([
+    readXml(buffer, sheetEntry),
+    readXml(buffer, SHARED_STRINGS_ENTRY),
+    findDateStyles(buffer),
+  ]);
+
+  if (!sheet) {
+    throw new Error('Arquivo XLSX inválido: nenhuma planilha encontrada');
+  }
+
+  const sharedStrings = sharedStringsXml ? elements(sharedStringsXml, 'si').map(stringItemText) : [];
+
+  return elements(sheet, 'row').map(row => {
+    const values: string[] = [];
+
+    elements(row, 'c').forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const raw = elements(cell, 'v')[0]?.textContent ?? '';
+
+      let value: string;
+      if (type === 's') {
+        value = sharedStrings[Number(raw)] ?? '';
+      } else if (type === 'inlineStr') {
+        const inline = elements(cell, 'is')[0];
+        value = inline ? stringItemText(inline) : '';
+      } else if (type === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+      } else if (!type || type === 'n') {
+        const style = Number(cell.getAttribute('s') || 0);
+        value = raw !== '' && dateStyles.has(style) ? serialToDate(Number(raw)) : raw;
+      } else {
+        value = raw;
+      }
+
+      values[index] = value;
+    });
+
+    return Array.from(values, value => value ?? '');
+  });
+}
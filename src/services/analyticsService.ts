@@ -0,0 +1,225 @@
+import { supabase } from '../lib/supabase';
+import type { ClientStatus, MeetingSentiment, TaskOwner } from '../lib/database.types';
+import { classifyRiskScore, getRiskScoringConfig, type RiskClassification } from './riskRuleService';
+import { selectAllPages } from '../../supabase/functions/_shared/pagination';
+
+export interface AnalyticsDateRange {
+  from: string;
+  to: string;
+}
+
+export interface WeeklyMeetingCount {
+  week_start: string;
+  total: number;
+  by_type: Record<string, number>;
+}
+
+export interface WeeklySentiment {
+  week_start: string;
+  positive: number;
+  neutral: number;
+  concerned: number;
+}
+
+export interface OwnerCompletion {
+  owner: TaskOwner;
+  total: number;
+  completed: number;
+  completed_on_time: number;
+  rate: number;
+}
+
+export interface FunnelStage {
+  stage: string;
+  clients: number;
+  // Share of the previous stage that reached this one; null for the first stage
+  conversion: number | null;
+}
+
+export interface PortfolioAnalytics {
+  clients_by_status: Record<ClientStatus, Record<RiskClassification, number>>;
+  total_clients: number;
+  meetings_per_week: WeeklyMeetingCount[];
+  meeting_types: string[];
+  total_meetings: number;
+  task_completion: OwnerCompletion[];
+  average_days_between_meetings: number | null;
+  funnel: FunnelStage[];
+  sentiment_trend: WeeklySentiment[];
+  meetings_without_sentiment: number;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const FUNNEL_STAGES = ['C1', 'C2', 'C3', 'C4'];
+const TASK_OWNERS: TaskOwner[] = ['Leonardo', 'Cliente'];
+const CLIENT_STATUSES: ClientStatus[] = ['ativo', 'prospecto', 'inativo'];
+
+// Monday of the week, as YYYY-MM-DD in local time
+function getWeekStart(dateString: string): string {
+  const date = new Date(dateString);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// Every week in the range, so weeks without meetings still show up as gaps
+function listWeeks(range: AnalyticsDateRange): string[] {
+  const weeks: string[] = [];
+  const cursor = new Date(`${getWeekStart(range.from)}T00:00:00`);
+  const end = new Date(`${range.to}T23:59:59`);
+
+  while (cursor <= end) {
+    weeks.push(getWeekStart(cursor.toISOString()));
+    cursor.setDate(cursor.getDate() + 7);
+  }
+
+  return weeks;
+}
+
+export async function getPortfolioAnalytics(range: AnalyticsDateRange): Promise<PortfolioAnalytics> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const fromIso = new Date(`${range.from}T00:00:00`).toISOString();
+    const toIso = new Date(`${range.to}T23:59:59.999`).toISOString();
+
+    // Long ranges easily pass the 1000-row response limit, so every list is read in pages
+    const [config, clients, meetings, tasks] = await Promise.all([
+      getRiskScoringConfig(user.id),
+      selectAllPages(() => supabase
+        .from('clients')
+        .select('id, status, risk_score')
+        .eq('user_id', user.id)
+        .order('id')),
+      selectAllPages(() => supabase
+        .from('meetings')
+        .select('client_id, type, datetime, transcript_sentiment, client:clients!inner(user_id)')
+        .eq('client.user_id', user.id)
+        .eq('status', 'done')
+        .gte('datetime', fromIso)
+        .lte('datetime', toIso)
+        .order('datetime', { ascending: true })
+        .order('id')),
+      selectAllPages(() => supabase
+        .from('tasks')
+        .select('owner, status, due_date, completed_at, client:clients!inner(user_id)')
+        .eq('client.user_id', user.id)
+        .eq('is_draft', false)
+        .neq('status', 'cancelada')
+        .gte('due_date', range.from)
+        .lte('due_date', range.to)
+        .order('id')),
+    ]);
+
+    // Clients by status and risk class (current portfolio, not filtered by date)
+    const clientsByStatus = Object.fromEntries(
+      CLIENT_STATUSES.map(status => [status, { Baixo: 0, 'Médio': 0, Alto: 0 }])
+    ) as Record<ClientStatus, Record<RiskClassification, number>>;
+
+    clients.forEach(client => {
+      clientsByStatus[client.status as ClientStatus][classifyRiskScore(client.risk_score, config)]++;
+    });
+
+    // Meetings per week by type, and sentiment per week
+    const weeks = listWeeks(range);
+    const meetingWeeks = new Map<string, WeeklyMeetingCount>(
+      weeks.map(week => [week, { week_start: week, total: 0, by_type: {} }])
+    );
+    const sentimentWeeks = new Map<string, WeeklySentiment>(
+      weeks.map(week => [week, { week_start: week, positive: 0, neutral: 0, concerned: 0 }])
+    );
+    const meetingTypes = new Set<string>();
+    let meetingsWithoutSentiment = 0;
+
+    meetings.forEach(meeting => {
+      const week = getWeekStart(meeting.datetime);
+      meetingTypes.add(meeting.type);
+
+      const weekCount = meetingWeeks.get(week);
+      if (weekCount) {
+        weekCount.total++;
+        weekCount.by_type[meeting.type] = (weekCount.by_type[meeting.type] || 0) + 1;
+      }
+
+      const sentiment = meeting.transcript_sentiment as MeetingSentiment | null;
+      const weekSentiment = sentimentWeeks.get(week);
+      if (!sentiment) {
+        meetingsWithoutSentiment++;
+      } else if (weekSentiment) {
+        weekSentiment[sentiment]++;
+      }
+    });
+
+    // Average gap between consecutive meetings of the same client
+    const lastMeetingByClient = new Map<string, number>();
+    let gapTotal = 0;
+    let gapCount = 0;
+    meetings.forEach(meeting => {
+      const time = new Date(meeting.datetime).getTime();
+      const previous = lastMeetingByClient.get(meeting.client_id);
+      if (previous !== undefined) {
+        gapTotal += (time - previous) / DAY_MS;
+        gapCount++;
+      }
+      lastMeetingByClient.set(meeting.client_id, time);
+    });
+
+    // Funnel: distinct clients with a meeting of each W1 stage in the range
+    const stageClients = new Map<string, Set<string>>(FUNNEL_STAGES.map(stage => [stage, new Set()]));
+    meetings.forEach(meeting => {
+      stageClients.get(meeting.type)?.add(meeting.client_id);
+    });
+
+    const funnel: FunnelStage[] = FUNNEL_STAGES.map((stage, index) => {
+      const count = stageClients.get(stage)!.size;
+      const previous = index > 0 ? stageClients.get(FUNNEL_STAGES[index - 1])!.size : null;
+      return {
+        stage,
+        clients: count,
+        conversion: previous === null ? null : previous === 0 ? 0 : Math.round((count / previous) * 100),
+      };
+    });
+
+    // Task completion by owner, for tasks due in the range
+    const taskCompletion: OwnerCompletion[] = TASK_OWNERS.map(owner => {
+      const ownerTasks = tasks.filter(task => task.owner === owner);
+      const completed = ownerTasks.filter(task => task.status === 'concluida');
+      const completedOnTime = completed.filter(task =>
+        task.completed_at && task.completed_at.split('T')[0] <= task.due_date
+      );
+      return {
+        owner,
+        total: ownerTasks.length,
+        completed: completed.length,
+        completed_on_time: completedOnTime.length,
+        rate: ownerTasks.length > 0 ? Math.round((completed.length / ownerTasks.length) * 100) : 0,
+      };
+    });
+
+    // W1 stages first, then custom types alphabetically
+    const sortedTypes = [
+      ...FUNNEL_STAGES.filter(stage => meetingTypes.has(stage)),
+      ...(meetingTypes.has('FUP') ? ['FUP'] : []),
+      ...[...meetingTypes].filter(type => !FUNNEL_STAGES.includes(type) && type !== 'FUP').sort(),
+    ];
+
+    return {
+      clients_by_status: clientsByStatus,
+      total_clients: clients.length,
+      meetings_per_week: [...meetingWeeks.values()],
+      meeting_types: sortedTypes,
+      total_meetings: meetings.length,
+      task_completion: taskCompletion,
+      average_days_between_meetings: gapCount > 0 ? Math.round((gapTotal / gapCount) * 10) / 10 : null,
+      funnel,
+      sentiment_trend: [...sentimentWeeks.values()],
+      meetings_without_sentiment: meetingsWithoutSentiment,
+    };
+  } catch (error) {
+    console.error('Error in getPortfolioAnalytics:', error);
+    throw error;
+  }
+}
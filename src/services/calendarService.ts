@@ -0,0 +1,217 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+// The ICS builder lives next to the edge functions because the calendar-feed
+// function renders the same events for subscribed calendars
+import {
+  buildCalendar,
+  buildMeetingEvent,
+  collectCalendarEvents,
+} from '../../supabase/functions/_shared/ics';
+
+export type CalendarFeed = Database['public']['Tables']['calendar_feed_tokens']['Row'];
+
+export interface CalendarFeedDetails extends CalendarFeed {
+  url: string;
+}
+
+function getCalendarFeedUrl(token: string): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+}
+
+function downloadICS(content: string, filename: string): void {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+function slugify(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+// Returns the consultant's feed, creating the token on first use
+export async function getCalendarFeed(): Promise<CalendarFeedDetails> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data: existing, error } = await supabase
+      .from('calendar_feed_tokens')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const feed = existing || await createCalendarFeed(user.id);
+    return { ...feed, url: getCalendarFeedUrl(feed.token) };
+  } catch (error) {
+    console.error('Error in getCalendarFeed:', error);
+    throw error;
+  }
+}
+
+async function createCalendarFeed(userId: string, includeTasks = true): Promise<CalendarFeed> {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .insert({ user_id: userId, include_tasks: includeTasks })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Issues a new token; calendars subscribed with the old URL stop receiving updates
+export async function regenerateCalendarFeedToken(): Promise<CalendarFeedDetails> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data: existing } = await supabase
+      .from('calendar_feed_tokens')
+      .select('include_tasks')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    const { error } = await supabase
+      .from('calendar_feed_tokens')
+      .delete()
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+
+    const feed = await createCalendarFeed(user.id, existing?.include_tasks ?? true);
+    return { ...feed, url: getCalendarFeedUrl(feed.token) };
+  } catch (error) {
+    console.error('Error in regenerateCalendarFeedToken:', error);
+    throw error;
+  }
+}
+
+export async function updateCalendarFeedIncludeTasks(includeTasks: boolean): Promise<void> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { error } = await supabase
+      .from('calendar_feed_tokens')
+      .update({ include_tasks: includeTasks })
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error in updateCalendarFeedIncludeTasks:', error);
+    throw error;
+  }
+}
+
+// One-off export of the same events the feed publishes
+export async function generateUserCalendar(includeTasks = true): Promise<string> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const events = await collectCalendarEvents(supabase, user.id, { includeTasks });
+    return buildCalendar({ name: 'Assistente W1', events });
+  } catch (error) {
+    console.error('Error in generateUserCalendar:', error);
+    throw error;
+  }
+}
+
+export async function downloadUserCalendar(includeTasks = true): Promise<void> {
+  const content = await generateUserCalendar(includeTasks);
+  downloadICS(content, `agenda-w1-${new Date().toISOString().split('T')[0]}.ics`);
+}
+
+// Invitation for the client: METHOD:REQUEST with the consultant as organizer, so the
+// file attached to an email shows up as an accept/decline invite. The UID matches the
+// feed entry, so the consultant's own calendar does not get a duplicate.
+export async function buildMeetingInvitation(meetingId: string): Promise<{ content: string; filename: string }> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data: meeting, error } = await supabase
+      .from('meetings')
+      .select('id, type, datetime, status, client:clients!inner(name, email, user_id)')
+      .eq('id', meetingId)
+      .eq('client.user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!meeting) {
+      throw new Error('Reunião não encontrada');
+    }
+
+    const { status, client } = meeting;
+    if (status !== 'planned') {
+      throw new Error('Só é possível gerar convite para reuniões agendadas');
+    }
+    if (!client.email) {
+      throw new Error('Cadastre o email do cliente para enviar o convite');
+    }
+
+    const [{ data: profile }, { data: meetingType }] = await Promise.all([
+      supabase.from('user_profiles').select('full_name').eq('id', user.id).maybeSingle(),
+      supabase
+        .from('meeting_types')
+        .select('display_name')
+        .eq('code', meeting.type)
+        .or(`user_id.is.null,user_id.eq.${user.id}`)
+        .order('user_id', { ascending: false, nullsFirst: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    const consultantName = profile?.full_name || user.email || 'Consultor';
+    const typeName = meetingType?.display_name || meeting.type;
+    const event = buildMeetingEvent({ id: meeting.id, type: meeting.type, datetime: meeting.datetime, client });
+
+    const content = buildCalendar({
+      name: 'Assistente W1',
+      method: 'REQUEST',
+      events: [{
+        ...event,
+        summary: `${typeName} · ${consultantName}`,
+        description: `Reunião ${typeName} com ${consultantName}`,
+        organizer: user.email ? { email: user.email, name: consultantName } : null,
+        attendees: [{ email: client.email, name: client.name }],
+      }],
+    });
+
+    return {
+      content,
+      filename: `convite-${meeting.type.toLowerCase()}-${slugify(client.name)}.ics`,
+    };
+  } catch (error) {
+    console.error('Error in buildMeetingInvitation:', error);
+    throw error;
+  }
+}
+
+export async function downloadMeetingInvitation(meetingId: string): Promise<void> {
+  const { content, filename } = await buildMeetingInvitation(meetingId);
+  downloadICS(content, filename);
+}
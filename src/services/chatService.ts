@@ -1,68 +1,236 @@
-import { getOpenAI } from '../lib/openai';
+import { getLLMProvider } from '../lib/llm';
 import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
 import { canUseCredits, consumeCredit } from './subscriptionService';
-import type { Client } from './clientService';
+import { searchMeetings } from './embeddingService';
+import { getDecisionsByClient, type DecisionWithMeeting } from './decisionService';
+import { getCustomFieldDefinitions, describeCustomFields, type CustomFieldDefinition } from './customFieldService';
+
+type Client = Database['public']['Tables']['clients']['Row'];
+type Meeting = Database['public']['Tables']['meetings']['Row'];
+type Task = Database['public']['Tables']['tasks']['Row'];
+type ClientMetadata = Database['public']['Tables']['client_metadata']['Row'];
+
+export type ChatSourceType = 'transcript' | 'meeting' | 'decision' | 'task' | 'metadata';
+
+export interface ChatSource {
+  id: string;
+  type: ChatSourceType;
+  ref_id: string;
+  meeting_id: string | null;
+  label: string;
+  excerpt: string;
+  date: string | null;
+}
 
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  sources?: ChatSource[];
 }
 
 export interface ChatContext {
   client: Client | null;
-  recentMeetings: any[];
-  pendingTasks: any[];
+  sources: ChatSource[];
+}
+
+const MAX_TRANSCRIPT_SOURCES = 6;
+const MAX_MEETING_SOURCES = 3;
+const MAX_DECISION_SOURCES = 6;
+const MAX_TASK_SOURCES = 8;
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 3)
+  );
+}
+
+function relevance(text: string, queryTokens: Set<string>): number {
+  if (queryTokens.size === 0) return 0;
+  let score = 0;
+  tokenize(text).forEach(token => {
+    if (queryTokens.has(token)) score++;
+  });
+  return score;
+}
+
+function rankByRelevance<T>(items: T[], getText: (item: T) => string, queryTokens: Set<string>, limit: number): T[] {
+  return items
+    .map((item, index) => ({ item, index, score: relevance(getText(item), queryTokens) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(({ item }) => item);
+}
+
+function formatDate(date: string | null): string {
+  return date ? new Date(date).toLocaleDateString('pt-BR') : '';
+}
+
+function describeMetadata(metadata: ClientMetadata, fieldDefinitions: CustomFieldDefinition[]): string {
+  const parts: string[] = [];
+  if (metadata.financial_goals) parts.push(`Objetivos: ${metadata.financial_goals}`);
+  if (metadata.monthly_income !== null) parts.push(`Renda mensal: R$ ${metadata.monthly_income}`);
+  if (metadata.estimated_patrimony !== null) parts.push(`Patrimônio estimado: R$ ${metadata.estimated_patrimony}`);
+  if (metadata.address_city) parts.push(`Cidade: ${metadata.address_city}${metadata.address_state ? `/${metadata.address_state}` : ''}`);
+  if (metadata.contact_preference) parts.push(`Contato preferido: ${metadata.contact_preference}`);
+  if (metadata.tags && metadata.tags.length > 0) parts.push(`Tags: ${metadata.tags.join(', ')}`);
+  describeCustomFields(fieldDefinitions, metadata.custom_fields).forEach(field => {
+    parts.push(`${field.label}: ${field.formatted}`);
+  });
+  if (metadata.notes) parts.push(`Notas: ${metadata.notes}`);
+  return parts.join(' | ');
+}
+
+async function retrieveTranscriptSources(clientId: string, message: string): Promise<Omit<ChatSource, 'id'>[]> {
+  try {
+    const results = await searchMeetings(message, { clientId, limit: MAX_TRANSCRIPT_SOURCES });
+    return results.map(result => ({
+      type: 'transcript' as const,
+      ref_id: result.id,
+      meeting_id: result.meeting_id,
+      label: `Transcrição ${result.meeting_type} de ${formatDate(result.meeting_datetime)}`,
+      excerpt: result.snippet,
+      date: result.meeting_datetime,
+    }));
+  } catch (error) {
+    console.error('Error retrieving transcript chunks for chat:', error);
+    return [];
+  }
+}
+
+export async function retrieveChatContext(clientId: string | null, message: string): Promise<ChatContext> {
+  if (!clientId) {
+    return { client: null, sources: [] };
+  }
+
+  const queryTokens = tokenize(message);
+
+  const [{ data: client }, { data: meetings }, { data: tasks }, { data: metadata }, decisions, fieldDefinitions, transcriptSources] = await Promise.all([
+    supabase.from('clients').select('*').eq('id', clientId).single(),
+    supabase.from('meetings').select('*').eq('client_id', clientId).order('datetime', { ascending: false }),
+    supabase
+      .from('tasks')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('is_draft', false)
+      .in('status', ['pendente', 'em_andamento', 'em_revisao', 'backlog'])
+      .order('due_date', { ascending: true }),
+    supabase.from('client_metadata').select('*').eq('client_id', clientId).maybeSingle(),
+    getDecisionsByClient(clientId).catch(() => [] as DecisionWithMeeting[]),
+    getCustomFieldDefinitions(true).catch(() => [] as CustomFieldDefinition[]),
+    retrieveTranscriptSources(clientId, message),
+  ]);
+
+  const allMeetings: Meeting[] = meetings || [];
+  const sources: Omit<ChatSource, 'id'>[] = [...transcriptSources];
+
+  rankByRelevance(
+    allMeetings.filter(m => m.summary),
+    m => m.summary || '',
+    queryTokens,
+    MAX_MEETING_SOURCES
+  ).forEach(meeting => {
+    sources.push({
+      type: 'meeting',
+      ref_id: meeting.id,
+      meeting_id: meeting.id,
+      label: `Resumo ${meeting.type} de ${formatDate(meeting.datetime)}`,
+      excerpt: meeting.summary || '',
+      date: meeting.datetime,
+    });
+  });
+
+  rankByRelevance(decisions, d => d.description, queryTokens, MAX_DECISION_SOURCES).forEach(decision => {
+    const status = decision.is_implemented
+      ? `implementada${decision.implemented_at ? ` em ${formatDate(decision.implemented_at)}` : ''}`
+      : 'pendente';
+    sources.push({
+      type: 'decision',
+      ref_id: decision.id,
+      meeting_id: decision.meeting_id,
+      label: `Decisão da reunião ${decision.meeting.type} de ${formatDate(decision.meeting.datetime)} (${status})`,
+      excerpt: decision.description,
+      date: decision.meeting.datetime,
+    });
+  });
+
+  rankByRelevance(
+    (tasks || []) as Task[],
+    t => `${t.title} ${t.description || ''}`,
+    queryTokens,
+    MAX_TASK_SOURCES
+  ).forEach(task => {
+    sources.push({
+      type: 'task',
+      ref_id: task.id,
+      meeting_id: task.meeting_id,
+      label: `Tarefa (${task.owner}, vence ${formatDate(task.due_date)}, ${task.status})`,
+      excerpt: task.description ? `${task.title} — ${task.description}` : task.title,
+      date: task.due_date,
+    });
+  });
+
+  if (metadata) {
+    const description = describeMetadata(metadata, fieldDefinitions);
+    if (description) {
+      sources.push({
+        type: 'metadata',
+        ref_id: metadata.id,
+        meeting_id: null,
+        label: 'Cadastro do cliente',
+        excerpt: description,
+        date: metadata.updated_at,
+      });
+    }
+  }
+
+  return {
+    client: client || null,
+    sources: sources.map((source, index) => ({ ...source, id: `S${index + 1}` })),
+  };
+}
+
+export function extractCitedSources(response: string, sources: ChatSource[]): ChatSource[] {
+  const citedIds = new Set<string>();
+  for (const match of response.matchAll(/\[(S\d+(?:\s*,\s*S\d+)*)\]/g)) {
+    match[1].split(',').forEach(id => citedIds.add(id.trim()));
+  }
+  return sources.filter(source => citedIds.has(source.id));
+}
+
+export interface ChatStreamOptions {
+  onToken?: (partialResponse: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ChatResult {
+  response: string;
+  sources: ChatSource[];
+  cancelled: boolean;
 }
 
 export async function sendChatMessage(
   userId: string,
   clientId: string | null,
   message: string,
-  conversationHistory: ChatMessage[]
-): Promise<{ response: string; context: any }> {
+  conversationHistory: ChatMessage[],
+  options: ChatStreamOptions = {}
+): Promise<ChatResult> {
   const creditCheck = await canUseCredits(userId);
   if (!creditCheck.allowed) {
     throw new Error(creditCheck.reason || 'Sem créditos disponíveis');
   }
 
-  let context: ChatContext = {
-    client: null,
-    recentMeetings: [],
-    pendingTasks: [],
-  };
-
-  if (clientId) {
-    const { data: client } = await supabase
-      .from('clients')
-      .select('*')
-      .eq('id', clientId)
-      .single();
-
-    const { data: meetings } = await supabase
-      .from('meetings')
-      .select('*')
-      .eq('client_id', clientId)
-      .order('datetime', { ascending: false })
-      .limit(5);
+  const context = await retrieveChatContext(clientId, message);
 
-    const { data: tasks } = await supabase
-      .from('tasks')
-      .select('*')
-      .eq('client_id', clientId)
-      .eq('status', 'pendente')
-      .order('due_date', { ascending: true })
-      .limit(10);
-
-    context = {
-      client: client || null,
-      recentMeetings: meetings || [],
-      pendingTasks: tasks || [],
-    };
-  }
-
-  const openai = await getOpenAI();
+  const provider = await getLLMProvider();
 
   const systemPrompt = buildSystemPrompt(context);
 
@@ -75,33 +243,65 @@ export async function sendChatMessage(
     { role: 'user' as const, content: message }
   ];
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4-turbo-preview',
-    messages,
-    temperature: 0.7,
-    max_tokens: 1000,
-  });
+  let assistantResponse = '';
+  let cancelled = false;
+
+  try {
+    await provider.stream(
+      {
+        messages,
+        temperature: 0.7,
+        maxTokens: 4000,
+        signal: options.signal,
+      },
+      token => {
+        assistantResponse += token;
+        options.onToken?.(assistantResponse);
+      }
+    );
+  } catch (error) {
+    if (!options.signal?.aborted) throw error;
+    cancelled = true;
+  }
+
+  if (cancelled && !assistantResponse.trim()) {
+    return { response: '', sources: [], cancelled };
+  }
+
+  if (!assistantResponse.trim()) {
+    assistantResponse = 'Desculpe, não consegui gerar uma resposta.';
+  }
 
-  const assistantResponse = completion.choices[0]?.message?.content || 'Desculpe, não consegui gerar uma resposta.';
+  const citedSources = extractCitedSources(assistantResponse, context.sources);
 
   await consumeCredit(userId, 'chat_message', {
     clientId,
     messageLength: message.length,
     responseLength: assistantResponse.length,
+    sourcesCited: citedSources.length,
+    provider: provider.id,
+    model: provider.model,
+    cancelled,
   });
 
   if (clientId) {
-    await supabase.from('conversation_history').insert({
+    const { error: historyError } = await supabase.from('conversation_history').insert({
       client_id: clientId,
       user_message: message,
       assistant_response: assistantResponse,
-      sources_cited: context,
+      sources_cited: citedSources,
     });
+
+    if (historyError) {
+      console.error('Error saving conversation history:', historyError);
+      throw historyError;
+    }
   }
 
   return {
     response: assistantResponse,
-    context,
+    sources: citedSources,
+    cancelled,
   };
 }
 
@@ -126,23 +326,16 @@ Risk Score: ${context.client.risk_score}
 Última Atividade: ${context.client.last_activity_date ? new Date(context.client.last_activity_date).toLocaleDateString('pt-BR') : 'Nenhuma'}`;
   }
 
-  if (context.recentMeetings.length > 0) {
-    prompt += `\n\n## Reuniões Recentes (${context.recentMeetings.length})`;
-    context.recentMeetings.forEach((meeting, index) => {
-      prompt += `\n${index + 1}. ${meeting.type} - ${new Date(meeting.datetime).toLocaleDateString('pt-BR')}`;
-      if (meeting.summary) {
-        prompt += `\n   Resumo: ${meeting.summary.substring(0, 150)}...`;
-      }
+  if (context.sources.length > 0) {
+    prompt += `\n\n## Fontes (${context.sources.length})`;
+    context.sources.forEach(source => {
+      prompt += `\n[${source.id}] ${source.label}\n${source.excerpt}`;
     });
-  }
 
-  if (context.pendingTasks.length > 0) {
-    prompt += `\n\n## Tarefas Pendentes (${context.pendingTasks.length})`;
-    context.pendingTasks.forEach((task, index) => {
-      prompt += `\n${index + 1}. ${task.title}`;
-      prompt += `\n   Responsável: ${task.owner}`;
-      prompt += `\n   Vencimento: ${new Date(task.due_date).toLocaleDateString('pt-BR')}`;
-    });
+    prompt += `\n\n## Como citar
+- Baseie a resposta nas fontes acima e cite cada afirmação com o identificador da fonte, ex.: [S1] ou [S2][S4].
+- Use apenas identificadores que existem na lista de fontes.
+- Se as fontes não trouxerem a informação pedida, diga isso claramente em vez de supor.`;
   }
 
   return prompt;
@@ -154,7 +347,7 @@ export async function getConversationHistory(
 ): Promise<ChatMessage[]> {
   const { data, error } = await supabase
     .from('conversation_history')
-    .select('id, user_message, assistant_response, timestamp')
+    .select('id, user_message, assistant_response, sources_cited, timestamp')
     .eq('client_id', clientId)
     .order('timestamp', { ascending: false })
     .limit(limit);
@@ -166,17 +359,18 @@ export async function getConversationHistory(
 
   const messages: ChatMessage[] = [];
   data.forEach(record => {
-    messages.push({
-      id: `${record.id}-user`,
-      role: 'user',
-      content: record.user_message,
-      timestamp: record.timestamp,
-    });
     messages.push({
       id: `${record.id}-assistant`,
       role: 'assistant',
       content: record.assistant_response,
       timestamp: record.timestamp,
+      sources: Array.isArray(record.sources_cited) ? record.sources_cited : [],
+    });
+    messages.push({
+      id: `${record.id}-user`,
+      role: 'user',
+      content: record.user_message,
+      timestamp: record.timestamp,
     });
   });
 
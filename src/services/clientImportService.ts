@@ -0,0 +1,551 @@
+import { supabase } from '../lib/supabase';
+import { extractXlsxRows } from '../lib/xlsx';
+import type { ClientStatus, Database } from '../lib/database.types';
+// Contact normalization lives next to the edge functions because inbound
+// integrations must recognise clients exactly like the import does
+import {
+  formatPhone,
+  normalizeDocument,
+  normalizeEmail,
+  normalizeNameKey,
+  normalizePhoneDigits,
+} from '../../supabase/functions/_shared/contact';
+import { selectAllPages } from '../../supabase/functions/_shared/pagination';
+
+type Client = Database['public']['Tables']['clients']['Row'];
+type ClientInsert = Database['public']['Tables']['clients']['Insert'];
+type ClientMetadataInsert = Database['public']['Tables']['client_metadata']['Insert'];
+type ClientMetadataDocument = Pick<Database['public']['Tables']['client_metadata']['Row'], 'document_number'>;
+type ExistingClientRow = Pick<Client, 'id' | 'name' | 'email' | 'phone'> & {
+  metadata: ClientMetadataDocument | ClientMetadataDocument[] | null;
+};
+
+export type ImportFileFormat = 'csv' | 'xlsx';
+
+export interface ParsedImportFile {
+  file_name: string;
+  format: ImportFileFormat;
+  headers: string[];
+  rows: string[][];
+}
+
+export type ImportFieldKey =
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'revenue_bracket'
+  | 'status'
+  | 'document_number'
+  | 'birth_date'
+  | 'address_street'
+  | 'address_city'
+  | 'address_state'
+  | 'address_zip'
+  | 'monthly_income'
+  | 'estimated_patrimony'
+  | 'financial_goals'
+  | 'contact_preference'
+  | 'best_contact_time'
+  | 'tags'
+  | 'notes';
+
+export interface ImportField {
+  key: ImportFieldKey;
+  label: string;
+  target: 'client' | 'metadata';
+  // Normalized header names recognised when suggesting a mapping
+  aliases: string[];
+}
+
+// What a file column feeds: a known field, a key inside custom_fields, or nothing
+export type ImportColumnTarget = ImportFieldKey | `custom:${string}` | null;
+
+export type DuplicateMatch = 'document' | 'email' | 'phone' | 'name';
+
+export interface ImportDuplicate {
+  matched_on: DuplicateMatch;
+  // Existing client, or null when the duplicate is an earlier row of the same file
+  client_id: string | null;
+  name: string;
+  row_number: number | null;
+}
+
+export interface ImportRow {
+  // Line number in the spreadsheet, counting the header row
+  row_number: number;
+  client: Pick<ClientInsert, 'name' | 'email' | 'phone' | 'revenue_bracket' | 'status'>;
+  metadata: Omit<ClientMetadataInsert, 'client_id'> | null;
+  errors: string[];
+  warnings: string[];
+  duplicate: ImportDuplicate | null;
+}
+
+export interface ImportReport {
+  file_name: string;
+  rows: ImportRow[];
+  total: number;
+  valid: number;
+  invalid: number;
+  duplicates: number;
+}
+
+export interface ImportOptions {
+  // Import rows flagged as duplicates instead of skipping them
+  include_duplicates: boolean;
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+  clients: Client[];
+}
+
+export const MAX_IMPORT_ROWS = 2000;
+
+export const SUPPORTED_IMPORT_EXTENSIONS = ['.csv', '.xlsx'];
+
+const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+const CLIENT_STATUSES: ClientStatus[] = ['ativo', 'inativo', 'prospecto'];
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'name', label: 'Nome', target: 'client', aliases: ['nome', 'name', 'cliente', 'nome completo', 'razao social'] },
+  { key: 'email', label: 'E-mail', target: 'client', aliases: ['email', 'e mail', 'correio eletronico'] },
+  { key: 'phone', label: 'Telefone', target: 'client', aliases: ['telefone', 'phone', 'celular', 'whatsapp', 'fone', 'tel'] },
+  { key: 'revenue_bracket', label: 'Faixa de faturamento', target: 'client', aliases: ['faixa de faturamento', 'faturamento', 'faixa', 'revenue bracket'] },
+  { key: 'status', label: 'Status', target: 'client', aliases: ['status', 'situacao'] },
+  { key: 'document_number', label: 'CPF/CNPJ', target: 'metadata', aliases: ['cpf', 'cnpj', 'cpf cnpj', 'documento', 'document number'] },
+  { key: 'birth_date', label: 'Data de nascimento', target: 'metadata', aliases: ['data de nascimento', 'nascimento', 'aniversario', 'birth date'] },
+  { key: 'address_street', label: 'Endereço', target: 'metadata', aliases: ['endereco', 'logradouro', 'rua', 'address'] },
+  { key: 'address_city', label: 'Cidade', target: 'metadata', aliases: ['cidade', 'municipio', 'city'] },
+  { key: 'address_state', label: 'Estado', target: 'metadata', aliases: ['estado', 'uf', 'state'] },
+  { key: 'address_zip', label: 'CEP', target: 'metadata', aliases: ['cep', 'zip', 'codigo postal'] },
+  { key: 'monthly_income', label: 'Renda mensal', target: 'metadata', aliases: ['renda mensal', 'renda', 'monthly income'] },
+  { key: 'estimated_patrimony', label: 'Patrimônio estimado', target: 'metadata', aliases: ['patrimonio estimado', 'patrimonio'] },
+  { key: 'financial_goals', label: 'Objetivos financeiros', target: 'metadata', aliases: ['objetivos financeiros', 'objetivos', 'metas'] },
+  { key: 'contact_preference', label: 'Preferência de contato', target: 'metadata', aliases: ['preferencia de contato', 'canal preferido'] },
+  { key: 'best_contact_time', label: 'Melhor horário', target: 'metadata', aliases: ['melhor horario', 'horario de contato'] },
+  { key: 'tags', label: 'Tags', target: 'metadata', aliases: ['tags', 'etiquetas', 'marcadores'] },
+  { key: 'notes', label: 'Observações', target: 'metadata', aliases: ['observacoes', 'obs', 'notas', 'notes', 'anotacoes'] },
+];
+
+const FIELDS_BY_KEY = new Map(IMPORT_FIELDS.map(field => [field.key, field]));
+
+function normalizeHeader(header: string): string {
+  return normalizeNameKey(header).replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+export function customFieldKey(header: string): string {
+  return normalizeHeader(header).replace(/ /g, '_') || 'campo';
+}
+
+function getFileFormat(fileName: string): ImportFileFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'xlsx') return extension;
+
+  throw new Error(
+    `Formato de arquivo não suportado: .${extension}. ` +
+    `Use ${SUPPORTED_IMPORT_EXTENSIONS.join(' ou ')}.`
+  );
+}
+
+// Excel in pt-BR exports CSV with ";" because "," is the decimal separator
+function detectDelimiter(firstLine: string): string {
+  const [best] = [';', ',', '\t']
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count);
+  return best.count > 0 ? best.delimiter : ',';
+}
+
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Arquivo CSV inválido: aspas não fechadas');
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+export async function parseImportFile(file: File): Promise<ParsedImportFile> {
+  const format = getFileFormat(file.name);
+
+  if (file.size === 0) {
+    throw new Error(`O arquivo ${file.name} está vazio`);
+  }
+
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    throw new Error(`O arquivo ${file.name} excede o limite de 5 MB`);
+  }
+
+  const allRows = format === 'xlsx'
+    ? await extractXlsxRows(await file.arrayBuffer())
+    : parseCsv(await file.text());
+
+  const rows = allRows
+    .map(row => row.map(value => value.trim()))
+    .filter(row => row.some(value => value !== ''));
+
+  if (rows.length < 2) {
+    throw new Error('O arquivo precisa de uma linha de cabeçalho e ao menos um cliente');
+  }
+
+  if (rows.length - 1 > MAX_IMPORT_ROWS) {
+    throw new Error(`O arquivo tem ${rows.length - 1} linhas; o limite por importação é ${MAX_IMPORT_ROWS}`);
+  }
+
+  const [headers, ...dataRows] = rows;
+  const width = Math.max(headers.length, ...dataRows.map(row => row.length));
+
+  return {
+    file_name: file.name,
+    format,
+    headers: Array.from({ length: width }, (_, index) => headers[index] || `Coluna ${index + 1}`),
+    rows: dataRows.map(row => Array.from({ length: width }, (_, index) => row[index] || '')),
+  };
+}
+
+export function suggestColumnMapping(headers: string[]): ImportColumnTarget[] {
+  const used = new Set<ImportFieldKey>();
+
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const field = IMPORT_FIELDS.find(candidate => !used.has(candidate.key) && candidate.aliases.includes(normalized));
+    if (!field) return null;
+
+    used.add(field.key);
+    return field.key;
+  });
+}
+
+export function validateColumnMapping(mapping: ImportColumnTarget[]): string | null {
+  if (!mapping.includes('name')) {
+    return 'Selecione a coluna com o nome do cliente';
+  }
+
+  const fieldKeys = mapping.filter((target): target is ImportFieldKey => !!target && !target.startsWith('custom:'));
+  const repeated = fieldKeys.find((key, index) => fieldKeys.indexOf(key) !== index);
+  if (repeated) {
+    return `O campo "${FIELDS_BY_KEY.get(repeated)?.label}" está associado a mais de uma coluna`;
+  }
+
+  return null;
+}
+
+function parseDecimal(value: string): number | null {
+  let cleaned = value.replace(/[R$\s]/g, '');
+  // "1.234,56" (pt-BR) vs "1234.56": the last separator is the decimal one
+  if (cleaned.includes(',')) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  }
+  const number = Number(cleaned);
+  return cleaned !== '' && Number.isFinite(number) ? number : null;
+}
+
+function parseDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const br = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : br
+      ? [Number(br[3]), Number(br[2]), Number(br[1])]
+      : [NaN, NaN, NaN];
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (Number.isNaN(date.getTime()) || date.getUTCDate() !== day || date.getUTCMonth() !== month - 1) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+function buildRow(values: string[], mapping: ImportColumnTarget[], rowNumber: number): ImportRow {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const client: ImportRow['client'] = { name: '' };
+  const metadata: Record<string, any> = {};
+  const customFields: Record<string, string> = {};
+
+  mapping.forEach((target, index) => {
+    const value = values[index];
+    if (!target || !value) return;
+
+    if (target.startsWith('custom:')) {
+      customFields[target.slice('custom:'.length)] = value;
+      return;
+    }
+
+    const field = FIELDS_BY_KEY.get(target as ImportFieldKey)!;
+
+    switch (field.key) {
+      case 'name':
+        client.name = value.replace(/\s+/g, ' ');
+        break;
+      case 'email': {
+        const email = normalizeEmail(value);
+        if (email) client.email = email;
+        else errors.push(`E-mail inválido: "${value}"`);
+        break;
+      }
+      case 'phone': {
+        const digits = normalizePhoneDigits(value);
+        if (digits) client.phone = formatPhone(digits);
+        else errors.push(`Telefone inválido: "${value}" (use DDD + número)`);
+        break;
+      }
+      case 'status': {
+        const status = normalizeNameKey(value) as ClientStatus;
+        if (CLIENT_STATUSES.includes(status)) client.status = status;
+        else warnings.push(`Status "${value}" desconhecido; o cliente será importado como prospecto`);
+        break;
+      }
+      case 'revenue_bracket':
+        client.revenue_bracket = value;
+        break;
+      case 'document_number': {
+        const document = normalizeDocument(value);
+        if (!document) {
+          errors.push(`CPF/CNPJ inválido: "${value}"`);
+          break;
+        }
+        metadata.document_number = document.formatted;
+        if (document.padded) {
+          warnings.push(`Zeros à esquerda restaurados no ${document.kind.toUpperCase()}: ${document.formatted}`);
+        }
+        break;
+      }
+      case 'birth_date': {
+        const date = parseDate(value);
+        if (date) metadata.birth_date = date;
+        else errors.push(`Data de nascimento inválida: "${value}" (use DD/MM/AAAA)`);
+        break;
+      }
+      case 'monthly_income':
+      case 'estimated_patrimony': {
+        const number = parseDecimal(value);
+        if (number !== null) metadata[field.key] = number;
+        else errors.push(`${field.label}: valor inválido "${value}"`);
+        break;
+      }
+      case 'address_state':
+        metadata.address_state = value.toUpperCase();
+        if (!/^[A-Z]{2}$/.test(metadata.address_state)) {
+          warnings.push(`Estado "${value}" não é uma UF de duas letras`);
+        }
+        break;
+      case 'address_zip': {
+        const digits = value.replace(/\D/g, '').padStart(8, '0');
+        if (digits.length === 8) {
+          metadata.address_zip = `${digits.slice(0, 5)}-${digits.slice(5)}`;
+        } else {
+          metadata.address_zip = value;
+          warnings.push(`CEP "${value}" fora do formato 00000-000`);
+        }
+        break;
+      }
+      case 'tags':
+        metadata.tags = Array.from(new Set(value.split(/[,;|]/).map(tag => tag.trim()).filter(Boolean)));
+        break;
+      default:
+        metadata[field.key] = value;
+    }
+  });
+
+  if (!client.name) {
+    errors.push('Nome é obrigatório');
+  }
+
+  if (Object.keys(customFields).length > 0) {
+    metadata.custom_fields = customFields;
+  }
+
+  return {
+    row_number: rowNumber,
+    client,
+    metadata: Object.keys(metadata).length > 0 ? metadata : null,
+    errors,
+    warnings,
+    duplicate: null,
+  };
+}
+
+interface DuplicateIndex {
+  documents: Map<string, ImportDuplicate>;
+  emails: Map<string, ImportDuplicate>;
+  phones: Map<string, ImportDuplicate>;
+  names: Map<string, ImportDuplicate>;
+}
+
+function duplicateKeys(row: Pick<ImportRow, 'client' | 'metadata'>) {
+  return {
+    document: row.metadata?.document_number ? row.metadata.document_number.replace(/\D/g, '') : null,
+    email: row.client.email || null,
+    phone: row.client.phone ? normalizePhoneDigits(row.client.phone) : null,
+    name: row.client.name ? normalizeNameKey(row.client.name) : null,
+  };
+}
+
+function findDuplicate(index: DuplicateIndex, row: ImportRow): ImportDuplicate | null {
+  const keys = duplicateKeys(row);
+  return (keys.document && index.documents.get(keys.document))
+    || (keys.email && index.emails.get(keys.email))
+    || (keys.phone && index.phones.get(keys.phone))
+    || (keys.name && index.names.get(keys.name))
+    || null;
+}
+
+function addToIndex(
+  index: DuplicateIndex,
+  keys: ReturnType<typeof duplicateKeys>,
+  entry: Omit<ImportDuplicate, 'matched_on'>
+) {
+  if (keys.document && !index.documents.has(keys.document)) index.documents.set(keys.document, { ...entry, matched_on: 'document' });
+  if (keys.email && !index.emails.has(keys.email)) index.emails.set(keys.email, { ...entry, matched_on: 'email' });
+  if (keys.phone && !index.phones.has(keys.phone)) index.phones.set(keys.phone, { ...entry, matched_on: 'phone' });
+  if (keys.name && !index.names.has(keys.name)) index.names.set(keys.name, { ...entry, matched_on: 'name' });
+}
+
+async function loadExistingClientsIndex(): Promise<DuplicateIndex> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const clients = await selectAllPages<ExistingClientRow>(() => supabase
+    .from('clients')
+    .select('id, name, email, phone, metadata:client_metadata(document_number)')
+    .eq('user_id', user.id)
+    .order('id'));
+
+  const index: DuplicateIndex = { documents: new Map(), emails: new Map(), phones: new Map(), names: new Map() };
+
+  clients.forEach(client => {
+    const metadata = Array.isArray(client.metadata) ? client.metadata[0] : client.metadata;
+    const document = metadata?.document_number ? normalizeDocument(metadata.document_number) : null;
+    addToIndex(
+      index,
+      {
+        document: document?.digits || null,
+        email: client.email ? normalizeEmail(client.email) : null,
+        phone: client.phone ? normalizePhoneDigits(client.phone) : null,
+        name: normalizeNameKey(client.name),
+      },
+      { client_id: client.id, name: client.name, row_number: null }
+    );
+  });
+
+  return index;
+}
+
+// Dry run: validates every row and flags duplicates against the portfolio and
+// earlier rows of the file. Nothing is written.
+export async function buildImportReport(
+  file: ParsedImportFile,
+  mapping: ImportColumnTarget[]
+): Promise<ImportReport> {
+  try {
+    const mappingError = validateColumnMapping(mapping);
+    if (mappingError) {
+      throw new Error(mappingError);
+    }
+
+    const existing = await loadExistingClientsIndex();
+    const inFile: DuplicateIndex = { documents: new Map(), emails: new Map(), phones: new Map(), names: new Map() };
+
+    const rows = file.rows.map((values, index) => {
+      const row = buildRow(values, mapping, index + 2);
+      if (row.errors.length > 0) return row;
+
+      row.duplicate = findDuplicate(existing, row) || findDuplicate(inFile, row);
+      addToIndex(inFile, duplicateKeys(row), { client_id: null, name: row.client.name, row_number: row.row_number });
+      return row;
+    });
+
+    const invalid = rows.filter(row => row.errors.length > 0).length;
+    const duplicates = rows.filter(row => row.duplicate).length;
+
+    return {
+      file_name: file.file_name,
+      rows,
+      total: rows.length,
+      valid: rows.length - invalid - duplicates,
+      invalid,
+      duplicates,
+    };
+  } catch (error) {
+    console.error('Error in buildImportReport:', error);
+    throw error;
+  }
+}
+
+export function getImportableRows(report: ImportReport, options: ImportOptions): ImportRow[] {
+  return report.rows.filter(row =>
+    row.errors.length === 0 && (!row.duplicate || options.include_duplicates)
+  );
+}
+
+// Imports every accepted row in one transaction (import_clients RPC): a failure
+// leaves the portfolio untouched. The RPC also queues a client.created webhook event
+// per client, so they are only delivered when the import commits.
+export async function importClients(report: ImportReport, options: ImportOptions): Promise<ImportResult> {
+  try {
+    const rows = getImportableRows(report, options);
+    if (rows.length === 0) {
+      throw new Error('Nenhum cliente válido para importar');
+    }
+
+    const { data, error } = await supabase.rpc('import_clients', {
+      p_rows: rows.map(row => ({ client: row.client, metadata: row.metadata })),
+    });
+
+    if (error) throw error;
+
+    const clients = data || [];
+
+    return {
+      imported: clients.length,
+      skipped: report.total - clients.length,
+      clients,
+    };
+  } catch (error) {
+    console.error('Error in importClients:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,394 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { triggerWebhooks, clientEventData, clientPreviousValues, WEBHOOK_EVENTS } from './webhookService';
+import {
+  normalizeDocument,
+  normalizeEmail,
+  normalizeNameKey,
+  normalizePhoneDigits,
+} from '../../supabase/functions/_shared/contact';
+import { selectAllPages } from '../../supabase/functions/_shared/pagination';
+
+type Client = Database['public']['Tables']['clients']['Row'];
+type ClientMetadata = Database['public']['Tables']['client_metadata']['Row'];
+type ClientWithDocumentRow = Client & {
+  metadata: Pick<ClientMetadata, 'document_number'> | Array<Pick<ClientMetadata, 'document_number'>> | null;
+};
+export type ClientMerge = Database['public']['Tables']['client_merges']['Row'];
+
+export type DuplicateReason = 'document' | 'email' | 'phone' | 'name' | 'similar_name';
+
+export interface DuplicateCandidate {
+  // Stable key of the pair (smaller id first), used for dismissals
+  key: string;
+  clients: [Client, Client];
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+export interface MergeSide extends Client {
+  metadata: ClientMetadata | null;
+  meeting_count: number;
+  task_count: number;
+}
+
+export type MergeClientField = 'name' | 'email' | 'phone' | 'revenue_bracket' | 'status';
+
+export type MergeMetadataField =
+  | 'document_number'
+  | 'birth_date'
+  | 'address_street'
+  | 'address_city'
+  | 'address_state'
+  | 'address_zip'
+  | 'monthly_income'
+  | 'estimated_patrimony'
+  | 'financial_goals'
+  | 'contact_preference'
+  | 'best_contact_time'
+  | 'notes';
+
+export interface MergeSelection {
+  client: Partial<Pick<Client, MergeClientField>>;
+  metadata: Partial<Pick<ClientMetadata, MergeMetadataField>>;
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  document: 'Mesmo CPF/CNPJ',
+  email: 'Mesmo e-mail',
+  phone: 'Mesmo telefone',
+  name: 'Mesmo nome',
+  similar_name: 'Nome parecido',
+};
+
+export const MERGE_CLIENT_FIELDS: Array<{ key: MergeClientField; label: string }> = [
+  { key: 'name', label: 'Nome' },
+  { key: 'email', label: 'E-mail' },
+  { key: 'phone', label: 'Telefone' },
+  { key: 'revenue_bracket', label: 'Faixa de faturamento' },
+  { key: 'status', label: 'Status' },
+];
+
+export const MERGE_METADATA_FIELDS: Array<{ key: MergeMetadataField; label: string }> = [
+  { key: 'document_number', label: 'CPF/CNPJ' },
+  { key: 'birth_date', label: 'Data de nascimento' },
+  { key: 'address_street', label: 'Endereço' },
+  { key: 'address_city', label: 'Cidade' },
+  { key: 'address_state', label: 'Estado' },
+  { key: 'address_zip', label: 'CEP' },
+  { key: 'monthly_income', label: 'Renda mensal' },
+  { key: 'estimated_patrimony', label: 'Patrimônio estimado' },
+  { key: 'financial_goals', label: 'Objetivos financeiros' },
+  { key: 'contact_preference', label: 'Preferência de contato' },
+  { key: 'best_contact_time', label: 'Melhor horário' },
+  { key: 'notes', label: 'Observações' },
+];
+
+const REASON_SCORES: Record<DuplicateReason, number> = {
+  document: 100,
+  email: 90,
+  phone: 80,
+  name: 70,
+  similar_name: 55,
+};
+
+// Each extra matching signal adds confidence on top of the strongest one
+const EXTRA_SIGNAL_BONUS = 10;
+const SIMILAR_NAME_THRESHOLD = 0.85;
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+// "Silva, João" and "João Silva" are the same name written differently
+function nameSimilarity(a: string, b: string): number {
+  const sortTokens = (value: string) => value.replace(/[^a-z0-9 ]/g, '').split(' ').filter(Boolean).sort().join(' ');
+  return Math.max(similarity(a, b), similarity(sortTokens(a), sortTokens(b)));
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+interface ClientKeys {
+  client: Client;
+  document: string | null;
+  email: string | null;
+  phone: string | null;
+  name: string;
+}
+
+export async function findDuplicateClients(): Promise<DuplicateCandidate[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const [clients, dismissals] = await Promise.all([
+      selectAllPages<ClientWithDocumentRow>(() => supabase
+        .from('clients')
+        .select('*, metadata:client_metadata(document_number)')
+        .eq('user_id', user.id)
+        .order('id')),
+      selectAllPages(() => supabase
+        .from('client_duplicate_dismissals')
+        .select('client_a_id, client_b_id')
+        .eq('user_id', user.id)
+        .order('id')),
+    ]);
+
+    const dismissed = new Set(dismissals.map(row => pairKey(row.client_a_id, row.client_b_id)));
+
+    const entries: ClientKeys[] = clients.map(row => {
+      const { metadata, ...client } = row;
+      const documentNumber = (Array.isArray(metadata) ? metadata[0] : metadata)?.document_number;
+      return {
+        client,
+        document: documentNumber ? normalizeDocument(documentNumber)?.digits || null : null,
+        email: client.email ? normalizeEmail(client.email) : null,
+        phone: client.phone ? normalizePhoneDigits(client.phone) : null,
+        name: normalizeNameKey(client.name),
+      };
+    });
+
+    const candidates: DuplicateCandidate[] = [];
+
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        const a = entries[i];
+        const b = entries[j];
+
+        // Two different CPFs are two different people, whatever else matches
+        if (a.document && b.document && a.document !== b.document) continue;
+
+        const reasons: DuplicateReason[] = [];
+        if (a.document && a.document === b.document) reasons.push('document');
+        if (a.email && a.email === b.email) reasons.push('email');
+        if (a.phone && a.phone === b.phone) reasons.push('phone');
+        if (a.name === b.name) {
+          reasons.push('name');
+        } else if (
+          Math.abs(a.name.length - b.name.length) <= 4 &&
+          nameSimilarity(a.name, b.name) >= SIMILAR_NAME_THRESHOLD
+        ) {
+          reasons.push('similar_name');
+        }
+
+        if (reasons.length === 0) continue;
+
+        const key = pairKey(a.client.id, b.client.id);
+        if (dismissed.has(key)) continue;
+
+        const strongest = Math.max(...reasons.map(reason => REASON_SCORES[reason]));
+        candidates.push({
+          key,
+          clients: [a.client, b.client],
+          score: Math.min(100, strongest + EXTRA_SIGNAL_BONUS * (reasons.length - 1)),
+          reasons,
+        });
+      }
+    }
+
+    return candidates.sort((x, y) => y.score - x.score);
+  } catch (error) {
+    console.error('Error in findDuplicateClients:', error);
+    throw error;
+  }
+}
+
+export async function dismissDuplicate(clientIdA: string, clientIdB: string): Promise<void> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const [first, second] = [clientIdA, clientIdB].sort();
+    const { error } = await supabase
+      .from('client_duplicate_dismissals')
+      .upsert(
+        { user_id: user.id, client_a_id: first, client_b_id: second },
+        { onConflict: 'client_a_id,client_b_id', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error in dismissDuplicate:', error);
+    throw error;
+  }
+}
+
+export async function getMergeSides(clientIdA: string, clientIdB: string): Promise<[MergeSide, MergeSide]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const ids = [clientIdA, clientIdB];
+    const [clientsResult, metadataResult, meetingsResult, tasksResult] = await Promise.all([
+      supabase.from('clients').select('*').in('id', ids).eq('user_id', user.id),
+      supabase.from('client_metadata').select('*').in('client_id', ids),
+      supabase.from('meetings').select('client_id').in('client_id', ids),
+      supabase.from('tasks').select('client_id').in('client_id', ids),
+    ]);
+
+    if (clientsResult.error) throw clientsResult.error;
+    if (metadataResult.error) throw metadataResult.error;
+    if (meetingsResult.error) throw meetingsResult.error;
+    if (tasksResult.error) throw tasksResult.error;
+
+    const sides = ids.map(id => {
+      const client = (clientsResult.data || []).find(row => row.id === id);
+      if (!client) {
+        throw new Error('Cliente não encontrado');
+      }
+      return {
+        ...client,
+        metadata: (metadataResult.data || []).find(row => row.client_id === id) || null,
+        meeting_count: (meetingsResult.data || []).filter(row => row.client_id === id).length,
+        task_count: (tasksResult.data || []).filter(row => row.client_id === id).length,
+      };
+    });
+
+    return [sides[0], sides[1]];
+  } catch (error) {
+    console.error('Error in getMergeSides:', error);
+    throw error;
+  }
+}
+
+// Default survivor: the client with more history, then the older record
+export function suggestSurvivor(sides: [MergeSide, MergeSide]): 0 | 1 {
+  const [a, b] = sides;
+  const activity = (side: MergeSide) => side.meeting_count + side.task_count;
+  if (activity(a) !== activity(b)) return activity(a) > activity(b) ? 0 : 1;
+  return a.created_at <= b.created_at ? 0 : 1;
+}
+
+export type MergeField = MergeClientField | MergeMetadataField;
+
+// Which side (0 or 1) each surviving value comes from
+export type MergeFieldChoices = Record<MergeField, 0 | 1>;
+
+function fieldValue(side: MergeSide, field: MergeField): unknown {
+  const value = MERGE_CLIENT_FIELDS.some(({ key }) => key === field)
+    ? side[field as MergeClientField]
+    : side.metadata?.[field as MergeMetadataField];
+  return value === '' ? null : value ?? null;
+}
+
+export function getMergeFieldValue(side: MergeSide, field: MergeField): string | null {
+  const value = fieldValue(side, field);
+  return value === null ? null : String(value);
+}
+
+// The survivor's values unless empty, then the other client's
+export function defaultFieldChoices(sides: [MergeSide, MergeSide], survivor: 0 | 1): MergeFieldChoices {
+  const other = survivor === 0 ? 1 : 0;
+  const fields = [...MERGE_CLIENT_FIELDS, ...MERGE_METADATA_FIELDS].map(({ key }) => key);
+
+  return Object.fromEntries(
+    fields.map(field => [field, fieldValue(sides[survivor], field) === null && fieldValue(sides[other], field) !== null ? other : survivor])
+  ) as MergeFieldChoices;
+}
+
+// Empty strings are sent as they are: merge_clients treats them as no value
+function pickChosenValues<T, K extends keyof T>(
+  rows: [T | null, T | null],
+  keys: K[],
+  choices: Record<K, 0 | 1>
+): Partial<Pick<T, K>> {
+  const picked: Partial<Pick<T, K>> = {};
+  keys.forEach(key => {
+    const row = rows[choices[key]];
+    if (row != null) picked[key] = row[key];
+  });
+  return picked;
+}
+
+export function buildMergeSelection(sides: [MergeSide, MergeSide], choices: MergeFieldChoices): MergeSelection {
+  return {
+    client: pickChosenValues(sides, MERGE_CLIENT_FIELDS.map(({ key }) => key), choices),
+    metadata: pickChosenValues([sides[0].metadata, sides[1].metadata], MERGE_METADATA_FIELDS.map(({ key }) => key), choices),
+  };
+}
+
+// Folds `mergedId` into `survivingId` in one transaction (merge_clients RPC):
+// child records are reparented, metadata merged and the duplicate deleted.
+export async function mergeClients(
+  survivingId: string,
+  mergedId: string,
+  selection: MergeSelection
+): Promise<ClientMerge> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const [survivingBefore, mergedBefore] = await getMergeSides(survivingId, mergedId);
+
+    const metadata: MergeSelection['metadata'] = Object.fromEntries(
+      Object.entries(selection.metadata).filter(([, value]) => value !== null && value !== undefined && value !== '')
+    );
+
+    const { data: merge, error } = await supabase.rpc('merge_clients', {
+      p_surviving_id: survivingId,
+      p_merged_id: mergedId,
+      p_client: selection.client,
+      p_metadata: Object.keys(metadata).length > 0 ? metadata : null,
+    });
+
+    if (error) throw error;
+
+    const { data: client, error: clientError } = await supabase
+      .from('clients')
+      .select('*')
+      .eq('id', survivingId)
+      .single();
+
+    if (clientError) throw clientError;
+
+    await triggerWebhooks(
+      WEBHOOK_EVENTS.CLIENT_MERGED,
+      {
+        ...clientEventData(client),
+        merged_client: {
+          id: mergedBefore.id,
+          name: mergedBefore.name,
+          email: mergedBefore.email,
+          phone: mergedBefore.phone,
+          status: mergedBefore.status,
+          created_at: mergedBefore.created_at,
+        },
+        reparented: merge.reparented,
+        merged_at: merge.created_at,
+      },
+      clientPreviousValues(survivingBefore)
+    );
+
+    return merge;
+  } catch (error) {
+    console.error('Error in mergeClients:', error);
+    throw error;
+  }
+}
@@ -1,6 +1,7 @@
 import { supabase } from '../lib/supabase';
-import type { Database } from '../lib/database.types';
-import { triggerWebhooks, WEBHOOK_EVENTS } from './webhookService';
+import type { ClientStatus, Database } from '../lib/database.types';
+import { triggerWebhooks, clientEventData, clientPreviousValues, WEBHOOK_EVENTS } from './webhookService';
+import { getRiskScoringConfig } from './riskRuleService';
 
 type Client = Database['public']['Tables']['clients']['Row'];
 type Meeting = Database['public']['Tables']['meetings']['Row'];
@@ -49,6 +50,7 @@ export async function getClient(params: { id?: string; name?: string }): Promise
       .from('meetings')
       .select('*')
       .eq('client_id', client.id)
+      .eq('status', 'done')
       .order('datetime', { ascending: false })
       .limit(3);
 
@@ -56,6 +58,7 @@ export async function getClient(params: { id?: string; name?: string }): Promise
       .from('tasks')
       .select('*')
       .eq('client_id', client.id)
+      .eq('is_draft', false)
       .in('status', ['pendente', 'em_andamento'])
       .order('due_date', { ascending: true });
 
@@ -64,6 +67,7 @@ export async function getClient(params: { id?: string; name?: string }): Promise
       .select('*')
       .eq('client_id', client.id)
       .eq('owner', 'Cliente')
+      .eq('is_draft', false)
       .in('status', ['pendente', 'em_andamento'])
       .lt('due_date', new Date().toISOString().split('T')[0]);
 
@@ -111,10 +115,11 @@ export async function listClients(filters: ListClientsFilters = {}): Promise<Cli
       .eq('user_id', user.id);
 
     if (filters.risk_level) {
+      const { medium_threshold, high_threshold } = await getRiskScoringConfig(user.id);
       const ranges = {
-        low: [0, 39],
-        medium: [40, 69],
-        high: [70, 100]
+        low: [0, medium_threshold - 1],
+        medium: [medium_threshold, high_threshold - 1],
+        high: [high_threshold, 100]
       };
       const [min, max] = ranges[filters.risk_level];
       query = query.gte('risk_score', min).lte('risk_score', max);
@@ -140,6 +145,7 @@ export async function listClients(filters: ListClientsFilters = {}): Promise<Cli
             .select('*', { count: 'exact', head: true })
             .eq('client_id', client.id)
             .eq('owner', 'Cliente')
+            .eq('is_draft', false)
             .in('status', ['pendente', 'em_andamento'])
             .lt('due_date', new Date().toISOString().split('T')[0]);
 
@@ -184,13 +190,7 @@ export async function createClient(data: {
     if (error) throw error;
 
     await triggerWebhooks(WEBHOOK_EVENTS.CLIENT_CREATED, {
-      id: client.id,
-      name: client.name,
-      email: client.email,
-      phone: client.phone,
-      status: client.status,
-      risk_score: client.risk_score,
-      revenue_bracket: client.revenue_bracket,
+      ...clientEventData(client),
       created_at: client.created_at,
     });
 
@@ -207,7 +207,7 @@ export async function updateClient(
     name?: string;
     email?: string;
     phone?: string;
-    status?: string;
+    status?: ClientStatus;
     revenue_bracket?: string;
     risk_score?: number;
     last_activity_date?: string;
@@ -236,28 +236,13 @@ export async function updateClient(
 
     if (error) throw error;
 
-    const previousValues = previousClient ? {
-      name: previousClient.name,
-      email: previousClient.email,
-      phone: previousClient.phone,
-      status: previousClient.status,
-      risk_score: previousClient.risk_score,
-      revenue_bracket: previousClient.revenue_bracket,
-    } : undefined;
-
     await triggerWebhooks(
       WEBHOOK_EVENTS.CLIENT_UPDATED,
       {
-        id: client.id,
-        name: client.name,
-        email: client.email,
-        phone: client.phone,
-        status: client.status,
-        risk_score: client.risk_score,
-        revenue_bracket: client.revenue_bracket,
+        ...clientEventData(client),
         updated_at: client.updated_at,
       },
-      previousValues
+      previousClient ? clientPreviousValues(previousClient) : undefined
     );
 
     if (previousClient && previousClient.status !== client.status) {
@@ -267,9 +252,9 @@ export async function updateClient(
           id: client.id,
           name: client.name,
           status: client.status,
-          previous_status: previousClient.status,
           changed_at: new Date().toISOString(),
-        }
+        },
+        { status: previousClient.status }
       );
     }
 
@@ -304,13 +289,7 @@ export async function deleteClient(clientId: string): Promise<void> {
 
     if (client) {
       await triggerWebhooks(WEBHOOK_EVENTS.CLIENT_DELETED, {
-        id: client.id,
-        name: client.name,
-        email: client.email,
-        phone: client.phone,
-        status: client.status,
-        risk_score: client.risk_score,
-        revenue_bracket: client.revenue_bracket,
+        ...clientEventData(client),
         deleted_at: new Date().toISOString(),
       });
     }
@@ -0,0 +1,393 @@
+import { supabase } from '../lib/supabase';
+import type { Database, CustomFieldType } from '../lib/database.types';
+import {
+  isEmptyCustomFieldValue,
+  parseCustomFieldNumber,
+  parseCustomFieldValue,
+  type CustomFieldValue,
+} from '../../supabase/functions/_shared/customFields';
+
+export type CustomFieldDefinition = Database['public']['Tables']['custom_field_definitions']['Row'];
+export type { CustomFieldType, CustomFieldValue };
+// Value parsing is shared with the lead-intake edge function, which types mapped custom fields too
+export { parseCustomFieldValue };
+
+export type CustomFieldValues = Record<string, unknown>;
+
+export interface CustomFieldInput {
+  label: string;
+  key?: string;
+  field_type: CustomFieldType;
+  options?: string[];
+  required?: boolean;
+  min_value?: number | null;
+  max_value?: number | null;
+  max_length?: number | null;
+}
+
+// Filters on a single field. `value` is the text searched, the option chosen,
+// 'true'/'false' for booleans or the lower bound of a range; `valueTo` is the
+// upper bound for number, currency and date fields. Empty means "is filled".
+export interface CustomFieldFilter {
+  key: string;
+  value: string;
+  valueTo: string;
+}
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Texto',
+  number: 'Número',
+  currency: 'Moeda (R$)',
+  date: 'Data',
+  select: 'Seleção',
+  multi_select: 'Seleção múltipla',
+  boolean: 'Sim/Não',
+};
+
+const MAX_CUSTOM_FIELDS = 30;
+const KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+export function customFieldKeyFromLabel(label: string): string {
+  const key = label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 40);
+  return /^[a-z]/.test(key) ? key : `campo_${key}`.slice(0, 40);
+}
+
+function hasOptions(type: CustomFieldType): boolean {
+  return type === 'select' || type === 'multi_select';
+}
+
+function isNumeric(type: CustomFieldType): boolean {
+  return type === 'number' || type === 'currency';
+}
+
+function validateDefinitionInput(input: CustomFieldInput): void {
+  if (!input.label.trim()) {
+    throw new Error('Informe o nome do campo');
+  }
+
+  if (input.key !== undefined && !KEY_PATTERN.test(input.key)) {
+    throw new Error('Chave deve começar com letra e conter apenas letras minúsculas, números e underscores (até 40)');
+  }
+
+  const options = (input.options || []).map(option => option.trim()).filter(Boolean);
+  if (hasOptions(input.field_type) && options.length === 0) {
+    throw new Error('Campos de seleção precisam de ao menos uma opção');
+  }
+  if (new Set(options).size !== options.length) {
+    throw new Error('As opções não podem se repetir');
+  }
+
+  if (input.min_value != null && input.max_value != null && input.min_value > input.max_value) {
+    throw new Error('O valor mínimo não pode ser maior que o máximo');
+  }
+}
+
+// Only the attributes that apply to the field type are stored
+function definitionColumns(input: CustomFieldInput) {
+  return {
+    label: input.label.trim(),
+    field_type: input.field_type,
+    options: hasOptions(input.field_type)
+      ? (input.options || []).map(option => option.trim()).filter(Boolean)
+      : [],
+    required: input.required ?? false,
+    min_value: isNumeric(input.field_type) ? input.min_value ?? null : null,
+    max_value: isNumeric(input.field_type) ? input.max_value ?? null : null,
+    max_length: input.field_type === 'text' ? input.max_length ?? null : null,
+  };
+}
+
+export async function getCustomFieldDefinitions(includeInactive: boolean = false): Promise<CustomFieldDefinition[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    let query = supabase
+      .from('custom_field_definitions')
+      .select('*')
+      .eq('user_id', user.id);
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error in getCustomFieldDefinitions:', error);
+    throw error;
+  }
+}
+
+export async function createCustomFieldDefinition(input: CustomFieldInput): Promise<CustomFieldDefinition> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const key = input.key || customFieldKeyFromLabel(input.label);
+    validateDefinitionInput({ ...input, key });
+
+    const { count } = await supabase
+      .from('custom_field_definitions')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', user.id);
+
+    if ((count || 0) >= MAX_CUSTOM_FIELDS) {
+      throw new Error(`Limite de ${MAX_CUSTOM_FIELDS} campos personalizados atingido`);
+    }
+
+    const { data: existing } = await supabase
+      .from('custom_field_definitions')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('key', key)
+      .maybeSingle();
+
+    if (existing) {
+      throw new Error('Já existe um campo com esta chave');
+    }
+
+    const { data, error } = await supabase
+      .from('custom_field_definitions')
+      .insert({
+        user_id: user.id,
+        key,
+        ...definitionColumns(input),
+        position: count || 0,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error in createCustomFieldDefinition:', error);
+    throw error;
+  }
+}
+
+// The key cannot change: stored values are looked up by it
+export async function updateCustomFieldDefinition(
+  id: string,
+  input: Omit<CustomFieldInput, 'key'>
+): Promise<CustomFieldDefinition> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    validateDefinitionInput(input);
+
+    const { data, error } = await supabase
+      .from('custom_field_definitions')
+      .update(definitionColumns(input))
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error in updateCustomFieldDefinition:', error);
+    throw error;
+  }
+}
+
+export async function setCustomFieldDefinitionActive(id: string, isActive: boolean): Promise<void> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { error } = await supabase
+      .from('custom_field_definitions')
+      .update({ is_active: isActive })
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error in setCustomFieldDefinitionActive:', error);
+    throw error;
+  }
+}
+
+export async function reorderCustomFieldDefinitions(ids: string[]): Promise<void> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    for (let position = 0; position < ids.length; position++) {
+      const { error } = await supabase
+        .from('custom_field_definitions')
+        .update({ position })
+        .eq('id', ids[position])
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    }
+  } catch (error) {
+    console.error('Error in reorderCustomFieldDefinitions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Validates every active field and returns the typed custom_fields object to save.
+ * Keys without a definition (free-form or imported data) are kept untouched.
+ */
+export function validateCustomFields(
+  definitions: CustomFieldDefinition[],
+  values: CustomFieldValues
+): { values: CustomFieldValues; errors: Record<string, string> } {
+  const result: CustomFieldValues = { ...values };
+  const errors: Record<string, string> = {};
+
+  definitions.filter(definition => definition.is_active).forEach(definition => {
+    const { value, error } = parseCustomFieldValue(definition, values[definition.key]);
+    if (error) {
+      errors[definition.key] = error;
+    }
+    if (value === null) {
+      delete result[definition.key];
+    } else {
+      result[definition.key] = value;
+    }
+  });
+
+  return { values: result, errors };
+}
+
+export function formatCustomFieldValue(definition: CustomFieldDefinition, raw: unknown): string {
+  if (isEmptyCustomFieldValue(raw)) return '';
+
+  const { value } = parseCustomFieldValue(definition, raw);
+  if (value === null) return String(raw);
+
+  switch (definition.field_type) {
+    case 'currency':
+      return (value as number).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+    case 'number':
+      return (value as number).toLocaleString('pt-BR');
+    case 'date':
+      return new Date(`${value}T00:00:00`).toLocaleDateString('pt-BR');
+    case 'multi_select':
+      return (value as string[]).join(', ');
+    case 'boolean':
+      return value ? 'Sim' : 'Não';
+    default:
+      return String(value);
+  }
+}
+
+export interface DescribedCustomField {
+  key: string;
+  label: string;
+  type: CustomFieldType | null;
+  value: unknown;
+  formatted: string;
+}
+
+/**
+ * Lists the filled fields of a client with their labels, defined fields first in
+ * their configured order, followed by any undefined keys as plain text.
+ */
+export function describeCustomFields(
+  definitions: CustomFieldDefinition[],
+  values: CustomFieldValues | null
+): DescribedCustomField[] {
+  if (!values) return [];
+
+  const described: DescribedCustomField[] = definitions
+    .filter(definition => !isEmptyCustomFieldValue(values[definition.key]))
+    .map(definition => ({
+      key: definition.key,
+      label: definition.label,
+      type: definition.field_type,
+      value: values[definition.key],
+      formatted: formatCustomFieldValue(definition, values[definition.key]),
+    }));
+
+  const definedKeys = new Set(definitions.map(definition => definition.key));
+  Object.entries(values)
+    .filter(([key, value]) => !definedKeys.has(key) && !isEmptyCustomFieldValue(value))
+    .forEach(([key, value]) => {
+      described.push({
+        key,
+        label: key,
+        type: null,
+        value,
+        formatted: Array.isArray(value) ? value.join(', ') : String(value),
+      });
+    });
+
+  return described;
+}
+
+export function matchesCustomFieldFilter(
+  definition: CustomFieldDefinition,
+  raw: unknown,
+  filter: CustomFieldFilter
+): boolean {
+  const { value } = parseCustomFieldValue({ ...definition, required: false }, raw);
+  if (value === null) return false;
+
+  const wanted = filter.value.trim();
+  const wantedTo = filter.valueTo.trim();
+  if (!wanted && !wantedTo) return true;
+
+  switch (definition.field_type) {
+    case 'text':
+      return String(value).toLowerCase().includes(wanted.toLowerCase());
+    case 'select':
+      return value === wanted;
+    case 'multi_select':
+      return (value as string[]).includes(wanted);
+    case 'boolean':
+      return String(value) === wanted;
+    case 'number':
+    case 'currency': {
+      const min = parseCustomFieldNumber(wanted);
+      const max = parseCustomFieldNumber(wantedTo);
+      return (min === null || (value as number) >= min) && (max === null || (value as number) <= max);
+    }
+    case 'date':
+      return (!wanted || (value as string) >= wanted) && (!wantedTo || (value as string) <= wantedTo);
+  }
+}
+
+export async function getClientCustomFieldValues(clientIds: string[]): Promise<Map<string, CustomFieldValues>> {
+  try {
+    if (clientIds.length === 0) return new Map();
+
+    const { data, error } = await supabase
+      .from('client_metadata')
+      .select('client_id, custom_fields')
+      .in('client_id', clientIds);
+
+    if (error) throw error;
+    return new Map((data || []).map(row => [row.client_id, (row.custom_fields || {}) as CustomFieldValues]));
+  } catch (error) {
+    console.error('Error in getClientCustomFieldValues:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,119 @@
+import { supabase } from '../lib/supabase';
+import type { Database, MeetingType } from '../lib/database.types';
+
+type Decision = Database['public']['Tables']['decisions']['Row'];
+
+export interface DecisionWithMeeting extends Decision {
+  meeting: {
+    id: string;
+    client_id: string;
+    type: MeetingType;
+    datetime: string;
+  };
+}
+
+function normalizeDecision(description: string): string {
+  return description.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export async function replaceMeetingDecisions(meetingId: string, descriptions: string[]): Promise<Decision[]> {
+  try {
+    const { data: existing, error: existingError } = await supabase
+      .from('decisions')
+      .select('*')
+      .eq('meeting_id', meetingId);
+
+    if (existingError) throw existingError;
+
+    const wantedKeys = new Set(descriptions.map(normalizeDecision).filter(Boolean));
+
+    // Decisions that match the new summary keep their row, so their implementation state
+    // survives; implemented ones are kept even when the new summary no longer mentions them
+    const kept = (existing || []).filter(d => d.is_implemented || wantedKeys.has(normalizeDecision(d.description)));
+    const keptKeys = new Set(kept.map(d => normalizeDecision(d.description)));
+    const removedIds = (existing || []).filter(d => !kept.includes(d)).map(d => d.id);
+
+    if (removedIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('decisions')
+        .delete()
+        .in('id', removedIds);
+
+      if (deleteError) throw deleteError;
+    }
+
+    const seen = new Set<string>();
+    const toInsert = descriptions
+      .map(description => description.trim())
+      .filter(description => {
+        const key = normalizeDecision(description);
+        if (!key || keptKeys.has(key) || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .map(description => ({ meeting_id: meetingId, description }));
+
+    if (toInsert.length === 0) return kept;
+
+    const { data, error } = await supabase
+      .from('decisions')
+      .insert(toInsert)
+      .select();
+
+    if (error) throw error;
+    return [...kept, ...(data || [])];
+  } catch (error) {
+    console.error('Error in replaceMeetingDecisions:', error);
+    throw error;
+  }
+}
+
+export async function getDecisionsByClient(
+  clientId: string,
+  options: { onlyPending?: boolean } = {}
+): Promise<DecisionWithMeeting[]> {
+  try {
+    let query = supabase
+      .from('decisions')
+      .select(`
+        *,
+        meeting:meetings!inner(id, client_id, type, datetime)
+      `)
+      .eq('meeting.client_id', clientId);
+
+    if (options.onlyPending) {
+      query = query.eq('is_implemented', false);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return ((data || []) as DecisionWithMeeting[]).sort(
+      (a, b) => new Date(b.meeting.datetime).getTime() - new Date(a.meeting.datetime).getTime()
+    );
+  } catch (error) {
+    console.error('Error in getDecisionsByClient:', error);
+    throw error;
+  }
+}
+
+export async function setDecisionImplemented(decisionId: string, isImplemented: boolean): Promise<Decision> {
+  try {
+    const { data, error } = await supabase
+      .from('decisions')
+      .update({
+        is_implemented: isImplemented,
+        implemented_at: isImplemented ? new Date().toISOString() : null,
+      })
+      .eq('id', decisionId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error in setDecisionImplemented:', error);
+    throw error;
+  }
+}
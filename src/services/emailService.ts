@@ -3,17 +3,97 @@ import { getClient } from './clientService';
 import { getMeetingsByClient } from './meetingService';
 import { getTasksByClient } from './taskService';
 import { triggerWebhooks, WEBHOOK_EVENTS } from './webhookService';
+import { canUseCredits, consumeCredit } from './subscriptionService';
+import { getUserProfile } from './authService';
+import { getLLMProvider, completeValidated, type LLMProvider } from '../lib/llm';
+import { s } from '../lib/schema';
+
+const DEFAULT_EMAIL_INTRO = 'Seguem os pontos principais da nossa conversa e os próximos passos para continuarmos avançando juntos.';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
 
 export interface EmailDraft {
   subject: string;
   html_body: string;
 }
 
+const EMAIL_INTRO_SCHEMA = s.object({
+  intro: s.string({ min: 1, max: 600 }),
+});
+
+// The intro is the only AI-written part of the draft, so it is what costs a credit.
+// Without credits, or when the model fails, the draft keeps the default text.
+async function writeEmailIntro(params: {
+  userId: string;
+  clientId: string;
+  meetingId: string | null;
+  clientName: string;
+  summaryLines: string[];
+}): Promise<string> {
+  if (params.summaryLines.length === 0) return DEFAULT_EMAIL_INTRO;
+
+  const creditCheck = await canUseCredits(params.userId);
+  if (!creditCheck.allowed) {
+    console.warn('Email intro not personalized:', creditCheck.reason);
+    return DEFAULT_EMAIL_INTRO;
+  }
+
+  let provider: LLMProvider;
+  let intro: string;
+
+  try {
+    const [llmProvider, profile] = await Promise.all([getLLMProvider(), getUserProfile(params.userId)]);
+    provider = llmProvider;
+    const persona = profile?.full_name
+      ? `Você é ${profile.full_name}, da consultoria financeira W1.`
+      : 'Você escreve em nome de um consultor da consultoria financeira W1.';
+
+    const { data } = await completeValidated(provider, {
+      messages: [
+        {
+          role: 'system',
+          content: `${persona} Escreva em português, em tom cordial e objetivo, sem saudação nem assinatura.`
+        },
+        {
+          role: 'user',
+          content: `Escreva um único parágrafo curto (até 2 frases) abrindo um e-mail de follow-up para ${params.clientName}, com base nestes pontos da reunião:\n${params.summaryLines.map(line => `- ${line}`).join('\n')}\n\nResponda APENAS em JSON válido: { "intro": "parágrafo" }`
+        }
+      ],
+      temperature: 0.5,
+      maxTokens: 300,
+    }, EMAIL_INTRO_SCHEMA, { maxAttempts: 2 });
+
+    intro = data.intro;
+  } catch (error) {
+    console.warn('Could not personalize email intro, using default text:', error);
+    return DEFAULT_EMAIL_INTRO;
+  }
+
+  await consumeCredit(params.userId, 'email_intro', {
+    client_id: params.clientId,
+    meeting_id: params.meetingId,
+    provider: provider.id,
+    model: provider.model,
+  });
+
+  return intro;
+}
+
 export async function draftEmail(params: {
   client_id?: string;
   meeting_id?: string;
 }): Promise<EmailDraft> {
   try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
     let clientId: string;
     let meetingData = null;
 
@@ -29,7 +109,8 @@ export async function draftEmail(params: {
       meetingData = meeting;
     } else if (params.client_id) {
       clientId = params.client_id;
-      const meetings = await getMeetingsByClient(clientId);
+      // Latest held meeting: planned follow-ups have no summary yet
+      const meetings = await getMeetingsByClient(clientId, { status: 'done' });
       meetingData = meetings[0] || null;
     } else {
       throw new Error('Either client_id or meeting_id must be provided');
@@ -51,9 +132,10 @@ export async function draftEmail(params: {
 
     let summaryBullets = '';
     let decisionsChecklist = '';
+    let summaryLines: string[] = [];
 
     if (meetingData && meetingData.summary) {
-      const summaryLines = meetingData.summary.split('\n').filter((l: string) => l.trim());
+      summaryLines = meetingData.summary.split('\n').filter((l: string) => l.trim());
       summaryBullets = summaryLines.map((line: string) => `<li>${line}</li>`).join('');
     } else {
       summaryBullets = '<li>Revisão da situação financeira atual</li><li>Discussão sobre objetivos de curto e médio prazo</li>';
@@ -98,6 +180,14 @@ export async function draftEmail(params: {
       `;
     }
 
+    const intro = escapeHtml(await writeEmailIntro({
+      userId: user.id,
+      clientId,
+      meetingId: meetingData?.id || null,
+      clientName: client.name,
+      summaryLines,
+    }));
+
     const subject = `W1 | Resumo e próximos passos — ${client.name} (${formatDate(today)})`;
 
     const htmlBody = `
@@ -111,7 +201,7 @@ export async function draftEmail(params: {
   <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px;">
     <h2 style="color: #2c3e50; margin-top: 0;">Olá, ${client.name.split(' ')[0]}!</h2>
 
-    <p>Seguem os pontos principais da nossa conversa e os próximos passos para continuarmos avançando juntos.</p>
+    <p>${intro}</p>
 
     <h3 style="color: #2c3e50; border-bottom: 2px solid #3498db; padding-bottom: 8px;">Resumo</h3>
     <ul style="padding-left: 20px;">
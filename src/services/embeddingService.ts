@@ -0,0 +1,124 @@
+import { supabase } from '../lib/supabase';
+import { getLLMProvider } from '../lib/llm';
+import { chunkForEmbedding } from './transcriptProcessor';
+
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+export interface MeetingSearchResult {
+  id: string;
+  meeting_id: string;
+  client_id: string;
+  client_name: string;
+  meeting_type: string;
+  meeting_datetime: string;
+  chunk_index: number;
+  content: string;
+  snippet: string;
+  similarity: number;
+}
+
+// Chunks are stored as vector(1536), so only providers that can produce vectors of
+// that size can index or search meetings
+export async function createEmbeddings(texts: string[]): Promise<{ embeddings: number[][]; model: string }> {
+  const provider = await getLLMProvider();
+  if (!provider.embed) {
+    throw new Error(
+      `O provedor ${provider.label} não gera embeddings para a busca semântica. ` +
+      'Selecione OpenAI em Configurações para indexar e buscar reuniões.'
+    );
+  }
+
+  const embeddings: number[][] = [];
+  let model = '';
+
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const result = await provider.embed({ input: batch, dimensions: EMBEDDING_DIMENSIONS });
+
+    if (result.embeddings.some(embedding => embedding.length !== EMBEDDING_DIMENSIONS)) {
+      throw new Error(`O modelo ${result.model} não gera embeddings com ${EMBEDDING_DIMENSIONS} dimensões.`);
+    }
+
+    embeddings.push(...result.embeddings);
+    model = result.model;
+  }
+
+  return { embeddings, model };
+}
+
+export async function indexMeetingEmbeddings(params: {
+  meeting_id: string;
+  text: string;
+  header: string;
+}): Promise<number> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const chunks = chunkForEmbedding(params.text, { header: params.header });
+  if (chunks.length === 0) return 0;
+
+  const { embeddings, model } = await createEmbeddings(chunks);
+
+  // The old chunks are only removed together with the insert of the new ones
+  const { data, error } = await supabase.rpc('replace_meeting_chunks', {
+    p_meeting_id: params.meeting_id,
+    p_embedding_model: model,
+    p_chunks: chunks.map((content, index) => ({ content, embedding: embeddings[index] })),
+  });
+
+  if (error) throw error;
+  return data ?? chunks.length;
+}
+
+export function buildSnippet(content: string, query: string, maxLength: number = 280): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  if (text.length <= maxLength) return text;
+
+  const lowerText = text.toLowerCase();
+  const terms = query
+    .toLowerCase()
+    .split(/[^a-zà-ú0-9]+/)
+    .filter(term => term.length > 3);
+
+  const positions = terms
+    .map(term => lowerText.indexOf(term))
+    .filter(position => position >= 0);
+
+  const anchor = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, anchor - Math.floor(maxLength / 3));
+  const end = Math.min(text.length, start + maxLength);
+
+  return `${start > 0 ? '…' : ''}${text.substring(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+export async function searchMeetings(
+  query: string,
+  options: { clientId?: string | null; limit?: number; threshold?: number } = {}
+): Promise<MeetingSearchResult[]> {
+  try {
+    if (!query.trim()) return [];
+
+    const { embeddings } = await createEmbeddings([query.trim()]);
+
+    const { data, error } = await supabase.rpc('match_meeting_chunks', {
+      query_embedding: embeddings[0],
+      match_count: options.limit ?? 15,
+      match_threshold: options.threshold ?? 0.2,
+      filter_client_id: options.clientId ?? null,
+    });
+
+    if (error) throw error;
+
+    return (data || []).map(result => ({
+      ...result,
+      snippet: buildSnippet(result.content, query),
+    }));
+  } catch (error) {
+    console.error('Error in searchMeetings:', error);
+    throw error;
+  }
+}
@@ -2,6 +2,7 @@ import { supabase } from '../lib/supabase';
 import { getClient } from './clientService';
 import { getMeetingsByClient } from './meetingService';
 import { getTasksByClient } from './taskService';
+import { getCustomFieldDefinitions, describeCustomFields, type DescribedCustomField } from './customFieldService';
 import type { Database } from '../lib/database.types';
 
 type ClientMetadata = Database['public']['Tables']['client_metadata']['Row'];
@@ -22,6 +23,8 @@ export interface CompleteClientExport {
     updated_at: string;
   };
   metadata: ClientMetadata | null;
+  // custom_fields from the metadata with their labels and formatted values
+  custom_fields: DescribedCustomField[];
   meetings: Array<{
     id: string;
     type: string;
@@ -83,7 +86,9 @@ export async function exportCompleteClientData(clientId: string): Promise<Comple
       .eq('client_id', clientId)
       .maybeSingle();
 
-    const meetings = await getMeetingsByClient(clientId);
+    const fieldDefinitions = await getCustomFieldDefinitions(true);
+
+    const meetings = await getMeetingsByClient(clientId, { status: 'done' });
 
     const tasks = await getTasksByClient(clientId);
 
@@ -123,6 +128,7 @@ export async function exportCompleteClientData(clientId: string): Promise<Comple
         updated_at: client.updated_at,
       },
       metadata: metadata || null,
+      custom_fields: describeCustomFields(fieldDefinitions, metadata?.custom_fields || null),
       meetings: meetings.map(m => ({
         id: m.id,
         type: m.type,
@@ -162,7 +168,7 @@ export async function exportCompleteClientData(clientId: string): Promise<Comple
       export_metadata: {
         exported_at: new Date().toISOString(),
         exported_by: user.id,
-        version: '1.0.0',
+        version: '1.1.0',
       },
     };
   } catch (error) {
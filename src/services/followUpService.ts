@@ -0,0 +1,254 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { triggerWebhooks, meetingEventData, WEBHOOK_EVENTS } from './webhookService';
+import { selectAllPages } from '../../supabase/functions/_shared/pagination';
+
+type Meeting = Database['public']['Tables']['meetings']['Row'];
+type PlannedMeetingRow = Pick<Meeting, 'id' | 'client_id' | 'type' | 'datetime'> & {
+  client: { name: string; user_id: string };
+};
+type CadenceMeetingRow = Pick<Meeting, 'id' | 'client_id' | 'type' | 'datetime' | 'status'>;
+export type FollowUpCadence = Database['public']['Tables']['follow_up_cadences']['Row'];
+
+export interface FollowUpCadenceInput {
+  meeting_type: string;
+  interval_days: number;
+  start_after: string | null;
+  enabled: boolean;
+}
+
+export type OverdueReason = 'not_recorded' | 'not_scheduled';
+
+export interface OverdueFollowUp {
+  client_id: string;
+  client_name: string;
+  meeting_type: string;
+  due_date: string;
+  days_overdue: number;
+  // Planned meeting whose date passed without being recorded; null when the cadence has nothing scheduled
+  meeting_id: string | null;
+  reason: OverdueReason;
+}
+
+export const DEFAULT_FOLLOW_UP_CADENCE: FollowUpCadenceInput = {
+  meeting_type: 'FUP',
+  interval_days: 30,
+  start_after: 'C4',
+  enabled: true,
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+type CadenceMeeting = Pick<Meeting, 'id' | 'type' | 'datetime' | 'status'>;
+
+// When the next cadence meeting is due: the last held meeting of the cadence
+// (or of the stage it starts after) plus the interval. Null while the cadence has not started.
+function getCadenceDueDate(cadence: FollowUpCadence, meetings: CadenceMeeting[]): Date | null {
+  const held = meetings.filter(meeting => meeting.status === 'done');
+
+  if (cadence.start_after && !held.some(meeting => meeting.type === cadence.start_after)) {
+    return null;
+  }
+
+  const anchors = cadence.start_after
+    ? held.filter(meeting => meeting.type === cadence.start_after || meeting.type === cadence.meeting_type)
+    : held;
+
+  if (anchors.length === 0) return null;
+
+  const last = anchors.reduce((latest, meeting) => (meeting.datetime > latest.datetime ? meeting : latest));
+  return new Date(new Date(last.datetime).getTime() + cadence.interval_days * DAY_MS);
+}
+
+export async function getFollowUpCadence(clientId: string): Promise<FollowUpCadence | null> {
+  try {
+    const { data, error } = await supabase
+      .from('follow_up_cadences')
+      .select('*')
+      .eq('client_id', clientId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error in getFollowUpCadence:', error);
+    throw error;
+  }
+}
+
+export async function saveFollowUpCadence(clientId: string, input: FollowUpCadenceInput): Promise<FollowUpCadence> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!Number.isInteger(input.interval_days) || input.interval_days < 1 || input.interval_days > 365) {
+      throw new Error('O intervalo deve ser um número inteiro de dias entre 1 e 365');
+    }
+
+    const { data, error } = await supabase
+      .from('follow_up_cadences')
+      .upsert(
+        {
+          client_id: clientId,
+          user_id: user.id,
+          meeting_type: input.meeting_type,
+          interval_days: input.interval_days,
+          start_after: input.start_after,
+          enabled: input.enabled,
+        },
+        { onConflict: 'client_id' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await scheduleNextFollowUp(clientId);
+    return data;
+  } catch (error) {
+    console.error('Error in saveFollowUpCadence:', error);
+    throw error;
+  }
+}
+
+export async function deleteFollowUpCadence(clientId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('follow_up_cadences')
+      .delete()
+      .eq('client_id', clientId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error in deleteFollowUpCadence:', error);
+    throw error;
+  }
+}
+
+// Creates the next planned meeting of the client's cadence unless one is already
+// on the calendar. Called whenever a meeting is held or the cadence changes.
+export async function scheduleNextFollowUp(clientId: string): Promise<Meeting | null> {
+  try {
+    const cadence = await getFollowUpCadence(clientId);
+    if (!cadence || !cadence.enabled) return null;
+
+    const { data: meetings, error } = await supabase
+      .from('meetings')
+      .select('id, type, datetime, status')
+      .eq('client_id', clientId);
+
+    if (error) throw error;
+
+    const alreadyPlanned = (meetings || []).some(meeting =>
+      meeting.status === 'planned' && meeting.type === cadence.meeting_type
+    );
+    if (alreadyPlanned) return null;
+
+    const dueDate = getCadenceDueDate(cadence, meetings || []);
+    if (!dueDate) return null;
+
+    // A cadence configured late would land in the past; book it for tomorrow instead
+    const tomorrow = new Date(Date.now() + DAY_MS);
+    const datetime = dueDate > tomorrow ? dueDate : new Date(
+      tomorrow.getFullYear(), tomorrow.getMonth(), tomorrow.getDate(), dueDate.getHours(), dueDate.getMinutes()
+    );
+
+    const { data: meeting, error: insertError } = await supabase
+      .from('meetings')
+      .insert({
+        client_id: clientId,
+        type: cadence.meeting_type,
+        datetime: datetime.toISOString(),
+        status: 'planned',
+        follow_up_cadence_id: cadence.id,
+      })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+
+    await triggerWebhooks(WEBHOOK_EVENTS.MEETING_CREATED, meetingEventData(meeting));
+
+    return meeting;
+  } catch (error) {
+    console.error('Error in scheduleNextFollowUp:', error);
+    throw error;
+  }
+}
+
+export async function getOverdueFollowUps(): Promise<OverdueFollowUp[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const now = new Date();
+
+    const [plannedMeetings, cadencesResult] = await Promise.all([
+      selectAllPages<PlannedMeetingRow>(() => supabase
+        .from('meetings')
+        .select('id, client_id, type, datetime, client:clients!inner(name, user_id)')
+        .eq('client.user_id', user.id)
+        .eq('status', 'planned')
+        .lt('datetime', now.toISOString())
+        .order('id')),
+      supabase
+        .from('follow_up_cadences')
+        .select('*, client:clients(name)')
+        .eq('user_id', user.id)
+        .eq('enabled', true),
+    ]);
+
+    if (cadencesResult.error) throw cadencesResult.error;
+
+    const daysSince = (date: Date) => Math.floor((now.getTime() - date.getTime()) / DAY_MS);
+
+    const overdue: OverdueFollowUp[] = plannedMeetings.map(meeting => ({
+      client_id: meeting.client_id,
+      client_name: meeting.client.name,
+      meeting_type: meeting.type,
+      due_date: meeting.datetime,
+      days_overdue: daysSince(new Date(meeting.datetime)),
+      meeting_id: meeting.id,
+      reason: 'not_recorded' as const,
+    }));
+
+    const cadences = (cadencesResult.data || []) as Array<FollowUpCadence & { client: { name: string } }>;
+    if (cadences.length > 0) {
+      const meetings = await selectAllPages<CadenceMeetingRow>(() => supabase
+        .from('meetings')
+        .select('id, client_id, type, datetime, status')
+        .in('client_id', cadences.map(cadence => cadence.client_id))
+        .order('id'));
+
+      cadences.forEach(cadence => {
+        const clientMeetings = meetings.filter(meeting => meeting.client_id === cadence.client_id);
+        const hasPlanned = clientMeetings.some(meeting =>
+          meeting.status === 'planned' && meeting.type === cadence.meeting_type
+        );
+        if (hasPlanned) return;
+
+        const dueDate = getCadenceDueDate(cadence, clientMeetings);
+        if (!dueDate || dueDate >= now) return;
+
+        overdue.push({
+          client_id: cadence.client_id,
+          client_name: cadence.client.name,
+          meeting_type: cadence.meeting_type,
+          due_date: dueDate.toISOString(),
+          days_overdue: daysSince(dueDate),
+          meeting_id: null,
+          reason: 'not_scheduled',
+        });
+      });
+    }
+
+    return overdue.sort((a, b) => b.days_overdue - a.days_overdue);
+  } catch (error) {
+    console.error('Error in getOverdueFollowUps:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,196 @@
+import { supabase } from '../lib/supabase';
+import type { MeetingStatus } from '../lib/database.types';
+import { inBatches, selectAllPages } from '../../supabase/functions/_shared/pagination';
+
+export type W1StageCode = 'C1' | 'C2' | 'C3' | 'C4' | 'FUP';
+
+export interface W1Stage {
+  code: W1StageCode;
+  label: string;
+  goal: string;
+  // Days expected between the previous step and this one
+  expected_days: number;
+}
+
+// The W1 canon as data: the four pillar meetings in order, then recurring follow-ups
+export const W1_STAGES: W1Stage[] = [
+  { code: 'C1', label: 'Análise', goal: 'Mapear situação, dores e objetivos', expected_days: 14 },
+  { code: 'C2', label: 'Proteção', goal: 'Coberturas e riscos', expected_days: 14 },
+  { code: 'C3', label: 'Investimentos', goal: 'Alocação e estratégia', expected_days: 21 },
+  { code: 'C4', label: 'Consolidação', goal: 'Revisar tudo e montar o roadmap de 90 dias', expected_days: 30 },
+  { code: 'FUP', label: 'Follow-up', goal: 'Checagem de progresso', expected_days: 30 },
+];
+
+const PILLAR_CODES: W1StageCode[] = ['C1', 'C2', 'C3', 'C4'];
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export type JourneyStepStatus = 'done' | 'next' | 'pending';
+
+export type JourneyStatus = 'not_started' | 'on_track' | 'scheduled' | 'stuck' | 'maintenance';
+
+export const JOURNEY_STATUS_LABELS: Record<JourneyStatus, string> = {
+  not_started: 'Não iniciada',
+  on_track: 'No prazo',
+  scheduled: 'Agendada',
+  stuck: 'Parada',
+  maintenance: 'Acompanhamento',
+};
+
+export interface JourneyStep {
+  stage: W1Stage;
+  status: JourneyStepStatus;
+  completed_at: string | null;
+  meeting_count: number;
+}
+
+export interface ClientJourney {
+  client_id: string;
+  steps: JourneyStep[];
+  // Last pillar completed; null before C1
+  current_stage: W1StageCode | null;
+  next_stage: W1StageCode;
+  next_meeting_at: string | null;
+  // Days since the last W1 meeting (or since the client was created, before C1)
+  days_in_stage: number;
+  expected_days: number;
+  status: JourneyStatus;
+  last_fup_at: string | null;
+}
+
+export interface JourneyMeeting {
+  type: string;
+  datetime: string;
+  status: MeetingStatus;
+}
+
+export interface JourneyOptions {
+  // Days between follow-ups from the client's cadence, instead of the canon default
+  follow_up_interval_days?: number;
+}
+
+function isW1Stage(type: string): type is W1StageCode {
+  return W1_STAGES.some(stage => stage.code === type);
+}
+
+export function getW1Stage(code: W1StageCode): W1Stage {
+  return W1_STAGES.find(stage => stage.code === code)!;
+}
+
+export function buildClientJourney(
+  client: { id: string; created_at: string },
+  meetings: JourneyMeeting[],
+  now = new Date(),
+  options: JourneyOptions = {}
+): ClientJourney {
+  const held = meetings
+    .filter(meeting => isW1Stage(meeting.type) && meeting.status === 'done')
+    .sort((a, b) => a.datetime.localeCompare(b.datetime));
+  const upcoming = meetings
+    .filter(meeting => isW1Stage(meeting.type) && meeting.status === 'planned' && new Date(meeting.datetime) > now)
+    .sort((a, b) => a.datetime.localeCompare(b.datetime));
+
+  const lastHeld = new Map<W1StageCode, string>();
+  const counts = new Map<W1StageCode, number>();
+  held.forEach(meeting => {
+    const code = meeting.type as W1StageCode;
+    lastHeld.set(code, meeting.datetime);
+    counts.set(code, (counts.get(code) || 0) + 1);
+  });
+
+  // Pillars can be held out of order; the next one is the first still missing
+  const missingPillar = PILLAR_CODES.find(code => !lastHeld.has(code));
+  const nextStage: W1StageCode = missingPillar || 'FUP';
+  const donePillars = PILLAR_CODES.filter(code => lastHeld.has(code));
+  const currentStage = donePillars.length > 0 ? donePillars[donePillars.length - 1] : null;
+
+  const steps: JourneyStep[] = W1_STAGES.map(stage => ({
+    stage,
+    status: stage.code === nextStage ? 'next' : lastHeld.has(stage.code) ? 'done' : 'pending',
+    completed_at: lastHeld.get(stage.code) || null,
+    meeting_count: counts.get(stage.code) || 0,
+  }));
+
+  const lastW1Meeting = held.length > 0 ? held[held.length - 1].datetime : null;
+  const since = lastW1Meeting || client.created_at;
+  const daysInStage = Math.max(0, Math.floor((now.getTime() - new Date(since).getTime()) / DAY_MS));
+  const expectedDays = nextStage === 'FUP' && options.follow_up_interval_days
+    ? options.follow_up_interval_days
+    : getW1Stage(nextStage).expected_days;
+  const nextMeeting = upcoming.find(meeting => meeting.type === nextStage) || null;
+
+  let status: JourneyStatus;
+  if (nextMeeting) {
+    status = 'scheduled';
+  } else if (daysInStage > expectedDays) {
+    status = 'stuck';
+  } else if (!lastW1Meeting) {
+    status = 'not_started';
+  } else {
+    status = missingPillar ? 'on_track' : 'maintenance';
+  }
+
+  return {
+    client_id: client.id,
+    steps,
+    current_stage: currentStage,
+    next_stage: nextStage,
+    next_meeting_at: nextMeeting?.datetime || null,
+    days_in_stage: daysInStage,
+    expected_days: expectedDays,
+    status,
+    last_fup_at: lastHeld.get('FUP') || null,
+  };
+}
+
+export async function getClientJourneys(clients: Array<{ id: string; created_at: string }>): Promise<Map<string, ClientJourney>> {
+  try {
+    const journeys = new Map<string, ClientJourney>();
+    if (clients.length === 0) return journeys;
+
+    const cadenceDays = new Map<string, number>();
+    const meetingsByClient = new Map<string, JourneyMeeting[]>();
+
+    // Client ids go in the URL, so the portfolio is read in batches; a batch's meeting
+    // history can still pass the 1000-row response limit, so it is read in pages
+    for (const clientIds of inBatches(clients.map(client => client.id))) {
+      const [meetings, cadencesResult] = await Promise.all([
+        selectAllPages(() => supabase
+          .from('meetings')
+          .select('client_id, type, datetime, status')
+          .in('client_id', clientIds)
+          .in('type', W1_STAGES.map(stage => stage.code))
+          .order('id')),
+        supabase
+          .from('follow_up_cadences')
+          .select('client_id, interval_days')
+          .in('client_id', clientIds)
+          .eq('enabled', true)
+          .eq('meeting_type', 'FUP'),
+      ]);
+
+      if (cadencesResult.error) throw cadencesResult.error;
+
+      (cadencesResult.data || []).forEach(cadence => cadenceDays.set(cadence.client_id, cadence.interval_days));
+      meetings.forEach(meeting => {
+        meetingsByClient.set(meeting.client_id, [...(meetingsByClient.get(meeting.client_id) || []), meeting]);
+      });
+    }
+
+    const now = new Date();
+    clients.forEach(client => {
+      journeys.set(client.id, buildClientJourney(client, meetingsByClient.get(client.id) || [], now, {
+        follow_up_interval_days: cadenceDays.get(client.id),
+      }));
+    });
+
+    return journeys;
+  } catch (error) {
+    console.error('Error in getClientJourneys:', error);
+    throw error;
+  }
+}
+
+export async function getClientJourney(client: { id: string; created_at: string }): Promise<ClientJourney> {
+  const journeys = await getClientJourneys([client]);
+  return journeys.get(client.id)!;
+}
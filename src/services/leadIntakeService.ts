@@ -0,0 +1,191 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { generateSecretKey } from './webhookService';
+import type { CustomFieldDefinition } from './customFieldService';
+// Signing and field mapping live next to the edge functions so the lead-intake
+// function and the preview in the settings screen map payloads the same way
+import { mapLeadPayload, signLeadRequest, typeLeadCustomFields } from '../../supabase/functions/_shared/leadIntake';
+
+export {
+  LEAD_FIELDS,
+  LEAD_API_KEY_HEADER,
+  LEAD_SIGNATURE_HEADER,
+  LEAD_TIMESTAMP_HEADER,
+  LEAD_SIGNATURE_TOLERANCE_SECONDS,
+} from '../../supabase/functions/_shared/leadIntake';
+export type { LeadField, LeadFieldTarget, MappedLead } from '../../supabase/functions/_shared/leadIntake';
+
+export type LeadIntakeKey = Database['public']['Tables']['lead_intake_keys']['Row'];
+export type LeadIntakeLog = Database['public']['Tables']['lead_intake_logs']['Row'];
+
+export interface LeadIntakeLogEntry extends LeadIntakeLog {
+  client: { id: string; name: string } | null;
+}
+
+export type LeadIntakeKeySettings = Partial<Pick<
+  LeadIntakeKey,
+  'name' | 'enabled' | 'field_mapping' | 'auto_schedule_meeting' | 'meeting_type' | 'meeting_delay_days'
+>>;
+
+export function getLeadIntakeUrl(): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/lead-intake`;
+}
+
+export async function getLeadIntakeKeys(): Promise<LeadIntakeKey[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('lead_intake_keys')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error in getLeadIntakeKeys:', error);
+    throw error;
+  }
+}
+
+export async function createLeadIntakeKey(name: string): Promise<LeadIntakeKey> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!name.trim()) {
+      throw new Error('Key name is required');
+    }
+
+    const { data, error } = await supabase
+      .from('lead_intake_keys')
+      .insert({ user_id: user.id, name: name.trim() })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error in createLeadIntakeKey:', error);
+    throw error;
+  }
+}
+
+export async function updateLeadIntakeKey(id: string, settings: LeadIntakeKeySettings): Promise<LeadIntakeKey> {
+  try {
+    if (settings.meeting_delay_days !== undefined &&
+        (!Number.isInteger(settings.meeting_delay_days) || settings.meeting_delay_days < 0 || settings.meeting_delay_days > 30)) {
+      throw new Error('Meeting delay must be between 0 and 30 business days');
+    }
+
+    const { data, error } = await supabase
+      .from('lead_intake_keys')
+      .update(settings)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error in updateLeadIntakeKey:', error);
+    throw error;
+  }
+}
+
+// Integrations signing with the old secret start failing immediately
+export async function regenerateLeadIntakeSecret(id: string): Promise<string> {
+  try {
+    const signingSecret = generateSecretKey();
+
+    const { error } = await supabase
+      .from('lead_intake_keys')
+      .update({ signing_secret: signingSecret })
+      .eq('id', id);
+
+    if (error) throw error;
+    return signingSecret;
+  } catch (error) {
+    console.error('Error in regenerateLeadIntakeSecret:', error);
+    throw error;
+  }
+}
+
+export async function deleteLeadIntakeKey(id: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('lead_intake_keys')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error in deleteLeadIntakeKey:', error);
+    throw error;
+  }
+}
+
+export async function getLeadIntakeLogs(limit: number = 50): Promise<LeadIntakeLogEntry[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('lead_intake_logs')
+      .select('*, client:clients(id, name)')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as LeadIntakeLogEntry[];
+  } catch (error) {
+    console.error('Error in getLeadIntakeLogs:', error);
+    throw error;
+  }
+}
+
+// Shows what the endpoint would create from a sample payload, without sending it.
+// `customFields` are the consultant's active definitions, which type custom: mappings.
+export function previewLeadPayload(key: LeadIntakeKey, payloadText: string, customFields: CustomFieldDefinition[] = []) {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(payloadText);
+  } catch {
+    return { lead: null, errors: ['Sample payload is not valid JSON'] };
+  }
+
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return { lead: null, errors: ['Sample payload must be a JSON object'] };
+  }
+
+  const mapped = mapLeadPayload(payload as Record<string, unknown>, key.field_mapping || {});
+  if (!mapped.lead) return mapped;
+
+  const typed = typeLeadCustomFields(mapped.lead, customFields);
+  return typed.errors.length > 0 ? { lead: null, errors: typed.errors } : typed;
+}
+
+// A ready-to-run request for the integration docs, signed with the key's current secret
+export async function buildSampleRequest(key: LeadIntakeKey, payloadText: string): Promise<string> {
+  const body = JSON.stringify(JSON.parse(payloadText));
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = await signLeadRequest(key.signing_secret, timestamp, body);
+
+  return [
+    `curl -X POST '${getLeadIntakeUrl()}'`,
+    `  -H 'Content-Type: application/json'`,
+    `  -H 'X-Api-Key: ${key.key_id}'`,
+    `  -H 'X-Lead-Timestamp: ${timestamp}'`,
+    `  -H 'X-Lead-Signature: ${signature}'`,
+    `  -d '${body.replace(/'/g, `'\\''`)}'`,
+  ].join(' \\\n');
+}
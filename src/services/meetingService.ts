@@ -1,12 +1,36 @@
 import { supabase } from '../lib/supabase';
-import { getOpenAI, getModels } from '../lib/openai';
-import type { Database, MeetingType } from '../lib/database.types';
+import { getLLMProvider, completeValidated, type LLMProvider } from '../lib/llm';
+import { s, type Schema } from '../lib/schema';
+import type { Database, MeetingStatus, MeetingType, TranscriptSource } from '../lib/database.types';
 import { getPromptTemplate } from './promptService';
 import { canUseCredits, consumeCredit } from './subscriptionService';
-import { triggerWebhooks, WEBHOOK_EVENTS } from './webhookService';
-import { processTranscript, prepareForEmbedding } from './transcriptProcessor';
+import { triggerWebhooks, meetingEventData, WEBHOOK_EVENTS } from './webhookService';
+import { scheduleNextFollowUp } from './followUpService';
+import {
+  processTranscript,
+  prepareForEmbedding,
+  inferTaskOwner,
+  estimateTokens,
+  chunkByTokens,
+  type TranscriptSegment,
+} from './transcriptProcessor';
+import { getUserProfile } from './authService';
+import { indexMeetingEmbeddings } from './embeddingService';
+import { replaceMeetingDecisions } from './decisionService';
+import { replaceDraftTasks } from './taskService';
+import { getCustomFieldDefinitions, describeCustomFields } from './customFieldService';
+import {
+  createSummaryVersion,
+  getSummaryVersion,
+  markSummaryVersionCurrent,
+  type SuggestedTask,
+  type SummaryVersion,
+} from './summaryVersionService';
 
 type Meeting = Database['public']['Tables']['meetings']['Row'];
+type Client = Database['public']['Tables']['clients']['Row'];
+
+export type MeetingWithClient = Meeting & { client: Client };
 
 const CANON_CONTEXT = `
 Metodologia W1 - 4 Pilares:
@@ -28,20 +52,83 @@ Sinais de Risco: "caro", "depois vejo", falta de docs, energia baixa, resistênc
 export interface MeetingSummary {
   summary: string[];
   decisions: string[];
-  suggested_tasks: Array<{
-    title: string;
-    description: string;
-    owner: 'Leonardo' | 'Cliente';
-    due_date: string;
-  }>;
+  suggested_tasks: SuggestedTask[];
   risk_signals: string;
 }
 
+interface ChunkExtraction {
+  points: string[];
+  decisions: string[];
+  suggested_tasks: SuggestedTask[];
+  risk_signals: string[];
+}
+
+const MAX_SUMMARY_ATTEMPTS = 3;
+
+// Transcripts above this estimate are summarized in map-reduce passes instead of a single prompt
+const SINGLE_PASS_MAX_TOKENS = 12000;
+const SUMMARY_CHUNK_TOKENS = 6000;
+const SUMMARY_CHUNK_OVERLAP_TOKENS = 200;
+
+const SUGGESTED_TASK_SCHEMA: Schema<SuggestedTask> = s.object({
+  title: s.string({ min: 1, max: 200 }),
+  description: s.string(),
+  owner: s.oneOf(['Leonardo', 'Cliente'] as const),
+  due_date: s.isoDate(),
+});
+
+export const MEETING_SUMMARY_SCHEMA: Schema<MeetingSummary> = s.object({
+  summary: s.array(s.string({ min: 1 }), { min: 1 }),
+  decisions: s.array(s.string({ min: 1 })),
+  suggested_tasks: s.array(SUGGESTED_TASK_SCHEMA),
+  risk_signals: s.string({ min: 1 }),
+});
+
+const CHUNK_EXTRACTION_SCHEMA: Schema<ChunkExtraction> = s.object({
+  points: s.array(s.string({ min: 1 })),
+  decisions: s.array(s.string({ min: 1 })),
+  suggested_tasks: s.array(SUGGESTED_TASK_SCHEMA),
+  risk_signals: s.array(s.string({ min: 1 })),
+});
+
+const MEETING_SUMMARY_FORMAT = `{
+  "summary": ["bullet 1", "bullet 2", ...],
+  "decisions": ["decisão 1", "decisão 2", ...],
+  "suggested_tasks": [
+    {
+      "title": "...",
+      "description": "...",
+      "owner": "Leonardo" ou "Cliente",
+      "due_date": "YYYY-MM-DD"
+    }
+  ],
+  "risk_signals": "texto descrevendo sinais de risco ou 'Nenhum sinal identificado'"
+}`;
+
+const CHUNK_EXTRACTION_FORMAT = `{
+  "points": ["ponto discutido 1", ...],
+  "decisions": ["decisão 1", ...],
+  "suggested_tasks": [
+    {
+      "title": "...",
+      "description": "...",
+      "owner": "Leonardo" ou "Cliente",
+      "due_date": "YYYY-MM-DD"
+    }
+  ],
+  "risk_signals": ["sinal de risco 1", ...]
+}`;
+
 export async function addMeeting(data: {
   client_id: string;
   type: MeetingType;
   datetime: string;
   transcript_text?: string;
+  transcript_segments?: TranscriptSegment[];
+  transcript_source?: TranscriptSource;
+  transcript_file_name?: string;
+  // Records a previously scheduled meeting instead of creating a new one
+  planned_meeting_id?: string;
 }): Promise<Meeting> {
   try {
     const { data: { user } } = await supabase.auth.getUser();
@@ -49,48 +136,312 @@ export async function addMeeting(data: {
       throw new Error('User not authenticated');
     }
 
-    const { data: client, error: clientError } = await supabase
-      .from('clients')
-      .select('user_id')
-      .eq('id', data.client_id)
-      .maybeSingle();
+    await assertClientOwnership(data.client_id, user.id);
 
-    if (clientError) throw clientError;
-    if (!client) throw new Error('Client not found');
-    if (client.user_id !== user.id) {
-      throw new Error('Unauthorized: Client does not belong to user');
+    if (data.planned_meeting_id) {
+      await assertPlannedMeeting(data.planned_meeting_id, data.client_id);
     }
 
+    const record = {
+      client_id: data.client_id,
+      type: data.type,
+      datetime: data.datetime,
+      status: 'done' as const,
+      transcript_text: data.transcript_text || null,
+      transcript_segments: data.transcript_segments || null,
+      transcript_source: data.transcript_source || 'manual',
+      transcript_file_name: data.transcript_file_name || null
+    };
+
+    const { data: meeting, error } = data.planned_meeting_id
+      ? await supabase
+        .from('meetings')
+        .update(record)
+        .eq('id', data.planned_meeting_id)
+        .eq('client_id', data.client_id)
+        .eq('status', 'planned')
+        .select()
+        .single()
+      : await supabase
+        .from('meetings')
+        .insert(record)
+        .select()
+        .single();
+
+    if (error) throw error;
+
+    if (!data.planned_meeting_id) {
+      await triggerWebhooks(WEBHOOK_EVENTS.MEETING_CREATED, meetingEventData(meeting));
+    }
+
+    await scheduleFollowUpSafely(meeting.client_id);
+
+    return meeting;
+  } catch (error) {
+    console.error('Error in addMeeting:', error);
+    throw error;
+  }
+}
+
+async function assertClientOwnership(clientId: string, userId: string): Promise<void> {
+  const { data: client, error: clientError } = await supabase
+    .from('clients')
+    .select('user_id')
+    .eq('id', clientId)
+    .maybeSingle();
+
+  if (clientError) throw clientError;
+  if (!client) throw new Error('Client not found');
+  if (client.user_id !== userId) {
+    throw new Error('Unauthorized: Client does not belong to user');
+  }
+}
+
+// Only a planned meeting of the same client can be recorded as held
+async function assertPlannedMeeting(meetingId: string, clientId: string): Promise<void> {
+  const { data: planned, error } = await supabase
+    .from('meetings')
+    .select('client_id, status')
+    .eq('id', meetingId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!planned || planned.client_id !== clientId) {
+    throw new Error('Meeting not found');
+  }
+  if (planned.status !== 'planned') {
+    throw new Error('Esta reunião não está mais agendada');
+  }
+}
+
+// The meeting itself is already saved; a cadence problem must not turn that into an error
+async function scheduleFollowUpSafely(clientId: string): Promise<void> {
+  try {
+    await scheduleNextFollowUp(clientId);
+  } catch (error) {
+    console.error('Error scheduling next follow-up:', error);
+  }
+}
+
+export async function scheduleMeeting(data: {
+  client_id: string;
+  type: MeetingType;
+  datetime: string;
+}): Promise<Meeting> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    await assertClientOwnership(data.client_id, user.id);
+
     const { data: meeting, error } = await supabase
       .from('meetings')
       .insert({
         client_id: data.client_id,
         type: data.type,
         datetime: data.datetime,
-        transcript_text: data.transcript_text || null
+        status: 'planned',
       })
       .select()
       .single();
 
     if (error) throw error;
 
-    await triggerWebhooks(WEBHOOK_EVENTS.MEETING_CREATED, {
-      id: meeting.id,
-      client_id: meeting.client_id,
-      type: meeting.type,
-      datetime: meeting.datetime,
-      has_transcript: !!meeting.transcript_text,
-      created_at: meeting.created_at,
-    });
+    await triggerWebhooks(WEBHOOK_EVENTS.MEETING_CREATED, meetingEventData(meeting));
 
     return meeting;
   } catch (error) {
-    console.error('Error in addMeeting:', error);
+    console.error('Error in scheduleMeeting:', error);
+    throw error;
+  }
+}
+
+export async function updateMeetingStatus(meetingId: string, status: 'done' | 'no_show'): Promise<Meeting> {
+  try {
+    const { data: meeting, error } = await supabase
+      .from('meetings')
+      .update({ status })
+      .eq('id', meetingId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (status === 'done') {
+      await scheduleFollowUpSafely(meeting.client_id);
+    }
+
+    return meeting;
+  } catch (error) {
+    console.error('Error in updateMeetingStatus:', error);
+    throw error;
+  }
+}
+
+// Keeps the original meeting as 'rescheduled' and links it to the new planned one.
+// Both writes happen in one transaction inside reschedule_meeting.
+export async function rescheduleMeeting(meetingId: string, datetime: string): Promise<Meeting> {
+  try {
+    const { data: replacement, error } = await supabase.rpc('reschedule_meeting', {
+      p_meeting_id: meetingId,
+      p_datetime: datetime,
+    });
+
+    if (error) throw error;
+
+    await triggerWebhooks(WEBHOOK_EVENTS.MEETING_CREATED, meetingEventData(replacement));
+
+    return replacement;
+  } catch (error) {
+    console.error('Error in rescheduleMeeting:', error);
     throw error;
   }
 }
 
-export async function summarizeMeeting(meetingId: string): Promise<MeetingSummary> {
+export async function getPlannedMeetingsByClient(clientId: string): Promise<Meeting[]> {
+  try {
+    const { data, error } = await supabase
+      .from('meetings')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('status', 'planned')
+      .order('datetime', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error in getPlannedMeetingsByClient:', error);
+    throw error;
+  }
+}
+
+export type SummaryProgressStage = 'analyzing' | 'extracting' | 'consolidating' | 'saving';
+
+export interface SummaryProgress {
+  stage: SummaryProgressStage;
+  current: number;
+  total: number;
+}
+
+export interface SummarizeMeetingOptions {
+  model?: string;
+  customInstructions?: string;
+  promote?: boolean;
+  onProgress?: (progress: SummaryProgress) => void;
+}
+
+export interface MeetingSummaryResult extends MeetingSummary {
+  version_id: string;
+  version_number: number;
+  promoted: boolean;
+}
+
+async function processMeetingTranscript(userId: string, transcriptText: string) {
+  const profile = await getUserProfile(userId);
+  return processTranscript(transcriptText, {
+    consultantNames: profile?.full_name ? [profile.full_name] : undefined,
+  });
+}
+
+function versionToSummary(version: SummaryVersion): MeetingSummary {
+  return {
+    summary: version.summary || [],
+    decisions: version.decisions || [],
+    suggested_tasks: version.suggested_tasks || [],
+    risk_signals: version.risk_signals || '',
+  };
+}
+
+async function completeSummary<T>(
+  provider: LLMProvider,
+  model: string,
+  systemPrompt: string,
+  prompt: string,
+  schema: Schema<T>
+): Promise<T> {
+  const completion = await completeValidated(
+    provider,
+    {
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: systemPrompt
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ]
+    },
+    schema,
+    { maxAttempts: MAX_SUMMARY_ATTEMPTS }
+  );
+  console.log('[Meeting Summary] Resposta válida na tentativa', completion.attempts);
+  return completion.data;
+}
+
+function buildChunkExtractionPrompt(chunk: string, index: number, total: number, meetingType: MeetingType): string {
+  return `Você está analisando o TRECHO ${index} DE ${total} da transcrição de uma reunião ${meetingType}.
+Extraia apenas o que aparece neste trecho; o resumo final será montado depois a partir de todos os trechos.
+
+TRECHO DA TRANSCRIÇÃO:
+${chunk}
+
+---
+
+Extraia:
+- points: principais pontos discutidos neste trecho
+- decisions: decisões tomadas neste trecho
+- suggested_tasks: tarefas SMART que surgiram neste trecho
+- risk_signals: sinais de risco como linguagem defensiva ("caro", "depois vejo", "talvez"), falta de compromisso, energia baixa
+
+Use listas vazias quando não houver nada a extrair.
+
+Responda APENAS em JSON válido com esta estrutura:
+${CHUNK_EXTRACTION_FORMAT}`;
+}
+
+async function buildClientFieldsContext(clientId: string): Promise<string> {
+  try {
+    const [definitions, { data: metadata }] = await Promise.all([
+      getCustomFieldDefinitions(true),
+      supabase.from('client_metadata').select('custom_fields').eq('client_id', clientId).maybeSingle(),
+    ]);
+
+    const fields = describeCustomFields(definitions, metadata?.custom_fields || null);
+    return fields.length > 0
+      ? `\n\nCAMPOS PERSONALIZADOS DO CLIENTE:\n${fields.map(field => `- ${field.label}: ${field.formatted}`).join('\n')}`
+      : '';
+  } catch (error) {
+    console.error('Error loading client custom fields for summary:', error);
+    return '';
+  }
+}
+
+function formatChunkExtractions(extractions: ChunkExtraction[]): string {
+  return extractions.map((extraction, i) => {
+    const section = (title: string, items: string[]) =>
+      items.length > 0 ? `${title}:\n${items.map(item => `- ${item}`).join('\n')}` : `${title}: nenhum`;
+
+    return [
+      `### TRECHO ${i + 1}`,
+      section('Pontos', extraction.points),
+      section('Decisões', extraction.decisions),
+      section('Tarefas', extraction.suggested_tasks.map(task =>
+        `${task.title} (${task.owner}, ${task.due_date}): ${task.description}`
+      )),
+      section('Sinais de risco', extraction.risk_signals),
+    ].join('\n');
+  }).join('\n\n');
+}
+
+export async function generateSummaryVersion(
+  meetingId: string,
+  options: SummarizeMeetingOptions = {}
+): Promise<SummaryVersion> {
   try {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
@@ -102,22 +453,19 @@ export async function summarizeMeeting(meetingId: string): Promise<MeetingSummar
       throw new Error(creditCheck.reason || 'Limite de créditos atingido');
     }
 
-    let openai;
+    let provider;
     try {
-      openai = await getOpenAI();
+      provider = await getLLMProvider();
     } catch (error: any) {
       throw new Error(
-        `Não foi possível conectar à OpenAI: ${error.message}. ` +
-        `Verifique sua chave de API em Configurações.`
+        `Não foi possível conectar ao provedor de IA: ${error.message}. ` +
+        `Verifique sua configuração em Configurações.`
       );
     }
 
     const { data: meeting, error } = await supabase
       .from('meetings')
-      .select(`
-        *,
-        client:clients(name)
-      `)
+      .select('*')
       .eq('id', meetingId)
       .single();
 
@@ -127,12 +475,14 @@ export async function summarizeMeeting(meetingId: string): Promise<MeetingSummar
     }
 
     console.log('[Meeting Summary] Iniciando processamento de transcrição...');
-    const processed = processTranscript(meeting.transcript_text);
+    const processed = await processMeetingTranscript(user.id, meeting.transcript_text);
 
     console.log('[Meeting Summary] Transcrição processada:', {
       wordCount: processed.metadata.wordCount,
       complexity: processed.metadata.complexity,
       sentiment: processed.metadata.sentiment,
+      format: processed.parsed.format,
+      speakers: processed.parsed.speaker_roles,
       entitiesFound: {
         monetaryValues: processed.entities.monetary_values.length,
         financialProducts: processed.entities.financial_products.length,
@@ -140,11 +490,22 @@ export async function summarizeMeeting(meetingId: string): Promise<MeetingSummar
       }
     });
 
+    // Kept on the meeting so risk scoring (including the nightly job) does not re-parse transcripts
+    if (meeting.transcript_sentiment !== processed.metadata.sentiment) {
+      const { error: sentimentError } = await supabase
+        .from('meetings')
+        .update({ transcript_sentiment: processed.metadata.sentiment })
+        .eq('id', meetingId);
+
+      if (sentimentError) throw sentimentError;
+    }
+
     const promptTemplate = await getPromptTemplate(user.id, meeting.type);
 
     const systemPrompt = promptTemplate?.system_prompt || `Você é um assistente especializado em planejamento financeiro seguindo a metodologia W1.`;
     const summaryInstructions = promptTemplate?.summary_instructions || 'Crie um resumo executivo em tópicos com os principais pontos discutidos.';
     const taskInstructions = promptTemplate?.task_generation_instructions || 'Sugira tarefas SMART relevantes para o contexto da reunião.';
+    const customInstructions = options.customInstructions?.trim() || '';
 
     const entitiesContext = processed.entities.financial_products.length > 0
       ? `\n\nPRODUTOS FINANCEIROS MENCIONADOS: ${processed.entities.financial_products.join(', ')}`
@@ -154,111 +515,287 @@ export async function summarizeMeeting(meetingId: string): Promise<MeetingSummar
       ? `\n\nPROBLEMAS/PREOCUPAÇÕES IDENTIFICADOS:\n${processed.entities.problems_identified.map((p, i) => `${i + 1}. ${p}`).join('\n')}`
       : '';
 
-    const metadataContext = `\n\nMETADATA DA REUNIÃO:\n- Complexidade: ${processed.metadata.complexity}\n- Sentimento geral: ${processed.metadata.sentiment}\n- Duração estimada: ${processed.metadata.estimatedDuration} minutos`;
+    const attributedCommitments = processed.entities.commitments_by_speaker.filter(c => c.owner);
+    const commitmentsContext = attributedCommitments.length > 0
+      ? `\n\nCOMPROMISSOS POR PARTICIPANTE (use para definir o "owner" das tarefas):\n${attributedCommitments.map(c => `- [${c.owner}] ${c.speaker}: ${c.commitment}`).join('\n')}`
+      : '';
 
-    const prompt = `Analise a seguinte TRANSCRIÇÃO DA REUNIÃO e gere um resumo estruturado.
+    const metadataContext = `\n\nMETADATA DA REUNIÃO:\n- Complexidade: ${processed.metadata.complexity}\n- Sentimento geral: ${processed.metadata.sentiment}\n- Duração estimada: ${processed.metadata.estimatedDuration} minutos`;
 
-TRANSCRIÇÃO DA REUNIÃO (USE APENAS ESTA INFORMAÇÃO PARA CRIAR O RESUMO):
-${processed.cleaned_text}${entitiesContext}${problemsContext}${metadataContext}
+    const clientFieldsContext = await buildClientFieldsContext(meeting.client_id);
 
----
+    const transcriptContext = `${entitiesContext}${problemsContext}${commitmentsContext}${metadataContext}${clientFieldsContext}`;
 
-INSTRUÇÕES:
+    const instructions = `INSTRUÇÕES:
 ${summaryInstructions}
 
 ${taskInstructions}
-
-Identifique sinais de risco como: linguagem defensiva ("caro", "depois vejo", "talvez"), falta de compromisso, energia baixa.
-
-Responda APENAS em JSON válido com esta estrutura:
-{
-  "summary": ["bullet 1", "bullet 2", ...],
-  "decisions": ["decisão 1", "decisão 2", ...],
-  "suggested_tasks": [
-    {
-      "title": "...",
-      "description": "...",
-      "owner": "Leonardo" ou "Cliente",
-      "due_date": "YYYY-MM-DD"
-    }
-  ],
-  "risk_signals": "texto descrevendo sinais de risco ou 'Nenhum sinal identificado'"
-}`;
+${customInstructions ? `\nINSTRUÇÕES ADICIONAIS:\n${customInstructions}\n` : ''}
+Identifique sinais de risco como: linguagem defensiva ("caro", "depois vejo", "talvez"), falta de compromisso, energia baixa.`;
 
     console.log('[Meeting Summary] Transcrição recebida:', meeting.transcript_text?.substring(0, 200) + '...');
-    console.log('[Meeting Summary] Prompt completo:', prompt.substring(0, 500) + '...');
 
-    const models = await getModels();
+    const model = options.model?.trim() || provider.model;
+    const reportProgress = (stage: SummaryProgressStage, current = 0, total = 0) => {
+      options.onProgress?.({ stage, current, total });
+    };
 
-    let completion;
+    let result: MeetingSummary;
+    let chunkCount = 1;
     try {
-      completion = await openai.chat.completions.create({
-      model: models.GPT4_TURBO,
-      messages: [
-        {
-          role: 'system',
-          content: systemPrompt
-        },
-        {
-          role: 'user',
-          content: prompt
+      const transcriptTokens = estimateTokens(processed.cleaned_text);
+
+      if (transcriptTokens <= SINGLE_PASS_MAX_TOKENS) {
+        reportProgress('analyzing', 1, 1);
+
+        const prompt = `Analise a seguinte TRANSCRIÇÃO DA REUNIÃO e gere um resumo estruturado.
+
+TRANSCRIÇÃO DA REUNIÃO (USE APENAS ESTA INFORMAÇÃO PARA CRIAR O RESUMO):
+${processed.cleaned_text}${transcriptContext}
+
+---
+
+${instructions}
+
+Responda APENAS em JSON válido com esta estrutura:
+${MEETING_SUMMARY_FORMAT}`;
+
+        console.log('[Meeting Summary] Prompt completo:', prompt.substring(0, 500) + '...');
+
+        result = await completeSummary(provider, model, systemPrompt, prompt, MEETING_SUMMARY_SCHEMA);
+      } else {
+        const chunks = chunkByTokens(processed.cleaned_text, {
+          maxTokens: SUMMARY_CHUNK_TOKENS,
+          overlapTokens: SUMMARY_CHUNK_OVERLAP_TOKENS,
+        });
+
+        chunkCount = chunks.length;
+
+        console.log('[Meeting Summary] Transcrição longa, resumindo por trechos:', {
+          estimatedTokens: transcriptTokens,
+          chunks: chunks.length,
+        });
+
+        const extractions: ChunkExtraction[] = [];
+        for (let i = 0; i < chunks.length; i++) {
+          reportProgress('extracting', i + 1, chunks.length);
+          extractions.push(
+            await completeSummary(
+              provider,
+              model,
+              systemPrompt,
+              buildChunkExtractionPrompt(chunks[i], i + 1, chunks.length, meeting.type),
+              CHUNK_EXTRACTION_SCHEMA
+            )
+          );
         }
-      ],
-      response_format: { type: 'json_object' }
-      });
+
+        reportProgress('consolidating', chunks.length, chunks.length);
+
+        const prompt = `A TRANSCRIÇÃO DA REUNIÃO foi longa demais para ser analisada de uma vez e foi dividida em ${chunks.length} trechos consecutivos.
+Abaixo estão as informações extraídas de cada trecho. Consolide-as em um único resumo estruturado da reunião inteira.
+
+EXTRAÇÕES POR TRECHO (USE APENAS ESTA INFORMAÇÃO PARA CRIAR O RESUMO):
+${formatChunkExtractions(extractions)}${transcriptContext}
+
+---
+
+${instructions}
+
+Ao consolidar:
+- Os trechos se sobrepõem levemente; remova pontos, decisões e tarefas duplicados
+- Se um trecho posterior revisar uma decisão anterior, mantenha apenas a versão final
+- Combine os sinais de risco de todos os trechos em um único texto
+
+Responda APENAS em JSON válido com esta estrutura:
+${MEETING_SUMMARY_FORMAT}`;
+
+        result = await completeSummary(provider, model, systemPrompt, prompt, MEETING_SUMMARY_SCHEMA);
+      }
     } catch (error: any) {
-      console.error('OpenAI API error:', error);
+      console.error(`${provider.label} API error:`, error);
       throw new Error(
-        `Erro ao processar com OpenAI: ${error.message}. ` +
-        `Verifique se sua chave é válida e tem créditos disponíveis.`
+        `Erro ao processar com o provedor de IA (${provider.label}): ${error.message}. ` +
+        (error.message?.includes('continuou inválida')
+          ? 'Nenhum crédito foi consumido. Tente novamente ou ajuste as instruções do prompt.'
+          : 'Verifique se sua chave é válida e tem créditos disponíveis.')
       );
     }
 
-    const result = JSON.parse(completion.choices[0].message.content || '{}') as MeetingSummary;
+    reportProgress('saving');
+
+    result.suggested_tasks = result.suggested_tasks.map(task => {
+      const owner = inferTaskOwner(`${task.title} ${task.description}`, processed.entities.commitments_by_speaker);
+      return owner ? { ...task, owner } : task;
+    });
+
+    const version = await createSummaryVersion({
+      meeting_id: meetingId,
+      summary: result.summary,
+      decisions: result.decisions,
+      suggested_tasks: result.suggested_tasks,
+      risk_signals: result.risk_signals,
+      provider: provider.id,
+      model,
+      prompt_template_id: promptTemplate?.id || null,
+      prompt_template_version: promptTemplate?.version ?? null,
+      custom_instructions: customInstructions || null,
+      credits_used: 1,
+    });
+
+    await consumeCredit(user.id, 'meeting_processed', {
+      meeting_id: meetingId,
+      meeting_type: meeting.type,
+      provider: provider.id,
+      model,
+      summary_version: version.version_number,
+      transcript_chunks: chunkCount,
+    });
+
+    return version;
+  } catch (error: any) {
+    console.error('Error in generateSummaryVersion:', error);
+
+    if (error.message?.includes('provedor de IA')) {
+      throw error;
+    }
+
+    throw new Error(
+      `Erro ao processar reunião: ${error.message || 'Erro desconhecido'}. ` +
+      `Tente novamente ou verifique suas configurações.`
+    );
+  }
+}
+
+export async function promoteSummaryVersion(versionId: string): Promise<MeetingSummary> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const version = await getSummaryVersion(versionId);
+    const result = versionToSummary(version);
+
+    const { data: meeting, error } = await supabase
+      .from('meetings')
+      .select(`
+        *,
+        client:clients(name)
+      `)
+      .eq('id', version.meeting_id)
+      .single();
+
+    if (error) throw error;
 
     const { error: updateError } = await supabase
       .from('meetings')
       .update({
         summary: result.summary.join('\n'),
         decisions: result.decisions,
-        risk_signals: result.risk_signals
+        risk_signals: result.risk_signals,
+        current_summary_version_id: version.id
       })
-      .eq('id', meetingId);
+      .eq('id', version.meeting_id);
 
     if (updateError) throw updateError;
 
-    await consumeCredit(user.id, 'meeting_processed', {
-      meeting_id: meetingId,
-      meeting_type: meeting.type,
+    await markSummaryVersionCurrent(version);
+
+    const decisionRecords = await replaceMeetingDecisions(version.meeting_id, result.decisions);
+    const draftTasks = await replaceDraftTasks(
+      version.meeting_id,
+      result.suggested_tasks.map(task => ({
+        client_id: meeting.client_id,
+        title: task.title,
+        description: task.description,
+        owner: task.owner,
+        due_date: task.due_date,
+      }))
+    );
+
+    console.log('[Meeting Summary] Registros criados:', {
+      decisions: decisionRecords.length,
+      draftTasks: draftTasks.length,
     });
 
     await triggerWebhooks(WEBHOOK_EVENTS.MEETING_SUMMARY_GENERATED, {
-      id: meetingId,
+      meeting_id: version.meeting_id,
       client_id: meeting.client_id,
       type: meeting.type,
       summary: result.summary,
       decisions: result.decisions,
       risk_signals: result.risk_signals,
       suggested_tasks_count: result.suggested_tasks.length,
+      summary_version: version.version_number,
+      model: version.model,
       processed_at: new Date().toISOString(),
     });
 
+    if (meeting.transcript_text) {
+      try {
+        const processed = await processMeetingTranscript(user.id, meeting.transcript_text);
+        const meetingDate = new Date(meeting.datetime).toLocaleDateString('pt-BR');
+        const embeddingText = prepareForEmbedding(
+          meeting.transcript_text,
+          processed,
+          meeting.type,
+          meeting.client?.name || '',
+          meetingDate,
+          result.summary.join('\n'),
+          result.decisions
+        );
+
+        const chunksIndexed = await indexMeetingEmbeddings({
+          meeting_id: version.meeting_id,
+          text: embeddingText,
+          header: `TIPO DE REUNIÃO: ${meeting.type} | CLIENTE: ${meeting.client?.name || ''} | DATA: ${meetingDate}`,
+        });
+        console.log('[Meeting Summary] Trechos indexados para busca semântica:', chunksIndexed);
+      } catch (error) {
+        console.error('[Meeting Summary] Falha ao indexar reunião para busca semântica:', error);
+      }
+    }
+
     return result;
-  } catch (error: any) {
+  } catch (error) {
+    console.error('Error in promoteSummaryVersion:', error);
+    throw error;
+  }
+}
+
+export async function summarizeMeeting(
+  meetingId: string,
+  options: SummarizeMeetingOptions = {}
+): Promise<MeetingSummaryResult> {
+  const { data: meeting, error } = await supabase
+    .from('meetings')
+    .select('current_summary_version_id')
+    .eq('id', meetingId)
+    .single();
+
+  if (error) {
     console.error('Error in summarizeMeeting:', error);
+    throw new Error(`Erro ao processar reunião: ${error.message}`);
+  }
 
-    if (error.message?.includes('OpenAI')) {
-      throw error;
-    }
+  const version = await generateSummaryVersion(meetingId, options);
+  const promote = options.promote ?? !meeting.current_summary_version_id;
 
-    throw new Error(
-      `Erro ao processar reunião: ${error.message || 'Erro desconhecido'}. ` +
-      `Tente novamente ou verifique suas configurações.`
-    );
+  if (promote) {
+    await promoteSummaryVersion(version.id);
   }
+
+  return {
+    ...versionToSummary(version),
+    version_id: version.id,
+    version_number: version.version_number,
+    promoted: promote,
+  };
 }
 
-export async function getMeetingsByClient(clientId: string): Promise<Meeting[]> {
+// `status` narrows the list, e.g. to 'done' for meetings that were actually held
+export async function getMeetingsByClient(clientId: string, options: { status?: MeetingStatus } = {}): Promise<Meeting[]> {
   try {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
@@ -277,11 +814,16 @@ export async function getMeetingsByClient(clientId: string): Promise<Meeting[]>
       throw new Error('Unauthorized: Client does not belong to user');
     }
 
-    const { data, error } = await supabase
+    let query = supabase
       .from('meetings')
       .select('*')
-      .eq('client_id', clientId)
-      .order('datetime', { ascending: false });
+      .eq('client_id', clientId);
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    const { data, error } = await query.order('datetime', { ascending: false });
 
     if (error) throw error;
     return data || [];
@@ -291,7 +833,7 @@ export async function getMeetingsByClient(clientId: string): Promise<Meeting[]>
   }
 }
 
-export async function getAllMeetings(): Promise<Meeting[]> {
+export async function getAllMeetings(): Promise<MeetingWithClient[]> {
   try {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
@@ -92,10 +92,8 @@ export async function getClientByToken(token: string) {
     if (portalError) throw portalError;
     if (!portalAccess) return null;
 
-    await supabase
-      .from('client_portal_access')
-      .update({ last_access_at: new Date().toISOString() })
-      .eq('id', portalAccess.id);
+    // Visitors are not signed in, so the visit is recorded by a function rather than an update
+    await supabase.rpc('record_portal_access', { p_token: token });
 
     return portalAccess;
   } catch (error) {
@@ -111,12 +109,14 @@ export async function getPortalData(clientId: string) {
         .from('tasks')
         .select('*')
         .eq('client_id', clientId)
+        .eq('is_draft', false)
         .order('created_at', { ascending: false }),
 
       supabase
         .from('meetings')
         .select('*')
         .eq('client_id', clientId)
+        .eq('status', 'done')
         .order('datetime', { ascending: false }),
 
       supabase
@@ -9,6 +9,7 @@ export interface PromptTemplate {
   summary_instructions: string;
   task_generation_instructions: string;
   is_default: boolean;
+  version: number;
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,87 @@
+import { supabase } from '../lib/supabase';
+import {
+  normalizeRiskScoringConfig,
+  validateRiskScoringConfig,
+  type RiskScoringConfig,
+} from '../../supabase/functions/_shared/riskEngine';
+
+// The rule engine lives next to the edge functions so the nightly recalculation
+// scores clients exactly like the app does
+export {
+  RISK_FACTORS,
+  RISK_FACTOR_KEYS,
+  DEFAULT_RISK_SCORING_CONFIG,
+  validateRiskScoringConfig,
+  classifyRiskScore,
+  evaluateRiskScore,
+} from '../../supabase/functions/_shared/riskEngine';
+
+export type {
+  RiskFactorKey,
+  RiskClassification,
+  MeetingSentiment,
+  RiskSignals,
+  RiskRule,
+  RiskScoringConfig,
+  RiskFactorResult,
+  RiskScoreBreakdown,
+} from '../../supabase/functions/_shared/riskEngine';
+
+export async function getRiskScoringConfig(userId?: string): Promise<RiskScoringConfig> {
+  try {
+    let effectiveUserId = userId;
+    if (!effectiveUserId) {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      effectiveUserId = user.id;
+    }
+
+    const { data, error } = await supabase
+      .from('risk_scoring_configs')
+      .select('rules, medium_threshold, high_threshold')
+      .eq('user_id', effectiveUserId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return normalizeRiskScoringConfig(data);
+  } catch (error) {
+    console.error('Error in getRiskScoringConfig:', error);
+    throw error;
+  }
+}
+
+export async function saveRiskScoringConfig(config: RiskScoringConfig): Promise<RiskScoringConfig> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const validationError = validateRiskScoringConfig(config);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const { data, error } = await supabase
+      .from('risk_scoring_configs')
+      .upsert(
+        {
+          user_id: user.id,
+          rules: config.rules,
+          medium_threshold: config.medium_threshold,
+          high_threshold: config.high_threshold,
+        },
+        { onConflict: 'user_id' }
+      )
+      .select('rules, medium_threshold, high_threshold')
+      .single();
+
+    if (error) throw error;
+    return normalizeRiskScoringConfig(data);
+  } catch (error) {
+    console.error('Error in saveRiskScoringConfig:', error);
+    throw error;
+  }
+}
@@ -1,120 +1,309 @@
 import { supabase } from '../lib/supabase';
-import { getClient } from './clientService';
-import { getMeetingsByClient } from './meetingService';
-
-export interface RiskScoreBreakdown {
-  total_score: number;
-  classification: 'Baixo' | 'Médio' | 'Alto';
-  factors: Array<{
-    factor: string;
-    impact: number;
-    description: string;
-  }>;
+import type { Database } from '../lib/database.types';
+import { triggerWebhooks, WEBHOOK_EVENTS } from './webhookService';
+import {
+  classifyRiskScore,
+  evaluateRiskScore,
+  getRiskScoringConfig,
+  type RiskClassification,
+  type RiskScoreBreakdown,
+  type RiskScoringConfig,
+  type RiskSignals,
+} from './riskRuleService';
+import {
+  buildRiskSnapshot,
+  collectRiskSignals,
+  getLatestRiskSnapshots,
+  hasRiskSnapshotChanged,
+  RISK_SNAPSHOT_EVENT,
+} from '../../supabase/functions/_shared/riskEngine';
+
+export type { RiskScoreBreakdown };
+
+type Client = Database['public']['Tables']['clients']['Row'];
+type RiskEvent = Database['public']['Tables']['risk_events']['Row'];
+type RiskDigestRow = Database['public']['Tables']['risk_digests']['Row'];
+
+export interface RiskSnapshot extends RiskEvent {
+  score: number;
+  previous_score: number;
+  classification: RiskClassification;
+  previous_classification: RiskClassification;
+  factors: RiskScoreBreakdown['factors'];
+}
+
+export interface RiskDigestClient {
+  id: string;
+  name: string;
+  risk_score: number;
+  previous_score: number;
+  previous_classification: RiskClassification;
+}
+
+export interface RiskDigest extends RiskDigestRow {
+  clients: RiskDigestClient[];
+}
+
+export interface RiskPreviewRow {
+  client_id: string;
+  client_name: string;
+  current_score: number;
+  current_classification: RiskClassification;
+  proposed_score: number;
+  proposed_classification: RiskClassification;
+  proposed_factors: RiskScoreBreakdown['factors'];
+}
+
+export interface RiskPreview {
+  rows: RiskPreviewRow[];
+  current_counts: Record<RiskClassification, number>;
+  proposed_counts: Record<RiskClassification, number>;
+  changed_clients: number;
+}
+
+const RISK_HISTORY_LIMIT = 30;
+
+async function getOwnClients(clientId?: string): Promise<{ userId: string; clients: Client[] }> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  let query = supabase
+    .from('clients')
+    .select('*')
+    .eq('user_id', user.id);
+
+  if (clientId) {
+    query = query.eq('id', clientId);
+  }
+
+  const { data, error } = await query.order('name');
+  if (error) throw error;
+
+  return { userId: user.id, clients: data || [] };
+}
+
+// Stores the new scores, records a snapshot for each client whose score or factors
+// changed since its last one and notifies webhooks when
+// a client moves between Baixo, Médio and Alto. Returns how many scores changed.
+async function applyRiskScores(
+  results: Array<{ client: Client; breakdown: RiskScoreBreakdown }>,
+  config: RiskScoringConfig
+): Promise<number> {
+  let updated = 0;
+
+  for (const { client, breakdown } of results) {
+    if (breakdown.total_score === client.risk_score) continue;
+
+    const { error } = await supabase
+      .from('clients')
+      .update({ risk_score: breakdown.total_score })
+      .eq('id', client.id);
+
+    if (error) throw error;
+    updated++;
+  }
+
+  if (results.length === 0) return updated;
+
+  const latestSnapshots = await getLatestRiskSnapshots(supabase, results.map(({ client }) => client.id));
+  const snapshots = results
+    .filter(({ client, breakdown }) => hasRiskSnapshotChanged(latestSnapshots.get(client.id), breakdown))
+    .map(({ client, breakdown }) => buildRiskSnapshot(client, breakdown, config));
+
+  if (snapshots.length > 0) {
+    const { error: snapshotError } = await supabase
+      .from('risk_events')
+      .insert(snapshots);
+
+    if (snapshotError) throw snapshotError;
+  }
+
+  const changedAt = new Date().toISOString();
+  for (const { client, breakdown } of results) {
+    const previousClassification = classifyRiskScore(client.risk_score, config);
+    if (previousClassification === breakdown.classification) continue;
+
+    await triggerWebhooks(WEBHOOK_EVENTS.CLIENT_RISK_CHANGED, {
+      id: client.id,
+      name: client.name,
+      risk_score: breakdown.total_score,
+      classification: breakdown.classification,
+      direction: breakdown.total_score > client.risk_score ? 'up' : 'down',
+      factors: breakdown.factors,
+      changed_at: changedAt,
+    }, {
+      risk_score: client.risk_score,
+      classification: previousClassification,
+    });
+  }
+
+  return updated;
+}
+
+export async function getRiskSignals(clientId: string): Promise<RiskSignals> {
+  try {
+    const { clients } = await getOwnClients(clientId);
+    if (clients.length === 0) throw new Error('Client not found');
+
+    const signals = await collectRiskSignals(supabase, clients);
+    return signals.get(clientId)!;
+  } catch (error) {
+    console.error('Error in getRiskSignals:', error);
+    throw error;
+  }
+}
+
+export async function explainRiskScore(clientId: string, config?: RiskScoringConfig): Promise<RiskScoreBreakdown> {
+  try {
+    const signals = await getRiskSignals(clientId);
+    return evaluateRiskScore(signals, config || await getRiskScoringConfig());
+  } catch (error) {
+    console.error('Error in explainRiskScore:', error);
+    throw error;
+  }
 }
 
 export async function calculateRiskScore(clientId: string): Promise<RiskScoreBreakdown> {
   try {
-    const client = await getClient({ id: clientId });
-    if (!client) throw new Error('Client not found');
-
-    const factors: Array<{ factor: string; impact: number; description: string }> = [];
-    let totalScore = 0;
-
-    if (client.days_since_last_advance !== null && client.days_since_last_advance > 30) {
-      const impact = 25;
-      totalScore += impact;
-      factors.push({
-        factor: 'Sem avanço há mais de 30 dias',
-        impact,
-        description: `${client.days_since_last_advance} dias sem avanço real`
-      });
-    }
+    const { userId, clients } = await getOwnClients(clientId);
+    if (clients.length === 0) throw new Error('Client not found');
 
-    if (client.overdue_client_tasks.length > 0) {
-      const impact = 20;
-      totalScore += impact;
-      factors.push({
-        factor: 'Tarefas do cliente vencidas',
-        impact,
-        description: `${client.overdue_client_tasks.length} tarefa(s) vencida(s)`
-      });
-    }
+    const [config, signals] = await Promise.all([
+      getRiskScoringConfig(userId),
+      collectRiskSignals(supabase, clients),
+    ]);
 
-    const meetings = await getMeetingsByClient(clientId);
-    const recentMeetings = meetings.slice(0, 2);
-
-    if (recentMeetings.length >= 2) {
-      let defensiveSignalsCount = 0;
-
-      for (const meeting of recentMeetings) {
-        if (meeting.risk_signals &&
-            meeting.risk_signals.toLowerCase() !== 'nenhum sinal identificado' &&
-            meeting.risk_signals.trim() !== '') {
-          defensiveSignalsCount++;
-        }
-      }
-
-      if (defensiveSignalsCount >= 2) {
-        const impact = 15;
-        totalScore += impact;
-        factors.push({
-          factor: 'Linguagem defensiva em 2 reuniões seguidas',
-          impact,
-          description: 'Sinais de resistência detectados'
-        });
-      }
-    }
+    const breakdown = evaluateRiskScore(signals.get(clientId)!, config);
+    await applyRiskScores([{ client: clients[0], breakdown }], config);
 
-    if (client.completed_tasks_last_week >= 2) {
-      const impact = -15;
-      totalScore += impact;
-      factors.push({
-        factor: 'Tarefas concluídas na última semana',
-        impact,
-        description: `${client.completed_tasks_last_week} tarefa(s) concluída(s)`
-      });
-    }
+    return breakdown;
+  } catch (error) {
+    console.error('Error in calculateRiskScore:', error);
+    throw error;
+  }
+}
+
+export async function previewRiskScoring(proposed: RiskScoringConfig): Promise<RiskPreview> {
+  try {
+    const { userId, clients } = await getOwnClients();
+    const [current, signals] = await Promise.all([
+      getRiskScoringConfig(userId),
+      collectRiskSignals(supabase, clients),
+    ]);
+
+    const emptyCounts = (): Record<RiskClassification, number> => ({ Baixo: 0, 'Médio': 0, Alto: 0 });
+    const currentCounts = emptyCounts();
+    const proposedCounts = emptyCounts();
+
+    const rows: RiskPreviewRow[] = clients.map(client => {
+      const clientSignals = signals.get(client.id)!;
+      const before = evaluateRiskScore(clientSignals, current);
+      const after = evaluateRiskScore(clientSignals, proposed);
+
+      currentCounts[before.classification]++;
+      proposedCounts[after.classification]++;
 
-    const { data: upcomingMeetings } = await supabase
-      .from('meetings')
+      return {
+        client_id: client.id,
+        client_name: client.name,
+        current_score: before.total_score,
+        current_classification: before.classification,
+        proposed_score: after.total_score,
+        proposed_factors: after.factors,
+        proposed_classification: after.classification,
+      };
+    });
+
+    rows.sort((a, b) =>
+      Math.abs(b.proposed_score - b.current_score) - Math.abs(a.proposed_score - a.current_score) ||
+      b.proposed_score - a.proposed_score
+    );
+
+    return {
+      rows,
+      current_counts: currentCounts,
+      proposed_counts: proposedCounts,
+      changed_clients: rows.filter(r => r.proposed_score !== r.current_score).length,
+    };
+  } catch (error) {
+    console.error('Error in previewRiskScoring:', error);
+    throw error;
+  }
+}
+
+export async function recalculatePortfolioRisk(): Promise<number> {
+  try {
+    const { userId, clients } = await getOwnClients();
+    const [config, signals] = await Promise.all([
+      getRiskScoringConfig(userId),
+      collectRiskSignals(supabase, clients),
+    ]);
+
+    return await applyRiskScores(
+      clients.map(client => ({ client, breakdown: evaluateRiskScore(signals.get(client.id)!, config) })),
+      config
+    );
+  } catch (error) {
+    console.error('Error in recalculatePortfolioRisk:', error);
+    throw error;
+  }
+}
+
+export async function getRiskHistory(clientId: string, limit = RISK_HISTORY_LIMIT): Promise<RiskSnapshot[]> {
+  try {
+    const { data, error } = await supabase
+      .from('risk_events')
       .select('*')
       .eq('client_id', clientId)
-      .gte('datetime', new Date().toISOString())
-      .lte('datetime', new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString());
-
-    if (upcomingMeetings && upcomingMeetings.length > 0) {
-      const impact = -10;
-      totalScore += impact;
-      factors.push({
-        factor: 'Próxima reunião agendada',
-        impact,
-        description: 'Reunião confirmada nos próximos 7 dias'
-      });
-    }
+      .eq('event_type', RISK_SNAPSHOT_EVENT)
+      .order('created_at', { ascending: false })
+      .limit(limit);
 
-    totalScore = Math.max(0, Math.min(100, totalScore));
+    if (error) throw error;
+    return ((data || []) as RiskSnapshot[]).reverse();
+  } catch (error) {
+    console.error('Error in getRiskHistory:', error);
+    throw error;
+  }
+}
 
-    let classification: 'Baixo' | 'Médio' | 'Alto';
-    if (totalScore <= 39) {
-      classification = 'Baixo';
-    } else if (totalScore <= 69) {
-      classification = 'Médio';
-    } else {
-      classification = 'Alto';
+// Digests are written by the nightly risk-recalculation edge function
+export async function getUnreadRiskDigests(): Promise<RiskDigest[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
     }
 
-    await supabase
-      .from('clients')
-      .update({ risk_score: totalScore })
-      .eq('id', clientId);
+    const { data, error } = await supabase
+      .from('risk_digests')
+      .select('*')
+      .eq('user_id', user.id)
+      .is('read_at', null)
+      .order('created_at', { ascending: false });
 
-    return {
-      total_score: totalScore,
-      classification,
-      factors
-    };
+    if (error) throw error;
+    return (data || []) as RiskDigest[];
   } catch (error) {
-    console.error('Error in calculateRiskScore:', error);
+    console.error('Error in getUnreadRiskDigests:', error);
+    throw error;
+  }
+}
+
+export async function markRiskDigestsRead(digestIds: string[]): Promise<void> {
+  try {
+    if (digestIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('risk_digests')
+      .update({ read_at: new Date().toISOString() })
+      .in('id', digestIds);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error in markRiskDigestsRead:', error);
     throw error;
   }
 }
@@ -99,7 +99,16 @@ export async function updateSetting(key: string, value: string, description?: st
       const defaultDescriptions: Record<string, string> = {
         'openai_api_key': 'Sua chave de API da OpenAI',
         'openai_model': 'Modelo GPT-4 a ser usado',
-        'openai_embedding_model': 'Modelo de embeddings para busca semântica'
+        'openai_embedding_model': 'Modelo de embeddings para busca semântica',
+        'llm_provider': 'Provedor de IA (openai, anthropic, azure ou ollama)',
+        'anthropic_api_key': 'Sua chave de API da Anthropic',
+        'anthropic_model': 'Modelo da Anthropic a ser usado',
+        'azure_openai_api_key': 'Chave de API do Azure OpenAI',
+        'azure_openai_endpoint': 'Endpoint do recurso Azure OpenAI',
+        'azure_openai_deployment': 'Deployment do Azure OpenAI',
+        'azure_openai_api_version': 'Versão da API do Azure OpenAI',
+        'ollama_base_url': 'URL do servidor local compatível com OpenAI',
+        'ollama_model': 'Modelo local a ser usado'
       };
 
       const { error: insertError } = await supabase
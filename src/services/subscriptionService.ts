@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabase';
+import type { SubscriptionStatus } from '../lib/database.types';
 
 export interface Plan {
   id: string;
@@ -17,7 +18,7 @@ export interface Subscription {
   id: string;
   user_id: string;
   plan_id: string;
-  status: 'active' | 'cancelled' | 'expired' | 'pending';
+  status: SubscriptionStatus;
   current_period_start: string;
   current_period_end: string;
   credits_used: number;
@@ -0,0 +1,172 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+
+type SummaryVersionRow = Database['public']['Tables']['meeting_summary_versions']['Row'];
+type SummaryVersionInsert = Database['public']['Tables']['meeting_summary_versions']['Insert'];
+
+export interface SuggestedTask {
+  title: string;
+  description: string;
+  owner: 'Leonardo' | 'Cliente';
+  due_date: string;
+}
+
+export interface SummaryVersion extends SummaryVersionRow {
+  summary: string[];
+  decisions: string[];
+  suggested_tasks: SuggestedTask[];
+}
+
+export type DiffRowType = 'same' | 'added' | 'removed' | 'changed';
+
+export interface DiffRow {
+  type: DiffRowType;
+  left: string | null;
+  right: string | null;
+}
+
+export interface SummaryVersionDiff {
+  summary: DiffRow[];
+  decisions: DiffRow[];
+  suggested_tasks: DiffRow[];
+  risk_signals: DiffRow[];
+}
+
+export async function getSummaryVersions(meetingId: string): Promise<SummaryVersion[]> {
+  try {
+    const { data, error } = await supabase
+      .from('meeting_summary_versions')
+      .select('*')
+      .eq('meeting_id', meetingId)
+      .order('version_number', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as SummaryVersion[];
+  } catch (error) {
+    console.error('Error in getSummaryVersions:', error);
+    throw error;
+  }
+}
+
+export async function getSummaryVersion(versionId: string): Promise<SummaryVersion> {
+  try {
+    const { data, error } = await supabase
+      .from('meeting_summary_versions')
+      .select('*')
+      .eq('id', versionId)
+      .single();
+
+    if (error) throw error;
+    return data as SummaryVersion;
+  } catch (error) {
+    console.error('Error in getSummaryVersion:', error);
+    throw error;
+  }
+}
+
+// Numbered after the meeting's latest version by the create_summary_version RPC,
+// which locks the meeting so concurrent runs cannot take the same number
+export async function createSummaryVersion(
+  version: Omit<SummaryVersionInsert, 'id' | 'user_id' | 'version_number' | 'is_current' | 'promoted_at' | 'created_at'>
+): Promise<SummaryVersion> {
+  try {
+    const { data, error } = await supabase.rpc('create_summary_version', {
+      p_meeting_id: version.meeting_id,
+      p_model: version.model,
+      p_provider: version.provider,
+      p_summary: version.summary,
+      p_decisions: version.decisions,
+      p_suggested_tasks: version.suggested_tasks,
+      p_risk_signals: version.risk_signals,
+      p_prompt_template_id: version.prompt_template_id,
+      p_prompt_template_version: version.prompt_template_version,
+      p_custom_instructions: version.custom_instructions,
+      p_credits_used: version.credits_used,
+    });
+
+    if (error) throw error;
+    return data as SummaryVersion;
+  } catch (error) {
+    console.error('Error in createSummaryVersion:', error);
+    throw error;
+  }
+}
+
+export async function markSummaryVersionCurrent(version: SummaryVersion): Promise<SummaryVersion> {
+  try {
+    const { data, error } = await supabase.rpc('promote_summary_version', { p_version_id: version.id });
+
+    if (error) throw error;
+    return data as SummaryVersion;
+  } catch (error) {
+    console.error('Error in markSummaryVersionCurrent:', error);
+    throw error;
+  }
+}
+
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function diffLines(left: string[], right: string[]): DiffRow[] {
+  const a = left.map(normalizeLine);
+  const b = right.map(normalizeLine);
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ type: 'changed', left: removed[k], right: added[k] });
+    }
+    removed.slice(paired).forEach(line => rows.push({ type: 'removed', left: line, right: null }));
+    added.slice(paired).forEach(line => rows.push({ type: 'added', left: null, right: line }));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ type: 'same', left: left[i], right: right[j] });
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(right[j]);
+      j++;
+    } else {
+      removed.push(left[i]);
+      i++;
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+function describeTask(task: SuggestedTask): string {
+  return `${task.title} (${task.owner}, ${task.due_date})`;
+}
+
+export function diffSummaryVersions(left: SummaryVersion, right: SummaryVersion): SummaryVersionDiff {
+  return {
+    summary: diffLines(left.summary || [], right.summary || []),
+    decisions: diffLines(left.decisions || [], right.decisions || []),
+    suggested_tasks: diffLines((left.suggested_tasks || []).map(describeTask), (right.suggested_tasks || []).map(describeTask)),
+    risk_signals: diffLines(
+      left.risk_signals ? [left.risk_signals] : [],
+      right.risk_signals ? [right.risk_signals] : []
+    ),
+  };
+}
@@ -10,6 +10,7 @@ export interface CreateTaskData {
   description?: string;
   owner: TaskOwner;
   due_date: string;
+  is_draft?: boolean;
 }
 
 export async function createTasks(tasks: CreateTaskData[]): Promise<Task[]> {
@@ -83,6 +84,26 @@ export async function updateTaskStatus(taskId: string, status: TaskStatus): Prom
   }
 }
 
+export async function setTaskBlocked(taskId: string, blocked: boolean, reason?: string): Promise<Task> {
+  try {
+    const { data, error } = await supabase
+      .from('tasks')
+      .update({
+        blocked,
+        blocked_reason: blocked ? reason?.trim() || null : null,
+      })
+      .eq('id', taskId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error in setTaskBlocked:', error);
+    throw error;
+  }
+}
+
 export async function getTasksByClient(clientId: string): Promise<Task[]> {
   try {
     const { data: { user } } = await supabase.auth.getUser();
@@ -106,6 +127,7 @@ export async function getTasksByClient(clientId: string): Promise<Task[]> {
       .from('tasks')
       .select('*')
       .eq('client_id', clientId)
+      .eq('is_draft', false)
       .order('due_date', { ascending: true });
 
     if (error) throw error;
@@ -129,6 +151,7 @@ export async function getAllTasks(): Promise<Task[]> {
         *,
         client:clients(*)
       `)
+      .eq('is_draft', false)
       .order('due_date', { ascending: true });
 
     if (error) throw error;
@@ -138,3 +161,108 @@ export async function getAllTasks(): Promise<Task[]> {
     throw error;
   }
 }
+
+function normalizeTaskTitle(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Only drafts that were never confirmed are replaced; suggestions matching a task
+// already confirmed from this meeting are not offered again
+export async function replaceDraftTasks(meetingId: string, tasks: CreateTaskData[]): Promise<Task[]> {
+  try {
+    const { data: confirmed, error: confirmedError } = await supabase
+      .from('tasks')
+      .select('title')
+      .eq('meeting_id', meetingId)
+      .eq('is_draft', false);
+
+    if (confirmedError) throw confirmedError;
+
+    const { error: deleteError } = await supabase
+      .from('tasks')
+      .delete()
+      .eq('meeting_id', meetingId)
+      .eq('is_draft', true);
+
+    if (deleteError) throw deleteError;
+
+    const confirmedTitles = new Set((confirmed || []).map(task => normalizeTaskTitle(task.title)));
+    const drafts = tasks.filter(task => !confirmedTitles.has(normalizeTaskTitle(task.title)));
+    if (drafts.length === 0) return [];
+
+    return await createTasks(drafts.map(task => ({ ...task, meeting_id: meetingId, is_draft: true })));
+  } catch (error) {
+    console.error('Error in replaceDraftTasks:', error);
+    throw error;
+  }
+}
+
+export async function getDraftTasksByMeeting(meetingId: string): Promise<Task[]> {
+  try {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('meeting_id', meetingId)
+      .eq('is_draft', true)
+      .order('due_date', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error in getDraftTasksByMeeting:', error);
+    throw error;
+  }
+}
+
+export async function getDraftTasksByClient(clientId: string): Promise<Task[]> {
+  try {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('is_draft', true)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error in getDraftTasksByClient:', error);
+    throw error;
+  }
+}
+
+export async function confirmDraftTasks(taskIds: string[]): Promise<Task[]> {
+  try {
+    if (taskIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .update({ is_draft: false, assigned_date: new Date().toISOString() })
+      .in('id', taskIds)
+      .eq('is_draft', true)
+      .select();
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error in confirmDraftTasks:', error);
+    throw error;
+  }
+}
+
+export async function discardDraftTasks(taskIds: string[]): Promise<void> {
+  try {
+    if (taskIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('tasks')
+      .delete()
+      .in('id', taskIds)
+      .eq('is_draft', true);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error in discardDraftTasks:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,101 @@
+import { extractDocxText } from '../lib/docx';
+import type { TranscriptSource } from '../lib/database.types';
+import { isCueTimingLine, parseTranscript, type TranscriptSegment } from './transcriptProcessor';
+
+export type TranscriptFileFormat = Exclude<TranscriptSource, 'manual'>;
+
+export interface ImportedTranscript {
+  file_name: string;
+  format: TranscriptFileFormat;
+  text: string;
+  segments: TranscriptSegment[];
+  speakers: string[];
+}
+
+export const SUPPORTED_TRANSCRIPT_EXTENSIONS = ['.vtt', '.srt', '.docx', '.txt'];
+
+const MAX_TRANSCRIPT_FILE_SIZE = 10 * 1024 * 1024;
+
+function getFileFormat(fileName: string): TranscriptFileFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+
+  if (extension === 'vtt' || extension === 'srt' || extension === 'docx' || extension === 'txt') {
+    return extension;
+  }
+
+  throw new Error(
+    `Formato de arquivo não suportado: .${extension}. ` +
+    `Use ${SUPPORTED_TRANSCRIPT_EXTENSIONS.join(', ')}.`
+  );
+}
+
+function validateCueFile(content: string, format: 'vtt' | 'srt'): void {
+  const lines = content.split(/\r?\n/);
+  const label = format.toUpperCase();
+
+  if (format === 'vtt') {
+    const firstLine = lines.find(l => l.trim() !== '') || '';
+    if (!/^\uFEFF?WEBVTT/.test(firstLine.trim())) {
+      throw new Error('Arquivo VTT inválido: cabeçalho WEBVTT ausente na primeira linha');
+    }
+  }
+
+  let cueCount = 0;
+  lines.forEach((line, index) => {
+    if (!line.includes('-->')) return;
+
+    if (!isCueTimingLine(line)) {
+      throw new Error(`Arquivo ${label} inválido: marcação de tempo malformada na linha ${index + 1} ("${line.trim()}")`);
+    }
+    cueCount++;
+  });
+
+  if (cueCount === 0) {
+    throw new Error(`Arquivo ${label} inválido: nenhuma legenda com marcação de tempo encontrada`);
+  }
+}
+
+export function formatSegmentsAsText(segments: TranscriptSegment[]): string {
+  return segments
+    .map(segment => (segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text))
+    .filter(line => line.trim().length > 0)
+    .join('\n');
+}
+
+export async function importTranscriptFile(file: File): Promise<ImportedTranscript> {
+  const format = getFileFormat(file.name);
+
+  if (file.size === 0) {
+    throw new Error(`O arquivo ${file.name} está vazio`);
+  }
+
+  if (file.size > MAX_TRANSCRIPT_FILE_SIZE) {
+    throw new Error(`O arquivo ${file.name} excede o limite de 10 MB`);
+  }
+
+  let content: string;
+  if (format === 'docx') {
+    content = await extractDocxText(await file.arrayBuffer());
+  } else {
+    content = await file.text();
+  }
+
+  if (format === 'vtt' || format === 'srt') {
+    validateCueFile(content, format);
+  }
+
+  const parsed = parseTranscript(content);
+  const text = formatSegmentsAsText(parsed.segments);
+
+  if (!text.trim()) {
+    throw new Error(`Nenhum texto de transcrição encontrado em ${file.name}`);
+  }
+
+  return {
+    file_name: file.name,
+    format,
+    text,
+    segments: parsed.segments,
+    speakers: parsed.speakers,
+  };
+}
@@ -1,3 +1,36 @@
+import type { TaskOwner } from '../lib/database.types';
+
+export type SpeakerRole = 'consultant' | 'client' | 'unknown';
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'labeled' | 'plain';
+
+export interface TranscriptSegment {
+  speaker: string | null;
+  role: SpeakerRole;
+  text: string;
+  start_seconds: number | null;
+  end_seconds: number | null;
+}
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  segments: TranscriptSegment[];
+  speakers: string[];
+  speaker_roles: Record<string, SpeakerRole>;
+}
+
+export interface SpeakerCommitment {
+  commitment: string;
+  speaker: string | null;
+  owner: TaskOwner | null;
+}
+
+export interface ProcessTranscriptOptions {
+  // The signed-in consultant's profile name; without it two-speaker transcripts
+  // assume the first speaker is the consultant
+  consultantNames?: string[];
+}
+
 export interface TranscriptMetadata {
   wordCount: number;
   estimatedDuration: number;
@@ -12,6 +45,7 @@ export interface ExtractedEntities {
   financial_products: string[];
   problems_identified: string[];
   commitments_made: string[];
+  commitments_by_speaker: SpeakerCommitment[];
 }
 
 export interface StructuredTranscript {
@@ -23,12 +57,324 @@ export interface StructuredTranscript {
 
 export interface ProcessedTranscript {
   cleaned_text: string;
+  parsed: ParsedTranscript;
   structure: StructuredTranscript;
   entities: ExtractedEntities;
   metadata: TranscriptMetadata;
   embedding_ready_text: string;
 }
 
+const CUE_TIMING_PATTERN = /^((?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const SPEAKER_LINE_PATTERN = /^(?:\[?((?:\d{1,2}:)?\d{1,2}:\d{2})\]?\s+)?([A-ZÀ-Ú][\wÀ-ú.'-]*(?:\s+[\wÀ-ú.'-]+){0,4})\s*(?:\(((?:\d{1,2}:)?\d{1,2}:\d{2})\))?:\s+(.+)$/;
+const SPEAKER_HEADER_PATTERN = /^([A-ZÀ-Ú][\wÀ-ú.'-]*(?:\s+[\wÀ-ú.'-]+){0,4})\s+((?:\d{1,2}:)?\d{1,2}:\d{2})$/;
+const VOICE_TAG_PATTERN = /^<v(?:\.[^\s>]+)?\s+([^>]+)>([\s\S]*?)(?:<\/v>)?$/;
+
+export function isCueTimingLine(line: string): boolean {
+  return CUE_TIMING_PATTERN.test(line.trim());
+}
+
+function parseTimestamp(value: string): number {
+  const parts = value.replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+function stripCueMarkup(text: string): string {
+  return text.replace(/<\/?[^>]+>/g, '').trim();
+}
+
+function splitSpeakerPrefix(text: string): { speaker: string | null; text: string } {
+  const voiceMatch = text.match(VOICE_TAG_PATTERN);
+  if (voiceMatch) {
+    return { speaker: voiceMatch[1].trim(), text: stripCueMarkup(voiceMatch[2]) };
+  }
+
+  const cleaned = stripCueMarkup(text);
+  const labelMatch = cleaned.match(SPEAKER_LINE_PATTERN);
+  if (labelMatch && !labelMatch[1] && !labelMatch[3]) {
+    return { speaker: labelMatch[2].trim(), text: labelMatch[4].trim() };
+  }
+
+  return { speaker: null, text: cleaned };
+}
+
+function appendSegment(segments: TranscriptSegment[], segment: TranscriptSegment) {
+  if (!segment.text) return;
+
+  const previous = segments[segments.length - 1];
+  if (previous && previous.speaker === segment.speaker) {
+    previous.text = `${previous.text} ${segment.text}`;
+    previous.end_seconds = segment.end_seconds ?? previous.end_seconds;
+    return;
+  }
+
+  segments.push(segment);
+}
+
+function parseCueTranscript(lines: string[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const timing = lines[index].trim().match(CUE_TIMING_PATTERN);
+    if (!timing) {
+      index++;
+      continue;
+    }
+
+    const cueLines: string[] = [];
+    index++;
+    while (index < lines.length && lines[index].trim() !== '') {
+      cueLines.push(lines[index].trim());
+      index++;
+    }
+
+    const { speaker, text } = splitSpeakerPrefix(cueLines.join(' '));
+    appendSegment(segments, {
+      speaker,
+      role: 'unknown',
+      text,
+      start_seconds: parseTimestamp(timing[1]),
+      end_seconds: parseTimestamp(timing[2]),
+    });
+  }
+
+  return segments;
+}
+
+function parseLabeledTranscript(lines: string[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let current: TranscriptSegment | null = null;
+
+  const flush = () => {
+    if (current) {
+      current.text = current.text.trim();
+      appendSegment(segments, current);
+      current = null;
+    }
+  };
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const labelMatch = line.match(SPEAKER_LINE_PATTERN);
+    if (labelMatch) {
+      flush();
+      const timestamp = labelMatch[1] || labelMatch[3];
+      current = {
+        speaker: labelMatch[2].trim(),
+        role: 'unknown',
+        text: labelMatch[4],
+        start_seconds: timestamp ? parseTimestamp(timestamp) : null,
+        end_seconds: null,
+      };
+      continue;
+    }
+
+    const headerMatch = line.match(SPEAKER_HEADER_PATTERN);
+    if (headerMatch) {
+      flush();
+      current = {
+        speaker: headerMatch[1].trim(),
+        role: 'unknown',
+        text: '',
+        start_seconds: parseTimestamp(headerMatch[2]),
+        end_seconds: null,
+      };
+      continue;
+    }
+
+    if (current) {
+      current.text = `${current.text} ${line}`;
+    } else {
+      current = { speaker: null, role: 'unknown', text: line, start_seconds: null, end_seconds: null };
+    }
+  }
+
+  flush();
+  return segments;
+}
+
+export function detectTranscriptFormat(text: string): TranscriptFormat {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0);
+  if (lines.length === 0) return 'plain';
+
+  if (/^\uFEFF?WEBVTT/.test(lines[0])) return 'vtt';
+
+  if (lines.some(l => CUE_TIMING_PATTERN.test(l))) {
+    return lines.some(l => /^\d+$/.test(l)) ? 'srt' : 'vtt';
+  }
+
+  const labeledLines = lines.filter(l => SPEAKER_LINE_PATTERN.test(l) || SPEAKER_HEADER_PATTERN.test(l)).length;
+  if (lines.length > 1 && labeledLines / lines.length >= 0.5) return 'labeled';
+
+  return 'plain';
+}
+
+export function identifySpeakerRoles(
+  speakers: string[],
+  consultantNames: string[] = []
+): Record<string, SpeakerRole> {
+  const roles: Record<string, SpeakerRole> = {};
+  const consultantTokens = consultantNames
+    .filter(name => name && name.trim() !== '')
+    .map(name => normalizeName(name).split(/\s+/)[0]);
+
+  const consultants = speakers.filter(speaker => {
+    const speakerTokens = normalizeName(speaker).split(/\s+/);
+    return consultantTokens.some(token => speakerTokens.includes(token));
+  });
+
+  if (consultants.length > 0) {
+    speakers.forEach(speaker => {
+      roles[speaker] = consultants.includes(speaker) ? 'consultant' : 'client';
+    });
+  } else if (speakers.length === 2) {
+    roles[speakers[0]] = 'consultant';
+    roles[speakers[1]] = 'client';
+  } else {
+    speakers.forEach(speaker => {
+      roles[speaker] = 'unknown';
+    });
+  }
+
+  return roles;
+}
+
+export function parseTranscript(text: string, options: ProcessTranscriptOptions = {}): ParsedTranscript {
+  const format = detectTranscriptFormat(text);
+  const lines = text.split(/\r?\n/);
+
+  let segments: TranscriptSegment[];
+  if (format === 'vtt' || format === 'srt') {
+    segments = parseCueTranscript(lines);
+  } else if (format === 'labeled') {
+    segments = parseLabeledTranscript(lines);
+  } else {
+    segments = [{ speaker: null, role: 'unknown', text: text.trim(), start_seconds: null, end_seconds: null }];
+  }
+
+  const speakers = Array.from(
+    new Set(segments.map(s => s.speaker).filter((s): s is string => s !== null))
+  );
+  const speaker_roles = identifySpeakerRoles(speakers, options.consultantNames);
+
+  segments.forEach(segment => {
+    segment.role = segment.speaker ? speaker_roles[segment.speaker] : 'unknown';
+  });
+
+  return { format, segments, speakers, speaker_roles };
+}
+
+export function roleToTaskOwner(role: SpeakerRole): TaskOwner | null {
+  if (role === 'consultant') return 'Leonardo';
+  if (role === 'client') return 'Cliente';
+  return null;
+}
+
+function oppositeRole(role: SpeakerRole): SpeakerRole {
+  if (role === 'consultant') return 'client';
+  if (role === 'client') return 'consultant';
+  return 'unknown';
+}
+
+const COMMITMENT_INDICATORS = [
+  /vou\s+([^.!?]{10,60})/gi,
+  /vamos\s+([^.!?]{10,60})/gi,
+  /preciso\s+([^.!?]{10,60})/gi,
+  /tem\s+que\s+([^.!?]{10,60})/gi,
+];
+
+const DELEGATION_INDICATORS = [
+  /(?:você|vc)\s+(?:vai|precisa|pode)\s+([^.!?]{10,60})/gi,
+  /(?:você|vc)\s+tem\s+que\s+([^.!?]{10,60})/gi,
+];
+
+function collectMatches(patterns: RegExp[], text: string, minLength: number): string[] {
+  const results: string[] = [];
+
+  patterns.forEach(pattern => {
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[1]) {
+        const value = match[1].trim();
+        if (value.length >= minLength) {
+          results.push(value);
+        }
+      }
+    }
+  });
+
+  return results;
+}
+
+function extractSpeakerCommitments(parsed: ParsedTranscript): SpeakerCommitment[] {
+  const commitments: SpeakerCommitment[] = [];
+  const seen = new Set<string>();
+
+  const add = (commitment: string, speaker: string | null, role: SpeakerRole) => {
+    const key = commitment.toLowerCase();
+    if (seen.has(key)) return;
+    seen.add(key);
+    commitments.push({ commitment, speaker, owner: roleToTaskOwner(role) });
+  };
+
+  parsed.segments.forEach(segment => {
+    const text = cleanTranscript(segment.text);
+
+    collectMatches(DELEGATION_INDICATORS, text, 15).forEach(commitment => {
+      add(commitment, segment.speaker, oppositeRole(segment.role));
+    });
+
+    collectMatches(COMMITMENT_INDICATORS, text, 15).forEach(commitment => {
+      add(commitment, segment.speaker, segment.role);
+    });
+  });
+
+  return commitments;
+}
+
+function significantWords(text: string): Set<string> {
+  return new Set(
+    normalizeName(text)
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 3)
+  );
+}
+
+export function inferTaskOwner(taskText: string, commitments: SpeakerCommitment[]): TaskOwner | null {
+  const taskWords = significantWords(taskText);
+  if (taskWords.size === 0) return null;
+
+  let bestOwner: TaskOwner | null = null;
+  let bestScore = 0;
+
+  commitments.forEach(({ commitment, owner }) => {
+    if (!owner) return;
+
+    const commitmentWords = significantWords(commitment);
+    if (commitmentWords.size === 0) return;
+
+    const overlap = Array.from(commitmentWords).filter(word => taskWords.has(word)).length;
+    const score = overlap / Math.min(commitmentWords.size, taskWords.size);
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestOwner = owner;
+    }
+  });
+
+  return bestScore >= 0.4 ? bestOwner : null;
+}
+
 export function cleanTranscript(text: string): string {
   let cleaned = text;
 
@@ -84,7 +430,7 @@ export function analyzeStructure(text: string): StructuredTranscript {
   };
 }
 
-export function extractEntities(text: string): ExtractedEntities {
+export function extractEntities(text: string, parsed?: ParsedTranscript): ExtractedEntities {
   const monetaryPattern = /R\$\s*(\d{1,3}(?:\.\d{3})*(?:,\d{2})?|\d+(?:,\d{2})?)\s*(mil|milhão|milhões|bilhão|bilhões)?/gi;
   const monetary_values: Array<{ value: number; context: string }> = [];
 
@@ -160,26 +506,11 @@ export function extractEntities(text: string): ExtractedEntities {
     }
   });
 
-  const commitmentIndicators = [
-    /vou\s+([^.!?]{10,60})/gi,
-    /vamos\s+([^.!?]{10,60})/gi,
-    /preciso\s+([^.!?]{10,60})/gi,
-    /tem\s+que\s+([^.!?]{10,60})/gi,
-  ];
-
-  const commitments_made: string[] = [];
+  const commitments_made = collectMatches(COMMITMENT_INDICATORS, text, 15);
 
-  commitmentIndicators.forEach(pattern => {
-    let commitmentMatch;
-    while ((commitmentMatch = pattern.exec(text)) !== null) {
-      if (commitmentMatch[1]) {
-        const commitment = commitmentMatch[1].trim();
-        if (commitment.length >= 15) {
-          commitments_made.push(commitment);
-        }
-      }
-    }
-  });
+  const commitments_by_speaker = parsed && parsed.speakers.length > 0
+    ? extractSpeakerCommitments(parsed)
+    : commitments_made.map(commitment => ({ commitment, speaker: null, owner: null }));
 
   return {
     monetary_values: monetary_values.slice(0, 10),
@@ -187,6 +518,7 @@ export function extractEntities(text: string): ExtractedEntities {
     financial_products: Array.from(new Set(financial_products)),
     problems_identified: Array.from(new Set(problems_identified)).slice(0, 5),
     commitments_made: Array.from(new Set(commitments_made)).slice(0, 8),
+    commitments_by_speaker: commitments_by_speaker.slice(0, 12),
   };
 }
 
@@ -297,12 +629,130 @@ export function prepareForEmbedding(
   return parts.join('\n');
 }
 
-export function processTranscript(text: string): ProcessedTranscript {
-  const cleaned_text = cleanTranscript(text);
+export interface ChunkOptions {
+  maxWords?: number;
+  overlapWords?: number;
+  header?: string;
+}
+
+export interface TokenChunkOptions {
+  maxTokens?: number;
+  overlapTokens?: number;
+}
+
+// Rough average for Portuguese text on BPE tokenizers; errs on the side of overestimating
+const CHARS_PER_TOKEN = 3.5;
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(w => w.length > 0).length;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function splitLine(line: string, maxSize: number, measure: (text: string) => number): string[] {
+  const words = line.split(/\s+/).filter(w => w.length > 0);
+  const units: string[] = [];
+  let current = '';
+
+  words.forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && measure(candidate) > maxSize) {
+      units.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+
+  if (current) units.push(current);
+  return units;
+}
+
+// Groups whole lines into chunks of at most maxSize (as measured), carrying the
+// trailing lines of each chunk into the next one as overlap
+function chunkLines(
+  text: string,
+  maxSize: number,
+  overlapSize: number,
+  measure: (text: string) => number,
+  header?: string
+): string[] {
+  const units: string[] = [];
+  text.split(/\n+/).forEach(line => {
+    units.push(...splitLine(line, maxSize, measure));
+  });
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentSize = 0;
+
+  const pushChunk = () => {
+    if (current.length === 0) return;
+    const body = current.join('\n');
+    chunks.push(header && chunks.length > 0 ? `${header}\n${body}` : body);
+  };
+
+  units.forEach(unit => {
+    const unitSize = measure(unit);
+
+    if (currentSize + unitSize > maxSize && current.length > 0) {
+      pushChunk();
+
+      const overlap: string[] = [];
+      let overlapCount = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const size = measure(current[i]);
+        if (overlapCount + size > overlapSize) break;
+        overlap.unshift(current[i]);
+        overlapCount += size;
+      }
+
+      current = overlap;
+      currentSize = overlapCount;
+    }
+
+    current.push(unit);
+    currentSize += unitSize;
+  });
+
+  pushChunk();
+  return chunks;
+}
+
+export function chunkForEmbedding(text: string, options: ChunkOptions = {}): string[] {
+  const { maxWords = 220, overlapWords = 40, header } = options;
+  return chunkLines(text, maxWords, overlapWords, countWords, header);
+}
+
+export function chunkByTokens(text: string, options: TokenChunkOptions = {}): string[] {
+  const { maxTokens = 6000, overlapTokens = 200 } = options;
+  return chunkLines(text, maxTokens, overlapTokens, estimateTokens);
+}
+
+function buildCleanedText(parsed: ParsedTranscript): string {
+  if (parsed.speakers.length === 0) {
+    return cleanTranscript(parsed.segments.map(s => s.text).join(' '));
+  }
+
+  return parsed.segments
+    .map(segment => {
+      const text = cleanTranscript(segment.text);
+      return segment.speaker ? `${segment.speaker}: ${text}` : text;
+    })
+    .filter(line => line.trim().length > 0)
+    .join('\n');
+}
+
+export function processTranscript(text: string, options: ProcessTranscriptOptions = {}): ProcessedTranscript {
+  const parsed = parseTranscript(text, options);
+
+  const cleaned_text = buildCleanedText(parsed);
 
   const structure = analyzeStructure(cleaned_text);
 
-  const entities = extractEntities(cleaned_text);
+  const entities = extractEntities(cleaned_text, parsed);
 
   const metadata = generateMetadata(cleaned_text, entities);
 
@@ -310,6 +760,7 @@ export function processTranscript(text: string): ProcessedTranscript {
 
   return {
     cleaned_text,
+    parsed,
     structure,
     entities,
     metadata,
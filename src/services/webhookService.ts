@@ -1,4 +1,65 @@
 import { supabase } from '../lib/supabase';
+import type { WebhookEventStatus } from '../lib/database.types';
+import {
+  LATEST_WEBHOOK_PAYLOAD_VERSION,
+  WEBHOOK_VERSION_HEADER,
+  getWebhookEventDefinition,
+  sampleWebhookPayload,
+  type WebhookEventType,
+  type WebhookEventData,
+  type WebhookPreviousValues,
+  type WebhookPayloadVersion,
+} from '../../supabase/functions/_shared/webhookCatalog';
+import {
+  renderWebhookTemplate,
+  validateWebhookTemplate,
+  type WebhookFilter,
+} from '../../supabase/functions/_shared/webhookTransform';
+
+// The event catalog lives next to the edge functions so the dispatcher converts
+// payloads to each subscriber's version with the same definitions the app uses
+export {
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_CATALOG,
+  WEBHOOK_PAYLOAD_VERSIONS,
+  WEBHOOK_VERSION_NOTES,
+  WEBHOOK_VERSION_HEADER,
+  LATEST_WEBHOOK_PAYLOAD_VERSION,
+  getWebhookEventDefinition,
+  groupWebhookEvents,
+  webhookEventSchema,
+  sampleWebhookPayload,
+  clientEventData,
+  clientPreviousValues,
+  meetingEventData,
+  taskEventData,
+} from '../../supabase/functions/_shared/webhookCatalog';
+export type {
+  WebhookEventType,
+  WebhookEventData,
+  WebhookPreviousValues,
+  WebhookPayloadVersion,
+  WebhookEventDefinition,
+} from '../../supabase/functions/_shared/webhookCatalog';
+// Conditions and templates are evaluated by the dispatcher with the same code as the preview
+export {
+  WEBHOOK_FILTER_OPERATORS,
+  findUnmatchedWebhookFilter,
+  describeWebhookFilter,
+  renderWebhookTemplate,
+  validateWebhookTemplate,
+  payloadPaths,
+} from '../../supabase/functions/_shared/webhookTransform';
+export type { WebhookFilter, WebhookFilterOperator } from '../../supabase/functions/_shared/webhookTransform';
+
+// Retry timing lives next to the edge functions so the queue view describes the
+// same schedule the webhook-dispatcher applies
+export {
+  CIRCUIT_BREAKER_THRESHOLD,
+  WEBHOOK_PROBE_EVENT,
+  retrySchedule,
+  formatDelay,
+} from '../../supabase/functions/_shared/webhookRetry';
 
 export interface WebhookConfig {
   id: string;
@@ -10,10 +71,19 @@ export interface WebhookConfig {
   events: string[];
   headers: Record<string, string>;
   http_method: string;
+  payload_version: WebhookPayloadVersion;
+  filters: WebhookFilter[];
+  payload_template: string | null;
   created_at: string;
   updated_at: string;
   last_triggered_at: string | null;
   failure_count: number;
+  // Set while deliveries are paused after repeated failures; cleared by a successful health check
+  circuit_opened_at: string | null;
+  next_probe_at: string | null;
+  last_probe_at: string | null;
+  probe_attempts: number;
+  last_error: string | null;
 }
 
 export interface WebhookDeliveryLog {
@@ -41,32 +111,21 @@ export interface WebhookEventQueue {
   scheduled_for: string;
   attempts: number;
   max_attempts: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: WebhookEventStatus;
+  last_error: string | null;
+  last_status_code: number | null;
+  dead_lettered_at: string | null;
+  replay_count: number;
   created_at: string;
   processed_at: string | null;
 }
 
-export interface WebhookEvent {
-  event_type: string;
-  data: unknown;
-  previous_values?: unknown;
+export interface WebhookEvent<E extends WebhookEventType = WebhookEventType> {
+  event_type: E;
+  data: WebhookEventData<E>;
+  previous_values?: WebhookPreviousValues<E>;
 }
 
-export const WEBHOOK_EVENTS = {
-  CLIENT_CREATED: 'client.created',
-  CLIENT_UPDATED: 'client.updated',
-  CLIENT_DELETED: 'client.deleted',
-  CLIENT_STATUS_CHANGED: 'client.status_changed',
-  CLIENT_METADATA_UPDATED: 'client.metadata_updated',
-  MEETING_CREATED: 'meeting.created',
-  MEETING_SUMMARY_GENERATED: 'meeting.summary_generated',
-  EMAIL_GENERATED: 'email.generated',
-  TASK_CREATED: 'task.created',
-  TASK_COMPLETED: 'task.completed',
-} as const;
-
-export type WebhookEventType = typeof WEBHOOK_EVENTS[keyof typeof WEBHOOK_EVENTS];
-
 // Generate a random secret key for HMAC signing
 export function generateSecretKey(): string {
   const array = new Uint8Array(32);
@@ -88,6 +147,18 @@ export async function createWebhookSignature(payload: string, secret: string): P
   return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
 }
 
+function validateDeliveryRules(config: { filters?: WebhookFilter[]; payload_template?: string | null }) {
+  const incomplete = (config.filters || []).find(filter => !filter.path.trim() || (filter.operator !== 'exists' && filter.value.trim() === ''));
+  if (incomplete) {
+    throw new Error('Every condition needs a field and a value');
+  }
+
+  if (config.payload_template) {
+    const templateError = validateWebhookTemplate(config.payload_template);
+    if (templateError) throw new Error(templateError);
+  }
+}
+
 // Get all webhook configurations for current user
 export async function getWebhookConfigs(): Promise<WebhookConfig[]> {
   const { data, error } = await supabase
@@ -119,10 +190,15 @@ export async function createWebhookConfig(config: {
   headers?: Record<string, string>;
   http_method?: string;
   secret_key?: string;
+  payload_version?: WebhookPayloadVersion;
+  filters?: WebhookFilter[];
+  payload_template?: string | null;
 }): Promise<WebhookConfig> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('User not authenticated');
 
+  validateDeliveryRules(config);
+
   const secretKey = config.secret_key || generateSecretKey();
 
   const { data, error } = await supabase
@@ -135,6 +211,9 @@ export async function createWebhookConfig(config: {
       events: config.events,
       headers: config.headers || {},
       http_method: config.http_method || 'POST',
+      payload_version: config.payload_version || LATEST_WEBHOOK_PAYLOAD_VERSION,
+      filters: config.filters || [],
+      payload_template: config.payload_template?.trim() || null,
       enabled: true,
     })
     .select()
@@ -154,11 +233,19 @@ export async function updateWebhookConfig(
     headers?: Record<string, string>;
     http_method?: string;
     enabled?: boolean;
+    payload_version?: WebhookPayloadVersion;
+    filters?: WebhookFilter[];
+    payload_template?: string | null;
   }
 ): Promise<WebhookConfig> {
+  validateDeliveryRules(updates);
+
   const { data, error } = await supabase
     .from('webhook_configurations')
-    .update(updates)
+    .update({
+      ...updates,
+      ...(updates.payload_template !== undefined ? { payload_template: updates.payload_template?.trim() || null } : {}),
+    })
     .eq('id', id)
     .select()
     .single();
@@ -224,64 +311,26 @@ export async function getAllWebhookLogs(limit: number = 100): Promise<WebhookDel
   return data || [];
 }
 
-// Queue a webhook event for delivery
-export async function queueWebhookEvent(
-  webhookConfigId: string,
-  eventType: string,
-  eventId: string,
-  payload: unknown
-): Promise<void> {
-  const { error } = await supabase
-    .from('webhook_events_queue')
-    .insert({
-      webhook_config_id: webhookConfigId,
-      event_type: eventType,
-      event_id: eventId,
-      payload,
-      status: 'pending',
-      scheduled_for: new Date().toISOString(),
-    });
-
-  if (error) throw error;
-}
-
-// Trigger webhooks for a specific event
-export async function triggerWebhooks(
-  eventType: WebhookEventType,
-  data: unknown,
-  previousValues?: unknown
+// Trigger webhooks for a specific event. Payloads are built at the latest catalog
+// version; the dispatcher converts them for webhooks subscribed to an older one.
+// The envelope is built and queued by the database, the same way the edge functions
+// and database triggers queue their events.
+export async function triggerWebhooks<E extends WebhookEventType>(
+  eventType: E,
+  data: WebhookEventData<E>,
+  previousValues?: WebhookPreviousValues<E>
 ): Promise<void> {
   try {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return;
 
-    // Get all enabled webhooks for this user that listen to this event
-    const { data: webhooks } = await supabase
-      .from('webhook_configurations')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('enabled', true)
-      .contains('events', [eventType]);
-
-    if (!webhooks || webhooks.length === 0) return;
-
-    const eventId = `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const timestamp = new Date().toISOString();
+    const { error } = await supabase.rpc('trigger_webhooks', {
+      p_event_type: eventType,
+      p_data: data,
+      p_previous_values: previousValues ?? null,
+    });
 
-    // Build the payload
-    const payload = {
-      event_id: eventId,
-      event_type: eventType,
-      timestamp,
-      test: false,
-      data,
-      ...(previousValues ? { previous_values: previousValues } : {}),
-    };
-
-    // Queue the event for each webhook
-    for (const webhook of webhooks) {
-      await queueWebhookEvent(webhook.id, eventType, eventId, payload);
-    }
+    if (error) throw error;
 
     // Note: The actual delivery is handled by the webhook-dispatcher edge function
     // which processes the queue asynchronously
@@ -291,8 +340,9 @@ export async function triggerWebhooks(
   }
 }
 
-// Send a test webhook
-export async function sendTestWebhook(webhookConfigId: string): Promise<{
+// Send a test webhook. With an event type, a catalog sample of that event is sent (at the
+// webhook's payload version and through its template) so receivers can exercise each handler.
+export async function sendTestWebhook(webhookConfigId: string, eventType?: string): Promise<{
   success: boolean;
   statusCode?: number;
   error?: string;
@@ -306,17 +356,31 @@ export async function sendTestWebhook(webhookConfigId: string): Promise<{
   const eventId = `evt_test_${Date.now()}`;
   const timestamp = new Date().toISOString();
 
-  const payload = {
-    event_id: eventId,
-    event_type: 'test.webhook',
-    timestamp,
-    test: true,
-    data: {
-      message: 'This is a test webhook from your application',
-      webhook_name: webhook.name,
-      webhook_id: webhookConfigId,
-    },
-  };
+  // With a template, the receiver usually only accepts its own format: test with a
+  // sample of the first subscribed event rendered through the template
+  const sampleEvent = getWebhookEventDefinition(eventType || (webhook.payload_template ? webhook.events[0] : ''));
+  const samplePayload = sampleEvent
+    ? {
+      ...sampleWebhookPayload(sampleEvent, webhook.payload_version || 1),
+      event_id: eventId,
+      timestamp,
+      test: true,
+    }
+    : null;
+  const testEventType = samplePayload ? samplePayload.event_type : 'test.webhook';
+  const payload = samplePayload
+    ? (webhook.payload_template ? renderWebhookTemplate(webhook.payload_template, samplePayload) : samplePayload)
+    : {
+      event_id: eventId,
+      event_type: 'test.webhook',
+      timestamp,
+      test: true,
+      data: {
+        message: 'This is a test webhook from your application',
+        webhook_name: webhook.name,
+        webhook_id: webhookConfigId,
+      },
+    };
 
   // Use the webhook-test edge function to avoid CORS issues
   const { data: { session } } = await supabase.auth.getSession();
@@ -335,8 +399,13 @@ export async function sendTestWebhook(webhookConfigId: string): Promise<{
         url: webhook.url,
         secret: webhook.secret_key,
         payload,
-        customHeaders: webhook.headers || {},
+        customHeaders: {
+          ...(webhook.headers || {}),
+          [WEBHOOK_VERSION_HEADER]: String(webhook.payload_version || 1),
+        },
         httpMethod: webhook.http_method || 'POST',
+        eventType: testEventType,
+        eventId,
       }),
     });
 
@@ -348,7 +417,7 @@ export async function sendTestWebhook(webhookConfigId: string): Promise<{
     // Log the test delivery
     await supabase.from('webhook_delivery_logs').insert({
       webhook_config_id: webhookConfigId,
-      event_type: 'test.webhook',
+      event_type: testEventType,
       event_id: eventId,
       payload,
       status_code: result.status || null,
@@ -374,7 +443,7 @@ export async function sendTestWebhook(webhookConfigId: string): Promise<{
     // Log the failed test
     await supabase.from('webhook_delivery_logs').insert({
       webhook_config_id: webhookConfigId,
-      event_type: 'test.webhook',
+      event_type: testEventType,
       event_id: eventId,
       payload,
       status_code: null,
@@ -460,6 +529,61 @@ export async function getAllWebhookQueue(limit: number = 100): Promise<WebhookEv
   return data || [];
 }
 
+// Send an event back to the queue with a fresh set of attempts. The event_id is kept
+// so receivers that deduplicate on it can recognise the replay.
+export async function replayWebhookEvent(event: WebhookEventQueue): Promise<void> {
+  if (event.status !== 'dead_letter' && event.status !== 'completed') {
+    throw new Error('Only dead-lettered or delivered events can be replayed');
+  }
+
+  const { error } = await supabase
+    .from('webhook_events_queue')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      scheduled_for: new Date().toISOString(),
+      last_error: null,
+      last_status_code: null,
+      dead_lettered_at: null,
+      processed_at: null,
+      replay_count: event.replay_count + 1,
+    })
+    .eq('id', event.id)
+    .eq('status', event.status);
+
+  if (error) throw error;
+}
+
+// Replay every dead-lettered event of a webhook, returns how many were requeued
+export async function replayDeadLetters(webhookConfigId: string): Promise<number> {
+  const { data: events, error } = await supabase
+    .from('webhook_events_queue')
+    .select('*')
+    .eq('webhook_config_id', webhookConfigId)
+    .eq('status', 'dead_letter');
+
+  if (error) throw error;
+  if (!events || events.length === 0) return 0;
+
+  for (const event of events) {
+    await replayWebhookEvent(event);
+  }
+
+  return events.length;
+}
+
+// Bring the next health check of a paused webhook forward and run the dispatcher now
+export async function probeWebhookNow(id: string): Promise<{ success: boolean; message: string }> {
+  const { error } = await supabase
+    .from('webhook_configurations')
+    .update({ next_probe_at: new Date().toISOString() })
+    .eq('id', id)
+    .not('circuit_opened_at', 'is', null);
+
+  if (error) throw error;
+  return forceProcessWebhooks();
+}
+
 export interface WebhookDispatcherStatus {
   enabled: boolean;
   pending_events: number;
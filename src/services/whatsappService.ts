@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabase';
+import { triggerWebhooks, WEBHOOK_EVENTS } from './webhookService';
 
 interface WhatsappConfig {
   apiKey: string;
@@ -88,6 +89,7 @@ export async function sendTasksSummary(clientId: string, phone: string): Promise
       .from('tasks')
       .select('*')
       .eq('client_id', clientId)
+      .eq('is_draft', false)
       .neq('status', 'concluida')
       .order('due_date', { ascending: true });
 
@@ -148,6 +150,16 @@ export async function sendTasksSummary(clientId: string, phone: string): Promise
     message += '\n\n_Mensagem automática do Assistente Operacional W1_';
 
     await sendWhatsAppMessage({ phone, message });
+
+    await triggerWebhooks(WEBHOOK_EVENTS.WHATSAPP_MESSAGE_SENT, {
+      client_id: clientId,
+      client_name: client.name,
+      phone: phone.replace(/\D/g, ''),
+      message_type: 'tasks_summary',
+      meeting_id: null,
+      tasks_count: tasks.length,
+      sent_at: new Date().toISOString(),
+    });
   } catch (error) {
     console.error('Error sending tasks summary:', error);
     throw error;
@@ -173,7 +185,7 @@ export async function sendMeetingSummary(meetingId: string, phone: string): Prom
     };
 
     let message = `📝 *Resumo da Reunião*\n\n`;
-    message += `Cliente: *${(meeting.client as any).name}*\n`;
+    message += `Cliente: *${meeting.client.name}*\n`;
     message += `Tipo: *${meetingTypes[meeting.type]}*\n`;
     message += `Data: ${new Date(meeting.datetime).toLocaleDateString('pt-BR')}\n\n`;
 
@@ -193,6 +205,7 @@ export async function sendMeetingSummary(meetingId: string, phone: string): Prom
       .from('tasks')
       .select('*')
       .eq('meeting_id', meetingId)
+      .eq('is_draft', false)
       .neq('status', 'concluida');
 
     if (tasks && tasks.length > 0) {
@@ -206,6 +219,16 @@ export async function sendMeetingSummary(meetingId: string, phone: string): Prom
     message += '\n_Mensagem automática do Assistente Operacional W1_';
 
     await sendWhatsAppMessage({ phone, message });
+
+    await triggerWebhooks(WEBHOOK_EVENTS.WHATSAPP_MESSAGE_SENT, {
+      client_id: meeting.client_id,
+      client_name: meeting.client.name,
+      phone: phone.replace(/\D/g, ''),
+      message_type: 'meeting_summary',
+      meeting_id: meetingId,
+      tasks_count: tasks?.length || 0,
+      sent_at: new Date().toISOString(),
+    });
   } catch (error) {
     console.error('Error sending meeting summary:', error);
     throw error;
@@ -0,0 +1,98 @@
+// Normalization and validation of Brazilian contact data (email, phone, CPF/CNPJ),
+// shared by the client import wizard and edge functions that receive client data,
+// so the same person is recognised no matter how their phone or CPF was typed.
+// Keep this file free of runtime-specific imports: it is loaded by both Vite and Deno.
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+export function normalizeEmail(value: string): string | null {
+  const email = value.trim().toLowerCase();
+  return EMAIL_PATTERN.test(email) ? email : null;
+}
+
+// Brazilian numbers with area code: 10 digits (landline) or 11 (mobile, starting with 9).
+// The country code and a trunk zero are accepted and dropped.
+export function normalizePhoneDigits(value: string): string | null {
+  let digits = value.replace(/\D/g, '');
+  if ((digits.length === 12 || digits.length === 13) && digits.startsWith('55')) {
+    digits = digits.slice(2);
+  } else if ((digits.length === 11 || digits.length === 12) && digits.startsWith('0')) {
+    digits = digits.slice(1);
+  }
+
+  if (digits.length !== 10 && digits.length !== 11) return null;
+  if (digits[0] === '0' || digits[1] === '0') return null;
+  if (digits.length === 11 && digits[2] !== '9') return null;
+
+  return digits;
+}
+
+export function formatPhone(digits: string): string {
+  const areaCode = digits.slice(0, 2);
+  const number = digits.slice(2);
+  const split = number.length === 9 ? 5 : 4;
+  return `(${areaCode}) ${number.slice(0, split)}-${number.slice(split)}`;
+}
+
+function checkDigit(digits: string, weights: number[]): number {
+  const sum = weights.reduce((total, weight, index) => total + Number(digits[index]) * weight, 0);
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+export function isValidCPF(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+
+  const first = checkDigit(digits, [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[9]) && second === Number(digits[10]);
+}
+
+export function isValidCNPJ(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 14 || /^(\d)\1{13}$/.test(digits)) return false;
+
+  const first = checkDigit(digits, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[12]) && second === Number(digits[13]);
+}
+
+export type DocumentKind = 'cpf' | 'cnpj';
+
+export interface NormalizedDocument {
+  kind: DocumentKind;
+  digits: string;
+  formatted: string;
+  // Leading zeros were added back; spreadsheets store CPFs as numbers and drop them
+  padded: boolean;
+}
+
+export function normalizeDocument(value: string): NormalizedDocument | null {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length === 0 || digits.length > 14) return null;
+
+  const kind: DocumentKind = digits.length <= 11 ? 'cpf' : 'cnpj';
+  const d = digits.padStart(kind === 'cpf' ? 11 : 14, '0');
+  const valid = kind === 'cpf' ? isValidCPF(d) : isValidCNPJ(d);
+  if (!valid) return null;
+
+  return {
+    kind,
+    digits: d,
+    formatted: kind === 'cpf'
+      ? `${d.slice(0, 3)}.${d.slice(3, 6)}.${d.slice(6, 9)}-${d.slice(9)}`
+      : `${d.slice(0, 2)}.${d.slice(2, 5)}.${d.slice(5, 8)}/${d.slice(8, 12)}-${d.slice(12)}`,
+    padded: d !== digits,
+  };
+}
+
+// Comparison key for names: case, accents and repeated spaces are ignored
+export function normalizeNameKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,122 @@
+// Typed custom client fields (custom_field_definitions): parsing and validation of a
+// value against its definition, shared by the app's metadata editor and filters and
+// the lead-intake edge function. Keep this file free of runtime-specific imports: it
+// is loaded by both Vite and Deno.
+
+export type CustomFieldType = 'text' | 'number' | 'currency' | 'date' | 'select' | 'multi_select' | 'boolean';
+export type CustomFieldValue = string | number | boolean | string[];
+
+// The columns of a custom_field_definitions row that constrain its values
+export interface CustomFieldRule {
+  key: string;
+  field_type: CustomFieldType;
+  options: string[];
+  required: boolean;
+  min_value: number | null;
+  max_value: number | null;
+  max_length: number | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isEmptyCustomFieldValue(value: unknown): boolean {
+  return value === null || value === undefined || value === '' ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+export function parseCustomFieldNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  // Accepts "1234.5", "1.234,56" and "R$ 1.234,56" (imported spreadsheets)
+  let text = value.replace(/[R$\s]/g, '');
+  if (text.includes(',')) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  }
+  const number = Number(text);
+  return text !== '' && Number.isFinite(number) ? number : null;
+}
+
+function parseBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  if (['true', 'sim', 's', '1', 'yes'].includes(text)) return true;
+  if (['false', 'não', 'nao', 'n', '0', 'no'].includes(text)) return false;
+  return null;
+}
+
+function parseDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  const brazilian = text.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  const iso = brazilian ? `${brazilian[3]}-${brazilian[2]}-${brazilian[1]}` : text.slice(0, 10);
+  if (!DATE_PATTERN.test(iso)) return null;
+  const date = new Date(`${iso}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === iso ? iso : null;
+}
+
+function matchOption(definition: CustomFieldRule, value: string): string | null {
+  const wanted = value.trim().toLowerCase();
+  return definition.options.find(option => option.toLowerCase() === wanted) ?? null;
+}
+
+/**
+ * Converts a stored or typed value to the field's type and checks its constraints.
+ * Values saved before the field was defined (or imported from spreadsheets) are
+ * plain strings, so strings are accepted for every type.
+ */
+export function parseCustomFieldValue(
+  definition: CustomFieldRule,
+  raw: unknown
+): { value: CustomFieldValue | null; error: string | null } {
+  if (isEmptyCustomFieldValue(raw)) {
+    return { value: null, error: definition.required ? 'Campo obrigatório' : null };
+  }
+
+  switch (definition.field_type) {
+    case 'text': {
+      const value = String(raw);
+      if (definition.max_length !== null && value.length > definition.max_length) {
+        return { value, error: `Máximo de ${definition.max_length} caracteres` };
+      }
+      return { value, error: null };
+    }
+    case 'number':
+    case 'currency': {
+      const value = parseCustomFieldNumber(raw);
+      if (value === null) return { value: null, error: 'Número inválido' };
+      if (definition.min_value !== null && value < definition.min_value) {
+        return { value, error: `Valor mínimo: ${definition.min_value}` };
+      }
+      if (definition.max_value !== null && value > definition.max_value) {
+        return { value, error: `Valor máximo: ${definition.max_value}` };
+      }
+      return { value, error: null };
+    }
+    case 'date': {
+      const value = parseDate(raw);
+      return value === null ? { value: null, error: 'Data inválida' } : { value, error: null };
+    }
+    case 'select': {
+      const value = matchOption(definition, String(raw));
+      return value === null ? { value: null, error: `Opção inválida: "${raw}"` } : { value, error: null };
+    }
+    case 'multi_select': {
+      const items = Array.isArray(raw) ? raw.map(String) : String(raw).split(/[;,]/);
+      const values: string[] = [];
+      for (const item of items.map(item => item.trim()).filter(Boolean)) {
+        const option = matchOption(definition, item);
+        if (option === null) return { value: null, error: `Opção inválida: "${item}"` };
+        if (!values.includes(option)) values.push(option);
+      }
+      if (values.length === 0 && definition.required) {
+        return { value: null, error: 'Campo obrigatório' };
+      }
+      return { value: values.length > 0 ? values : null, error: null };
+    }
+    case 'boolean': {
+      const value = parseBoolean(raw);
+      return value === null ? { value: null, error: 'Use sim ou não' } : { value, error: null };
+    }
+  }
+}
@@ -0,0 +1,17 @@
+// HMAC-SHA256 signing used for outgoing webhooks (dispatcher and test sends) and for
+// verifying signed lead requests. Keep this file free of runtime-specific imports: it
+// is loaded by both Vite and Deno.
+
+/** Hex-encoded HMAC-SHA256 of `payload` with `secret`. */
+export async function createHmacSignature(payload: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,286 @@
+// iCalendar (RFC 5545) builder shared by the web app (src/services/calendarService.ts)
+// and the calendar-feed edge function, so downloaded files, client invitations and the
+// subscribed feed render events identically. Keep this file free of runtime-specific
+// imports: it is loaded by both Vite and Deno.
+
+export type IcsMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export type IcsEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+
+export interface IcsPerson {
+  email: string;
+  name?: string | null;
+}
+
+export interface IcsEvent {
+  uid: string;
+  start: string | Date;
+  // Defaults to start + DEFAULT_EVENT_DURATION_MINUTES (or the next day for all-day events)
+  end?: string | Date;
+  allDay?: boolean;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status?: IcsEventStatus;
+  // Bumped whenever an invitation already sent to attendees changes
+  sequence?: number;
+  organizer?: IcsPerson | null;
+  attendees?: IcsPerson[];
+  lastModified?: string | Date | null;
+}
+
+export interface IcsCalendar {
+  name: string;
+  method?: IcsMethod;
+  // Hint for subscribing clients (Google, Outlook) on how often to refresh the feed
+  refreshIntervalMinutes?: number;
+  events: IcsEvent[];
+}
+
+export const DEFAULT_EVENT_DURATION_MINUTES = 60;
+
+const PRODUCT_ID = '-//Assistente Operacional W1//Agenda//PT-BR';
+const MAX_LINE_OCTETS = 75;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Content lines longer than 75 octets are folded with CRLF + space. Counts UTF-8 bytes
+// so accented Portuguese text is never split in the middle of a character.
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+export function formatIcsDateTime(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Task due dates are stored as dates (YYYY-MM-DD) or midnight timestamps; keep the
+// calendar day as written instead of shifting it through the viewer's time zone.
+export function formatIcsDate(value: string | Date): string {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    return value.slice(0, 10).replace(/-/g, '');
+  }
+  return formatIcsDateTime(value).slice(0, 8);
+}
+
+function formatPerson(property: 'ORGANIZER' | 'ATTENDEE', person: IcsPerson, extra: string[] = []): string {
+  const params = person.name ? [`CN="${person.name.replace(/"/g, "'")}"`, ...extra] : extra;
+  return `${[property, ...params].join(';')}:mailto:${person.email}`;
+}
+
+function buildEventLines(event: IcsEvent, stamp: string): string[] {
+  const start = new Date(event.start);
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+
+  if (event.allDay) {
+    const startDate = formatIcsDate(event.start);
+    const endDate = event.end
+      ? formatIcsDate(event.end)
+      : formatIcsDate(new Date(Date.UTC(
+        Number(startDate.slice(0, 4)), Number(startDate.slice(4, 6)) - 1, Number(startDate.slice(6, 8))
+      ) + DAY_MS));
+    lines.push(`DTSTART;VALUE=DATE:${startDate}`, `DTEND;VALUE=DATE:${endDate}`);
+  } else {
+    const end = event.end
+      ? new Date(event.end)
+      : new Date(start.getTime() + DEFAULT_EVENT_DURATION_MINUTES * MINUTE_MS);
+    lines.push(`DTSTART:${formatIcsDateTime(start)}`, `DTEND:${formatIcsDateTime(end)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  lines.push(`SEQUENCE:${event.sequence ?? 0}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatIcsDateTime(event.lastModified)}`);
+  if (event.organizer) lines.push(formatPerson('ORGANIZER', event.organizer));
+  (event.attendees || []).forEach(attendee => {
+    lines.push(formatPerson('ATTENDEE', attendee, ['ROLE=REQ-PARTICIPANT', 'PARTSTAT=NEEDS-ACTION', 'RSVP=TRUE']));
+  });
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+export function buildCalendar(calendar: IcsCalendar, now: Date = new Date()): string {
+  const stamp = formatIcsDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${calendar.method || 'PUBLISH'}`,
+    `X-WR-CALNAME:${escapeIcsText(calendar.name)}`,
+  ];
+
+  if (calendar.refreshIntervalMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshIntervalMinutes}M`,
+      `X-PUBLISHED-TTL:PT${calendar.refreshIntervalMinutes}M`
+    );
+  }
+
+  calendar.events.forEach(event => lines.push(...buildEventLines(event, stamp)));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// Shapes shared by the per-user export and the subscribed feed
+
+export interface CalendarMeeting {
+  id: string;
+  type: string;
+  datetime: string;
+  client: { name: string } | null;
+}
+
+export interface CalendarTask {
+  id: string;
+  title: string;
+  description: string | null;
+  due_date: string;
+  owner: string;
+  client: { name: string } | null;
+}
+
+export function meetingUid(meetingId: string): string {
+  return `meeting-${meetingId}@w1-portfolio`;
+}
+
+export function taskUid(taskId: string): string {
+  return `task-${taskId}@w1-portfolio`;
+}
+
+export function buildMeetingEvent(
+  meeting: CalendarMeeting,
+  meetingTypeNames: Record<string, string> = {}
+): IcsEvent {
+  const typeName = meetingTypeNames[meeting.type] || meeting.type;
+  return {
+    uid: meetingUid(meeting.id),
+    start: meeting.datetime,
+    summary: meeting.client ? `${meeting.type} · ${meeting.client.name}` : `Reunião ${meeting.type}`,
+    description: `Reunião ${typeName}${meeting.client ? ` com ${meeting.client.name}` : ''}`,
+    status: 'CONFIRMED',
+  };
+}
+
+export function buildTaskEvent(task: CalendarTask): IcsEvent {
+  return {
+    uid: taskUid(task.id),
+    start: task.due_date,
+    allDay: true,
+    summary: `Prazo: ${task.title}${task.client ? ` (${task.client.name})` : ''}`,
+    description: [task.description, `Responsável: ${task.owner}`].filter(Boolean).join('\n'),
+  };
+}
+
+interface CalendarQueryResult {
+  data: unknown[] | null;
+  error: unknown;
+}
+
+// Minimal shape of a filtered Supabase query; rows are narrowed where they are read
+interface CalendarQuery extends PromiseLike<CalendarQueryResult> {
+  eq(column: string, value: unknown): CalendarQuery;
+  gte(column: string, value: unknown): CalendarQuery;
+  not(column: string, operator: string, value: unknown): CalendarQuery;
+  or(filters: string): CalendarQuery;
+  order(column: string): CalendarQuery;
+}
+
+// Minimal shape of a Supabase client; both supabase-js builds satisfy it. `from` stays
+// unknown because checking the app's typed builders against CalendarQuery exceeds the
+// compiler's instantiation depth; selectFrom narrows it.
+export interface CalendarDataClient {
+  from(table: string): unknown;
+}
+
+function selectFrom(db: CalendarDataClient, table: string, columns: string): CalendarQuery {
+  return (db.from(table) as { select(columns: string): CalendarQuery }).select(columns);
+}
+
+export interface CalendarEventOptions {
+  includeTasks: boolean;
+  // Past events kept in the calendar so recently missed items stay visible
+  lookbackDays?: number;
+  now?: Date;
+}
+
+const DEFAULT_LOOKBACK_DAYS = 30;
+
+// Planned meetings and open task due dates of one consultant. Both the per-user
+// download (RLS-scoped client) and the feed (service role) go through here, so the
+// explicit user_id filters are what keep the feed limited to the token owner.
+export async function collectCalendarEvents(
+  db: CalendarDataClient,
+  userId: string,
+  options: CalendarEventOptions
+): Promise<IcsEvent[]> {
+  const now = options.now || new Date();
+  const since = new Date(now.getTime() - (options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS) * DAY_MS);
+
+  const [meetingsResult, typesResult, tasksResult] = await Promise.all([
+    selectFrom(db, 'meetings', 'id, type, datetime, client:clients!inner(name, user_id)')
+      .eq('client.user_id', userId)
+      .eq('status', 'planned')
+      .gte('datetime', since.toISOString())
+      .order('datetime'),
+    selectFrom(db, 'meeting_types', 'code, display_name, user_id')
+      .or(`user_id.is.null,user_id.eq.${userId}`),
+    options.includeTasks
+      ? selectFrom(db, 'tasks', 'id, title, description, due_date, owner, client:clients!inner(name, user_id)')
+        .eq('client.user_id', userId)
+        .eq('is_draft', false)
+        .not('status', 'in', '(concluida,cancelada)')
+        .gte('due_date', since.toISOString().slice(0, 10))
+        .order('due_date')
+      : Promise.resolve<CalendarQueryResult>({ data: [], error: null }),
+  ]);
+
+  if (meetingsResult.error) throw meetingsResult.error;
+  if (typesResult.error) throw typesResult.error;
+  if (tasksResult.error) throw tasksResult.error;
+
+  // The consultant's own names override the system ones for the same code
+  const typeNames: Record<string, string> = {};
+  ((typesResult.data || []) as Array<{ code: string; display_name: string; user_id: string | null }>)
+    .sort((a, b) => (a.user_id ? 1 : 0) - (b.user_id ? 1 : 0))
+    .forEach(type => {
+      typeNames[type.code] = type.display_name;
+    });
+
+  return [
+    ...((meetingsResult.data || []) as CalendarMeeting[]).map(meeting => buildMeetingEvent(meeting, typeNames)),
+    ...((tasksResult.data || []) as CalendarTask[]).map(task => buildTaskEvent(task)),
+  ];
+}
@@ -0,0 +1,236 @@
+// Request signing and field mapping for inbound leads, shared by the lead-intake
+// edge function and the settings screen that documents and previews them.
+// Keep this file free of runtime-specific imports: it is loaded by both Vite and Deno.
+
+import { normalizeDocument, normalizeEmail, normalizePhoneDigits, formatPhone } from './contact.ts';
+import { parseCustomFieldValue, type CustomFieldRule, type CustomFieldValue } from './customFields.ts';
+import { createHmacSignature } from './hmac.ts';
+
+export const LEAD_SIGNATURE_HEADER = 'X-Lead-Signature';
+export const LEAD_TIMESTAMP_HEADER = 'X-Lead-Timestamp';
+export const LEAD_API_KEY_HEADER = 'X-Api-Key';
+// Signed requests older (or further in the future) than this are refused as replays
+export const LEAD_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export type LeadField =
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'revenue_bracket'
+  | 'document_number'
+  | 'address_city'
+  | 'address_state'
+  | 'financial_goals'
+  | 'notes'
+  | 'tags';
+
+// A lead field, or a key inside client_metadata.custom_fields
+export type LeadFieldTarget = LeadField | `custom:${string}`;
+
+export const LEAD_FIELDS: Array<{ key: LeadField; label: string; aliases: string[] }> = [
+  { key: 'name', label: 'Nome', aliases: ['name', 'nome', 'full_name', 'fullname', 'nome_completo', 'your_name', 'first_name'] },
+  { key: 'email', label: 'Email', aliases: ['email', 'e_mail', 'email_address', 'your_email'] },
+  { key: 'phone', label: 'Telefone', aliases: ['phone', 'telefone', 'celular', 'whatsapp', 'mobile', 'phone_number', 'fone'] },
+  { key: 'revenue_bracket', label: 'Faixa de faturamento', aliases: ['revenue_bracket', 'faturamento', 'faixa_de_faturamento', 'revenue', 'renda'] },
+  { key: 'document_number', label: 'CPF/CNPJ', aliases: ['document_number', 'cpf', 'cnpj', 'cpf_cnpj', 'documento'] },
+  { key: 'address_city', label: 'Cidade', aliases: ['address_city', 'cidade', 'city'] },
+  { key: 'address_state', label: 'Estado', aliases: ['address_state', 'estado', 'uf', 'state'] },
+  { key: 'financial_goals', label: 'Objetivos financeiros', aliases: ['financial_goals', 'objetivos', 'objetivo', 'goals'] },
+  { key: 'notes', label: 'Observações', aliases: ['notes', 'mensagem', 'message', 'observacoes', 'comentarios', 'comments'] },
+  { key: 'tags', label: 'Tags', aliases: ['tags', 'tag'] },
+];
+
+export interface MappedLead {
+  client: {
+    name: string;
+    email: string | null;
+    phone: string | null;
+    revenue_bracket: string | null;
+  };
+  metadata: {
+    document_number?: string;
+    address_city?: string;
+    address_state?: string;
+    financial_goals?: string;
+    notes?: string;
+    tags?: string[];
+    custom_fields?: Record<string, CustomFieldValue>;
+  };
+  // Normalized identifiers used to find an existing client
+  match: {
+    email: string | null;
+    phone: string | null;
+    document: string | null;
+  };
+}
+
+function aliasKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+function scalar(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(scalar).filter(Boolean).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value).trim();
+}
+
+// Reads "contact.email" style paths so nested CRM payloads can be mapped
+function readPath(payload: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, segment) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined),
+    payload
+  );
+}
+
+/**
+ * Maps a lead payload to client and metadata fields. Explicit mappings win; any
+ * remaining top-level field whose name matches a known alias ("nome", "whatsapp",
+ * "cpf"...) is picked up automatically. Returns the errors that make the lead unusable.
+ */
+export function mapLeadPayload(
+  payload: Record<string, unknown>,
+  mapping: Record<string, string> = {}
+): { lead: MappedLead | null; errors: string[] } {
+  const values = new Map<LeadFieldTarget, string>();
+
+  Object.entries(mapping).forEach(([path, target]) => {
+    const value = scalar(readPath(payload, path));
+    if (value && target) values.set(target as LeadFieldTarget, value);
+  });
+
+  const mappedPaths = new Set(Object.keys(mapping));
+  Object.entries(payload).forEach(([key, raw]) => {
+    if (mappedPaths.has(key)) return;
+    const field = LEAD_FIELDS.find(candidate => candidate.aliases.includes(aliasKey(key)));
+    const value = scalar(raw);
+    if (field && value && !values.has(field.key)) values.set(field.key, value);
+  });
+
+  const errors: string[] = [];
+  const get = (field: LeadField) => values.get(field) || '';
+
+  const rawEmail = get('email');
+  const email = rawEmail ? normalizeEmail(rawEmail) : null;
+  if (rawEmail && !email) errors.push(`Invalid email "${rawEmail}"`);
+
+  const rawPhone = get('phone');
+  const phone = rawPhone ? normalizePhoneDigits(rawPhone) : null;
+  if (rawPhone && !phone) errors.push(`Invalid phone "${rawPhone}"`);
+
+  const rawDocument = get('document_number');
+  const document = rawDocument ? normalizeDocument(rawDocument) : null;
+  if (rawDocument && !document) errors.push(`Invalid CPF/CNPJ "${rawDocument}"`);
+
+  // Forms often only ask for an email; the local part is a usable placeholder name
+  const name = get('name') || (email ? email.split('@')[0] : '');
+  if (!name) errors.push('Lead has no name');
+  if (!email && !phone) errors.push('Lead needs an email or a phone');
+
+  if (errors.length > 0) return { lead: null, errors };
+
+  const metadata: MappedLead['metadata'] = {};
+  if (document) metadata.document_number = document.formatted;
+  (['address_city', 'address_state', 'financial_goals', 'notes'] as const).forEach(field => {
+    if (get(field)) metadata[field] = get(field);
+  });
+  if (metadata.address_state) metadata.address_state = metadata.address_state.slice(0, 2).toUpperCase();
+  if (get('tags')) metadata.tags = get('tags').split(/[;,]/).map(tag => tag.trim()).filter(Boolean);
+
+  const customFields: Record<string, string> = {};
+  values.forEach((value, target) => {
+    if (target.startsWith('custom:')) customFields[target.slice('custom:'.length)] = value;
+  });
+  if (Object.keys(customFields).length > 0) metadata.custom_fields = customFields;
+
+  return {
+    lead: {
+      client: {
+        name,
+        email,
+        phone: phone ? formatPhone(phone) : null,
+        revenue_bracket: get('revenue_bracket') || null,
+      },
+      metadata,
+      match: { email, phone, document: document?.digits || null },
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Types the `custom:` values of a mapped lead with the consultant's active field
+ * definitions, as the metadata editor does. Keys without a definition are kept as
+ * received. A lead missing a required field is still accepted: forms rarely ask for them.
+ */
+export function typeLeadCustomFields(
+  lead: MappedLead,
+  definitions: CustomFieldRule[]
+): { lead: MappedLead; errors: string[] } {
+  const values = lead.metadata.custom_fields;
+  if (!values) return { lead, errors: [] };
+
+  const typed: Record<string, CustomFieldValue> = { ...values };
+  const errors: string[] = [];
+
+  definitions.filter(definition => definition.key in values).forEach(definition => {
+    const { value, error } = parseCustomFieldValue({ ...definition, required: false }, values[definition.key]);
+    if (error) {
+      errors.push(`Invalid value for custom field "${definition.key}": ${error}`);
+    } else if (value !== null) {
+      typed[definition.key] = value;
+    }
+  });
+
+  return {
+    lead: { ...lead, metadata: { ...lead.metadata, custom_fields: typed } },
+    errors,
+  };
+}
+
+// The timestamp is part of the signed message so a captured request cannot be replayed later
+export async function signLeadRequest(secret: string, timestamp: string, body: string): Promise<string> {
+  return `sha256=${await createHmacSignature(`${timestamp}.${body}`, secret)}`;
+}
+
+export async function verifyLeadSignature(
+  secret: string,
+  timestamp: string | null,
+  body: string,
+  signature: string | null,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): Promise<string | null> {
+  if (!timestamp || !signature) return 'Missing signature headers';
+
+  const sentAt = Number(timestamp);
+  if (!Number.isInteger(sentAt) || Math.abs(nowSeconds - sentAt) > LEAD_SIGNATURE_TOLERANCE_SECONDS) {
+    return 'Timestamp outside the allowed window';
+  }
+
+  const expected = await signLeadRequest(secret, timestamp, body);
+  // Constant-time comparison
+  let diff = expected.length ^ signature.length;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ (signature.charCodeAt(i) || 0);
+  }
+  return diff === 0 ? null : 'Invalid signature';
+}
+
+/**
+ * First meeting for a new lead: `delayDays` business days later at 10:00 in
+ * Brasília (UTC-3, no daylight saving since 2019).
+ */
+export function leadMeetingDatetime(delayDays: number, now: Date = new Date()): string {
+  const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 13, 0, 0));
+  let remaining = Math.max(delayDays, 0);
+  while (remaining > 0 || date.getUTCDay() === 0 || date.getUTCDay() === 6 || date <= now) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    if (date.getUTCDay() !== 0 && date.getUTCDay() !== 6) remaining = Math.max(remaining - 1, 0);
+  }
+  return date.toISOString();
+}
@@ -0,0 +1,37 @@
+// Paged reads shared by the web app and the edge functions. PostgREST caps every
+// response at max-rows (1000 by default), so lists that can outgrow it must be read
+// page by page. Keep this file free of runtime-specific imports: it is loaded by
+// both Vite and Deno.
+
+export const PAGE_SIZE = 1000;
+// Filters travel in the request URL, so `.in(...)` lists of ids are split into
+// batches of this size to stay within URL length limits
+export const ID_BATCH_SIZE = 100;
+
+// Minimal shape of a filtered Supabase query; both supabase-js builds satisfy it
+export interface PageableQuery<T> {
+  range(from: number, to: number): PromiseLike<{ data: T[] | null; error: unknown }>;
+}
+
+// Runs the query built by `buildQuery` once per page until a short page comes back.
+// The query must be ordered by a unique key (or end with one), otherwise rows can be
+// skipped or repeated between pages.
+export async function selectAllPages<T>(buildQuery: () => PageableQuery<T>): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery().range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export function inBatches<T>(items: T[], size = ID_BATCH_SIZE): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
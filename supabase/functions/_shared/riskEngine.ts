@@ -0,0 +1,565 @@
+// Risk scoring engine shared by the web app (src/services/riskService.ts) and the
+// risk-recalculation edge function, so manual and scheduled runs score clients the
+// same way. Keep this file free of runtime-specific imports: it is loaded by both
+// Vite and Deno.
+
+import { inBatches, selectAllPages } from './pagination.ts';
+
+interface RiskQueryResult {
+  data: unknown[] | null;
+  error: unknown;
+}
+
+// Minimal shape of a filtered Supabase query; rows come back untyped and are narrowed
+// where they are read
+interface RiskQuery extends PromiseLike<RiskQueryResult> {
+  eq(column: string, value: unknown): RiskQuery;
+  in(column: string, values: readonly unknown[]): RiskQuery;
+  lt(column: string, value: unknown): RiskQuery;
+  gte(column: string, value: unknown): RiskQuery;
+  order(column: string, options?: { ascending?: boolean }): RiskQuery;
+  range(from: number, to: number): PromiseLike<RiskQueryResult>;
+}
+
+// Minimal shape of a Supabase client; both supabase-js builds satisfy it. `from` stays
+// unknown because checking the app's typed builders against RiskQuery exceeds the
+// compiler's instantiation depth; selectFrom narrows it.
+export interface RiskDataClient {
+  from(table: string): unknown;
+  rpc(fn: string, args?: Record<string, unknown>): PromiseLike<{ data: unknown; error: unknown }>;
+}
+
+export interface RiskClient {
+  id: string;
+  name: string;
+  risk_score: number;
+  last_activity_date: string | null;
+}
+
+export type RiskFactorKey =
+  | 'no_advance'
+  | 'overdue_client_tasks'
+  | 'defensive_language'
+  | 'recent_completions'
+  | 'upcoming_meeting'
+  | 'sentiment_trend'
+  | 'missing_documents'
+  | 'pending_decisions'
+  | 'portal_inactivity';
+
+export type RiskClassification = 'Baixo' | 'Médio' | 'Alto';
+
+// Mirrors TranscriptMetadata['sentiment'] from the transcript processor
+export type MeetingSentiment = 'positive' | 'neutral' | 'concerned';
+
+export interface RiskSignals {
+  days_since_last_advance: number | null;
+  overdue_client_tasks: number;
+  consecutive_defensive_meetings: number;
+  completed_tasks_last_week: number;
+  days_until_next_meeting: number | null;
+  recent_sentiments: MeetingSentiment[];
+  missing_documents: string[];
+  pending_decisions: Array<{ description: string; age_days: number }>;
+  portal: { enabled: boolean; days_since_last_access: number; never_accessed: boolean } | null;
+}
+
+export interface RiskRule {
+  key: RiskFactorKey;
+  enabled: boolean;
+  weight: number;
+  threshold: number;
+}
+
+export interface RiskScoringConfig {
+  rules: RiskRule[];
+  medium_threshold: number;
+  high_threshold: number;
+}
+
+export interface StoredRiskScoringConfig {
+  rules: unknown;
+  medium_threshold: number;
+  high_threshold: number;
+}
+
+export interface RiskFactorResult {
+  key: RiskFactorKey;
+  factor: string;
+  impact: number;
+  description: string;
+}
+
+export interface RiskScoreBreakdown {
+  total_score: number;
+  classification: RiskClassification;
+  factors: RiskFactorResult[];
+}
+
+export interface RiskSnapshotInsert {
+  client_id: string;
+  event_type: string;
+  description: string;
+  score_impact: number;
+  score: number;
+  previous_score: number;
+  classification: RiskClassification;
+  previous_classification: RiskClassification;
+  factors: RiskFactorResult[];
+}
+
+interface RiskFactorDefinition {
+  label: (threshold: number) => string;
+  help: string;
+  thresholdLabel: string;
+  defaultWeight: number;
+  defaultThreshold: number;
+  defaultEnabled: boolean;
+  // Returns the evidence shown to the consultant when the factor applies, or null
+  evaluate: (signals: RiskSignals, threshold: number) => string | null;
+}
+
+export const RISK_SNAPSHOT_EVENT = 'score_recalculated';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const SENTIMENT_MEETINGS = 3;
+
+const REQUIRED_METADATA_FIELDS: Array<{ field: string; label: string }> = [
+  { field: 'document_number', label: 'documento' },
+  { field: 'birth_date', label: 'data de nascimento' },
+  { field: 'address_city', label: 'cidade' },
+  { field: 'monthly_income', label: 'renda mensal' },
+  { field: 'estimated_patrimony', label: 'patrimônio estimado' },
+];
+
+const SENTIMENT_LABELS: Record<MeetingSentiment, string> = {
+  positive: 'positivo',
+  neutral: 'neutro',
+  concerned: 'preocupado',
+};
+
+const SENTIMENT_RANK: Record<MeetingSentiment, number> = {
+  positive: 2,
+  neutral: 1,
+  concerned: 0,
+};
+
+export const RISK_FACTORS: Record<RiskFactorKey, RiskFactorDefinition> = {
+  no_advance: {
+    label: days => `Sem avanço há mais de ${days} dias`,
+    help: 'Dias desde a última atividade registrada do cliente.',
+    thresholdLabel: 'Dias sem avanço',
+    defaultWeight: 25,
+    defaultThreshold: 30,
+    defaultEnabled: true,
+    evaluate: (signals, days) =>
+      signals.days_since_last_advance !== null && signals.days_since_last_advance > days
+        ? `${signals.days_since_last_advance} dias sem avanço real`
+        : null,
+  },
+  overdue_client_tasks: {
+    label: () => 'Tarefas do cliente vencidas',
+    help: 'Tarefas com responsável "Cliente" pendentes após o prazo.',
+    thresholdLabel: 'Mínimo de tarefas vencidas',
+    defaultWeight: 20,
+    defaultThreshold: 1,
+    defaultEnabled: true,
+    evaluate: (signals, min) =>
+      signals.overdue_client_tasks >= min
+        ? `${signals.overdue_client_tasks} tarefa(s) vencida(s)`
+        : null,
+  },
+  defensive_language: {
+    label: count => `Linguagem defensiva em ${count} reuniões seguidas`,
+    help: 'Reuniões mais recentes com sinais de risco identificados no resumo.',
+    thresholdLabel: 'Reuniões seguidas',
+    defaultWeight: 15,
+    defaultThreshold: 2,
+    defaultEnabled: true,
+    evaluate: (signals, count) =>
+      signals.consecutive_defensive_meetings >= count
+        ? 'Sinais de resistência detectados'
+        : null,
+  },
+  recent_completions: {
+    label: () => 'Tarefas concluídas na última semana',
+    help: 'Tarefas concluídas nos últimos 7 dias reduzem o risco.',
+    thresholdLabel: 'Mínimo de tarefas concluídas',
+    defaultWeight: -15,
+    defaultThreshold: 2,
+    defaultEnabled: true,
+    evaluate: (signals, min) =>
+      signals.completed_tasks_last_week >= min
+        ? `${signals.completed_tasks_last_week} tarefa(s) concluída(s)`
+        : null,
+  },
+  upcoming_meeting: {
+    label: () => 'Próxima reunião agendada',
+    help: 'Uma reunião já marcada reduz o risco.',
+    thresholdLabel: 'Janela em dias',
+    defaultWeight: -10,
+    defaultThreshold: 7,
+    defaultEnabled: true,
+    evaluate: (signals, days) =>
+      signals.days_until_next_meeting !== null && signals.days_until_next_meeting <= days
+        ? `Reunião confirmada nos próximos ${days} dias`
+        : null,
+  },
+  sentiment_trend: {
+    label: () => 'Sentimento em queda nas reuniões',
+    help: 'Sentimento das transcrições mais recentes: aplica quando a última reunião foi "preocupada" e piorou em relação à anterior, ou quando as últimas reuniões seguidas foram "preocupadas".',
+    thresholdLabel: 'Reuniões preocupadas seguidas',
+    defaultWeight: 10,
+    defaultThreshold: 2,
+    defaultEnabled: false,
+    evaluate: (signals, count) => {
+      const [latest, previous] = signals.recent_sentiments;
+      if (latest !== 'concerned') return null;
+
+      let consecutive = 0;
+      while (consecutive < signals.recent_sentiments.length && signals.recent_sentiments[consecutive] === 'concerned') {
+        consecutive++;
+      }
+
+      const worsened = previous !== undefined && SENTIMENT_RANK[latest] < SENTIMENT_RANK[previous];
+      if (!worsened && consecutive < count) return null;
+
+      const sequence = [...signals.recent_sentiments].reverse().map(s => SENTIMENT_LABELS[s]).join(' → ');
+      return `Sentimento nas últimas reuniões: ${sequence}`;
+    },
+  },
+  missing_documents: {
+    label: () => 'Cadastro do cliente incompleto',
+    help: 'Dados cadastrais em falta: documento, data de nascimento, cidade, renda mensal e patrimônio estimado.',
+    thresholdLabel: 'Mínimo de dados em falta',
+    defaultWeight: 10,
+    defaultThreshold: 2,
+    defaultEnabled: false,
+    evaluate: (signals, min) =>
+      signals.missing_documents.length >= min
+        ? `Faltando: ${signals.missing_documents.join(', ')}`
+        : null,
+  },
+  pending_decisions: {
+    label: days => `Decisões pendentes há mais de ${days} dias`,
+    help: 'Decisões de reuniões ainda não marcadas como implementadas.',
+    thresholdLabel: 'Dias desde a reunião',
+    defaultWeight: 10,
+    defaultThreshold: 14,
+    defaultEnabled: false,
+    evaluate: (signals, days) => {
+      const stale = signals.pending_decisions.filter(d => d.age_days > days);
+      if (stale.length === 0) return null;
+      const oldest = Math.max(...stale.map(d => d.age_days));
+      return `${stale.length} decisão(ões) não implementada(s), a mais antiga há ${oldest} dias`;
+    },
+  },
+  portal_inactivity: {
+    label: days => `Portal sem acesso há ${days} dias ou mais`,
+    help: 'Clientes com portal liberado que não acessam há muito tempo.',
+    thresholdLabel: 'Dias sem acesso',
+    defaultWeight: 10,
+    defaultThreshold: 30,
+    defaultEnabled: false,
+    evaluate: (signals, days) => {
+      if (!signals.portal?.enabled || signals.portal.days_since_last_access < days) return null;
+      return signals.portal.never_accessed
+        ? `Portal nunca acessado (liberado há ${signals.portal.days_since_last_access} dias)`
+        : `Último acesso ao portal há ${signals.portal.days_since_last_access} dias`;
+    },
+  },
+};
+
+export const RISK_FACTOR_KEYS = Object.keys(RISK_FACTORS) as RiskFactorKey[];
+
+export const DEFAULT_RISK_SCORING_CONFIG: RiskScoringConfig = {
+  rules: RISK_FACTOR_KEYS.map(key => ({
+    key,
+    enabled: RISK_FACTORS[key].defaultEnabled,
+    weight: RISK_FACTORS[key].defaultWeight,
+    threshold: RISK_FACTORS[key].defaultThreshold,
+  })),
+  medium_threshold: 40,
+  high_threshold: 70,
+};
+
+// Stored rules are merged over the defaults so factors added later show up for everyone
+export function normalizeRiskScoringConfig(row: StoredRiskScoringConfig | null): RiskScoringConfig {
+  if (!row) return DEFAULT_RISK_SCORING_CONFIG;
+
+  const stored = new Map<string, Partial<RiskRule>>(
+    (Array.isArray(row.rules) ? row.rules : []).map((rule: Partial<RiskRule>) => [rule.key as string, rule])
+  );
+
+  return {
+    rules: DEFAULT_RISK_SCORING_CONFIG.rules.map(rule => ({ ...rule, ...stored.get(rule.key), key: rule.key })),
+    medium_threshold: row.medium_threshold,
+    high_threshold: row.high_threshold,
+  };
+}
+
+export function validateRiskScoringConfig(config: RiskScoringConfig): string | null {
+  if (config.medium_threshold < 1 || config.high_threshold > 100 || config.medium_threshold >= config.high_threshold) {
+    return 'Os limites devem estar entre 1 e 100, com o limite médio menor que o alto';
+  }
+
+  for (const rule of config.rules) {
+    if (!Number.isFinite(rule.weight) || rule.weight < -100 || rule.weight > 100) {
+      return `Peso inválido para "${RISK_FACTORS[rule.key].label(rule.threshold)}": use um valor entre -100 e 100`;
+    }
+    if (!Number.isFinite(rule.threshold) || rule.threshold < 0) {
+      return `Parâmetro inválido para "${RISK_FACTORS[rule.key].label(rule.threshold)}"`;
+    }
+  }
+
+  return null;
+}
+
+export function classifyRiskScore(score: number, config: Pick<RiskScoringConfig, 'medium_threshold' | 'high_threshold'>): RiskClassification {
+  if (score >= config.high_threshold) return 'Alto';
+  if (score >= config.medium_threshold) return 'Médio';
+  return 'Baixo';
+}
+
+export function evaluateRiskScore(signals: RiskSignals, config: RiskScoringConfig): RiskScoreBreakdown {
+  const factors: RiskFactorResult[] = [];
+
+  for (const rule of config.rules) {
+    if (!rule.enabled || rule.weight === 0) continue;
+
+    const definition = RISK_FACTORS[rule.key];
+    const evidence = definition.evaluate(signals, rule.threshold);
+    if (evidence === null) continue;
+
+    factors.push({
+      key: rule.key,
+      factor: definition.label(rule.threshold),
+      impact: rule.weight,
+      description: evidence,
+    });
+  }
+
+  const rawScore = factors.reduce((sum, factor) => sum + factor.impact, 0);
+  const totalScore = Math.max(0, Math.min(100, rawScore));
+
+  return {
+    total_score: totalScore,
+    classification: classifyRiskScore(totalScore, config),
+    factors,
+  };
+}
+
+export interface LatestRiskSnapshot {
+  client_id: string;
+  score: number | null;
+  factors: RiskFactorResult[] | null;
+}
+
+export async function getLatestRiskSnapshots(db: RiskDataClient, clientIds: string[]): Promise<Map<string, LatestRiskSnapshot>> {
+  if (clientIds.length === 0) return new Map();
+
+  const { data, error } = await db.rpc('get_latest_risk_snapshots', { p_client_ids: clientIds });
+  if (error) throw error;
+
+  const snapshots = (data || []) as LatestRiskSnapshot[];
+  return new Map(snapshots.map(snapshot => [snapshot.client_id, snapshot]));
+}
+
+// A snapshot is only stored when the score or what caused it changed since the last one.
+// Factor descriptions carry day counts that change every night, so only keys and impacts count.
+export function hasRiskSnapshotChanged(previous: LatestRiskSnapshot | undefined, breakdown: RiskScoreBreakdown): boolean {
+  if (!previous) return true;
+  if (previous.score !== breakdown.total_score) return true;
+
+  const factorKey = (factors: RiskFactorResult[]) =>
+    factors.map(factor => `${factor.key}:${factor.impact}`).sort().join('|');
+
+  return factorKey(previous.factors || []) !== factorKey(breakdown.factors);
+}
+
+export function buildRiskSnapshot(client: RiskClient, breakdown: RiskScoreBreakdown, config: RiskScoringConfig): RiskSnapshotInsert {
+  const previousClassification = classifyRiskScore(client.risk_score, config);
+  return {
+    client_id: client.id,
+    event_type: RISK_SNAPSHOT_EVENT,
+    description: `Score ${client.risk_score} → ${breakdown.total_score} (${previousClassification} → ${breakdown.classification})`,
+    score_impact: breakdown.total_score - client.risk_score,
+    score: breakdown.total_score,
+    previous_score: client.risk_score,
+    classification: breakdown.classification,
+    previous_classification: previousClassification,
+    factors: breakdown.factors,
+  };
+}
+
+function selectFrom(db: RiskDataClient, table: string, columns: string): RiskQuery {
+  return (db.from(table) as { select(columns: string): RiskQuery }).select(columns);
+}
+
+function selectAllRows<T>(buildQuery: () => RiskQuery): Promise<T[]> {
+  return selectAllPages(buildQuery) as Promise<T[]>;
+}
+
+function daysBetween(from: string, to: Date): number {
+  return Math.floor((to.getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+function hasRiskSignals(riskSignals: string | null): boolean {
+  return !!riskSignals &&
+    riskSignals.trim() !== '' &&
+    riskSignals.toLowerCase() !== 'nenhum sinal identificado';
+}
+
+// Loads everything the rule engine needs for a set of clients in a fixed number of
+// queries per batch of clients, so previews over the whole portfolio stay cheap
+export async function collectRiskSignals(db: RiskDataClient, clients: RiskClient[]): Promise<Map<string, RiskSignals>> {
+  const signals = new Map<string, RiskSignals>();
+
+  // Each client falls entirely in one batch, so per-client ordering is preserved
+  for (const batch of inBatches(clients)) {
+    const batchSignals = await collectBatchRiskSignals(db, batch);
+    batchSignals.forEach((entry, clientId) => signals.set(clientId, entry));
+  }
+
+  return signals;
+}
+
+async function collectBatchRiskSignals(db: RiskDataClient, clients: RiskClient[]): Promise<Map<string, RiskSignals>> {
+  const now = new Date();
+  const today = now.toISOString().split('T')[0];
+  const oneWeekAgo = new Date(now.getTime() - 7 * DAY_MS).toISOString();
+  const clientIds = clients.map(c => c.id);
+
+  const signals = new Map<string, RiskSignals>(
+    clients.map(client => [client.id, {
+      days_since_last_advance: client.last_activity_date ? daysBetween(client.last_activity_date, now) : null,
+      overdue_client_tasks: 0,
+      consecutive_defensive_meetings: 0,
+      completed_tasks_last_week: 0,
+      days_until_next_meeting: null,
+      recent_sentiments: [],
+      missing_documents: REQUIRED_METADATA_FIELDS.map(f => f.label),
+      pending_decisions: [],
+      portal: null,
+    }])
+  );
+
+  if (clientIds.length === 0) return signals;
+
+  // Meetings, tasks and decisions grow with each client's history, so they are paged;
+  // metadata and portal access have at most one row per client
+  const [overdueTasks, completedTasks, meetings, decisions, metadataResult, portalResult] = await Promise.all([
+    selectAllRows<{ client_id: string }>(() => selectFrom(db, 'tasks', 'client_id')
+      .in('client_id', clientIds)
+      .eq('owner', 'Cliente')
+      .eq('is_draft', false)
+      .in('status', ['pendente', 'em_andamento'])
+      .lt('due_date', today)
+      .order('id')),
+    selectAllRows<{ client_id: string }>(() => selectFrom(db, 'tasks', 'client_id')
+      .in('client_id', clientIds)
+      .eq('status', 'concluida')
+      .gte('completed_at', oneWeekAgo)
+      .order('id')),
+    selectAllRows<{
+      client_id: string;
+      datetime: string;
+      status: 'planned' | 'done';
+      risk_signals: string | null;
+      transcript_sentiment: MeetingSentiment | null;
+    }>(() => selectFrom(db, 'meetings', 'client_id, datetime, status, risk_signals, transcript_sentiment')
+      .in('client_id', clientIds)
+      .in('status', ['planned', 'done'])
+      .order('datetime', { ascending: false })
+      .order('id')),
+    selectAllRows<{ description: string; meeting: { client_id: string; datetime: string } }>(() => selectFrom(db, 'decisions', 'description, meeting:meetings!inner(client_id, datetime)')
+      .eq('is_implemented', false)
+      .in('meeting.client_id', clientIds)
+      .order('id')),
+    selectFrom(db, 'client_metadata', '*')
+      .in('client_id', clientIds),
+    selectFrom(db, 'client_portal_access', 'client_id, enabled, last_access_at, created_at')
+      .in('client_id', clientIds),
+  ]);
+
+  for (const result of [metadataResult, portalResult]) {
+    if (result.error) throw result.error;
+  }
+
+  overdueTasks.forEach(task => {
+    const entry = signals.get(task.client_id);
+    if (entry) entry.overdue_client_tasks++;
+  });
+
+  completedTasks.forEach(task => {
+    const entry = signals.get(task.client_id);
+    if (entry) entry.completed_tasks_last_week++;
+  });
+
+  const streakBroken = new Set<string>();
+  meetings.forEach(meeting => {
+    const entry = signals.get(meeting.client_id);
+    if (!entry) return;
+
+    const meetingDate = new Date(meeting.datetime);
+    if (meeting.status === 'planned') {
+      // Meetings are sorted newest first, so the last upcoming one seen is the next meeting.
+      // Planned meetings already in the past were never recorded and count as neither.
+      if (meetingDate > now) {
+        entry.days_until_next_meeting = Math.floor((meetingDate.getTime() - now.getTime()) / DAY_MS);
+      }
+      return;
+    }
+
+    if (!streakBroken.has(meeting.client_id)) {
+      if (hasRiskSignals(meeting.risk_signals)) {
+        entry.consecutive_defensive_meetings++;
+      } else {
+        streakBroken.add(meeting.client_id);
+      }
+    }
+
+    if (meeting.transcript_sentiment && entry.recent_sentiments.length < SENTIMENT_MEETINGS) {
+      entry.recent_sentiments.push(meeting.transcript_sentiment);
+    }
+  });
+
+  decisions.forEach(decision => {
+    const entry = signals.get(decision.meeting.client_id);
+    if (entry) {
+      entry.pending_decisions.push({
+        description: decision.description,
+        age_days: daysBetween(decision.meeting.datetime, now),
+      });
+    }
+  });
+
+  const metadataRows = (metadataResult.data || []) as Array<Record<string, unknown> & { client_id: string }>;
+  metadataRows.forEach(metadata => {
+    const entry = signals.get(metadata.client_id);
+    if (entry) {
+      entry.missing_documents = REQUIRED_METADATA_FIELDS
+        .filter(({ field }) => metadata[field] === null || metadata[field] === '')
+        .map(({ label }) => label);
+    }
+  });
+
+  const portalRows = (portalResult.data || []) as Array<{
+    client_id: string;
+    enabled: boolean;
+    last_access_at: string | null;
+    created_at: string;
+  }>;
+  portalRows.forEach(access => {
+    const entry = signals.get(access.client_id);
+    if (entry) {
+      entry.portal = {
+        enabled: access.enabled,
+        days_since_last_access: daysBetween(access.last_access_at || access.created_at, now),
+        never_accessed: !access.last_access_at,
+      };
+    }
+  });
+
+  return signals;
+}
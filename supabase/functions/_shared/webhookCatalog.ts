@@ -0,0 +1,1021 @@
+// Webhook event catalog: event types, the shape of each payload per version as JSON
+// Schema, sample payloads, and the conversion of a payload to an older version.
+// Shared by the app (which builds payloads at the latest version), the
+// webhook-dispatcher (which converts them to each subscriber's version) and the
+// catalog page. Keep this file free of runtime-specific imports: it is loaded by both Vite and Deno.
+
+export const WEBHOOK_EVENTS = {
+  CLIENT_CREATED: 'client.created',
+  CLIENT_UPDATED: 'client.updated',
+  CLIENT_DELETED: 'client.deleted',
+  CLIENT_STATUS_CHANGED: 'client.status_changed',
+  CLIENT_METADATA_UPDATED: 'client.metadata_updated',
+  CLIENT_RISK_CHANGED: 'client.risk_changed',
+  CLIENT_MERGED: 'client.merged',
+  MEETING_CREATED: 'meeting.created',
+  MEETING_SUMMARY_GENERATED: 'meeting.summary_generated',
+  EMAIL_GENERATED: 'email.generated',
+  TASK_CREATED: 'task.created',
+  TASK_STATUS_CHANGED: 'task.status_changed',
+  TASK_COMPLETED: 'task.completed',
+  TASK_BLOCKED: 'task.blocked',
+  TASK_UNBLOCKED: 'task.unblocked',
+  DECISION_IMPLEMENTED: 'decision.implemented',
+  DECISION_REOPENED: 'decision.reopened',
+  PORTAL_ACCESSED: 'portal.accessed',
+  WHATSAPP_MESSAGE_SENT: 'whatsapp.message_sent',
+  PAYMENT_SUCCEEDED: 'payment.succeeded',
+  PAYMENT_FAILED: 'payment.failed',
+  SUBSCRIPTION_CREATED: 'subscription.created',
+  SUBSCRIPTION_UPDATED: 'subscription.updated',
+  SUBSCRIPTION_CANCELLED: 'subscription.cancelled',
+} as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[keyof typeof WEBHOOK_EVENTS];
+
+export const WEBHOOK_VERSION_HEADER = 'X-Webhook-Version';
+
+export const WEBHOOK_PAYLOAD_VERSIONS = [1, 2] as const;
+export type WebhookPayloadVersion = typeof WEBHOOK_PAYLOAD_VERSIONS[number];
+export const LATEST_WEBHOOK_PAYLOAD_VERSION: WebhookPayloadVersion = 2;
+
+// Fields may be added within a version; renaming, moving or removing one needs a new version
+export const WEBHOOK_VERSION_NOTES: Record<WebhookPayloadVersion, string> = {
+  1: 'Original payloads.',
+  2: 'client.status_changed reports the old status in previous_values.status, like the other change events, '
+    + 'and meeting.summary_generated identifies the meeting as meeting_id instead of id.',
+};
+
+// ---------------------------------------------------------------------------
+// Payload types at the latest version
+
+export interface ClientEventData {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  status: string;
+  risk_score: number;
+  revenue_bracket: string | null;
+}
+
+export type ClientPreviousValues = Omit<ClientEventData, 'id'>;
+
+export interface MeetingEventData {
+  id: string;
+  client_id: string;
+  type: string;
+  datetime: string;
+  status: string;
+  has_transcript: boolean;
+  transcript_source: string;
+  created_at: string;
+}
+
+export interface TaskEventData {
+  id: string;
+  client_id: string;
+  meeting_id: string | null;
+  title: string;
+  owner: string;
+  status: string;
+  priority: string;
+  due_date: string;
+  created_at: string;
+}
+
+export interface DecisionEventData {
+  id: string;
+  meeting_id: string;
+  client_id: string;
+  client_name: string;
+  description: string;
+}
+
+export interface PaymentEventData {
+  id: string;
+  subscription_id: string | null;
+  plan: string | null;
+  amount: number;
+  currency: string;
+  status: string;
+  stripe_invoice_id: string | null;
+  created_at: string;
+}
+
+export interface SubscriptionEventData {
+  id: string;
+  plan: string | null;
+  plan_name: string | null;
+  status: string;
+  current_period_start: string;
+  current_period_end: string;
+  cancel_at_period_end: boolean;
+  updated_at: string;
+}
+
+export interface RiskFactorData {
+  key: string;
+  factor: string;
+  impact: number;
+  description: string;
+}
+
+export interface WebhookEventDataMap {
+  'client.created': ClientEventData & { created_at: string };
+  'client.updated': ClientEventData & { updated_at: string };
+  'client.deleted': ClientEventData & { deleted_at: string };
+  'client.status_changed': { id: string; name: string; status: string; changed_at: string };
+  'client.metadata_updated': { client_id: string; client_name: string; changed_fields: string[]; updated_at: string };
+  'client.risk_changed': {
+    id: string;
+    name: string;
+    risk_score: number;
+    classification: string;
+    direction: 'up' | 'down';
+    factors: RiskFactorData[];
+    changed_at: string;
+  };
+  'client.merged': ClientEventData & {
+    merged_client: { id: string; name: string; email: string | null; phone: string | null; status: string; created_at: string };
+    reparented: Record<string, number>;
+    merged_at: string;
+  };
+  'meeting.created': MeetingEventData;
+  'meeting.summary_generated': {
+    meeting_id: string;
+    client_id: string;
+    type: string;
+    summary: string[];
+    decisions: string[];
+    risk_signals: string;
+    suggested_tasks_count: number;
+    summary_version: number;
+    model: string | null;
+    processed_at: string;
+  };
+  'email.generated': {
+    id: string;
+    client_id: string;
+    client_name: string;
+    meeting_id: string | null;
+    subject: string;
+    has_tasks: boolean;
+    generated_at: string;
+  };
+  'task.created': TaskEventData;
+  'task.status_changed': TaskEventData & { changed_at: string };
+  'task.completed': TaskEventData & { completed_at: string };
+  'task.blocked': TaskEventData & { blocked_reason: string | null; changed_at: string };
+  'task.unblocked': TaskEventData & { changed_at: string };
+  'decision.implemented': DecisionEventData & { implemented_at: string };
+  'decision.reopened': DecisionEventData & { reopened_at: string };
+  'portal.accessed': { client_id: string; client_name: string; first_access: boolean; accessed_at: string };
+  'whatsapp.message_sent': {
+    client_id: string;
+    client_name: string;
+    phone: string;
+    message_type: 'tasks_summary' | 'meeting_summary';
+    meeting_id: string | null;
+    tasks_count: number;
+    sent_at: string;
+  };
+  'payment.succeeded': PaymentEventData;
+  'payment.failed': PaymentEventData;
+  'subscription.created': SubscriptionEventData;
+  'subscription.updated': SubscriptionEventData;
+  'subscription.cancelled': SubscriptionEventData;
+}
+
+export interface WebhookPreviousValuesMap {
+  'client.created': never;
+  'client.updated': ClientPreviousValues;
+  'client.deleted': never;
+  'client.status_changed': { status: string };
+  'client.metadata_updated': Record<string, unknown>;
+  'client.risk_changed': { risk_score: number; classification: string };
+  'client.merged': ClientPreviousValues;
+  'meeting.created': never;
+  'meeting.summary_generated': never;
+  'email.generated': never;
+  'task.created': never;
+  'task.status_changed': { status: string };
+  'task.completed': { status: string };
+  'task.blocked': never;
+  'task.unblocked': { blocked_reason: string | null };
+  'decision.implemented': never;
+  'decision.reopened': { implemented_at: string | null };
+  'portal.accessed': { last_access_at: string | null };
+  'whatsapp.message_sent': never;
+  'payment.succeeded': { status: string };
+  'payment.failed': { status: string };
+  'subscription.created': never;
+  'subscription.updated': Partial<Pick<SubscriptionEventData, 'plan' | 'status' | 'current_period_end' | 'cancel_at_period_end'>>;
+  'subscription.cancelled': { status: string };
+}
+
+export type WebhookEventData<E extends WebhookEventType> = WebhookEventDataMap[E];
+export type WebhookPreviousValues<E extends WebhookEventType> = WebhookPreviousValuesMap[E];
+
+export interface WebhookEnvelope {
+  event_id: string;
+  event_type: string;
+  timestamp: string;
+  test: boolean;
+  data: any;
+  previous_values?: any;
+}
+
+/** The client fields every client.* event carries, from a clients row. */
+export function clientEventData(client: ClientEventData): ClientEventData {
+  return {
+    id: client.id,
+    name: client.name,
+    email: client.email,
+    phone: client.phone,
+    status: client.status,
+    risk_score: client.risk_score,
+    revenue_bracket: client.revenue_bracket,
+  };
+}
+
+export function clientPreviousValues(client: ClientEventData): ClientPreviousValues {
+  return {
+    name: client.name,
+    email: client.email,
+    phone: client.phone,
+    status: client.status,
+    risk_score: client.risk_score,
+    revenue_bracket: client.revenue_bracket,
+  };
+}
+
+export function meetingEventData(meeting: {
+  id: string;
+  client_id: string;
+  type: string;
+  datetime: string;
+  status: string;
+  transcript_text?: string | null;
+  transcript_source: string;
+  created_at: string;
+}): MeetingEventData {
+  return {
+    id: meeting.id,
+    client_id: meeting.client_id,
+    type: meeting.type,
+    datetime: meeting.datetime,
+    status: meeting.status,
+    has_transcript: !!meeting.transcript_text,
+    transcript_source: meeting.transcript_source,
+    created_at: meeting.created_at,
+  };
+}
+
+export function taskEventData(task: TaskEventData): TaskEventData {
+  return {
+    id: task.id,
+    client_id: task.client_id,
+    meeting_id: task.meeting_id,
+    title: task.title,
+    owner: task.owner,
+    status: task.status,
+    priority: task.priority,
+    due_date: task.due_date,
+    created_at: task.created_at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// JSON Schemas
+
+export type JsonSchema = Record<string, unknown>;
+
+const str = (description?: string): JsonSchema => ({ type: 'string', ...(description ? { description } : {}) });
+const dateTime = (description?: string): JsonSchema => ({ ...str(description), format: 'date-time' });
+const uuid = (description?: string): JsonSchema => ({ ...str(description), format: 'uuid' });
+const int = (description?: string): JsonSchema => ({ type: 'integer', ...(description ? { description } : {}) });
+const bool = (description?: string): JsonSchema => ({ type: 'boolean', ...(description ? { description } : {}) });
+const nullable = (schema: JsonSchema): JsonSchema => ({ ...schema, type: [schema.type, 'null'] });
+const enumOf = (values: string[], description?: string): JsonSchema => ({ ...str(description), enum: values });
+const arrayOf = (items: JsonSchema, description?: string): JsonSchema => ({ type: 'array', items, ...(description ? { description } : {}) });
+
+function object(properties: Record<string, JsonSchema>, optional: string[] = []): JsonSchema {
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties).filter(key => !optional.includes(key)),
+  };
+}
+
+const CLIENT_STATUS = enumOf(['ativo', 'inativo', 'prospecto']);
+
+const CLIENT_FIELDS: Record<string, JsonSchema> = {
+  id: uuid('Client id'),
+  name: str(),
+  email: nullable(str()),
+  phone: nullable(str()),
+  status: CLIENT_STATUS,
+  risk_score: int('0-100, higher is riskier'),
+  revenue_bracket: nullable(str()),
+};
+
+const CLIENT_PREVIOUS_VALUES = object(
+  Object.fromEntries(Object.entries(CLIENT_FIELDS).filter(([key]) => key !== 'id'))
+);
+
+const MEETING_FIELDS: Record<string, JsonSchema> = {
+  id: uuid('Meeting id'),
+  client_id: uuid(),
+  type: str('Meeting type code, e.g. C1'),
+  datetime: dateTime(),
+  status: enumOf(['planned', 'done', 'no_show', 'rescheduled']),
+  has_transcript: bool(),
+  transcript_source: enumOf(['manual', 'vtt', 'srt', 'docx', 'txt']),
+  created_at: dateTime(),
+};
+
+const TASK_FIELDS: Record<string, JsonSchema> = {
+  id: uuid('Task id'),
+  client_id: uuid(),
+  meeting_id: nullable(uuid('Meeting the task came from')),
+  title: str(),
+  owner: str('Who has to do it: the consultant or the client'),
+  status: enumOf(['backlog', 'pendente', 'em_andamento', 'em_revisao', 'concluida', 'cancelada']),
+  priority: enumOf(['baixa', 'media', 'alta', 'urgente']),
+  due_date: str('YYYY-MM-DD'),
+  created_at: dateTime(),
+};
+
+const DECISION_FIELDS: Record<string, JsonSchema> = {
+  id: uuid('Decision id'),
+  meeting_id: uuid('Meeting where the decision was made'),
+  client_id: uuid(),
+  client_name: str(),
+  description: str(),
+};
+
+const PAYMENT_FIELDS: Record<string, JsonSchema> = {
+  id: uuid('Payment id'),
+  subscription_id: nullable(uuid()),
+  plan: nullable(str('Plan code, e.g. pro')),
+  amount: int('In cents'),
+  currency: str('ISO 4217, lowercase'),
+  status: enumOf(['pending', 'succeeded', 'failed']),
+  stripe_invoice_id: nullable(str()),
+  created_at: dateTime(),
+};
+
+const SUBSCRIPTION_STATUS = enumOf(['active', 'cancelled', 'expired', 'pending']);
+
+const SUBSCRIPTION_FIELDS: Record<string, JsonSchema> = {
+  id: uuid('Subscription id'),
+  plan: nullable(str('Plan code, e.g. pro')),
+  plan_name: nullable(str('Plan name as shown on the pricing page')),
+  status: SUBSCRIPTION_STATUS,
+  current_period_start: dateTime(),
+  current_period_end: dateTime(),
+  cancel_at_period_end: bool(),
+  updated_at: dateTime(),
+};
+
+const SUMMARY_FIELDS: Record<string, JsonSchema> = {
+  client_id: uuid(),
+  type: str('Meeting type code'),
+  summary: arrayOf(str(), 'Summary points'),
+  decisions: arrayOf(str(), 'Decisions recorded in the meeting'),
+  risk_signals: str(),
+  suggested_tasks_count: int(),
+  summary_version: int('Increments every time the summary is regenerated'),
+  model: nullable(str('Model that wrote the summary')),
+  processed_at: dateTime(),
+};
+
+const SAMPLE_CLIENT: ClientEventData = {
+  id: '7c1e4b7a-2f0e-4d5b-9a51-3f6a1c2b9d10',
+  name: 'Maria Silva',
+  email: 'maria@example.com',
+  phone: '(11) 98765-4321',
+  status: 'ativo',
+  risk_score: 35,
+  revenue_bracket: '10k-30k',
+};
+
+const SAMPLE_MEETING: MeetingEventData = {
+  id: '0b9f3d52-6a1c-4e8f-8d2b-5c7e9a1f4b63',
+  client_id: SAMPLE_CLIENT.id,
+  type: 'C1',
+  datetime: '2026-01-20T13:00:00.000Z',
+  status: 'planned',
+  has_transcript: false,
+  transcript_source: 'manual',
+  created_at: '2026-01-15T12:00:00.000Z',
+};
+
+const SAMPLE_TASK: TaskEventData = {
+  id: '4d2a8e61-9b3f-4c7d-a1e5-6f8b2c9d0e17',
+  client_id: SAMPLE_CLIENT.id,
+  meeting_id: SAMPLE_MEETING.id,
+  title: 'Enviar extratos dos últimos 3 meses',
+  owner: 'Cliente',
+  status: 'pendente',
+  priority: 'media',
+  due_date: '2026-01-27',
+  created_at: '2026-01-20T14:05:00.000Z',
+};
+
+const SAMPLE_DECISION: DecisionEventData = {
+  id: '5a7c9e1b-3d5f-4a6b-8c0d-2e4f6a8b0c13',
+  meeting_id: SAMPLE_MEETING.id,
+  client_id: SAMPLE_CLIENT.id,
+  client_name: SAMPLE_CLIENT.name,
+  description: 'Montar reserva de emergência de 6 meses',
+};
+
+const SAMPLE_PAYMENT: PaymentEventData = {
+  id: '8b6d4f2a-0c8e-4a6b-9d1f-3e5a7c9b1d24',
+  subscription_id: '1c3e5a7b-9d1f-4b3c-8e5a-7c9d1e3f5a36',
+  plan: 'pro',
+  amount: 19700,
+  currency: 'brl',
+  status: 'succeeded',
+  stripe_invoice_id: 'in_1QxYz2AbCdEfGhIj',
+  created_at: '2026-02-01T09:00:00.000Z',
+};
+
+const SAMPLE_SUBSCRIPTION: SubscriptionEventData = {
+  id: SAMPLE_PAYMENT.subscription_id!,
+  plan: 'pro',
+  plan_name: 'Pro',
+  status: 'active',
+  current_period_start: '2026-02-01T09:00:00.000Z',
+  current_period_end: '2026-03-03T09:00:00.000Z',
+  cancel_at_period_end: false,
+  updated_at: '2026-02-01T09:00:00.000Z',
+};
+
+const SAMPLE_SUMMARY = {
+  client_id: SAMPLE_CLIENT.id,
+  type: 'C1',
+  summary: ['Levantamento de receitas, despesas e objetivos', 'Cliente quer quitar o financiamento do carro'],
+  decisions: ['Montar reserva de emergência de 6 meses'],
+  risk_signals: 'Nenhum sinal identificado',
+  suggested_tasks_count: 3,
+  summary_version: 1,
+  model: 'gpt-4o-mini',
+  processed_at: '2026-01-20T14:00:00.000Z',
+};
+
+interface EventVersion {
+  data: JsonSchema;
+  previous_values?: JsonSchema;
+  sample: { data: unknown; previous_values?: unknown };
+}
+
+export interface WebhookEventDefinition {
+  type: WebhookEventType;
+  label: string;
+  description: string;
+  // Only the versions where the payload changed; later versions reuse the closest earlier one
+  versions: Partial<Record<WebhookPayloadVersion, EventVersion>> & { 1: EventVersion };
+  // downgrade[n] converts a version n payload into version n - 1
+  downgrade?: Partial<Record<WebhookPayloadVersion, (payload: WebhookEnvelope) => WebhookEnvelope>>;
+}
+
+export const WEBHOOK_EVENT_CATALOG: WebhookEventDefinition[] = [
+  {
+    type: 'client.created',
+    label: 'Client Created',
+    description: 'A client was added by hand, by a spreadsheet import or by an inbound lead.',
+    versions: {
+      1: {
+        data: object({ ...CLIENT_FIELDS, created_at: dateTime() }),
+        sample: { data: { ...SAMPLE_CLIENT, status: 'prospecto', created_at: '2026-01-15T12:00:00.000Z' } },
+      },
+    },
+  },
+  {
+    type: 'client.updated',
+    label: 'Client Updated',
+    description: 'Any field of the client record changed. previous_values holds the values before the change.',
+    versions: {
+      1: {
+        data: object({ ...CLIENT_FIELDS, updated_at: dateTime() }),
+        previous_values: CLIENT_PREVIOUS_VALUES,
+        sample: {
+          data: { ...SAMPLE_CLIENT, updated_at: '2026-01-15T12:00:00.000Z' },
+          previous_values: { ...clientPreviousValues(SAMPLE_CLIENT), phone: null },
+        },
+      },
+    },
+  },
+  {
+    type: 'client.deleted',
+    label: 'Client Deleted',
+    description: 'A client was deleted. data is the record as it was before deletion.',
+    versions: {
+      1: {
+        data: object({ ...CLIENT_FIELDS, deleted_at: dateTime() }),
+        sample: { data: { ...SAMPLE_CLIENT, status: 'inativo', deleted_at: '2026-01-15T12:00:00.000Z' } },
+      },
+    },
+  },
+  {
+    type: 'client.status_changed',
+    label: 'Client Status Changed',
+    description: 'The client moved between prospecto, ativo and inativo. Sent together with client.updated.',
+    versions: {
+      1: {
+        data: object({
+          id: uuid('Client id'),
+          name: str(),
+          status: CLIENT_STATUS,
+          previous_status: CLIENT_STATUS,
+          changed_at: dateTime(),
+        }),
+        sample: {
+          data: {
+            id: SAMPLE_CLIENT.id,
+            name: SAMPLE_CLIENT.name,
+            status: 'ativo',
+            previous_status: 'prospecto',
+            changed_at: '2026-01-15T12:00:00.000Z',
+          },
+        },
+      },
+      2: {
+        data: object({ id: uuid('Client id'), name: str(), status: CLIENT_STATUS, changed_at: dateTime() }),
+        previous_values: object({ status: CLIENT_STATUS }),
+        sample: {
+          data: { id: SAMPLE_CLIENT.id, name: SAMPLE_CLIENT.name, status: 'ativo', changed_at: '2026-01-15T12:00:00.000Z' },
+          previous_values: { status: 'prospecto' },
+        },
+      },
+    },
+    downgrade: {
+      2: ({ previous_values, ...payload }) => ({
+        ...payload,
+        data: { ...payload.data, previous_status: payload.data.previous_status ?? previous_values?.status ?? null },
+      }),
+    },
+  },
+  {
+    type: 'client.metadata_updated',
+    label: 'Client Profile Updated',
+    description: 'The extended profile (document, address, goals, custom fields...) changed. Custom fields are listed '
+      + 'as custom_fields.<key> and their old values are under previous_values.custom_fields.',
+    versions: {
+      1: {
+        data: object({
+          client_id: uuid(),
+          client_name: str(),
+          changed_fields: arrayOf(str(), 'Names of the profile fields that changed'),
+          updated_at: dateTime(),
+        }),
+        previous_values: { type: 'object', description: 'Previous value of each changed field' },
+        sample: {
+          data: {
+            client_id: SAMPLE_CLIENT.id,
+            client_name: SAMPLE_CLIENT.name,
+            changed_fields: ['address_city'],
+            updated_at: '2026-01-15T12:00:00.000Z',
+          },
+          previous_values: { address_city: 'Campinas' },
+        },
+      },
+    },
+  },
+  {
+    type: 'client.risk_changed',
+    label: 'Client Risk Changed',
+    description: 'The risk classification (Baixo, Médio, Alto) changed after a recalculation.',
+    versions: {
+      1: {
+        data: object({
+          id: uuid('Client id'),
+          name: str(),
+          risk_score: int(),
+          classification: enumOf(['Baixo', 'Médio', 'Alto']),
+          direction: enumOf(['up', 'down']),
+          factors: arrayOf(object({ key: str(), factor: str(), impact: { type: 'number' }, description: str() })),
+          changed_at: dateTime(),
+        }),
+        previous_values: object({ risk_score: int(), classification: enumOf(['Baixo', 'Médio', 'Alto']) }),
+        sample: {
+          data: {
+            id: SAMPLE_CLIENT.id,
+            name: SAMPLE_CLIENT.name,
+            risk_score: 72,
+            classification: 'Alto',
+            direction: 'up',
+            factors: [{ key: 'overdue_client_tasks', factor: 'Tarefas do cliente vencidas', impact: 20, description: '3 tarefas vencidas há mais de 7 dias' }],
+            changed_at: '2026-01-15T03:00:00.000Z',
+          },
+          previous_values: { risk_score: 48, classification: 'Médio' },
+        },
+      },
+    },
+  },
+  {
+    type: 'client.merged',
+    label: 'Client Merged',
+    description: 'A duplicate client was merged into this one. merged_client is the record that no longer exists.',
+    versions: {
+      1: {
+        data: object({
+          ...CLIENT_FIELDS,
+          merged_client: object({
+            id: uuid(),
+            name: str(),
+            email: nullable(str()),
+            phone: nullable(str()),
+            status: CLIENT_STATUS,
+            created_at: dateTime(),
+          }),
+          reparented: { type: 'object', additionalProperties: { type: 'integer' }, description: 'Rows moved per table' },
+          merged_at: dateTime(),
+        }),
+        previous_values: CLIENT_PREVIOUS_VALUES,
+        sample: {
+          data: {
+            ...SAMPLE_CLIENT,
+            merged_client: {
+              id: '9e8d7c6b-5a49-4382-9170-6f5e4d3c2b1a',
+              name: 'Maria S.',
+              email: null,
+              phone: '(11) 98765-4321',
+              status: 'prospecto',
+              created_at: '2026-01-10T12:00:00.000Z',
+            },
+            reparented: { meetings: 2, tasks: 5, email_drafts: 1, conversation_history: 0 },
+            merged_at: '2026-01-15T12:00:00.000Z',
+          },
+          previous_values: { ...clientPreviousValues(SAMPLE_CLIENT), phone: null },
+        },
+      },
+    },
+  },
+  {
+    type: 'meeting.created',
+    label: 'Meeting Created',
+    description: 'A meeting was scheduled or recorded, including follow-ups scheduled automatically.',
+    versions: {
+      1: { data: object(MEETING_FIELDS), sample: { data: SAMPLE_MEETING } },
+    },
+  },
+  {
+    type: 'meeting.summary_generated',
+    label: 'Meeting Summary Generated',
+    description: 'The transcript of a meeting was summarised, or its summary was regenerated.',
+    versions: {
+      1: {
+        data: object({ id: uuid('Meeting id'), ...SUMMARY_FIELDS }),
+        sample: { data: { id: SAMPLE_MEETING.id, ...SAMPLE_SUMMARY } },
+      },
+      2: {
+        data: object({ meeting_id: uuid(), ...SUMMARY_FIELDS }),
+        sample: { data: { meeting_id: SAMPLE_MEETING.id, ...SAMPLE_SUMMARY } },
+      },
+    },
+    downgrade: {
+      2: payload => {
+        if (!('meeting_id' in payload.data)) return payload;
+        const { meeting_id, ...data } = payload.data;
+        return { ...payload, data: { id: meeting_id, ...data } };
+      },
+    },
+  },
+  {
+    type: 'email.generated',
+    label: 'Email Generated',
+    description: 'A follow-up email draft was generated for a client.',
+    versions: {
+      1: {
+        data: object({
+          id: uuid('Draft id'),
+          client_id: uuid(),
+          client_name: str(),
+          meeting_id: nullable(uuid()),
+          subject: str(),
+          has_tasks: bool('Whether the draft lists pending tasks'),
+          generated_at: dateTime(),
+        }),
+        sample: {
+          data: {
+            id: '2f4e6a8c-1b3d-4f5a-9c7e-8d0b2a4c6e81',
+            client_id: SAMPLE_CLIENT.id,
+            client_name: SAMPLE_CLIENT.name,
+            meeting_id: SAMPLE_MEETING.id,
+            subject: 'Resumo da nossa reunião',
+            has_tasks: true,
+            generated_at: '2026-01-20T14:10:00.000Z',
+          },
+        },
+      },
+    },
+  },
+  {
+    type: 'task.created',
+    label: 'Task Created',
+    description: 'A task was created for a client.',
+    versions: {
+      1: { data: object(TASK_FIELDS), sample: { data: SAMPLE_TASK } },
+    },
+  },
+  {
+    type: 'task.status_changed',
+    label: 'Task Status Changed',
+    description: 'A task moved to another Kanban column. Completing a task also sends task.completed.',
+    versions: {
+      1: {
+        data: object({ ...TASK_FIELDS, changed_at: dateTime() }),
+        previous_values: object({ status: TASK_FIELDS.status }),
+        sample: {
+          data: { ...SAMPLE_TASK, status: 'em_andamento', changed_at: '2026-01-22T10:15:00.000Z' },
+          previous_values: { status: 'pendente' },
+        },
+      },
+    },
+  },
+  {
+    type: 'task.completed',
+    label: 'Task Completed',
+    description: 'A task was marked as concluída.',
+    versions: {
+      1: {
+        data: object({ ...TASK_FIELDS, completed_at: dateTime() }),
+        previous_values: object({ status: TASK_FIELDS.status }),
+        sample: {
+          data: { ...SAMPLE_TASK, status: 'concluida', completed_at: '2026-01-25T18:30:00.000Z' },
+          previous_values: { status: 'pendente' },
+        },
+      },
+    },
+  },
+  {
+    type: 'task.blocked',
+    label: 'Task Blocked',
+    description: 'A task was marked as blocked, usually while waiting on the client or a third party.',
+    versions: {
+      1: {
+        data: object({ ...TASK_FIELDS, blocked_reason: nullable(str()), changed_at: dateTime() }),
+        sample: {
+          data: { ...SAMPLE_TASK, blocked_reason: 'Aguardando acesso ao internet banking', changed_at: '2026-01-23T16:40:00.000Z' },
+        },
+      },
+    },
+  },
+  {
+    type: 'task.unblocked',
+    label: 'Task Unblocked',
+    description: 'A blocked task can move again. previous_values holds the reason it was blocked.',
+    versions: {
+      1: {
+        data: object({ ...TASK_FIELDS, changed_at: dateTime() }),
+        previous_values: object({ blocked_reason: nullable(str()) }),
+        sample: {
+          data: { ...SAMPLE_TASK, changed_at: '2026-01-24T11:00:00.000Z' },
+          previous_values: { blocked_reason: 'Aguardando acesso ao internet banking' },
+        },
+      },
+    },
+  },
+  {
+    type: 'decision.implemented',
+    label: 'Decision Implemented',
+    description: 'A decision recorded in a meeting was marked as implemented.',
+    versions: {
+      1: {
+        data: object({ ...DECISION_FIELDS, implemented_at: dateTime() }),
+        sample: { data: { ...SAMPLE_DECISION, implemented_at: '2026-02-10T15:20:00.000Z' } },
+      },
+    },
+  },
+  {
+    type: 'decision.reopened',
+    label: 'Decision Reopened',
+    description: 'A decision marked as implemented was set back to pending.',
+    versions: {
+      1: {
+        data: object({ ...DECISION_FIELDS, reopened_at: dateTime() }),
+        previous_values: object({ implemented_at: nullable(dateTime()) }),
+        sample: {
+          data: { ...SAMPLE_DECISION, reopened_at: '2026-02-12T09:00:00.000Z' },
+          previous_values: { implemented_at: '2026-02-10T15:20:00.000Z' },
+        },
+      },
+    },
+  },
+  {
+    type: 'portal.accessed',
+    label: 'Portal Accessed',
+    description: 'The client opened their portal. Reported at most once every 30 minutes per client.',
+    versions: {
+      1: {
+        data: object({
+          client_id: uuid(),
+          client_name: str(),
+          first_access: bool('Whether this is the first time the client opened the portal'),
+          accessed_at: dateTime(),
+        }),
+        previous_values: object({ last_access_at: nullable(dateTime()) }),
+        sample: {
+          data: { client_id: SAMPLE_CLIENT.id, client_name: SAMPLE_CLIENT.name, first_access: false, accessed_at: '2026-01-21T20:05:00.000Z' },
+          previous_values: { last_access_at: '2026-01-18T19:30:00.000Z' },
+        },
+      },
+    },
+  },
+  {
+    type: 'whatsapp.message_sent',
+    label: 'WhatsApp Message Sent',
+    description: 'A task or meeting summary was sent to the client on WhatsApp.',
+    versions: {
+      1: {
+        data: object({
+          client_id: uuid(),
+          client_name: str(),
+          phone: str('Digits only'),
+          message_type: enumOf(['tasks_summary', 'meeting_summary']),
+          meeting_id: nullable(uuid('Set for meeting summaries')),
+          tasks_count: int('Open tasks listed in the message'),
+          sent_at: dateTime(),
+        }),
+        sample: {
+          data: {
+            client_id: SAMPLE_CLIENT.id,
+            client_name: SAMPLE_CLIENT.name,
+            phone: '11987654321',
+            message_type: 'meeting_summary',
+            meeting_id: SAMPLE_MEETING.id,
+            tasks_count: 3,
+            sent_at: '2026-01-20T14:20:00.000Z',
+          },
+        },
+      },
+    },
+  },
+  {
+    type: 'payment.succeeded',
+    label: 'Payment Succeeded',
+    description: 'A subscription payment was received. previous_values is present when a failed or pending payment went through later.',
+    versions: {
+      1: {
+        data: object(PAYMENT_FIELDS),
+        previous_values: object({ status: PAYMENT_FIELDS.status }),
+        sample: { data: SAMPLE_PAYMENT },
+      },
+    },
+  },
+  {
+    type: 'payment.failed',
+    label: 'Payment Failed',
+    description: 'A subscription payment was declined. Stripe retries it; a later success sends payment.succeeded.',
+    versions: {
+      1: {
+        data: object(PAYMENT_FIELDS),
+        previous_values: object({ status: PAYMENT_FIELDS.status }),
+        sample: { data: { ...SAMPLE_PAYMENT, status: 'failed' } },
+      },
+    },
+  },
+  {
+    type: 'subscription.created',
+    label: 'Subscription Created',
+    description: 'A plan subscription started, after a checkout or a downgrade to the free plan.',
+    versions: {
+      1: { data: object(SUBSCRIPTION_FIELDS), sample: { data: SAMPLE_SUBSCRIPTION } },
+    },
+  },
+  {
+    type: 'subscription.updated',
+    label: 'Subscription Updated',
+    description: 'The plan, status, billing period or cancellation of the subscription changed. previous_values holds only the fields that changed.',
+    versions: {
+      1: {
+        data: object(SUBSCRIPTION_FIELDS),
+        previous_values: object(
+          {
+            plan: SUBSCRIPTION_FIELDS.plan,
+            status: SUBSCRIPTION_STATUS,
+            current_period_end: dateTime(),
+            cancel_at_period_end: bool(),
+          },
+          ['plan', 'status', 'current_period_end', 'cancel_at_period_end']
+        ),
+        sample: {
+          data: { ...SAMPLE_SUBSCRIPTION, cancel_at_period_end: true, updated_at: '2026-02-15T10:00:00.000Z' },
+          previous_values: { cancel_at_period_end: false },
+        },
+      },
+    },
+  },
+  {
+    type: 'subscription.cancelled',
+    label: 'Subscription Cancelled',
+    description: 'A subscription ended or was replaced by another plan. Sent together with subscription.updated.',
+    versions: {
+      1: {
+        data: object(SUBSCRIPTION_FIELDS),
+        previous_values: object({ status: SUBSCRIPTION_STATUS }),
+        sample: {
+          data: { ...SAMPLE_SUBSCRIPTION, status: 'cancelled', updated_at: '2026-03-03T09:00:00.000Z' },
+          previous_values: { status: 'active' },
+        },
+      },
+    },
+  },
+];
+
+const WEBHOOK_EVENT_GROUP_LABELS: Record<string, string> = {
+  client: 'Clients',
+  meeting: 'Meetings',
+  email: 'Emails',
+  task: 'Tasks',
+  decision: 'Decisions',
+  portal: 'Client Portal',
+  whatsapp: 'WhatsApp',
+  payment: 'Billing',
+  subscription: 'Billing',
+};
+
+/** Catalog events grouped by domain (the event type prefix), in catalog order. */
+export function groupWebhookEvents(): Array<{ label: string; events: WebhookEventDefinition[] }> {
+  const groups: Array<{ label: string; events: WebhookEventDefinition[] }> = [];
+  for (const definition of WEBHOOK_EVENT_CATALOG) {
+    const label = WEBHOOK_EVENT_GROUP_LABELS[definition.type.split('.')[0]] || 'Other';
+    const group = groups.find(existing => existing.label === label);
+    if (group) {
+      group.events.push(definition);
+    } else {
+      groups.push({ label, events: [definition] });
+    }
+  }
+  return groups;
+}
+
+export function getWebhookEventDefinition(eventType: string): WebhookEventDefinition | undefined {
+  return WEBHOOK_EVENT_CATALOG.find(definition => definition.type === eventType);
+}
+
+function resolveVersion(definition: WebhookEventDefinition, version: WebhookPayloadVersion): EventVersion {
+  for (let v = version; v >= 1; v--) {
+    const found = definition.versions[v as WebhookPayloadVersion];
+    if (found) return found;
+  }
+  return definition.versions[1];
+}
+
+export function isWebhookPayloadVersion(value: unknown): value is WebhookPayloadVersion {
+  return (WEBHOOK_PAYLOAD_VERSIONS as readonly unknown[]).includes(value);
+}
+
+/** Full JSON Schema of the payload a subscriber on `version` receives for `eventType`. */
+export function webhookEventSchema(definition: WebhookEventDefinition, version: WebhookPayloadVersion): JsonSchema {
+  const resolved = resolveVersion(definition, version);
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: `${definition.type} (v${version})`,
+    description: definition.description,
+    ...object(
+      {
+        event_id: str('Same for every webhook that receives the event and kept when it is replayed'),
+        event_type: { const: definition.type },
+        timestamp: dateTime(),
+        test: bool('true for test deliveries'),
+        data: resolved.data,
+        ...(resolved.previous_values ? { previous_values: resolved.previous_values } : {}),
+      },
+      ['previous_values']
+    ),
+  };
+}
+
+export function sampleWebhookPayload(definition: WebhookEventDefinition, version: WebhookPayloadVersion): WebhookEnvelope {
+  const { sample } = resolveVersion(definition, version);
+  return {
+    event_id: 'evt_1768478400000_k3j9x2m1q',
+    event_type: definition.type,
+    timestamp: '2026-01-15T12:00:00.000Z',
+    test: false,
+    data: sample.data,
+    ...(sample.previous_values ? { previous_values: sample.previous_values } : {}),
+  };
+}
+
+/**
+ * Converts a payload built at the latest version into `version`. Events outside the
+ * catalog (tests, health checks) are returned unchanged, and so are payloads that
+ * already have the older shape (queued before the version they would convert from).
+ */
+export function toWebhookPayloadVersion(payload: WebhookEnvelope, version: WebhookPayloadVersion): WebhookEnvelope {
+  const definition = getWebhookEventDefinition(payload.event_type);
+  if (!definition?.downgrade) return payload;
+
+  let converted = payload;
+  for (let v = LATEST_WEBHOOK_PAYLOAD_VERSION; v > version; v--) {
+    const downgrade = definition.downgrade[v as WebhookPayloadVersion];
+    if (downgrade) converted = downgrade(converted);
+  }
+  return converted;
+}
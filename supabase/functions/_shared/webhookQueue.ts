@@ -0,0 +1,29 @@
+// Queues webhook events from the edge functions. The envelope (event id, timestamp,
+// previous_values) is built by the `queue_webhook_event` database function, the same
+// one behind the app's `trigger_webhooks` and the database triggers, so every sender
+// produces identical payloads. Keep this file free of runtime-specific imports: it is
+// loaded by both Vite and Deno.
+
+import type { WebhookEventData, WebhookEventType, WebhookPreviousValues } from './webhookCatalog.ts';
+
+// Minimal shape of a service-role Supabase client; both supabase-js builds satisfy it
+export interface WebhookQueueClient {
+  rpc(fn: string, args?: Record<string, unknown>): PromiseLike<{ error: unknown }>;
+}
+
+export async function queueWebhookEvent<E extends WebhookEventType>(
+  db: WebhookQueueClient,
+  userId: string,
+  eventType: E,
+  data: WebhookEventData<E>,
+  previousValues?: WebhookPreviousValues<E>
+): Promise<void> {
+  const { error } = await db.rpc('queue_webhook_event', {
+    p_user_id: userId,
+    p_event_type: eventType,
+    p_data: data,
+    p_previous_values: previousValues ?? null,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,46 @@
+// Retry and health-check timing for webhook deliveries, shared by the
+// webhook-dispatcher and the queue view that explains the schedule.
+// Keep this file free of runtime-specific imports: it is loaded by both Vite and Deno.
+
+// Consecutive failed deliveries after which an endpoint is treated as down:
+// deliveries pause and the dispatcher probes it until it answers again
+export const CIRCUIT_BREAKER_THRESHOLD = 10;
+
+export const WEBHOOK_PROBE_EVENT = 'webhook.probe';
+
+const RETRY_BASE_SECONDS = 60;
+const RETRY_FACTOR = 5;
+const RETRY_MAX_SECONDS = 12 * 60 * 60;
+
+const PROBE_BASE_SECONDS = 5 * 60;
+const PROBE_MAX_SECONDS = 6 * 60 * 60;
+
+// ±25% so events that failed together do not all retry in the same second
+function withJitter(seconds: number, random: () => number): number {
+  return Math.round(seconds * (0.75 + random() * 0.5));
+}
+
+/** Nominal wait before retry number `attempt` (1-based), without jitter. */
+export function nominalRetryDelaySeconds(attempt: number): number {
+  return Math.min(RETRY_BASE_SECONDS * RETRY_FACTOR ** Math.max(attempt - 1, 0), RETRY_MAX_SECONDS);
+}
+
+export function retryDelaySeconds(attempt: number, random: () => number = Math.random): number {
+  return withJitter(nominalRetryDelaySeconds(attempt), random);
+}
+
+/** Wait before the next health check of a paused endpoint, doubling per failed probe. */
+export function probeDelaySeconds(failedProbes: number, random: () => number = Math.random): number {
+  return withJitter(Math.min(PROBE_BASE_SECONDS * 2 ** Math.max(failedProbes, 0), PROBE_MAX_SECONDS), random);
+}
+
+/** Nominal waits between the attempts of an event allowed `maxAttempts` deliveries. */
+export function retrySchedule(maxAttempts: number): number[] {
+  return Array.from({ length: Math.max(maxAttempts - 1, 0) }, (_, index) => nominalRetryDelaySeconds(index + 1));
+}
+
+export function formatDelay(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} min`;
+  return `${Math.round(seconds / 360) / 10} h`;
+}
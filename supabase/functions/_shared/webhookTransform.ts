@@ -0,0 +1,162 @@
+// Per-webhook delivery conditions and payload templates, shared by the
+// webhook-dispatcher and the live preview in the webhook form.
+// Keep this file free of runtime-specific imports: it is loaded by both Vite and Deno.
+
+export type WebhookFilterOperator = 'eq' | 'neq' | 'in' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'exists';
+
+export interface WebhookFilter {
+  // Event the condition applies to; null applies it to every subscribed event
+  event_type: string | null;
+  // Dotted path into the delivered payload, e.g. "data.status" or "previous_values.status"
+  path: string;
+  operator: WebhookFilterOperator;
+  value: string;
+}
+
+export const WEBHOOK_FILTER_OPERATORS: Array<{ value: WebhookFilterOperator; label: string }> = [
+  { value: 'eq', label: 'equals' },
+  { value: 'neq', label: 'does not equal' },
+  { value: 'in', label: 'is one of (comma separated)' },
+  { value: 'gt', label: 'greater than' },
+  { value: 'gte', label: 'at least' },
+  { value: 'lt', label: 'less than' },
+  { value: 'lte', label: 'at most' },
+  { value: 'contains', label: 'contains' },
+  { value: 'exists', label: 'is present' },
+];
+
+export function readPayloadPath(payload: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, segment) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined),
+    payload
+  );
+}
+
+/** Every leaf path of a payload, for suggesting condition paths and template placeholders. */
+export function payloadPaths(payload: unknown, prefix = ''): string[] {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return prefix ? [prefix] : [];
+  }
+  return Object.entries(payload as Record<string, unknown>).flatMap(([key, value]) =>
+    payloadPaths(value, prefix ? `${prefix}.${key}` : key)
+  );
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return null;
+}
+
+function sameValue(actual: unknown, expected: string): boolean {
+  const actualNumber = asNumber(actual);
+  const expectedNumber = asNumber(expected);
+  if (actualNumber !== null && expectedNumber !== null) return actualNumber === expectedNumber;
+  if (typeof actual === 'boolean') return String(actual) === expected.trim().toLowerCase();
+  if (actual === null) return expected.trim() === 'null';
+  return String(actual) === expected;
+}
+
+export function matchesWebhookFilter(filter: WebhookFilter, payload: unknown): boolean {
+  const actual = readPayloadPath(payload, filter.path);
+
+  switch (filter.operator) {
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'eq':
+      return actual !== undefined && sameValue(actual, filter.value);
+    case 'neq':
+      return actual === undefined || !sameValue(actual, filter.value);
+    case 'in':
+      return actual !== undefined && filter.value.split(',').some(option => sameValue(actual, option.trim()));
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some(item => sameValue(item, filter.value));
+      return typeof actual === 'string' && actual.toLowerCase().includes(filter.value.toLowerCase());
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const left = asNumber(actual);
+      const right = asNumber(filter.value);
+      if (left === null || right === null) return false;
+      if (filter.operator === 'gt') return left > right;
+      if (filter.operator === 'gte') return left >= right;
+      if (filter.operator === 'lt') return left < right;
+      return left <= right;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * All conditions for the payload's event must hold (conditions for other events are
+ * ignored). Returns the first condition that does not, or null when it should be delivered.
+ */
+export function findUnmatchedWebhookFilter(
+  filters: WebhookFilter[] | null | undefined,
+  payload: { event_type: string }
+): WebhookFilter | null {
+  return (filters || []).find(filter =>
+    (!filter.event_type || filter.event_type === payload.event_type) && !matchesWebhookFilter(filter, payload)
+  ) || null;
+}
+
+export function describeWebhookFilter(filter: WebhookFilter): string {
+  const operator = WEBHOOK_FILTER_OPERATORS.find(option => option.value === filter.operator)?.label || filter.operator;
+  const scope = filter.event_type ? `${filter.event_type}: ` : '';
+  return filter.operator === 'exists'
+    ? `${scope}${filter.path} ${operator}`
+    : `${scope}${filter.path} ${operator} ${filter.value}`;
+}
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w.]+)\s*\}\}$/;
+
+function interpolate(text: string, payload: unknown): unknown {
+  // A string that is only a placeholder keeps the value's type (numbers, arrays, objects)
+  const whole = text.match(WHOLE_PLACEHOLDER);
+  if (whole) {
+    const value = readPayloadPath(payload, whole[1]);
+    return value === undefined ? null : value;
+  }
+
+  return text.replace(PLACEHOLDER, (_, path: string) => {
+    const value = readPayloadPath(payload, path);
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+function renderNode(node: unknown, payload: unknown): unknown {
+  if (typeof node === 'string') return interpolate(node, payload);
+  if (Array.isArray(node)) return node.map(item => renderNode(item, payload));
+  if (node && typeof node === 'object') {
+    return Object.fromEntries(
+      Object.entries(node as Record<string, unknown>).map(([key, value]) => [key, renderNode(value, payload)])
+    );
+  }
+  return node;
+}
+
+/** Returns why the template cannot be used, or null when it is valid JSON. */
+export function validateWebhookTemplate(template: string): string | null {
+  try {
+    const parsed = JSON.parse(template);
+    if (!parsed || typeof parsed !== 'object') return 'Template must be a JSON object or array';
+    return null;
+  } catch (error) {
+    return `Template is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`;
+  }
+}
+
+/**
+ * Builds the request body from a JSON template whose strings may contain
+ * {{path}} placeholders, e.g. {"text": "{{data.name}} is now {{data.status}}"}.
+ * Missing values become null (whole-string placeholders) or an empty string.
+ */
+export function renderWebhookTemplate(template: string, payload: unknown): unknown {
+  const error = validateWebhookTemplate(template);
+  if (error) throw new Error(error);
+  return renderNode(JSON.parse(template), payload);
+}
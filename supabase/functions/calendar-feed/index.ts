@@ -0,0 +1,83 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { buildCalendar, collectCalendarEvents } from "../_shared/ics.ts";
+
+// Calendar apps fetch the feed with a plain GET and no Authorization header, so this
+// function is deployed with JWT verification disabled (--no-verify-jwt). The token in
+// the query string is the credential.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// Google Calendar ignores anything below a few hours; Outlook and Apple honour it
+const REFRESH_INTERVAL_MINUTES = 60;
+const TOKEN_PATTERN = /^[a-f0-9]{48}$/;
+
+function textResponse(message: string, status: number) {
+  return new Response(message, {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return textResponse('Method not allowed', 405);
+  }
+
+  try {
+    const url = new URL(req.url);
+    // Some calendar apps only accept URLs ending in .ics, so the suffix is tolerated
+    const token = (url.searchParams.get('token') || '').replace(/\.ics$/, '');
+
+    if (!TOKEN_PATTERN.test(token)) {
+      return textResponse('Invalid calendar token', 401);
+    }
+
+    const { data: feed, error } = await supabase
+      .from('calendar_feed_tokens')
+      .select('id, user_id, include_tasks')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!feed) {
+      return textResponse('Invalid calendar token', 401);
+    }
+
+    const events = await collectCalendarEvents(supabase, feed.user_id, { includeTasks: feed.include_tasks });
+    const body = buildCalendar({
+      name: 'Assistente W1',
+      refreshIntervalMinutes: REFRESH_INTERVAL_MINUTES,
+      events,
+    });
+
+    await supabase
+      .from('calendar_feed_tokens')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('id', feed.id);
+
+    return new Response(req.method === "HEAD" ? null : body, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="assistente-w1.ics"',
+        'Cache-Control': `private, max-age=${REFRESH_INTERVAL_MINUTES * 60}`,
+      },
+    });
+  } catch (error) {
+    console.error('Error serving calendar feed:', error);
+    return textResponse('Error generating calendar feed', 500);
+  }
+});
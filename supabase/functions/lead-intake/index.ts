@@ -0,0 +1,284 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import {
+  LEAD_API_KEY_HEADER,
+  LEAD_SIGNATURE_HEADER,
+  LEAD_TIMESTAMP_HEADER,
+  leadMeetingDatetime,
+  mapLeadPayload,
+  typeLeadCustomFields,
+  verifyLeadSignature,
+  type MappedLead,
+} from "../_shared/leadIntake.ts";
+import type { CustomFieldRule } from "../_shared/customFields.ts";
+import {
+  WEBHOOK_EVENTS,
+  clientEventData,
+  meetingEventData,
+  type WebhookEventData,
+  type WebhookEventType,
+} from "../_shared/webhookCatalog.ts";
+import { queueWebhookEvent } from "../_shared/webhookQueue.ts";
+
+// Forms and CRMs post without a Supabase session, so this function is deployed with
+// JWT verification disabled (--no-verify-jwt). Requests authenticate with the
+// X-Api-Key header and an HMAC signature made with that key's signing secret.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": `Content-Type, ${LEAD_API_KEY_HEADER}, ${LEAD_SIGNATURE_HEADER}, ${LEAD_TIMESTAMP_HEADER}`,
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+type LogStatus = 'created' | 'duplicate' | 'rejected' | 'error';
+
+interface IntakeKey {
+  id: string;
+  user_id: string;
+  signing_secret: string;
+  enabled: boolean;
+  field_mapping: Record<string, string> | null;
+  auto_schedule_meeting: boolean;
+  meeting_type: string;
+  meeting_delay_days: number;
+}
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function parseBody(body: string, contentType: string): Record<string, unknown> | null {
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(body));
+  }
+
+  try {
+    const parsed = JSON.parse(body);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeLog(key: IntakeKey, entry: {
+  status: LogStatus;
+  payload: unknown;
+  client_id?: string | null;
+  meeting_id?: string | null;
+  error_message?: string | null;
+}) {
+  const { error } = await supabase.from('lead_intake_logs').insert({
+    user_id: key.user_id,
+    intake_key_id: key.id,
+    status: entry.status,
+    client_id: entry.client_id ?? null,
+    meeting_id: entry.meeting_id ?? null,
+    payload: entry.payload,
+    error_message: entry.error_message ?? null,
+  });
+
+  if (error) console.error('Error writing lead intake log:', error);
+}
+
+// Same identifiers, same precedence as the client import: document, email, phone.
+// find_client_by_contact normalizes the stored values the same way contact.ts does.
+async function findExistingClient(userId: string, match: MappedLead['match']): Promise<string | null> {
+  const { data, error } = await supabase.rpc('find_client_by_contact', {
+    p_user_id: userId,
+    p_document: match.document,
+    p_email: match.email,
+    p_phone: match.phone,
+  });
+
+  if (error) throw error;
+  return data ?? null;
+}
+
+async function getCustomFieldRules(userId: string): Promise<CustomFieldRule[]> {
+  const { data, error } = await supabase
+    .from('custom_field_definitions')
+    .select('key, field_type, options, required, min_value, max_value, max_length')
+    .eq('user_id', userId)
+    .eq('is_active', true);
+
+  if (error) throw error;
+  return data || [];
+}
+
+// The client is already saved; a webhook problem must not turn the intake into an error
+async function queueEventSafely<E extends WebhookEventType>(userId: string, eventType: E, data: WebhookEventData<E>) {
+  try {
+    await queueWebhookEvent(supabase, userId, eventType, data);
+  } catch (error) {
+    console.error(`Error queueing ${eventType} webhook:`, error);
+  }
+}
+
+async function createLeadClient(key: IntakeKey, lead: MappedLead) {
+  const { data: client, error } = await supabase
+    .from('clients')
+    .insert({
+      user_id: key.user_id,
+      name: lead.client.name,
+      email: lead.client.email,
+      phone: lead.client.phone,
+      revenue_bracket: lead.client.revenue_bracket,
+      status: 'prospecto',
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  if (Object.keys(lead.metadata).length > 0) {
+    const { error: metadataError } = await supabase
+      .from('client_metadata')
+      .insert({ client_id: client.id, ...lead.metadata });
+
+    if (metadataError) {
+      await supabase.from('clients').delete().eq('id', client.id);
+      throw metadataError;
+    }
+  }
+
+  await queueEventSafely(key.user_id, WEBHOOK_EVENTS.CLIENT_CREATED, {
+    ...clientEventData(client),
+    created_at: client.created_at,
+  });
+
+  return client;
+}
+
+async function scheduleFirstMeeting(key: IntakeKey, clientId: string): Promise<string | null> {
+  try {
+    const { data: meeting, error } = await supabase
+      .from('meetings')
+      .insert({
+        client_id: clientId,
+        type: key.meeting_type,
+        datetime: leadMeetingDatetime(key.meeting_delay_days),
+        status: 'planned',
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await queueEventSafely(key.user_id, WEBHOOK_EVENTS.MEETING_CREATED, meetingEventData(meeting));
+
+    return meeting.id;
+  } catch (error) {
+    console.error('Error scheduling first meeting for lead:', error);
+    return null;
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const body = await req.text();
+  if (new TextEncoder().encode(body).length > MAX_BODY_BYTES) {
+    return jsonResponse({ error: 'Payload too large' }, 413);
+  }
+
+  const apiKey = req.headers.get(LEAD_API_KEY_HEADER);
+  if (!apiKey) {
+    return jsonResponse({ error: `Missing ${LEAD_API_KEY_HEADER} header` }, 401);
+  }
+
+  const { data: key, error: keyError } = await supabase
+    .from('lead_intake_keys')
+    .select('id, user_id, signing_secret, enabled, field_mapping, auto_schedule_meeting, meeting_type, meeting_delay_days')
+    .eq('key_id', apiKey)
+    .maybeSingle<IntakeKey>();
+
+  if (keyError) {
+    console.error('Error loading lead intake key:', keyError);
+    return jsonResponse({ error: 'Internal error' }, 500);
+  }
+  if (!key || !key.enabled) {
+    return jsonResponse({ error: 'Invalid or disabled API key' }, 401);
+  }
+
+  const payload = parseBody(body, req.headers.get('Content-Type') || '');
+
+  const signatureError = await verifyLeadSignature(
+    key.signing_secret,
+    req.headers.get(LEAD_TIMESTAMP_HEADER),
+    body,
+    req.headers.get(LEAD_SIGNATURE_HEADER)
+  );
+  if (signatureError) {
+    await writeLog(key, { status: 'rejected', payload, error_message: signatureError });
+    return jsonResponse({ error: signatureError }, 401);
+  }
+
+  await supabase
+    .from('lead_intake_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', key.id);
+
+  if (!payload) {
+    await writeLog(key, { status: 'rejected', payload: null, error_message: 'Body must be a JSON object or form data' });
+    return jsonResponse({ error: 'Body must be a JSON object or form data' }, 400);
+  }
+
+  const { lead: mappedLead, errors } = mapLeadPayload(payload, key.field_mapping || {});
+  if (!mappedLead) {
+    const message = errors.join('; ');
+    await writeLog(key, { status: 'rejected', payload, error_message: message });
+    return jsonResponse({ error: 'Invalid lead', details: errors }, 422);
+  }
+
+  try {
+    // Definitions are only loaded when the mapping feeds custom fields
+    const { lead, errors: customFieldErrors } = typeLeadCustomFields(
+      mappedLead,
+      mappedLead.metadata.custom_fields ? await getCustomFieldRules(key.user_id) : []
+    );
+
+    if (customFieldErrors.length > 0) {
+      await writeLog(key, { status: 'rejected', payload, error_message: customFieldErrors.join('; ') });
+      return jsonResponse({ error: 'Invalid lead', details: customFieldErrors }, 422);
+    }
+
+    const existingClientId = await findExistingClient(key.user_id, lead.match);
+    if (existingClientId) {
+      await writeLog(key, { status: 'duplicate', payload, client_id: existingClientId });
+      return jsonResponse({ status: 'duplicate', client_id: existingClientId });
+    }
+
+    const client = await createLeadClient(key, lead);
+    const meetingId = key.auto_schedule_meeting ? await scheduleFirstMeeting(key, client.id) : null;
+
+    await writeLog(key, {
+      status: 'created',
+      payload,
+      client_id: client.id,
+      meeting_id: meetingId,
+      error_message: key.auto_schedule_meeting && !meetingId ? 'Client created but the meeting could not be scheduled' : null,
+    });
+
+    return jsonResponse({ status: 'created', client_id: client.id, meeting_id: meetingId }, 201);
+  } catch (error) {
+    console.error('Error processing lead:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await writeLog(key, { status: 'error', payload, error_message: message });
+    return jsonResponse({ error: 'Internal error' }, 500);
+  }
+});
@@ -0,0 +1,290 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import {
+  buildRiskSnapshot,
+  classifyRiskScore,
+  collectRiskSignals,
+  evaluateRiskScore,
+  getLatestRiskSnapshots,
+  hasRiskSnapshotChanged,
+  normalizeRiskScoringConfig,
+  type RiskScoreBreakdown,
+  type RiskScoringConfig,
+} from "../_shared/riskEngine.ts";
+import { inBatches, selectAllPages } from "../_shared/pagination.ts";
+import { WEBHOOK_EVENTS } from "../_shared/webhookCatalog.ts";
+import { queueWebhookEvent } from "../_shared/webhookQueue.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-Internal-Secret",
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const RISK_CHANGED_EVENT = WEBHOOK_EVENTS.CLIENT_RISK_CHANGED;
+
+interface PortfolioClient {
+  id: string;
+  name: string;
+  user_id: string;
+  risk_score: number;
+  last_activity_date: string | null;
+}
+
+interface DigestClient {
+  id: string;
+  name: string;
+  risk_score: number;
+  previous_score: number;
+  previous_classification: string;
+}
+
+async function validateInternalSecret(providedSecret: string | null): Promise<boolean> {
+  if (!providedSecret) {
+    return false;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('webhook_dispatcher_config')
+      .select('internal_secret')
+      .eq('id', '00000000-0000-0000-0000-000000000001')
+      .maybeSingle();
+
+    if (error || !data) {
+      console.error('Failed to fetch internal secret:', error);
+      return false;
+    }
+
+    return data.internal_secret === providedSecret;
+  } catch (error) {
+    console.error('Error validating internal secret:', error);
+    return false;
+  }
+}
+
+async function getScoringConfig(userId: string): Promise<RiskScoringConfig> {
+  const { data, error } = await supabase
+    .from('risk_scoring_configs')
+    .select('rules, medium_threshold, high_threshold')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return normalizeRiskScoringConfig(data);
+}
+
+// Queued through the same database function as triggerWebhooks in the app, so
+// subscribers cannot tell a nightly change from one caused by a manual recalculation
+async function queueRiskChangedEvents(
+  userId: string,
+  changes: Array<{ client: PortfolioClient; breakdown: RiskScoreBreakdown; previousClassification: string }>
+) {
+  const changedAt = new Date().toISOString();
+
+  for (const { client, breakdown, previousClassification } of changes) {
+    await queueWebhookEvent(
+      supabase,
+      userId,
+      RISK_CHANGED_EVENT,
+      {
+        id: client.id,
+        name: client.name,
+        risk_score: breakdown.total_score,
+        classification: breakdown.classification,
+        direction: breakdown.total_score > client.risk_score ? 'up' : 'down',
+        factors: breakdown.factors,
+        changed_at: changedAt,
+      },
+      {
+        risk_score: client.risk_score,
+        classification: previousClassification,
+      }
+    );
+  }
+}
+
+async function recalculateConsultant(userId: string, clients: PortfolioClient[], runId: string | null) {
+  const config = await getScoringConfig(userId);
+  const movedToHigh: DigestClient[] = [];
+  const classificationChanges: Array<{ client: PortfolioClient; breakdown: RiskScoreBreakdown; previousClassification: string }> = [];
+  let scoresChanged = 0;
+
+  for (const batch of inBatches(clients)) {
+    const [signals, latestSnapshots] = await Promise.all([
+      collectRiskSignals(supabase, batch),
+      getLatestRiskSnapshots(supabase, batch.map(client => client.id)),
+    ]);
+    const results = batch.map(client => ({
+      client,
+      breakdown: evaluateRiskScore(signals.get(client.id)!, config),
+    }));
+
+    for (const { client, breakdown } of results) {
+      if (breakdown.total_score === client.risk_score) continue;
+
+      const { error } = await supabase
+        .from('clients')
+        .update({ risk_score: breakdown.total_score })
+        .eq('id', client.id);
+
+      if (error) throw error;
+      scoresChanged++;
+    }
+
+    const snapshots = results
+      .filter(({ client, breakdown }) => hasRiskSnapshotChanged(latestSnapshots.get(client.id), breakdown))
+      .map(({ client, breakdown }) => buildRiskSnapshot(client, breakdown, config));
+
+    if (snapshots.length > 0) {
+      const { error: snapshotError } = await supabase
+        .from('risk_events')
+        .insert(snapshots);
+
+      if (snapshotError) throw snapshotError;
+    }
+
+    for (const { client, breakdown } of results) {
+      const previousClassification = classifyRiskScore(client.risk_score, config);
+      if (previousClassification === breakdown.classification) continue;
+
+      classificationChanges.push({ client, breakdown, previousClassification });
+      if (breakdown.classification === 'Alto') {
+        movedToHigh.push({
+          id: client.id,
+          name: client.name,
+          risk_score: breakdown.total_score,
+          previous_score: client.risk_score,
+          previous_classification: previousClassification,
+        });
+      }
+    }
+  }
+
+  await queueRiskChangedEvents(userId, classificationChanges);
+
+  if (movedToHigh.length > 0) {
+    const { error } = await supabase
+      .from('risk_digests')
+      .insert({
+        user_id: userId,
+        run_id: runId,
+        clients: movedToHigh,
+        clients_recalculated: clients.length,
+      });
+
+    if (error) throw error;
+  }
+
+  return scoresChanged;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  let runId: string | null = null;
+
+  try {
+    const internalSecret = req.headers.get('X-Internal-Secret');
+    const isInternalCall = await validateInternalSecret(internalSecret);
+
+    if (!isInternalCall) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized: Invalid or missing internal secret' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    runId = body.run_id || null;
+
+    // Manual invocations have no run row from the cron trigger yet
+    if (!runId) {
+      const { data: run, error: runError } = await supabase
+        .from('risk_recalculation_runs')
+        .insert({ triggered_by: body.triggered_by || 'manual' })
+        .select('id')
+        .single();
+
+      if (runError) throw runError;
+      runId = run.id;
+    }
+
+    const clients = await selectAllPages<PortfolioClient>(() => supabase
+      .from('clients')
+      .select('id, name, user_id, risk_score, last_activity_date')
+      .eq('status', 'ativo')
+      .order('user_id')
+      .order('id'));
+
+    const byConsultant = new Map<string, PortfolioClient[]>();
+    clients.forEach(client => {
+      byConsultant.set(client.user_id, [...(byConsultant.get(client.user_id) || []), client]);
+    });
+
+    let scoresChanged = 0;
+    const failures: string[] = [];
+
+    // One consultant failing must not stop the others from being recalculated
+    for (const [userId, userClients] of byConsultant) {
+      try {
+        scoresChanged += await recalculateConsultant(userId, userClients, runId);
+      } catch (consultantError) {
+        console.error(`Error recalculating risk for user ${userId}:`, consultantError);
+        failures.push(`${userId}: ${consultantError instanceof Error ? consultantError.message : 'Unknown error'}`);
+      }
+    }
+
+    await supabase
+      .from('risk_recalculation_runs')
+      .update({
+        completed_at: new Date().toISOString(),
+        clients_processed: clients.length,
+        scores_changed: scoresChanged,
+        success: failures.length === 0,
+        error_message: failures.length > 0 ? failures.join('\n') : null,
+      })
+      .eq('id', runId);
+
+    return new Response(
+      JSON.stringify({
+        message: 'Risk recalculation completed',
+        consultants: byConsultant.size,
+        processed: clients.length,
+        scores_changed: scoresChanged,
+        failures: failures.length,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in risk recalculation:', error);
+
+    if (runId) {
+      await supabase
+        .from('risk_recalculation_runs')
+        .update({
+          completed_at: new Date().toISOString(),
+          success: false,
+          error_message: error instanceof Error ? error.message : 'Unknown error',
+        })
+        .eq('id', runId);
+    }
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
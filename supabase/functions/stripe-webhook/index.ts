@@ -52,6 +52,11 @@ Deno.serve(async (req: Request) => {
         await handleInvoicePaymentSucceeded(invoice);
         break;
       }
+      case 'invoice.payment_failed': {
+        const invoice = event.data.object as Stripe.Invoice;
+        await handleInvoicePaymentFailed(invoice);
+        break;
+      }
       case 'customer.subscription.updated': {
         const subscription = event.data.object as Stripe.Subscription;
         await handleSubscriptionUpdated(subscription);
@@ -174,7 +179,8 @@ async function handleInvoicePaymentSucceeded(invoice: Stripe.Invoice) {
     .eq('id', subscription.id);
 
   if (invoice.amount_paid) {
-    await supabase.from('payment_transactions').insert({
+    // A retried charge reuses the payment intent of the failed attempt: update that row
+    await supabase.from('payment_transactions').upsert({
       user_id: subscription.user_id,
       subscription_id: subscription.id,
       stripe_payment_intent_id: invoice.payment_intent as string,
@@ -183,12 +189,46 @@ async function handleInvoicePaymentSucceeded(invoice: Stripe.Invoice) {
       currency: invoice.currency || 'brl',
       status: 'succeeded',
       payment_method_type: 'card',
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'stripe_payment_intent_id',
     });
   }
 
   console.log('Invoice payment succeeded for subscription:', subscriptionId);
 }
 
+async function handleInvoicePaymentFailed(invoice: Stripe.Invoice) {
+  const subscriptionId = invoice.subscription as string;
+
+  const { data: subscription } = await supabase
+    .from('subscriptions')
+    .select('id, user_id')
+    .eq('stripe_subscription_id', subscriptionId)
+    .maybeSingle();
+
+  if (!subscription) {
+    console.error('Subscription not found for invoice:', invoice.id);
+    return;
+  }
+
+  await supabase.from('payment_transactions').upsert({
+    user_id: subscription.user_id,
+    subscription_id: subscription.id,
+    stripe_payment_intent_id: invoice.payment_intent as string,
+    stripe_invoice_id: invoice.id,
+    amount: invoice.amount_due,
+    currency: invoice.currency || 'brl',
+    status: 'failed',
+    payment_method_type: 'card',
+    updated_at: new Date().toISOString(),
+  }, {
+    onConflict: 'stripe_payment_intent_id',
+  });
+
+  console.log('Invoice payment failed for subscription:', subscriptionId);
+}
+
 async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
   const { data: dbSubscription } = await supabase
     .from('subscriptions')
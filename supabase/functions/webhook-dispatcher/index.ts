@@ -1,5 +1,24 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import {
+  CIRCUIT_BREAKER_THRESHOLD,
+  WEBHOOK_PROBE_EVENT,
+  probeDelaySeconds,
+  retryDelaySeconds,
+} from "../_shared/webhookRetry.ts";
+import {
+  LATEST_WEBHOOK_PAYLOAD_VERSION,
+  WEBHOOK_VERSION_HEADER,
+  isWebhookPayloadVersion,
+  toWebhookPayloadVersion,
+  type WebhookPayloadVersion,
+} from "../_shared/webhookCatalog.ts";
+import {
+  describeWebhookFilter,
+  findUnmatchedWebhookFilter,
+  renderWebhookTemplate,
+} from "../_shared/webhookTransform.ts";
+import { createHmacSignature } from "../_shared/hmac.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,19 +30,6 @@ const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-async function createHmacSignature(payload: string, secret: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const key = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(secret),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
-  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
-}
-
 async function validateInternalSecret(providedSecret: string | null): Promise<boolean> {
   if (!providedSecret) {
     return false;
@@ -48,172 +54,241 @@ async function validateInternalSecret(providedSecret: string | null): Promise<bo
   }
 }
 
+interface DeliveryResult {
+  success: boolean;
+  statusCode: number | null;
+  responseBody: string | null;
+  responseHeaders: Record<string, string> | null;
+  errorMessage: string | null;
+  duration: number;
+}
+
+function subscribedVersion(webhook: any): WebhookPayloadVersion {
+  return isWebhookPayloadVersion(webhook.payload_version) ? webhook.payload_version : LATEST_WEBHOOK_PAYLOAD_VERSION;
+}
+
+async function sendWebhookRequest(webhook: any, eventType: string, eventId: string, payload: unknown): Promise<DeliveryResult> {
+  const payloadString = JSON.stringify(payload);
+  const signature = await createHmacSignature(payloadString, webhook.secret_key);
+
+  // Build headers - start with just Content-Type and custom headers
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'ClientHub-Webhooks/1.0',
+    'X-Event-Type': eventType,
+    'X-Delivery-ID': eventId,
+    'X-Webhook-Signature': `sha256=${signature}`,
+    'X-Webhook-Timestamp': Math.floor(Date.now() / 1000).toString(),
+    [WEBHOOK_VERSION_HEADER]: String(subscribedVersion(webhook)),
+    ...webhook.headers,
+  };
+
+  const startTime = Date.now();
+  const result: DeliveryResult = {
+    success: false,
+    statusCode: null,
+    responseBody: null,
+    responseHeaders: null,
+    errorMessage: null,
+    duration: 0,
+  };
+
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+    const method = webhook.http_method || 'POST';
+    const fetchOptions: RequestInit = {
+      method: method,
+      headers,
+      signal: controller.signal,
+    };
+
+    // Add body for methods that support it
+    if (method !== 'GET' && method !== 'HEAD' && method !== 'DELETE') {
+      fetchOptions.body = payloadString;
+    }
+
+    // Detailed logging for debugging
+    console.log('🚀 Sending webhook:', {
+      url: webhook.url,
+      method: method,
+      payloadPreview: payloadString.substring(0, 500),
+      payloadLength: payloadString.length,
+      headersCount: Object.keys(headers).length,
+      eventType,
+      eventId,
+    });
+
+    const response = await fetch(webhook.url, fetchOptions);
+
+    clearTimeout(timeoutId);
+
+    result.statusCode = response.status;
+    result.success = response.status >= 200 && response.status < 300;
+    result.responseBody = (await response.text()).substring(0, 10000);
+    result.responseHeaders = Object.fromEntries(response.headers.entries());
+    if (!result.success) {
+      result.errorMessage = `HTTP ${response.status}`;
+    }
+
+    // Log response details
+    console.log('✅ Webhook response:', {
+      statusCode: result.statusCode,
+      success: result.success,
+      responseBodyPreview: result.responseBody?.substring(0, 200),
+      responseBodyLength: result.responseBody?.length || 0,
+      duration: Date.now() - startTime,
+    });
+  } catch (err) {
+    result.errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    console.error('❌ Webhook delivery failed:', {
+      error: result.errorMessage,
+      url: webhook.url,
+      method: webhook.http_method || 'POST',
+      eventType,
+    });
+  }
+
+  result.duration = Date.now() - startTime;
+  return result;
+}
+
+async function logDelivery(webhookId: string, eventType: string, eventId: string, payload: unknown, attemptNumber: number, result: DeliveryResult) {
+  await supabase.from('webhook_delivery_logs').insert({
+    webhook_config_id: webhookId,
+    event_type: eventType,
+    event_id: eventId,
+    payload,
+    status_code: result.statusCode,
+    response_body: result.responseBody,
+    response_headers: result.responseHeaders,
+    attempt_number: attemptNumber,
+    error_message: result.errorMessage,
+    duration_ms: result.duration,
+    success: result.success,
+  });
+}
+
+async function deadLetterEvent(event: any, attempts: number, errorMessage: string, statusCode: number | null = null) {
+  const now = new Date().toISOString();
+  await supabase
+    .from('webhook_events_queue')
+    .update({
+      status: 'dead_letter',
+      attempts,
+      last_error: errorMessage,
+      last_status_code: statusCode,
+      dead_lettered_at: now,
+      processed_at: now,
+    })
+    .eq('id', event.id);
+}
+
 async function processWebhookEvent(event: any) {
   try {
     const { data: webhook, error: webhookError } = await supabase
       .from('webhook_configurations')
       .select('*')
       .eq('id', event.webhook_config_id)
-      .eq('enabled', true)
       .maybeSingle();
 
     if (webhookError || !webhook) {
-      console.error('Webhook config not found or disabled:', event.webhook_config_id);
+      console.error('Webhook config not found:', event.webhook_config_id);
+      await deadLetterEvent(event, event.attempts, 'Webhook configuration not found');
+      return;
+    }
+
+    // Disabled after the event was picked up: return it to the queue, it is sent once
+    // the webhook is enabled again
+    if (!webhook.enabled) {
       await supabase
         .from('webhook_events_queue')
-        .update({ status: 'failed', processed_at: new Date().toISOString() })
+        .update({ status: 'pending' })
         .eq('id', event.id);
       return;
     }
 
-    if (webhook.failure_count >= 10) {
-      console.log('Webhook has too many failures, skipping:', webhook.id);
+    // The endpoint is down: hold the event until the next health check instead of
+    // spending its attempts
+    if (webhook.circuit_opened_at) {
       await supabase
         .from('webhook_events_queue')
-        .update({ status: 'failed', processed_at: new Date().toISOString() })
+        .update({
+          status: 'pending',
+          scheduled_for: webhook.next_probe_at || new Date(Date.now() + probeDelaySeconds(0) * 1000).toISOString(),
+        })
         .eq('id', event.id);
       return;
     }
 
-    const payloadString = JSON.stringify(event.payload);
-    const signature = await createHmacSignature(payloadString, webhook.secret_key);
-
-    // Build headers - start with just Content-Type and custom headers
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'User-Agent': 'ClientHub-Webhooks/1.0',
-      'X-Event-Type': event.event_type,
-      'X-Delivery-ID': event.event_id,
-      'X-Webhook-Signature': `sha256=${signature}`,
-      'X-Webhook-Timestamp': Math.floor(Date.now() / 1000).toString(),
-      ...webhook.headers,
-    };
+    // Queued payloads are at the latest version; send the shape this webhook subscribed to
+    const payload = toWebhookPayloadVersion(event.payload, subscribedVersion(webhook));
 
-    const startTime = Date.now();
-    let success = false;
-    let statusCode: number | null = null;
-    let responseBody: string | null = null;
-    let responseHeaders: Record<string, string> | null = null;
-    let errorMessage: string | null = null;
-
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-      const method = webhook.http_method || 'POST';
-      const fetchOptions: RequestInit = {
-        method: method,
-        headers,
-        signal: controller.signal,
-      };
-
-      // Add body for methods that support it
-      if (method !== 'GET' && method !== 'HEAD' && method !== 'DELETE') {
-        fetchOptions.body = payloadString;
-      }
+    const unmatched = findUnmatchedWebhookFilter(webhook.filters, payload);
+    if (unmatched) {
+      await supabase
+        .from('webhook_events_queue')
+        .update({
+          status: 'filtered',
+          last_error: `Condition not met: ${describeWebhookFilter(unmatched)}`,
+          processed_at: new Date().toISOString(),
+        })
+        .eq('id', event.id);
+      return;
+    }
 
-      // Detailed logging for debugging
-      console.log('🚀 Sending webhook:', {
-        url: webhook.url,
-        method: method,
-        payloadPreview: payloadString.substring(0, 500),
-        payloadLength: payloadString.length,
-        headersCount: Object.keys(headers).length,
-        eventType: event.event_type,
-        eventId: event.event_id,
-      });
-
-      const response = await fetch(webhook.url, fetchOptions);
-
-      clearTimeout(timeoutId);
-
-      statusCode = response.status;
-      success = statusCode >= 200 && statusCode < 300;
-      responseBody = (await response.text()).substring(0, 10000);
-      responseHeaders = Object.fromEntries(response.headers.entries());
-
-      // Log response details
-      console.log('✅ Webhook response:', {
-        statusCode,
-        success,
-        responseBodyPreview: responseBody?.substring(0, 200),
-        responseBodyLength: responseBody?.length || 0,
-        duration: Date.now() - startTime,
-      });
-
-      if (success) {
-        await supabase
-          .from('webhook_configurations')
-          .update({
-            failure_count: 0,
-            last_triggered_at: new Date().toISOString(),
-          })
-          .eq('id', webhook.id);
-
-        await supabase
-          .from('webhook_events_queue')
-          .update({
-            status: 'completed',
-            processed_at: new Date().toISOString(),
-          })
-          .eq('id', event.id);
-      } else {
-        await handleWebhookFailure(event, webhook);
+    let body: unknown = payload;
+    if (webhook.payload_template) {
+      try {
+        body = renderWebhookTemplate(webhook.payload_template, payload);
+      } catch (err) {
+        // Retrying cannot fix a broken template; park the event until it is corrected and replayed
+        await deadLetterEvent(event, event.attempts, `Payload template error: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        return;
       }
-    } catch (err) {
-      errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      console.error('❌ Webhook delivery failed:', {
-        error: errorMessage,
-        url: webhook.url,
-        method: webhook.http_method || 'POST',
-        eventType: event.event_type,
-      });
-      await handleWebhookFailure(event, webhook);
     }
 
-    const duration = Date.now() - startTime;
-
-    await supabase.from('webhook_delivery_logs').insert({
-      webhook_config_id: webhook.id,
-      event_type: event.event_type,
-      event_id: event.event_id,
-      payload: event.payload,
-      status_code: statusCode,
-      response_body: responseBody,
-      response_headers: responseHeaders,
-      attempt_number: event.attempts + 1,
-      error_message: errorMessage,
-      duration_ms: duration,
-      success,
-    });
+    const result = await sendWebhookRequest(webhook, event.event_type, event.event_id, body);
+
+    if (result.success) {
+      await supabase
+        .from('webhook_configurations')
+        .update({
+          failure_count: 0,
+          last_error: null,
+          last_triggered_at: new Date().toISOString(),
+        })
+        .eq('id', webhook.id);
+
+      await supabase
+        .from('webhook_events_queue')
+        .update({
+          status: 'completed',
+          attempts: event.attempts + 1,
+          last_error: null,
+          last_status_code: result.statusCode,
+          processed_at: new Date().toISOString(),
+        })
+        .eq('id', event.id);
+    } else {
+      await handleWebhookFailure(event, webhook, result);
+    }
+
+    await logDelivery(webhook.id, event.event_type, event.event_id, body, event.attempts + 1, result);
   } catch (error) {
     console.error('Error processing webhook event:', error);
   }
 }
 
-async function handleWebhookFailure(event: any, webhook: any) {
+async function handleWebhookFailure(event: any, webhook: any, result: DeliveryResult) {
   const newAttempts = event.attempts + 1;
-  
-  if (newAttempts >= event.max_attempts) {
-    await supabase
-      .from('webhook_events_queue')
-      .update({
-        status: 'failed',
-        attempts: newAttempts,
-        processed_at: new Date().toISOString(),
-      })
-      .eq('id', event.id);
+  const errorMessage = result.errorMessage || 'Delivery failed';
 
-    await supabase
-      .from('webhook_configurations')
-      .update({
-        failure_count: webhook.failure_count + 1,
-      })
-      .eq('id', webhook.id);
+  if (newAttempts >= event.max_attempts) {
+    await deadLetterEvent(event, newAttempts, errorMessage, result.statusCode);
   } else {
-    const backoffDelays = [60, 300, 1800, 7200, 43200];
-    const delaySeconds = backoffDelays[newAttempts - 1] || 43200;
-    const nextAttempt = new Date(Date.now() + delaySeconds * 1000);
+    const nextAttempt = new Date(Date.now() + retryDelaySeconds(newAttempts) * 1000);
 
     await supabase
       .from('webhook_events_queue')
@@ -221,16 +296,96 @@ async function handleWebhookFailure(event: any, webhook: any) {
         attempts: newAttempts,
         scheduled_for: nextAttempt.toISOString(),
         status: 'pending',
+        last_error: errorMessage,
+        last_status_code: result.statusCode,
       })
       .eq('id', event.id);
+  }
 
-    await supabase
-      .from('webhook_configurations')
-      .update({
-        failure_count: webhook.failure_count + 1,
-      })
-      .eq('id', webhook.id);
+  // Events of the same webhook fail concurrently, so the count is incremented in the database
+  const { data: opensCircuit, error } = await supabase.rpc('record_webhook_failure', {
+    p_webhook_id: webhook.id,
+    p_error: errorMessage,
+    p_threshold: CIRCUIT_BREAKER_THRESHOLD,
+    p_probe_delay_seconds: probeDelaySeconds(0),
+  });
+
+  if (error) {
+    console.error('Error recording webhook failure:', error);
+  } else if (opensCircuit) {
+    console.log('Webhook reached the failure threshold, pausing deliveries:', webhook.id);
+  }
+}
+
+// Sends a signed webhook.probe event to paused endpoints whose health check is due.
+// A 2xx resumes deliveries and releases the events held while the endpoint was down.
+async function probePausedWebhooks(): Promise<number> {
+  const { data: webhooks, error } = await supabase
+    .from('webhook_configurations')
+    .select('*')
+    .eq('enabled', true)
+    .not('circuit_opened_at', 'is', null)
+    .lte('next_probe_at', new Date().toISOString())
+    .limit(20);
+
+  if (error) {
+    console.error('Error fetching paused webhooks:', error);
+    return 0;
+  }
+
+  for (const webhook of webhooks || []) {
+    const eventId = `probe_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const payload = {
+      event_id: eventId,
+      event_type: WEBHOOK_PROBE_EVENT,
+      timestamp: new Date().toISOString(),
+      test: true,
+      data: {
+        webhook_id: webhook.id,
+        paused_since: webhook.circuit_opened_at,
+        message: 'Health check after repeated delivery failures. Respond with 2xx to resume deliveries.',
+      },
+    };
+
+    const result = await sendWebhookRequest(webhook, WEBHOOK_PROBE_EVENT, eventId, payload);
+    const now = new Date().toISOString();
+
+    if (result.success) {
+      console.log('Webhook endpoint recovered, resuming deliveries:', webhook.id);
+      await supabase
+        .from('webhook_configurations')
+        .update({
+          failure_count: 0,
+          circuit_opened_at: null,
+          next_probe_at: null,
+          probe_attempts: 0,
+          last_probe_at: now,
+          last_error: null,
+        })
+        .eq('id', webhook.id);
+
+      await supabase
+        .from('webhook_events_queue')
+        .update({ scheduled_for: now })
+        .eq('webhook_config_id', webhook.id)
+        .eq('status', 'pending');
+    } else {
+      const failedProbes = webhook.probe_attempts + 1;
+      await supabase
+        .from('webhook_configurations')
+        .update({
+          probe_attempts: failedProbes,
+          next_probe_at: new Date(Date.now() + probeDelaySeconds(failedProbes) * 1000).toISOString(),
+          last_probe_at: now,
+          last_error: result.errorMessage,
+        })
+        .eq('id', webhook.id);
+    }
+
+    await logDelivery(webhook.id, WEBHOOK_PROBE_EVENT, eventId, payload, webhook.probe_attempts + 1, result);
   }
+
+  return webhooks?.length || 0;
 }
 
 Deno.serve(async (req: Request) => {
@@ -252,10 +407,15 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Probe first so events held for a recovered endpoint go out in this same run
+    const probed = await probePausedWebhooks();
+
+    // Events of disabled webhooks wait in the queue until the webhook is enabled again
     const { data: pendingEvents, error } = await supabase
       .from('webhook_events_queue')
-      .select('*')
+      .select('*, webhook:webhook_configurations!inner(enabled)')
       .eq('status', 'pending')
+      .eq('webhook.enabled', true)
       .lte('scheduled_for', new Date().toISOString())
       .limit(50);
 
@@ -266,7 +426,7 @@ Deno.serve(async (req: Request) => {
 
     if (!pendingEvents || pendingEvents.length === 0) {
       return new Response(
-        JSON.stringify({ message: 'No pending webhook events', processed: 0 }),
+        JSON.stringify({ message: 'No pending webhook events', processed: 0, probed }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -283,6 +443,7 @@ Deno.serve(async (req: Request) => {
       JSON.stringify({
         message: 'Webhook events processed',
         processed: pendingEvents.length,
+        probed,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
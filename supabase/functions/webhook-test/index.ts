@@ -1,4 +1,11 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import {
+  LATEST_WEBHOOK_PAYLOAD_VERSION,
+  getWebhookEventDefinition,
+  isWebhookPayloadVersion,
+  sampleWebhookPayload,
+} from "../_shared/webhookCatalog.ts";
+import { createHmacSignature } from "../_shared/hmac.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,6 +19,10 @@ interface TestWebhookRequest {
   payload?: Record<string, any>;
   customHeaders?: Record<string, string>;
   httpMethod?: string;
+  // Catalog event being tested; without a payload, its sample payload is sent
+  eventType?: string;
+  eventId?: string;
+  payloadVersion?: number;
 }
 
 Deno.serve(async (req: Request) => {
@@ -23,7 +34,7 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { url, secret, payload, customHeaders, httpMethod }: TestWebhookRequest = await req.json();
+    const { url, secret, payload, customHeaders, httpMethod, eventType, eventId, payloadVersion }: TestWebhookRequest = await req.json();
 
     // Validate HTTPS URL
     if (!url) {
@@ -60,11 +71,24 @@ Deno.serve(async (req: Request) => {
     }
 
     // Prepare test payload
-    const testPayload = payload || {
-      event: "test",
-      timestamp: new Date().toISOString(),
-      message: "This is a test webhook from your application",
-    };
+    const definition = eventType ? getWebhookEventDefinition(eventType) : undefined;
+    const deliveryId = eventId || `evt_test_${Date.now()}`;
+    const testPayload = payload || (definition
+      ? {
+        ...sampleWebhookPayload(
+          definition,
+          isWebhookPayloadVersion(payloadVersion) ? payloadVersion : LATEST_WEBHOOK_PAYLOAD_VERSION
+        ),
+        event_id: deliveryId,
+        timestamp: new Date().toISOString(),
+        test: true,
+      }
+      : {
+        event: "test",
+        timestamp: new Date().toISOString(),
+        message: "This is a test webhook from your application",
+      });
+    const body = JSON.stringify(testPayload);
 
     // Prepare headers - start with defaults
     const webhookHeaders: Record<string, string> = {
@@ -82,9 +106,17 @@ Deno.serve(async (req: Request) => {
       });
     }
 
+    // Same event headers as the webhook-dispatcher, so receivers can route test deliveries
+    if (eventType) {
+      webhookHeaders["X-Event-Type"] = eventType;
+      webhookHeaders["X-Delivery-ID"] = deliveryId;
+    }
+
     // Add secret if provided
     if (secret) {
       webhookHeaders["X-Webhook-Secret"] = secret;
+      webhookHeaders["X-Webhook-Signature"] = `sha256=${await createHmacSignature(body, secret)}`;
+      webhookHeaders["X-Webhook-Timestamp"] = Math.floor(Date.now() / 1000).toString();
     }
 
     // Make the webhook request with timeout
@@ -104,7 +136,7 @@ Deno.serve(async (req: Request) => {
 
       // Only add body for methods that support it
       if (method !== "GET" && method !== "HEAD" && method !== "DELETE") {
-        fetchOptions.body = JSON.stringify(testPayload);
+        fetchOptions.body = body;
       }
 
       const response = await fetch(url, fetchOptions);
@@ -0,0 +1,56 @@
+/*
+  # Structured Transcript Data on Meetings
+
+  ## Overview
+  Meetings can now be created from uploaded transcript files (.vtt, .srt,
+  .docx, .txt) exported by Meet, Zoom and Teams. The clean text keeps going
+  to `transcript_text`; speakers and timestamps are stored alongside it.
+
+  ## Changes
+
+  1. New Columns on `meetings`
+    - `transcript_segments` (jsonb) - Ordered list of transcript segments
+      `{ speaker, role, text, start_seconds, end_seconds }`
+    - `transcript_source` (text) - Origin of the transcript: 'manual', 'vtt',
+      'srt', 'docx' or 'txt'
+    - `transcript_file_name` (text) - Original name of the uploaded file
+
+  ## Notes
+  - Existing meetings default to 'manual' with no segments
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'meetings' AND column_name = 'transcript_segments'
+  ) THEN
+    ALTER TABLE meetings ADD COLUMN transcript_segments jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'meetings' AND column_name = 'transcript_source'
+  ) THEN
+    ALTER TABLE meetings ADD COLUMN transcript_source text DEFAULT 'manual' NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'meetings' AND column_name = 'transcript_file_name'
+  ) THEN
+    ALTER TABLE meetings ADD COLUMN transcript_file_name text;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.constraint_column_usage
+    WHERE constraint_name = 'meetings_transcript_source_valid'
+  ) THEN
+    ALTER TABLE meetings
+    ADD CONSTRAINT meetings_transcript_source_valid
+    CHECK (transcript_source IN ('manual', 'vtt', 'srt', 'docx', 'txt'));
+  END IF;
+END $$;
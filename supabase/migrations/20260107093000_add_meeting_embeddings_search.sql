@@ -0,0 +1,118 @@
+/*
+  # Semantic Search Over Meeting Transcripts
+
+  ## Overview
+  Meetings are split into chunks and embedded when they are summarized, so
+  consultants can search all of their meetings by meaning instead of keywords.
+
+  ## 1. Extensions
+  - `vector` (pgvector) for embedding storage and similarity search
+
+  ## 2. New Tables
+
+  ### meeting_chunks
+  - `id` (uuid, primary key)
+  - `meeting_id` (uuid) - Meeting the chunk belongs to
+  - `client_id` (uuid) - Client of the meeting (denormalized for filtering)
+  - `user_id` (uuid) - Owner of the client
+  - `chunk_index` (integer) - Position of the chunk inside the meeting
+  - `content` (text) - Chunk text that was embedded
+  - `embedding` (vector(1536)) - Embedding of the chunk
+  - `embedding_model` (text) - Model used to generate the embedding
+  - `created_at` (timestamptz)
+
+  ## 3. Functions
+  - `match_meeting_chunks(query_embedding, match_count, match_threshold, filter_client_id)`
+    returns the chunks closest to the query embedding (cosine similarity),
+    limited to the calling user's clients
+
+  ## 4. Security
+  - RLS enabled; users can only read, insert and delete their own chunks
+  - `match_meeting_chunks` runs as the caller, so RLS still applies
+*/
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS meeting_chunks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id uuid NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  chunk_index integer NOT NULL,
+  content text NOT NULL,
+  embedding vector(1536) NOT NULL,
+  embedding_model text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (meeting_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_meeting_chunks_meeting_id ON meeting_chunks(meeting_id);
+CREATE INDEX IF NOT EXISTS idx_meeting_chunks_user_client ON meeting_chunks(user_id, client_id);
+CREATE INDEX IF NOT EXISTS idx_meeting_chunks_embedding
+  ON meeting_chunks USING hnsw (embedding vector_cosine_ops);
+
+ALTER TABLE meeting_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own meeting chunks"
+  ON meeting_chunks FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own meeting chunks"
+  ON meeting_chunks FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM clients
+      WHERE clients.id = meeting_chunks.client_id
+      AND clients.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own meeting chunks"
+  ON meeting_chunks FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION match_meeting_chunks(
+  query_embedding vector(1536),
+  match_count integer DEFAULT 10,
+  match_threshold double precision DEFAULT 0.2,
+  filter_client_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  meeting_id uuid,
+  client_id uuid,
+  client_name text,
+  meeting_type text,
+  meeting_datetime timestamptz,
+  chunk_index integer,
+  content text,
+  similarity double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    mc.id,
+    mc.meeting_id,
+    mc.client_id,
+    c.name AS client_name,
+    m.type::text AS meeting_type,
+    m.datetime AS meeting_datetime,
+    mc.chunk_index,
+    mc.content,
+    1 - (mc.embedding <=> query_embedding) AS similarity
+  FROM meeting_chunks mc
+  JOIN meetings m ON m.id = mc.meeting_id
+  JOIN clients c ON c.id = mc.client_id
+  WHERE mc.user_id = auth.uid()
+    AND (filter_client_id IS NULL OR mc.client_id = filter_client_id)
+    AND 1 - (mc.embedding <=> query_embedding) >= match_threshold
+  ORDER BY mc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_meeting_chunks(vector, integer, double precision, uuid) TO authenticated;
@@ -0,0 +1,44 @@
+/*
+  # Draft Tasks and Decision Tracking
+
+  ## Overview
+  Summarizing a meeting now persists its outcome as records instead of only
+  JSON on `meetings`: each decision becomes a row in `decisions` and each
+  suggested task is stored as a draft task linked to the meeting. Drafts stay
+  out of task lists, metrics and the portal until the consultant confirms them.
+
+  ## Changes
+
+  1. New Column on `tasks`
+    - `is_draft` (boolean) - True for AI-suggested tasks not yet confirmed
+
+  2. Indexes
+    - `idx_tasks_meeting_draft` - Looks up a meeting's draft tasks
+    - `idx_decisions_meeting_id` - Lists decisions per meeting
+    - `idx_decisions_pending` - Lists unimplemented decisions
+
+  ## Notes
+  - Existing tasks default to `is_draft = false`
+  - `decisions` already has RLS scoped through meetings -> clients
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'is_draft'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN is_draft boolean DEFAULT false NOT NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_meeting_draft
+  ON tasks(meeting_id)
+  WHERE is_draft = true;
+
+CREATE INDEX IF NOT EXISTS idx_decisions_meeting_id
+  ON decisions(meeting_id);
+
+CREATE INDEX IF NOT EXISTS idx_decisions_pending
+  ON decisions(meeting_id)
+  WHERE is_implemented = false;
@@ -0,0 +1,170 @@
+/*
+  # Versioned Meeting Summaries
+
+  ## Overview
+  Every AI summarization run is stored as a summary version instead of
+  overwriting the meeting. Consultants can regenerate with a different model
+  or instructions, compare versions side by side and explicitly promote one,
+  which copies it onto the meeting.
+
+  ## 1. New Tables
+
+  ### meeting_summary_versions
+  - `id` (uuid, primary key)
+  - `meeting_id` (uuid) - Meeting that was summarized
+  - `user_id` (uuid) - User who ran the summarization
+  - `version_number` (integer) - Sequential number per meeting (1, 2, ...)
+  - `summary` (jsonb) - Summary bullets
+  - `decisions` (jsonb) - Decisions list
+  - `suggested_tasks` (jsonb) - Suggested tasks
+  - `risk_signals` (text) - Risk signals text
+  - `model` (text) - Model used for the run
+  - `prompt_template_id` (uuid) - Prompt template used, if any
+  - `prompt_template_version` (integer) - Version of that template at run time
+  - `custom_instructions` (text) - Extra instructions given on regenerate
+  - `credits_used` (integer) - Credits charged for the run
+  - `is_current` (boolean) - Version currently promoted onto the meeting
+  - `promoted_at` (timestamptz) - Last time the version was promoted
+  - `created_at` (timestamptz)
+
+  ## 2. Modified Tables
+  - `meetings.current_summary_version_id` - Promoted summary version
+  - `prompt_templates.version` - Incremented whenever the prompt text changes
+
+  ## 3. Security
+  - RLS enabled; users can only access versions of their own meetings
+
+  ## Notes
+  - Existing summaries are backfilled as version 1 and marked current
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'prompt_templates' AND column_name = 'version'
+  ) THEN
+    ALTER TABLE prompt_templates ADD COLUMN version integer DEFAULT 1 NOT NULL;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION bump_prompt_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.system_prompt IS DISTINCT FROM OLD.system_prompt
+    OR NEW.summary_instructions IS DISTINCT FROM OLD.summary_instructions
+    OR NEW.task_generation_instructions IS DISTINCT FROM OLD.task_generation_instructions
+  THEN
+    NEW.version := OLD.version + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_prompt_template_version ON prompt_templates;
+
+CREATE TRIGGER bump_prompt_template_version
+  BEFORE UPDATE ON prompt_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_prompt_template_version();
+
+CREATE TABLE IF NOT EXISTS meeting_summary_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id uuid NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version_number integer NOT NULL,
+  summary jsonb DEFAULT '[]'::jsonb NOT NULL,
+  decisions jsonb DEFAULT '[]'::jsonb NOT NULL,
+  suggested_tasks jsonb DEFAULT '[]'::jsonb NOT NULL,
+  risk_signals text,
+  model text NOT NULL,
+  prompt_template_id uuid REFERENCES prompt_templates(id) ON DELETE SET NULL,
+  prompt_template_version integer,
+  custom_instructions text,
+  credits_used integer DEFAULT 0 NOT NULL,
+  is_current boolean DEFAULT false NOT NULL,
+  promoted_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (meeting_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_meeting_summary_versions_meeting_id
+  ON meeting_summary_versions(meeting_id, version_number DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meeting_summary_versions_current
+  ON meeting_summary_versions(meeting_id)
+  WHERE is_current = true;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'meetings' AND column_name = 'current_summary_version_id'
+  ) THEN
+    ALTER TABLE meetings
+    ADD COLUMN current_summary_version_id uuid REFERENCES meeting_summary_versions(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+ALTER TABLE meeting_summary_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own summary versions"
+  ON meeting_summary_versions FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own summary versions"
+  ON meeting_summary_versions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM meetings m
+      INNER JOIN clients c ON m.client_id = c.id
+      WHERE m.id = meeting_summary_versions.meeting_id
+      AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own summary versions"
+  ON meeting_summary_versions FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own summary versions"
+  ON meeting_summary_versions FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Backfill existing summaries as version 1
+INSERT INTO meeting_summary_versions (
+  meeting_id, user_id, version_number, summary, decisions, risk_signals,
+  model, is_current, promoted_at, created_at
+)
+SELECT
+  m.id,
+  c.user_id,
+  1,
+  to_jsonb(regexp_split_to_array(m.summary, E'\n')),
+  COALESCE(to_jsonb(m.decisions), '[]'::jsonb),
+  m.risk_signals,
+  'desconhecido',
+  true,
+  m.created_at,
+  m.created_at
+FROM meetings m
+INNER JOIN clients c ON m.client_id = c.id
+WHERE m.summary IS NOT NULL
+  AND c.user_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM meeting_summary_versions v WHERE v.meeting_id = m.id
+  );
+
+UPDATE meetings m
+SET current_summary_version_id = v.id
+FROM meeting_summary_versions v
+WHERE v.meeting_id = m.id
+  AND v.is_current = true
+  AND m.current_summary_version_id IS NULL;
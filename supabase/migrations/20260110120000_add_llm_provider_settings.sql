@@ -0,0 +1,47 @@
+/*
+  # LLM Provider Selection
+
+  ## Overview
+  AI features can now run on OpenAI, Anthropic, Azure OpenAI or a local
+  OpenAI-compatible endpoint (e.g. Ollama). The provider and its credentials
+  are stored per user in `settings`; summary versions record which provider
+  produced them.
+
+  ## Changes
+
+  1. New Column on `meeting_summary_versions`
+    - `provider` (text) - 'openai', 'anthropic', 'azure' or 'ollama'
+
+  2. Settings keys (per user, in `settings`)
+    - `llm_provider`
+    - `anthropic_api_key`, `anthropic_model`
+    - `azure_openai_api_key`, `azure_openai_endpoint`, `azure_openai_deployment`,
+      `azure_openai_api_version`
+    - `ollama_base_url`, `ollama_model`
+
+  ## Notes
+  - Users without `llm_provider` keep using OpenAI
+  - Existing summary versions are marked as 'openai'
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'meeting_summary_versions' AND column_name = 'provider'
+  ) THEN
+    ALTER TABLE meeting_summary_versions ADD COLUMN provider text DEFAULT 'openai' NOT NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.constraint_column_usage
+    WHERE constraint_name = 'meeting_summary_versions_provider_valid'
+  ) THEN
+    ALTER TABLE meeting_summary_versions
+    ADD CONSTRAINT meeting_summary_versions_provider_valid
+    CHECK (provider IN ('openai', 'anthropic', 'azure', 'ollama'));
+  END IF;
+END $$;
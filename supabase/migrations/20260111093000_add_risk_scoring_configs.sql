@@ -0,0 +1,79 @@
+/*
+  # Configurable Risk Scoring
+
+  ## Overview
+  Risk scores were computed from five hard-coded factors with fixed 40/70
+  classification thresholds. Each consultant can now enable, weight and tune
+  the factors used for their own portfolio, including new ones (sentiment
+  trend, incomplete client registration, pending decisions and portal
+  inactivity).
+
+  ## 1. New Tables
+
+  ### risk_scoring_configs
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, unique) - Consultant who owns the configuration
+  - `rules` (jsonb) - Array of `{ key, enabled, weight, threshold }` per factor
+  - `medium_threshold` (integer) - Minimum score classified as "Médio"
+  - `high_threshold` (integer) - Minimum score classified as "Alto"
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## 2. Security
+  - RLS enabled; users can only access their own configuration
+
+  ## Notes
+  - Users without a row keep the previous behaviour: the application falls
+    back to the original five factors and 40/70 thresholds
+  - Factors missing from `rules` use their defaults, so new factors can be
+    added without migrating stored configurations
+*/
+
+CREATE TABLE IF NOT EXISTS risk_scoring_configs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  rules jsonb DEFAULT '[]'::jsonb NOT NULL,
+  medium_threshold integer DEFAULT 40 NOT NULL,
+  high_threshold integer DEFAULT 70 NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT risk_scoring_configs_thresholds_check
+    CHECK (medium_threshold >= 1 AND high_threshold <= 100 AND medium_threshold < high_threshold)
+);
+
+ALTER TABLE risk_scoring_configs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own risk scoring config"
+  ON risk_scoring_configs FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own risk scoring config"
+  ON risk_scoring_configs FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own risk scoring config"
+  ON risk_scoring_configs FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own risk scoring config"
+  ON risk_scoring_configs FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION update_risk_scoring_configs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_risk_scoring_configs_updated_at ON risk_scoring_configs;
+CREATE TRIGGER trigger_risk_scoring_configs_updated_at
+  BEFORE UPDATE ON risk_scoring_configs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_risk_scoring_configs_updated_at();
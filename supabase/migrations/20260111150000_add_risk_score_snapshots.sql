@@ -0,0 +1,79 @@
+/*
+  # Risk Score Snapshots
+
+  ## Overview
+  Risk recalculations used to overwrite `clients.risk_score` without leaving a
+  trace. Every recalculation now writes a snapshot to `risk_events` with the
+  resulting score, its classification and the factor breakdown, so the client
+  panel can show how the risk evolved over time.
+
+  ## 1. Modified Tables
+
+  ### risk_events
+  - `score` (integer) - Score after the recalculation
+  - `previous_score` (integer) - Score stored on the client before it
+  - `classification` (text) - Baixo, Médio or Alto after the recalculation
+  - `previous_classification` (text) - Classification before it
+  - `factors` (jsonb) - Factors that contributed to the score
+
+  ## 2. Indexes
+  - `idx_risk_events_client_created` for the per-client timeline
+
+  ## Notes
+  - Snapshots use `event_type = 'score_recalculated'` and store the score delta
+    in `score_impact`
+  - Existing rows keep NULL in the new columns
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'risk_events' AND column_name = 'score'
+  ) THEN
+    ALTER TABLE risk_events ADD COLUMN score integer;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'risk_events' AND column_name = 'previous_score'
+  ) THEN
+    ALTER TABLE risk_events ADD COLUMN previous_score integer;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'risk_events' AND column_name = 'classification'
+  ) THEN
+    ALTER TABLE risk_events ADD COLUMN classification text;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'risk_events' AND column_name = 'previous_classification'
+  ) THEN
+    ALTER TABLE risk_events ADD COLUMN previous_classification text;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'risk_events' AND column_name = 'factors'
+  ) THEN
+    ALTER TABLE risk_events ADD COLUMN factors jsonb DEFAULT '[]'::jsonb NOT NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_risk_events_client_created
+  ON risk_events(client_id, created_at DESC);
@@ -0,0 +1,165 @@
+/*
+  # Nightly Portfolio Risk Recalculation
+
+  ## Overview
+  Recomputes the risk score of every active client once a night with the
+  risk-recalculation Edge Function, which shares its rule engine with the app.
+  Each run records score snapshots (risk_events) and, per consultant, a digest
+  of the clients that moved into "Alto".
+
+  ## 1. meetings.transcript_sentiment
+     - Sentiment detected when the transcript was processed (positive / neutral / concerned)
+     - Lets the recalculation read sentiment without re-parsing transcripts
+
+  ## 2. risk_recalculation_runs
+     - One row per execution: trigger source, timing, clients processed, scores changed, errors
+
+  ## 3. risk_digests
+     - One row per consultant and run when at least one client moved into "Alto"
+     - `clients` holds id, name, score and previous classification of those clients
+     - `read_at` is set when the consultant dismisses the digest
+
+  ## 4. trigger_risk_recalculation() + pg_cron job
+     - Calls the Edge Function through pg_net, authenticated with the dispatcher internal secret
+     - Scheduled every night at 03:00 UTC as 'nightly-risk-recalculation'
+
+  ## Security
+  - RLS enabled on both tables
+  - Consultants read and update only their own digests
+  - Runs are readable by authenticated users for monitoring, like webhook_dispatcher_runs
+
+  ## Notes
+  - Meetings processed before this migration have no sentiment until their summary is regenerated,
+    so the sentiment factors ignore them
+  - pg_cron must be enabled in the Supabase Dashboard
+*/
+
+-- 1. Sentiment stored on the meeting
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'meetings' AND column_name = 'transcript_sentiment'
+  ) THEN
+    ALTER TABLE meetings ADD COLUMN transcript_sentiment text
+      CHECK (transcript_sentiment IN ('positive', 'neutral', 'concerned'));
+  END IF;
+END $$;
+
+-- 2. Run log
+CREATE TABLE IF NOT EXISTS risk_recalculation_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  triggered_by text DEFAULT 'cron',
+  started_at timestamptz DEFAULT now(),
+  completed_at timestamptz,
+  clients_processed integer DEFAULT 0,
+  scores_changed integer DEFAULT 0,
+  success boolean,
+  error_message text,
+  request_id bigint
+);
+
+ALTER TABLE risk_recalculation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read risk recalculation runs"
+  ON risk_recalculation_runs
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_risk_recalculation_runs_started_at
+  ON risk_recalculation_runs(started_at DESC);
+
+-- 3. Per-consultant digests
+CREATE TABLE IF NOT EXISTS risk_digests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  run_id uuid REFERENCES risk_recalculation_runs(id) ON DELETE SET NULL,
+  clients jsonb NOT NULL DEFAULT '[]'::jsonb,
+  clients_recalculated integer NOT NULL DEFAULT 0,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE risk_digests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own risk digests"
+  ON risk_digests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own risk digests"
+  ON risk_digests
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_risk_digests_user_created
+  ON risk_digests(user_id, created_at DESC);
+
+-- 4. Trigger function and schedule
+CREATE OR REPLACE FUNCTION trigger_risk_recalculation()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_config webhook_dispatcher_config%ROWTYPE;
+  v_request_id bigint;
+  v_run_id uuid;
+BEGIN
+  SELECT * INTO v_config
+  FROM webhook_dispatcher_config
+  WHERE id = '00000000-0000-0000-0000-000000000001'::uuid;
+
+  INSERT INTO risk_recalculation_runs (triggered_by, started_at)
+  VALUES ('cron', now())
+  RETURNING id INTO v_run_id;
+
+  SELECT net.http_post(
+    url := v_config.supabase_url || '/functions/v1/risk-recalculation',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'X-Internal-Secret', v_config.internal_secret
+    ),
+    body := jsonb_build_object(
+      'triggered_by', 'cron',
+      'run_id', v_run_id,
+      'timestamp', now()
+    ),
+    timeout_milliseconds := 300000
+  ) INTO v_request_id;
+
+  UPDATE risk_recalculation_runs
+  SET request_id = v_request_id
+  WHERE id = v_run_id;
+
+EXCEPTION WHEN OTHERS THEN
+  INSERT INTO risk_recalculation_runs (
+    triggered_by,
+    started_at,
+    completed_at,
+    success,
+    error_message
+  ) VALUES (
+    'cron',
+    now(),
+    now(),
+    false,
+    SQLERRM
+  );
+END;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule('nightly-risk-recalculation')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'nightly-risk-recalculation');
+
+SELECT cron.schedule(
+  'nightly-risk-recalculation',
+  '0 3 * * *',
+  'SELECT trigger_risk_recalculation()'
+);
@@ -0,0 +1,114 @@
+/*
+  # Meeting Scheduling and Follow-up Cadences
+
+  ## Overview
+  Meetings were only recorded after they happened. They can now be scheduled
+  ahead of time and carry a lifecycle status, and each client can have a
+  follow-up cadence that keeps the next meeting on the calendar.
+
+  ## 1. meetings
+  - `status` (text) - planned | done | no_show | rescheduled
+  - `rescheduled_to_id` (uuid) - Meeting that replaced a rescheduled one
+  - `follow_up_cadence_id` (uuid) - Cadence that created the meeting, when scheduled automatically
+
+  ## 2. New Tables
+
+  ### follow_up_cadences
+  - `id` (uuid, primary key)
+  - `client_id` (uuid, unique) - One cadence per client
+  - `user_id` (uuid) - Consultant who owns the cadence
+  - `meeting_type` (text) - Type of the meetings it schedules (FUP by default)
+  - `interval_days` (integer) - Days between the last held meeting and the next one
+  - `start_after` (text, nullable) - Meeting type that must have happened before the cadence starts (C4 by default)
+  - `enabled` (boolean)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## 3. Security
+  - RLS enabled; users can only access their own cadences
+
+  ## Notes
+  - Existing meetings are marked as done, except those dated in the future, which become planned
+  - Only done meetings count as held for risk scoring, the W1 journey and analytics
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'meetings' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE meetings ADD COLUMN status text NOT NULL DEFAULT 'done'
+      CHECK (status IN ('planned', 'done', 'no_show', 'rescheduled'));
+
+    UPDATE meetings SET status = 'planned' WHERE datetime > now();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'meetings' AND column_name = 'rescheduled_to_id'
+  ) THEN
+    ALTER TABLE meetings ADD COLUMN rescheduled_to_id uuid REFERENCES meetings(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS follow_up_cadences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL UNIQUE REFERENCES clients(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  meeting_type text DEFAULT 'FUP' NOT NULL,
+  interval_days integer DEFAULT 30 NOT NULL CHECK (interval_days BETWEEN 1 AND 365),
+  start_after text DEFAULT 'C4',
+  enabled boolean DEFAULT true NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'meetings' AND column_name = 'follow_up_cadence_id'
+  ) THEN
+    ALTER TABLE meetings ADD COLUMN follow_up_cadence_id uuid REFERENCES follow_up_cadences(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_meetings_status_datetime ON meetings(status, datetime);
+CREATE INDEX IF NOT EXISTS idx_follow_up_cadences_user ON follow_up_cadences(user_id);
+
+ALTER TABLE follow_up_cadences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own follow-up cadences"
+  ON follow_up_cadences FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own follow-up cadences"
+  ON follow_up_cadences FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own follow-up cadences"
+  ON follow_up_cadences FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own follow-up cadences"
+  ON follow_up_cadences FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION update_follow_up_cadences_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_follow_up_cadences_updated_at ON follow_up_cadences;
+CREATE TRIGGER trigger_follow_up_cadences_updated_at
+  BEFORE UPDATE ON follow_up_cadences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_follow_up_cadences_updated_at();
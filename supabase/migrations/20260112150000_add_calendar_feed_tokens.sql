@@ -0,0 +1,57 @@
+/*
+  # Calendar Feed Tokens
+
+  ## Overview
+  Consultants can subscribe to their planned meetings and task due dates from
+  Google Calendar or Outlook. The calendar-feed edge function serves an ICS feed
+  to anyone holding the user's token, so the token is the only credential.
+
+  ## 1. New Tables
+
+  ### calendar_feed_tokens
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, unique) - One feed per consultant
+  - `token` (text, unique) - Random secret embedded in the feed URL
+  - `include_tasks` (boolean) - Whether task due dates are published alongside meetings
+  - `created_at` (timestamptz)
+  - `last_accessed_at` (timestamptz, nullable) - Last time a calendar fetched the feed
+
+  ## 2. Security
+  - RLS enabled; users can only access their own token
+  - The edge function reads tokens with the service role key
+
+  ## Notes
+  - Regenerating the token (deleting and recreating the row) invalidates existing subscriptions
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  include_tasks boolean DEFAULT true NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  last_accessed_at timestamptz
+);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feed tokens"
+  ON calendar_feed_tokens FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own calendar feed tokens"
+  ON calendar_feed_tokens FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own calendar feed tokens"
+  ON calendar_feed_tokens FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own calendar feed tokens"
+  ON calendar_feed_tokens FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
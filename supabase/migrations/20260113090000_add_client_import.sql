@@ -0,0 +1,110 @@
+/*
+  # Bulk Client Import
+
+  ## Overview
+  Consultants onboarding an existing portfolio import their clients from a
+  CSV/XLSX file. The app maps, validates and deduplicates the rows, then sends
+  the accepted ones to `import_clients`, which creates every client and its
+  metadata in a single transaction: either the whole file is imported or nothing is.
+
+  ## 1. Functions
+  - `import_clients(p_rows jsonb)` - Each element is `{ "client": {...}, "metadata": {...} }`.
+    Inserts the client (owned by the caller) and, when present, its client_metadata row.
+    Returns the created clients in input order.
+
+  ## 2. Security
+  - Runs as the caller (SECURITY INVOKER), so the clients and client_metadata RLS policies still apply
+  - `user_id` always comes from `auth.uid()`, never from the payload
+
+  ## Notes
+  - Limited to 2000 rows per call, matching the limit enforced by the import wizard
+  - Any failing row (constraint, invalid date or number) aborts the whole import
+*/
+
+CREATE OR REPLACE FUNCTION import_clients(p_rows jsonb)
+RETURNS SETOF clients
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_row jsonb;
+  v_client_data jsonb;
+  v_metadata jsonb;
+  v_client clients;
+  v_position integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_rows) <> 'array' THEN
+    RAISE EXCEPTION 'p_rows must be a JSON array';
+  END IF;
+
+  IF jsonb_array_length(p_rows) > 2000 THEN
+    RAISE EXCEPTION 'Cannot import more than 2000 clients at once';
+  END IF;
+
+  FOR v_row IN SELECT value FROM jsonb_array_elements(p_rows) LOOP
+    v_position := v_position + 1;
+    v_client_data := v_row->'client';
+    v_metadata := v_row->'metadata';
+
+    IF COALESCE(trim(v_client_data->>'name'), '') = '' THEN
+      RAISE EXCEPTION 'Row %: client name is required', v_position;
+    END IF;
+
+    INSERT INTO clients (name, email, phone, revenue_bracket, status, user_id)
+    VALUES (
+      trim(v_client_data->>'name'),
+      NULLIF(v_client_data->>'email', ''),
+      NULLIF(v_client_data->>'phone', ''),
+      NULLIF(v_client_data->>'revenue_bracket', ''),
+      COALESCE(NULLIF(v_client_data->>'status', ''), 'prospecto'),
+      v_user_id
+    )
+    RETURNING * INTO v_client;
+
+    IF v_metadata IS NOT NULL AND jsonb_typeof(v_metadata) = 'object' THEN
+      INSERT INTO client_metadata (
+        client_id,
+        document_number,
+        birth_date,
+        address_street,
+        address_city,
+        address_state,
+        address_zip,
+        monthly_income,
+        estimated_patrimony,
+        financial_goals,
+        contact_preference,
+        best_contact_time,
+        tags,
+        notes,
+        custom_fields
+      )
+      VALUES (
+        v_client.id,
+        NULLIF(v_metadata->>'document_number', ''),
+        NULLIF(v_metadata->>'birth_date', '')::date,
+        NULLIF(v_metadata->>'address_street', ''),
+        NULLIF(v_metadata->>'address_city', ''),
+        NULLIF(v_metadata->>'address_state', ''),
+        NULLIF(v_metadata->>'address_zip', ''),
+        NULLIF(v_metadata->>'monthly_income', '')::numeric,
+        NULLIF(v_metadata->>'estimated_patrimony', '')::numeric,
+        NULLIF(v_metadata->>'financial_goals', ''),
+        NULLIF(v_metadata->>'contact_preference', ''),
+        NULLIF(v_metadata->>'best_contact_time', ''),
+        COALESCE(ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_metadata->'tags', '[]'::jsonb))), ARRAY[]::text[]),
+        NULLIF(v_metadata->>'notes', ''),
+        COALESCE(v_metadata->'custom_fields', '{}'::jsonb)
+      );
+    END IF;
+
+    RETURN NEXT v_client;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_clients(jsonb) TO authenticated;
@@ -0,0 +1,91 @@
+/*
+  # Custom Field Definitions
+
+  ## Overview
+  `client_metadata.custom_fields` used to be a free-form JSON blob. Consultants can
+  now declare typed fields (text, number, currency, date, select, multi-select,
+  boolean) that the metadata editor renders as proper inputs, the client list can
+  filter on, and exports and AI prompts describe with their labels.
+
+  ## 1. New Tables
+
+  ### custom_field_definitions
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Owner consultant
+  - `key` (text) - Property name inside `client_metadata.custom_fields`
+  - `label` (text) - Display name
+  - `field_type` (text) - text, number, currency, date, select, multi_select or boolean
+  - `options` (text[]) - Allowed values for select and multi_select
+  - `required` (boolean) - The metadata editor refuses to save without a value
+  - `min_value` / `max_value` (numeric, nullable) - Bounds for number and currency fields
+  - `max_length` (integer, nullable) - Maximum length for text fields
+  - `position` (integer) - Display order
+  - `is_active` (boolean) - Inactive fields are hidden but their values are kept
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## 2. Security
+  - RLS enabled; users can only access their own definitions
+
+  ## Notes
+  - Values stay in `client_metadata.custom_fields` keyed by `key`, so existing
+    free-form and imported values remain readable; a definition only adds typing
+  - The key is immutable from the app: renaming it would orphan stored values
+*/
+
+CREATE TABLE IF NOT EXISTS custom_field_definitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  key text NOT NULL CHECK (key ~ '^[a-z][a-z0-9_]{0,39}$'),
+  label text NOT NULL,
+  field_type text NOT NULL CHECK (field_type IN ('text', 'number', 'currency', 'date', 'select', 'multi_select', 'boolean')),
+  options text[] DEFAULT '{}' NOT NULL,
+  required boolean DEFAULT false NOT NULL,
+  min_value numeric,
+  max_value numeric,
+  max_length integer CHECK (max_length IS NULL OR max_length > 0),
+  position integer DEFAULT 0 NOT NULL,
+  is_active boolean DEFAULT true NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (user_id, key),
+  CHECK (min_value IS NULL OR max_value IS NULL OR min_value <= max_value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_field_definitions_user_id ON custom_field_definitions(user_id, position);
+
+ALTER TABLE custom_field_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own custom field definitions"
+  ON custom_field_definitions FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own custom field definitions"
+  ON custom_field_definitions FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own custom field definitions"
+  ON custom_field_definitions FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own custom field definitions"
+  ON custom_field_definitions FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION update_custom_field_definitions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_custom_field_definitions_updated_at ON custom_field_definitions;
+CREATE TRIGGER trigger_custom_field_definitions_updated_at
+  BEFORE UPDATE ON custom_field_definitions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_custom_field_definitions_updated_at();
@@ -0,0 +1,104 @@
+/*
+  # Inbound Lead Intake
+
+  ## Overview
+  Landing pages, form tools and CRMs can POST leads to the lead-intake edge
+  function, which creates the client (or recognises an existing one), optionally
+  schedules a first meeting and records every request in an intake log.
+
+  ## 1. New Tables
+
+  ### lead_intake_keys
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Consultant who receives the leads
+  - `name` (text) - Where the key is used, e.g. "Landing page"
+  - `key_id` (text, unique) - Public identifier sent in the X-Api-Key header
+  - `signing_secret` (text) - Shared secret for the HMAC-SHA256 request signature
+  - `enabled` (boolean)
+  - `field_mapping` (jsonb) - Incoming field name -> client field (`name`, `email`, ...) or `custom:<key>`
+  - `auto_schedule_meeting` (boolean) - Schedule a first meeting for new leads
+  - `meeting_type` (text) - Type of that meeting, C1 by default
+  - `meeting_delay_days` (integer) - Business days between the lead and the meeting
+  - `last_used_at` (timestamptz, nullable)
+  - `created_at` (timestamptz)
+
+  ### lead_intake_logs
+  - `id` (uuid, primary key)
+  - `user_id` (uuid)
+  - `intake_key_id` (uuid, nullable) - Key used; kept as null when the key is deleted
+  - `status` (text) - created, duplicate, rejected or error
+  - `client_id` (uuid, nullable) - Client created, or the existing client for duplicates
+  - `meeting_id` (uuid, nullable) - Meeting scheduled automatically
+  - `payload` (jsonb) - Request body as received
+  - `error_message` (text, nullable)
+  - `created_at` (timestamptz)
+
+  ## 2. Security
+  - RLS enabled on both tables; users only see their own keys and logs
+  - Logs are written by the edge function with the service role key, so users
+    have no insert policy on lead_intake_logs
+
+  ## Notes
+  - Like webhook secrets, the signing secret is stored in plain text because the
+    edge function needs it to verify signatures
+*/
+
+CREATE TABLE IF NOT EXISTS lead_intake_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  key_id text NOT NULL UNIQUE DEFAULT 'lk_' || encode(gen_random_bytes(12), 'hex'),
+  signing_secret text NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'),
+  enabled boolean DEFAULT true NOT NULL,
+  field_mapping jsonb DEFAULT '{}'::jsonb NOT NULL,
+  auto_schedule_meeting boolean DEFAULT false NOT NULL,
+  meeting_type text DEFAULT 'C1' NOT NULL,
+  meeting_delay_days integer DEFAULT 2 NOT NULL CHECK (meeting_delay_days BETWEEN 0 AND 30),
+  last_used_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_intake_keys_user_id ON lead_intake_keys(user_id);
+
+CREATE TABLE IF NOT EXISTS lead_intake_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  intake_key_id uuid REFERENCES lead_intake_keys(id) ON DELETE SET NULL,
+  status text NOT NULL CHECK (status IN ('created', 'duplicate', 'rejected', 'error')),
+  client_id uuid REFERENCES clients(id) ON DELETE SET NULL,
+  meeting_id uuid REFERENCES meetings(id) ON DELETE SET NULL,
+  payload jsonb,
+  error_message text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_intake_logs_user_created ON lead_intake_logs(user_id, created_at DESC);
+
+ALTER TABLE lead_intake_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_intake_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own lead intake keys"
+  ON lead_intake_keys FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own lead intake keys"
+  ON lead_intake_keys FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own lead intake keys"
+  ON lead_intake_keys FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own lead intake keys"
+  ON lead_intake_keys FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view own lead intake logs"
+  ON lead_intake_logs FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
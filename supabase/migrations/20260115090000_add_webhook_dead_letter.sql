@@ -0,0 +1,154 @@
+/*
+  # Webhook Retry Backoff, Dead-Letter Queue and Endpoint Recovery
+
+  ## Overview
+  Retries were only picked up when another event happened to be queued, events that
+  ran out of attempts were marked `failed` with no way to resend them, and a webhook
+  with 10 consecutive failures was skipped forever. This migration adds what the
+  dispatcher needs to retry on a schedule, park undeliverable events and resume
+  paused endpoints once they answer again.
+
+  ## 1. webhook_events_queue
+     - `status` 'failed' is replaced by 'dead_letter'; existing failed events are converted
+     - `last_error` / `last_status_code` - outcome of the most recent attempt
+     - `dead_lettered_at` - when the event ran out of attempts
+     - `replay_count` - how many times the event was sent back to the queue by hand
+
+  ## 2. webhook_configurations
+     - `circuit_opened_at` - set when consecutive failures reach the threshold; deliveries
+       pause until a health check succeeds
+     - `next_probe_at` / `last_probe_at` / `probe_attempts` - health check schedule
+     - `last_error` - most recent delivery or health check error
+
+  ## 3. Dispatch
+     - A replayed event (dead_letter/completed -> pending) wakes the dispatcher like an insert does
+     - pg_cron job 'webhook-retry-dispatch' runs every minute and calls the dispatcher when
+       a retry or health check is due
+
+  ## Notes
+  - Webhooks that already had 10 or more failures start paused with a health check due now
+  - pg_cron must be enabled in the Supabase Dashboard
+*/
+
+-- 1. Queue: dead letters and last attempt outcome
+ALTER TABLE webhook_events_queue
+  ADD COLUMN IF NOT EXISTS last_error text,
+  ADD COLUMN IF NOT EXISTS last_status_code integer,
+  ADD COLUMN IF NOT EXISTS dead_lettered_at timestamptz,
+  ADD COLUMN IF NOT EXISTS replay_count integer DEFAULT 0 NOT NULL;
+
+ALTER TABLE webhook_events_queue DROP CONSTRAINT IF EXISTS queue_status_valid;
+
+UPDATE webhook_events_queue
+SET status = 'dead_letter',
+    dead_lettered_at = COALESCE(processed_at, now())
+WHERE status = 'failed';
+
+ALTER TABLE webhook_events_queue
+  ADD CONSTRAINT queue_status_valid CHECK (status IN ('pending', 'processing', 'completed', 'dead_letter'));
+
+CREATE INDEX IF NOT EXISTS idx_webhook_queue_config_status
+  ON webhook_events_queue(webhook_config_id, status);
+
+-- 2. Webhooks: circuit breaker and health checks
+ALTER TABLE webhook_configurations
+  ADD COLUMN IF NOT EXISTS circuit_opened_at timestamptz,
+  ADD COLUMN IF NOT EXISTS next_probe_at timestamptz,
+  ADD COLUMN IF NOT EXISTS last_probe_at timestamptz,
+  ADD COLUMN IF NOT EXISTS probe_attempts integer DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS last_error text;
+
+UPDATE webhook_configurations
+SET circuit_opened_at = now(),
+    next_probe_at = now()
+WHERE failure_count >= 10
+  AND circuit_opened_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_configs_next_probe
+  ON webhook_configurations(next_probe_at)
+  WHERE circuit_opened_at IS NOT NULL;
+
+-- 3a. Replayed events wake the dispatcher
+DROP TRIGGER IF EXISTS auto_dispatch_replayed_webhook_events ON webhook_events_queue;
+CREATE TRIGGER auto_dispatch_replayed_webhook_events
+  AFTER UPDATE OF status ON webhook_events_queue
+  FOR EACH ROW
+  WHEN (OLD.status IN ('dead_letter', 'completed') AND NEW.status = 'pending')
+  EXECUTE FUNCTION trigger_webhook_dispatcher();
+
+-- 3b. Scheduled retries and health checks
+CREATE OR REPLACE FUNCTION trigger_webhook_retry_dispatch()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_config webhook_dispatcher_config%ROWTYPE;
+  v_request_id bigint;
+  v_run_id uuid;
+BEGIN
+  SELECT * INTO v_config
+  FROM webhook_dispatcher_config
+  WHERE id = '00000000-0000-0000-0000-000000000001'::uuid;
+
+  IF NOT v_config.enabled THEN
+    RETURN;
+  END IF;
+
+  -- Only wake the Edge Function when there is something due
+  IF NOT EXISTS (
+    SELECT 1 FROM webhook_events_queue
+    WHERE status = 'pending' AND scheduled_for <= now()
+  ) AND NOT EXISTS (
+    SELECT 1 FROM webhook_configurations
+    WHERE enabled = true AND circuit_opened_at IS NOT NULL AND next_probe_at <= now()
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO webhook_dispatcher_runs (triggered_by, started_at)
+  VALUES ('retry_schedule', now())
+  RETURNING id INTO v_run_id;
+
+  SELECT net.http_post(
+    url := v_config.supabase_url || '/functions/v1/webhook-dispatcher',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'X-Internal-Secret', v_config.internal_secret
+    ),
+    body := jsonb_build_object(
+      'triggered_by', 'retry_schedule',
+      'timestamp', now()
+    )
+  ) INTO v_request_id;
+
+  UPDATE webhook_dispatcher_runs
+  SET request_id = v_request_id
+  WHERE id = v_run_id;
+EXCEPTION WHEN OTHERS THEN
+  INSERT INTO webhook_dispatcher_runs (
+    triggered_by,
+    started_at,
+    completed_at,
+    success,
+    error_message
+  ) VALUES (
+    'retry_schedule',
+    now(),
+    now(),
+    false,
+    SQLERRM
+  );
+END;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule('webhook-retry-dispatch')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'webhook-retry-dispatch');
+
+SELECT cron.schedule(
+  'webhook-retry-dispatch',
+  '* * * * *',
+  'SELECT trigger_webhook_retry_dispatch()'
+);
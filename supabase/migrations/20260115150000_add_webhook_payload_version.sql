@@ -0,0 +1,30 @@
+/*
+  # Versioned Webhook Payloads
+
+  ## Overview
+  Webhook payloads now follow a versioned event catalog (JSON Schema per event and
+  version). Each webhook chooses the payload version it receives; the dispatcher
+  converts queued payloads to that version and sends it in the X-Webhook-Version header.
+
+  ## 1. webhook_configurations.payload_version
+     - Payload version delivered to this webhook (1 or 2)
+     - Existing webhooks stay on version 1 so their integrations keep working
+     - New webhooks default to the latest version
+
+  ## Notes
+  - Queued events are stored at the latest version; replaying an old event converts it
+    the same way
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'webhook_configurations' AND column_name = 'payload_version'
+  ) THEN
+    ALTER TABLE webhook_configurations ADD COLUMN payload_version integer DEFAULT 1 NOT NULL
+      CONSTRAINT webhook_payload_version_valid CHECK (payload_version IN (1, 2));
+  END IF;
+END $$;
+
+ALTER TABLE webhook_configurations ALTER COLUMN payload_version SET DEFAULT 2;
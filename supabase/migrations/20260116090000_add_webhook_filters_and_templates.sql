@@ -0,0 +1,34 @@
+/*
+  # Webhook Delivery Conditions and Payload Templates
+
+  ## Overview
+  A webhook received every instance of its subscribed events, in our payload format.
+  Webhooks can now restrict deliveries with conditions on the payload and reshape the
+  request body with a JSON template, so Slack, n8n or a CRM can be called directly.
+
+  ## 1. webhook_configurations
+     - `filters` (jsonb) - Array of conditions `{event_type, path, operator, value}`;
+       every condition for the event must match for it to be delivered
+     - `payload_template` (text) - Optional JSON template with {{path}} placeholders used
+       as the request body instead of the standard payload
+
+  ## 2. webhook_events_queue
+     - New status 'filtered' for events a webhook's conditions excluded; they are not sent
+
+  ## Notes
+  - Conditions and templates are evaluated by the dispatcher on the payload at the
+    webhook's payload version, after conversion
+  - The signature headers are computed over the body actually sent
+*/
+
+ALTER TABLE webhook_configurations
+  ADD COLUMN IF NOT EXISTS filters jsonb DEFAULT '[]'::jsonb NOT NULL,
+  ADD COLUMN IF NOT EXISTS payload_template text;
+
+ALTER TABLE webhook_configurations DROP CONSTRAINT IF EXISTS webhook_filters_is_array;
+ALTER TABLE webhook_configurations
+  ADD CONSTRAINT webhook_filters_is_array CHECK (jsonb_typeof(filters) = 'array');
+
+ALTER TABLE webhook_events_queue DROP CONSTRAINT IF EXISTS queue_status_valid;
+ALTER TABLE webhook_events_queue
+  ADD CONSTRAINT queue_status_valid CHECK (status IN ('pending', 'processing', 'completed', 'dead_letter', 'filtered'));
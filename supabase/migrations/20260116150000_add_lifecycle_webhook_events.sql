@@ -0,0 +1,487 @@
+/*
+  # Lifecycle Webhook Events
+
+  ## Overview
+  Webhooks only covered clients, meetings and emails, and task.created, task.completed
+  and client.metadata_updated were in the catalog without ever being sent. Tasks,
+  decisions, the client portal and billing are written from many places (the Kanban,
+  the task list, the public portal, the Stripe webhook), so their events are queued
+  by database triggers instead of by each caller.
+
+  ## 1. queue_webhook_event(user_id, event_type, data, previous_values)
+     - Builds the same envelope as the app (event_id, event_type, timestamp, test, data,
+       previous_values) and queues it for every enabled webhook of the user subscribed
+       to the event; the existing queue trigger then calls the dispatcher
+     - Never raises: a webhook problem must not roll back the change that caused it
+     - Not callable through the API; only the triggers below use it
+
+  ## 2. Triggers
+     - tasks: task.created (inserted, or a draft confirmed), task.status_changed (moved to
+       another Kanban column), task.completed, task.blocked, task.unblocked
+     - decisions: decision.implemented, decision.reopened
+     - client_portal_access: portal.accessed, at most once every 30 minutes per client
+     - client_metadata: client.metadata_updated with the changed fields and their old values
+     - subscriptions: subscription.created, subscription.updated (plan, status, billing
+       period or cancellation changed), subscription.cancelled
+     - payment_transactions: payment.succeeded, payment.failed
+
+  ## 3. record_portal_access(token)
+     - The portal is opened without signing in and anon has no UPDATE policy on
+       client_portal_access, so last_access_at was only written when the consultant
+       previewed the portal; the portal now records visits through this function
+     - Only touches last_access_at of an enabled access with that token
+
+  ## Notes
+  - Draft tasks produce no events until they are confirmed
+  - Payloads match version 1 of the event catalog, which is also the latest version of
+    these events
+  - whatsapp.message_sent is sent by the app, which is the only place messages are sent
+*/
+
+-- ============================================
+-- 1. QUEUEING
+-- ============================================
+
+CREATE OR REPLACE FUNCTION queue_webhook_event(
+  p_user_id uuid,
+  p_event_type text,
+  p_data jsonb,
+  p_previous_values jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id text;
+  v_payload jsonb;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Same format as the event ids generated by the app
+  v_event_id := 'evt_' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint
+    || '_' || substr(md5(random()::text), 1, 9);
+
+  v_payload := jsonb_build_object(
+    'event_id', v_event_id,
+    'event_type', p_event_type,
+    'timestamp', now(),
+    'test', false,
+    'data', p_data
+  );
+
+  IF p_previous_values IS NOT NULL THEN
+    v_payload := v_payload || jsonb_build_object('previous_values', p_previous_values);
+  END IF;
+
+  INSERT INTO webhook_events_queue (webhook_config_id, event_type, event_id, payload, status, scheduled_for)
+  SELECT id, p_event_type, v_event_id, v_payload, 'pending', now()
+  FROM webhook_configurations
+  WHERE user_id = p_user_id
+    AND enabled = true
+    AND p_event_type = ANY(events);
+
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'Could not queue webhook event %: %', p_event_type, SQLERRM;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION queue_webhook_event(uuid, text, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 2. TASKS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION task_webhook_data(t tasks)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', t.id,
+    'client_id', t.client_id,
+    'meeting_id', t.meeting_id,
+    'title', t.title,
+    'owner', t.owner,
+    'status', t.status,
+    'priority', t.priority,
+    'due_date', t.due_date,
+    'created_at', t.created_at
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION queue_task_webhook_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_data jsonb;
+BEGIN
+  IF NEW.is_draft THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id INTO v_user_id FROM clients WHERE id = NEW.client_id;
+  v_data := task_webhook_data(NEW);
+
+  -- A confirmed draft is a new task as far as the client is concerned
+  IF TG_OP = 'INSERT' OR OLD.is_draft THEN
+    PERFORM queue_webhook_event(v_user_id, 'task.created', v_data);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM queue_webhook_event(
+      v_user_id,
+      'task.status_changed',
+      v_data || jsonb_build_object('changed_at', now()),
+      jsonb_build_object('status', OLD.status)
+    );
+
+    IF NEW.status = 'concluida' THEN
+      PERFORM queue_webhook_event(
+        v_user_id,
+        'task.completed',
+        v_data || jsonb_build_object('completed_at', COALESCE(NEW.completed_at, now())),
+        jsonb_build_object('status', OLD.status)
+      );
+    END IF;
+  END IF;
+
+  IF NEW.blocked IS DISTINCT FROM OLD.blocked THEN
+    IF NEW.blocked THEN
+      PERFORM queue_webhook_event(
+        v_user_id,
+        'task.blocked',
+        v_data || jsonb_build_object('blocked_reason', NEW.blocked_reason, 'changed_at', now())
+      );
+    ELSE
+      PERFORM queue_webhook_event(
+        v_user_id,
+        'task.unblocked',
+        v_data || jsonb_build_object('changed_at', now()),
+        jsonb_build_object('blocked_reason', OLD.blocked_reason)
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_task_webhook_events ON tasks;
+CREATE TRIGGER queue_task_webhook_events
+  AFTER INSERT OR UPDATE OF status, blocked, is_draft ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_task_webhook_events();
+
+-- ============================================
+-- 3. DECISIONS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION queue_decision_webhook_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client clients%ROWTYPE;
+  v_data jsonb;
+BEGIN
+  IF NEW.is_implemented IS NOT DISTINCT FROM OLD.is_implemented THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT c.* INTO v_client
+  FROM meetings m
+  JOIN clients c ON c.id = m.client_id
+  WHERE m.id = NEW.meeting_id;
+
+  v_data := jsonb_build_object(
+    'id', NEW.id,
+    'meeting_id', NEW.meeting_id,
+    'client_id', v_client.id,
+    'client_name', v_client.name,
+    'description', NEW.description
+  );
+
+  IF NEW.is_implemented THEN
+    PERFORM queue_webhook_event(
+      v_client.user_id,
+      'decision.implemented',
+      v_data || jsonb_build_object('implemented_at', COALESCE(NEW.implemented_at, now()))
+    );
+  ELSE
+    PERFORM queue_webhook_event(
+      v_client.user_id,
+      'decision.reopened',
+      v_data || jsonb_build_object('reopened_at', now()),
+      jsonb_build_object('implemented_at', OLD.implemented_at)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_decision_webhook_events ON decisions;
+CREATE TRIGGER queue_decision_webhook_events
+  AFTER UPDATE OF is_implemented ON decisions
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_decision_webhook_events();
+
+-- ============================================
+-- 4. CLIENT PORTAL
+-- ============================================
+
+CREATE OR REPLACE FUNCTION queue_portal_webhook_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client clients%ROWTYPE;
+BEGIN
+  SELECT * INTO v_client FROM clients WHERE id = NEW.client_id;
+
+  PERFORM queue_webhook_event(
+    v_client.user_id,
+    'portal.accessed',
+    jsonb_build_object(
+      'client_id', v_client.id,
+      'client_name', v_client.name,
+      'first_access', OLD.last_access_at IS NULL,
+      'accessed_at', NEW.last_access_at
+    ),
+    jsonb_build_object('last_access_at', OLD.last_access_at)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_portal_access(p_token uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE client_portal_access
+  SET last_access_at = now()
+  WHERE access_token = p_token
+    AND enabled = true;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_portal_access(uuid) TO anon, authenticated;
+
+-- last_access_at is refreshed on every portal page load; report visits, not page views
+DROP TRIGGER IF EXISTS queue_portal_webhook_events ON client_portal_access;
+CREATE TRIGGER queue_portal_webhook_events
+  AFTER UPDATE OF last_access_at ON client_portal_access
+  FOR EACH ROW
+  WHEN (
+    NEW.last_access_at IS NOT NULL
+    AND (OLD.last_access_at IS NULL OR NEW.last_access_at > OLD.last_access_at + interval '30 minutes')
+  )
+  EXECUTE FUNCTION queue_portal_webhook_events();
+
+-- ============================================
+-- 5. CLIENT PROFILE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION queue_client_metadata_webhook_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client clients%ROWTYPE;
+  v_changed text[];
+  v_previous jsonb;
+  v_changed_custom text[];
+  v_previous_custom jsonb;
+BEGIN
+  SELECT
+    COALESCE(array_agg(n.key ORDER BY n.key), ARRAY[]::text[]),
+    COALESCE(jsonb_object_agg(n.key, o.value), '{}'::jsonb)
+  INTO v_changed, v_previous
+  FROM jsonb_each(to_jsonb(NEW) - ARRAY['id', 'client_id', 'created_at', 'updated_at', 'custom_fields']) AS n
+  LEFT JOIN jsonb_each(to_jsonb(OLD)) AS o ON o.key = n.key
+  WHERE n.value IS DISTINCT FROM o.value;
+
+  -- Custom fields are compared one by one so receivers see which field changed
+  SELECT
+    COALESCE(array_agg('custom_fields.' || k ORDER BY k), ARRAY[]::text[]),
+    COALESCE(jsonb_object_agg(k, COALESCE(OLD.custom_fields -> k, 'null'::jsonb)), '{}'::jsonb)
+  INTO v_changed_custom, v_previous_custom
+  FROM (
+    SELECT jsonb_object_keys(COALESCE(NEW.custom_fields, '{}'::jsonb)) AS k
+    UNION
+    SELECT jsonb_object_keys(COALESCE(OLD.custom_fields, '{}'::jsonb))
+  ) AS custom_keys
+  WHERE (NEW.custom_fields -> k) IS DISTINCT FROM (OLD.custom_fields -> k);
+
+  IF cardinality(v_changed) = 0 AND cardinality(v_changed_custom) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF cardinality(v_changed_custom) > 0 THEN
+    v_previous := v_previous || jsonb_build_object('custom_fields', v_previous_custom);
+  END IF;
+
+  SELECT * INTO v_client FROM clients WHERE id = NEW.client_id;
+
+  PERFORM queue_webhook_event(
+    v_client.user_id,
+    'client.metadata_updated',
+    jsonb_build_object(
+      'client_id', v_client.id,
+      'client_name', v_client.name,
+      'changed_fields', to_jsonb(v_changed || v_changed_custom),
+      'updated_at', now()
+    ),
+    v_previous
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_client_metadata_webhook_events ON client_metadata;
+CREATE TRIGGER queue_client_metadata_webhook_events
+  AFTER UPDATE ON client_metadata
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_client_metadata_webhook_events();
+
+-- ============================================
+-- 6. BILLING
+-- ============================================
+
+CREATE OR REPLACE FUNCTION subscription_webhook_data(s subscriptions)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', s.id,
+    'plan', (SELECT name FROM plans WHERE id = s.plan_id),
+    'plan_name', (SELECT display_name FROM plans WHERE id = s.plan_id),
+    'status', s.status,
+    'current_period_start', s.current_period_start,
+    'current_period_end', s.current_period_end,
+    'cancel_at_period_end', COALESCE(s.cancel_at_period_end, false),
+    'updated_at', s.updated_at
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION queue_subscription_webhook_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous jsonb := '{}'::jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM queue_webhook_event(NEW.user_id, 'subscription.created', subscription_webhook_data(NEW));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.plan_id IS DISTINCT FROM OLD.plan_id THEN
+    v_previous := v_previous || jsonb_build_object('plan', (SELECT name FROM plans WHERE id = OLD.plan_id));
+  END IF;
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    v_previous := v_previous || jsonb_build_object('status', OLD.status);
+  END IF;
+  IF NEW.current_period_end IS DISTINCT FROM OLD.current_period_end THEN
+    v_previous := v_previous || jsonb_build_object('current_period_end', OLD.current_period_end);
+  END IF;
+  IF COALESCE(NEW.cancel_at_period_end, false) IS DISTINCT FROM COALESCE(OLD.cancel_at_period_end, false) THEN
+    v_previous := v_previous || jsonb_build_object('cancel_at_period_end', COALESCE(OLD.cancel_at_period_end, false));
+  END IF;
+
+  -- credits_used changes with every AI call and is not part of the subscription lifecycle
+  IF v_previous = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM queue_webhook_event(NEW.user_id, 'subscription.updated', subscription_webhook_data(NEW), v_previous);
+
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    PERFORM queue_webhook_event(
+      NEW.user_id,
+      'subscription.cancelled',
+      subscription_webhook_data(NEW),
+      jsonb_build_object('status', OLD.status)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_subscription_webhook_events ON subscriptions;
+CREATE TRIGGER queue_subscription_webhook_events
+  AFTER INSERT OR UPDATE ON subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_subscription_webhook_events();
+
+CREATE OR REPLACE FUNCTION queue_payment_webhook_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_type text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  v_event_type := CASE NEW.status
+    WHEN 'succeeded' THEN 'payment.succeeded'
+    WHEN 'failed' THEN 'payment.failed'
+  END;
+
+  IF v_event_type IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM queue_webhook_event(
+    NEW.user_id,
+    v_event_type,
+    jsonb_build_object(
+      'id', NEW.id,
+      'subscription_id', NEW.subscription_id,
+      'plan', (
+        SELECT p.name FROM subscriptions s JOIN plans p ON p.id = s.plan_id WHERE s.id = NEW.subscription_id
+      ),
+      'amount', NEW.amount,
+      'currency', NEW.currency,
+      'status', NEW.status,
+      'stripe_invoice_id', NEW.stripe_invoice_id,
+      'created_at', NEW.created_at
+    ),
+    CASE WHEN TG_OP = 'UPDATE' THEN jsonb_build_object('status', OLD.status) END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_payment_webhook_events ON payment_transactions;
+CREATE TRIGGER queue_payment_webhook_events
+  AFTER INSERT OR UPDATE OF status ON payment_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_payment_webhook_events();
@@ -0,0 +1,68 @@
+/*
+  # Replace Meeting Chunks Atomically
+
+  ## Overview
+  Re-indexing a meeting used to delete its chunks and insert the new ones in two
+  requests. When the insert failed the meeting was left without any chunks and
+  disappeared from semantic search until it was summarized again.
+
+  ## 1. Functions
+  - `replace_meeting_chunks(p_meeting_id uuid, p_embedding_model text, p_chunks jsonb)`
+    Each element of `p_chunks` is `{ "content": text, "embedding": number[] }`, in chunk order.
+    Deletes the meeting's chunks and inserts the new ones in a single transaction,
+    then returns how many chunks were stored.
+
+  ## 2. Security
+  - Runs as the caller (SECURITY INVOKER), so the meeting_chunks RLS policies still apply
+  - `client_id` is read from the meeting and `user_id` comes from `auth.uid()`, never from the payload
+
+  ## Notes
+  - A meeting that does not belong to the caller raises an error instead of being re-indexed
+*/
+
+CREATE OR REPLACE FUNCTION replace_meeting_chunks(
+  p_meeting_id uuid,
+  p_embedding_model text,
+  p_chunks jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_client_id uuid;
+  v_count integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT m.client_id INTO v_client_id
+  FROM meetings m
+  JOIN clients c ON c.id = m.client_id
+  WHERE m.id = p_meeting_id
+    AND c.user_id = v_user_id;
+
+  IF v_client_id IS NULL THEN
+    RAISE EXCEPTION 'Meeting % not found', p_meeting_id;
+  END IF;
+
+  DELETE FROM meeting_chunks WHERE meeting_id = p_meeting_id;
+
+  INSERT INTO meeting_chunks (meeting_id, client_id, user_id, chunk_index, content, embedding, embedding_model)
+  SELECT
+    p_meeting_id,
+    v_client_id,
+    v_user_id,
+    (chunk.position - 1)::integer,
+    chunk.value->>'content',
+    (chunk.value->'embedding')::text::vector,
+    p_embedding_model
+  FROM jsonb_array_elements(COALESCE(p_chunks, '[]'::jsonb)) WITH ORDINALITY AS chunk(value, position);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION replace_meeting_chunks(uuid, text, jsonb) TO authenticated;
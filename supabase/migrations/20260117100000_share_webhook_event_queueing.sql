@@ -0,0 +1,92 @@
+/*
+  # One Webhook Envelope For Every Sender
+
+  ## Overview
+  The app, the risk-recalculation and lead-intake edge functions and the database
+  triggers each built the webhook envelope (event_id, event_type, timestamp, test,
+  data, previous_values) and inserted queue rows on their own. All of them now go
+  through `queue_webhook_event`, so the event id and timestamp formats cannot drift.
+
+  ## 1. queue_webhook_event(user_id, event_type, data, previous_values)
+     - `timestamp` is written in the same ISO 8601 UTC format as JavaScript's
+       `toISOString()` (e.g. 2026-01-17T10:00:00.000Z) instead of Postgres' default
+     - Now also executable by `service_role`, for the edge functions
+
+  ## 2. trigger_webhooks(event_type, data, previous_values)
+     - Entry point for the app: queues the event for the signed-in user's webhooks
+     - `user_id` always comes from `auth.uid()`, so a user can only reach their own webhooks
+
+  ## Notes
+  - Like before, queueing never raises: a webhook problem must not undo the change that caused it
+*/
+
+CREATE OR REPLACE FUNCTION queue_webhook_event(
+  p_user_id uuid,
+  p_event_type text,
+  p_data jsonb,
+  p_previous_values jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id text;
+  v_payload jsonb;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_event_id := 'evt_' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint
+    || '_' || substr(md5(random()::text), 1, 9);
+
+  v_payload := jsonb_build_object(
+    'event_id', v_event_id,
+    'event_type', p_event_type,
+    'timestamp', to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+    'test', false,
+    'data', p_data
+  );
+
+  IF p_previous_values IS NOT NULL THEN
+    v_payload := v_payload || jsonb_build_object('previous_values', p_previous_values);
+  END IF;
+
+  INSERT INTO webhook_events_queue (webhook_config_id, event_type, event_id, payload, status, scheduled_for)
+  SELECT id, p_event_type, v_event_id, v_payload, 'pending', now()
+  FROM webhook_configurations
+  WHERE user_id = p_user_id
+    AND enabled = true
+    AND p_event_type = ANY(events);
+
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'Could not queue webhook event %: %', p_event_type, SQLERRM;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION queue_webhook_event(uuid, text, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION queue_webhook_event(uuid, text, jsonb, jsonb) TO service_role;
+
+CREATE OR REPLACE FUNCTION trigger_webhooks(
+  p_event_type text,
+  p_data jsonb,
+  p_previous_values jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  PERFORM queue_webhook_event(auth.uid(), p_event_type, p_data, p_previous_values);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION trigger_webhooks(text, jsonb, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION trigger_webhooks(text, jsonb, jsonb) TO authenticated;
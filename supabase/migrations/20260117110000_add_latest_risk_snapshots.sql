@@ -0,0 +1,41 @@
+/*
+  # Latest Risk Snapshot Per Client
+
+  ## Overview
+  Recalculations wrote a `risk_events` snapshot for every client on every run, even
+  when nothing changed, so the nightly job filled the table with identical rows. A
+  snapshot is now only written when the score or its factors differ from the client's
+  latest snapshot, which this function returns.
+
+  ## 1. Functions
+  - `get_latest_risk_snapshots(p_client_ids uuid[])` - For each client, the score and
+    factors of its most recent `score_recalculated` event; clients without one are omitted
+
+  ## 2. Security
+  - Runs as the caller (SECURITY INVOKER), so the risk_events RLS policies still apply
+  - Executable by `authenticated` (manual recalculation) and `service_role` (nightly job)
+
+  ## Notes
+  - Served by `idx_risk_events_client_created`
+*/
+
+CREATE OR REPLACE FUNCTION get_latest_risk_snapshots(p_client_ids uuid[])
+RETURNS TABLE (
+  client_id uuid,
+  score integer,
+  factors jsonb
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT ON (re.client_id)
+    re.client_id,
+    re.score,
+    re.factors
+  FROM risk_events re
+  WHERE re.client_id = ANY(p_client_ids)
+    AND re.event_type = 'score_recalculated'
+  ORDER BY re.client_id, re.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_latest_risk_snapshots(uuid[]) TO authenticated, service_role;
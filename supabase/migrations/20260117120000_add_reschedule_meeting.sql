@@ -0,0 +1,66 @@
+/*
+  # Reschedule Meetings Atomically
+
+  ## Overview
+  Rescheduling inserted the replacement meeting and then marked the original as
+  rescheduled in a second request. When the second request failed the client was
+  left with two planned meetings for the same appointment.
+
+  ## 1. Functions
+  - `reschedule_meeting(p_meeting_id uuid, p_datetime timestamptz)`
+    Inserts the planned replacement (same client, type and follow-up cadence), marks
+    the original as `rescheduled` pointing to it, and returns the replacement, all in
+    a single transaction.
+
+  ## 2. Security
+  - Runs as the caller (SECURITY INVOKER), so the meetings RLS policies still apply
+  - The meeting must belong to one of the caller's clients
+
+  ## Notes
+  - Only planned and no-show meetings can be rescheduled; the original row is locked
+    so two concurrent reschedules cannot both succeed
+*/
+
+CREATE OR REPLACE FUNCTION reschedule_meeting(
+  p_meeting_id uuid,
+  p_datetime timestamptz
+)
+RETURNS meetings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_original meetings;
+  v_replacement meetings;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT m.* INTO v_original
+  FROM meetings m
+  JOIN clients c ON c.id = m.client_id
+  WHERE m.id = p_meeting_id
+    AND c.user_id = auth.uid()
+  FOR UPDATE OF m;
+
+  IF v_original.id IS NULL THEN
+    RAISE EXCEPTION 'Meeting % not found', p_meeting_id;
+  END IF;
+
+  IF v_original.status NOT IN ('planned', 'no_show') THEN
+    RAISE EXCEPTION 'Apenas reuniões agendadas ou com ausência podem ser remarcadas';
+  END IF;
+
+  INSERT INTO meetings (client_id, type, datetime, status, follow_up_cadence_id)
+  VALUES (v_original.client_id, v_original.type, p_datetime, 'planned', v_original.follow_up_cadence_id)
+  RETURNING * INTO v_replacement;
+
+  UPDATE meetings
+  SET status = 'rescheduled', rescheduled_to_id = v_replacement.id
+  WHERE id = p_meeting_id;
+
+  RETURN v_replacement;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reschedule_meeting(uuid, timestamptz) TO authenticated;
@@ -0,0 +1,122 @@
+/*
+  # Queue Import Webhooks Inside import_clients
+
+  ## Overview
+  After an import the app fired one `client.created` webhook request per imported
+  client, one after the other, so a 2000-row file meant 2000 sequential round trips
+  after the import had already finished. `import_clients` now queues the events
+  itself, through `trigger_webhooks`, as it creates each client.
+
+  ## 1. import_clients(p_rows jsonb)
+  - Unchanged, except that each created client also queues a `client.created` event
+    with the same data as a client created from the app
+
+  ## 2. Security
+  - Still runs as the caller (SECURITY INVOKER); `trigger_webhooks` only reaches the caller's webhooks
+
+  ## Notes
+  - Events are queued in the import transaction: if any row fails, no event is sent
+*/
+
+CREATE OR REPLACE FUNCTION import_clients(p_rows jsonb)
+RETURNS SETOF clients
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_row jsonb;
+  v_client_data jsonb;
+  v_metadata jsonb;
+  v_client clients;
+  v_position integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_rows) <> 'array' THEN
+    RAISE EXCEPTION 'p_rows must be a JSON array';
+  END IF;
+
+  IF jsonb_array_length(p_rows) > 2000 THEN
+    RAISE EXCEPTION 'Cannot import more than 2000 clients at once';
+  END IF;
+
+  FOR v_row IN SELECT value FROM jsonb_array_elements(p_rows) LOOP
+    v_position := v_position + 1;
+    v_client_data := v_row->'client';
+    v_metadata := v_row->'metadata';
+
+    IF COALESCE(trim(v_client_data->>'name'), '') = '' THEN
+      RAISE EXCEPTION 'Row %: client name is required', v_position;
+    END IF;
+
+    INSERT INTO clients (name, email, phone, revenue_bracket, status, user_id)
+    VALUES (
+      trim(v_client_data->>'name'),
+      NULLIF(v_client_data->>'email', ''),
+      NULLIF(v_client_data->>'phone', ''),
+      NULLIF(v_client_data->>'revenue_bracket', ''),
+      COALESCE(NULLIF(v_client_data->>'status', ''), 'prospecto'),
+      v_user_id
+    )
+    RETURNING * INTO v_client;
+
+    IF v_metadata IS NOT NULL AND jsonb_typeof(v_metadata) = 'object' THEN
+      INSERT INTO client_metadata (
+        client_id,
+        document_number,
+        birth_date,
+        address_street,
+        address_city,
+        address_state,
+        address_zip,
+        monthly_income,
+        estimated_patrimony,
+        financial_goals,
+        contact_preference,
+        best_contact_time,
+        tags,
+        notes,
+        custom_fields
+      )
+      VALUES (
+        v_client.id,
+        NULLIF(v_metadata->>'document_number', ''),
+        NULLIF(v_metadata->>'birth_date', '')::date,
+        NULLIF(v_metadata->>'address_street', ''),
+        NULLIF(v_metadata->>'address_city', ''),
+        NULLIF(v_metadata->>'address_state', ''),
+        NULLIF(v_metadata->>'address_zip', ''),
+        NULLIF(v_metadata->>'monthly_income', '')::numeric,
+        NULLIF(v_metadata->>'estimated_patrimony', '')::numeric,
+        NULLIF(v_metadata->>'financial_goals', ''),
+        NULLIF(v_metadata->>'contact_preference', ''),
+        NULLIF(v_metadata->>'best_contact_time', ''),
+        COALESCE(ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_metadata->'tags', '[]'::jsonb))), ARRAY[]::text[]),
+        NULLIF(v_metadata->>'notes', ''),
+        COALESCE(v_metadata->'custom_fields', '{}'::jsonb)
+      );
+    END IF;
+
+    -- Queued in the same transaction, so a failed import notifies nobody
+    PERFORM trigger_webhooks(
+      'client.created',
+      jsonb_build_object(
+        'id', v_client.id,
+        'name', v_client.name,
+        'email', v_client.email,
+        'phone', v_client.phone,
+        'status', v_client.status,
+        'risk_score', v_client.risk_score,
+        'revenue_bracket', v_client.revenue_bracket,
+        'created_at', v_client.created_at
+      )
+    );
+
+    RETURN NEXT v_client;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_clients(jsonb) TO authenticated;
@@ -0,0 +1,183 @@
+/*
+  # Keep One Portal Access Row When Merging Clients
+
+  ## Overview
+  `merge_clients` moved the duplicate's `client_portal_access` row to the surviving
+  client even when the survivor already had one. The survivor then had two rows and
+  the portal lookups, which expect at most one row per client, failed.
+
+  ## 1. merge_clients
+  - When the surviving client already has portal access, its row (and link) is kept
+    and the duplicate's row is deleted; otherwise the duplicate's row is moved as before
+  - `reparented.portal_access` counts only moved rows
+
+  ## 2. Existing Data
+  - Clients that already ended up with several rows keep the most recently used one
+    (latest access, then latest created); the others are deleted
+
+  ## Notes
+  - Manual check: give two clients of the same consultant portal access, merge one
+    into the other, then confirm `SELECT count(*) FROM client_portal_access WHERE
+    client_id = '<surviving id>'` returns 1, the survivor's original link still opens
+    the portal, and the duplicate's link no longer does
+*/
+
+DELETE FROM client_portal_access
+WHERE id IN (
+  SELECT id
+  FROM (
+    SELECT
+      id,
+      row_number() OVER (
+        PARTITION BY client_id
+        ORDER BY last_access_at DESC NULLS LAST, created_at DESC
+      ) AS position
+    FROM client_portal_access
+  ) ranked
+  WHERE ranked.position > 1
+);
+
+CREATE OR REPLACE FUNCTION merge_clients(
+  p_surviving_id uuid,
+  p_merged_id uuid,
+  p_client jsonb DEFAULT '{}'::jsonb,
+  p_metadata jsonb DEFAULT NULL
+)
+RETURNS client_merges
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_surviving clients;
+  v_merged clients;
+  v_surviving_metadata client_metadata;
+  v_merged_metadata client_metadata;
+  v_merged_snapshot jsonb;
+  v_reparented jsonb := '{}'::jsonb;
+  v_count integer;
+  v_merge client_merges;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_surviving_id = p_merged_id THEN
+    RAISE EXCEPTION 'Cannot merge a client into itself';
+  END IF;
+
+  SELECT * INTO v_surviving FROM clients WHERE id = p_surviving_id AND user_id = v_user_id FOR UPDATE;
+  SELECT * INTO v_merged FROM clients WHERE id = p_merged_id AND user_id = v_user_id FOR UPDATE;
+
+  IF v_surviving.id IS NULL OR v_merged.id IS NULL THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  SELECT * INTO v_surviving_metadata FROM client_metadata WHERE client_id = p_surviving_id;
+  SELECT * INTO v_merged_metadata FROM client_metadata WHERE client_id = p_merged_id;
+
+  v_merged_snapshot := to_jsonb(v_merged) || jsonb_build_object(
+    'metadata', CASE WHEN v_merged_metadata.id IS NULL THEN NULL ELSE to_jsonb(v_merged_metadata) END
+  );
+
+  -- Child rows
+
+  UPDATE meetings SET client_id = p_surviving_id WHERE client_id = p_merged_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_reparented := v_reparented || jsonb_build_object('meetings', v_count);
+
+  UPDATE meeting_chunks SET client_id = p_surviving_id WHERE client_id = p_merged_id;
+
+  UPDATE tasks SET client_id = p_surviving_id WHERE client_id = p_merged_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_reparented := v_reparented || jsonb_build_object('tasks', v_count);
+
+  UPDATE email_drafts SET client_id = p_surviving_id WHERE client_id = p_merged_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_reparented := v_reparented || jsonb_build_object('email_drafts', v_count);
+
+  UPDATE conversation_history SET client_id = p_surviving_id WHERE client_id = p_merged_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_reparented := v_reparented || jsonb_build_object('conversation_history', v_count);
+
+  UPDATE risk_events SET client_id = p_surviving_id WHERE client_id = p_merged_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_reparented := v_reparented || jsonb_build_object('risk_events', v_count);
+
+  -- One portal link per client: the survivor keeps its own, the duplicate's is dropped
+  IF EXISTS (SELECT 1 FROM client_portal_access WHERE client_id = p_surviving_id) THEN
+    DELETE FROM client_portal_access WHERE client_id = p_merged_id;
+    v_count := 0;
+  ELSE
+    UPDATE client_portal_access SET client_id = p_surviving_id WHERE client_id = p_merged_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+  END IF;
+  v_reparented := v_reparented || jsonb_build_object('portal_access', v_count);
+
+  IF NOT EXISTS (SELECT 1 FROM follow_up_cadences WHERE client_id = p_surviving_id) THEN
+    UPDATE follow_up_cadences SET client_id = p_surviving_id WHERE client_id = p_merged_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_reparented := v_reparented || jsonb_build_object('follow_up_cadences', v_count);
+  END IF;
+
+  -- Metadata: chosen values first, then whatever each side had
+
+  IF v_merged_metadata.id IS NOT NULL OR p_metadata IS NOT NULL THEN
+    IF v_surviving_metadata.id IS NULL AND v_merged_metadata.id IS NOT NULL THEN
+      UPDATE client_metadata SET client_id = p_surviving_id WHERE id = v_merged_metadata.id;
+      v_surviving_metadata := v_merged_metadata;
+      v_merged_metadata := NULL;
+    ELSIF v_surviving_metadata.id IS NULL THEN
+      INSERT INTO client_metadata (client_id) VALUES (p_surviving_id) RETURNING * INTO v_surviving_metadata;
+    END IF;
+
+    UPDATE client_metadata SET
+      document_number = COALESCE(p_metadata->>'document_number', v_surviving_metadata.document_number, v_merged_metadata.document_number),
+      birth_date = COALESCE((p_metadata->>'birth_date')::date, v_surviving_metadata.birth_date, v_merged_metadata.birth_date),
+      address_street = COALESCE(p_metadata->>'address_street', v_surviving_metadata.address_street, v_merged_metadata.address_street),
+      address_city = COALESCE(p_metadata->>'address_city', v_surviving_metadata.address_city, v_merged_metadata.address_city),
+      address_state = COALESCE(p_metadata->>'address_state', v_surviving_metadata.address_state, v_merged_metadata.address_state),
+      address_zip = COALESCE(p_metadata->>'address_zip', v_surviving_metadata.address_zip, v_merged_metadata.address_zip),
+      monthly_income = COALESCE((p_metadata->>'monthly_income')::numeric, v_surviving_metadata.monthly_income, v_merged_metadata.monthly_income),
+      estimated_patrimony = COALESCE((p_metadata->>'estimated_patrimony')::numeric, v_surviving_metadata.estimated_patrimony, v_merged_metadata.estimated_patrimony),
+      financial_goals = COALESCE(p_metadata->>'financial_goals', v_surviving_metadata.financial_goals, v_merged_metadata.financial_goals),
+      contact_preference = COALESCE(p_metadata->>'contact_preference', v_surviving_metadata.contact_preference, v_merged_metadata.contact_preference),
+      best_contact_time = COALESCE(p_metadata->>'best_contact_time', v_surviving_metadata.best_contact_time, v_merged_metadata.best_contact_time),
+      notes = COALESCE(p_metadata->>'notes', v_surviving_metadata.notes, v_merged_metadata.notes),
+      tags = ARRAY(
+        SELECT DISTINCT tag
+        FROM unnest(COALESCE(v_surviving_metadata.tags, ARRAY[]::text[]) || COALESCE(v_merged_metadata.tags, ARRAY[]::text[])) AS tag
+        ORDER BY tag
+      ),
+      custom_fields = COALESCE(v_merged_metadata.custom_fields, '{}'::jsonb) || COALESCE(v_surviving_metadata.custom_fields, '{}'::jsonb)
+    WHERE id = v_surviving_metadata.id;
+  END IF;
+
+  -- Surviving client: chosen values, most recent activity of the two
+
+  UPDATE clients SET
+    name = COALESCE(NULLIF(trim(p_client->>'name'), ''), v_surviving.name),
+    email = CASE WHEN p_client ? 'email' THEN NULLIF(p_client->>'email', '') ELSE v_surviving.email END,
+    phone = CASE WHEN p_client ? 'phone' THEN NULLIF(p_client->>'phone', '') ELSE v_surviving.phone END,
+    revenue_bracket = CASE WHEN p_client ? 'revenue_bracket' THEN NULLIF(p_client->>'revenue_bracket', '') ELSE v_surviving.revenue_bracket END,
+    status = COALESCE(NULLIF(p_client->>'status', ''), v_surviving.status),
+    last_activity_date = GREATEST(v_surviving.last_activity_date, v_merged.last_activity_date)
+  WHERE id = p_surviving_id;
+
+  INSERT INTO client_merges (user_id, surviving_client_id, merged_client_id, merged_client, field_values, reparented)
+  VALUES (
+    v_user_id,
+    p_surviving_id,
+    p_merged_id,
+    v_merged_snapshot,
+    jsonb_build_object('client', COALESCE(p_client, '{}'::jsonb), 'metadata', p_metadata),
+    v_reparented
+  )
+  RETURNING * INTO v_merge;
+
+  DELETE FROM clients WHERE id = p_merged_id;
+
+  RETURN v_merge;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_clients(uuid, uuid, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,78 @@
+/*
+  # Find Clients By Normalized Contact Data
+
+  ## Overview
+  The lead-intake function loaded every client of the consultant to look for a
+  duplicate, and PostgREST returns at most 1000 rows, so leads from larger portfolios
+  were never recognised as existing clients. The lookup now happens in the database,
+  comparing the stored email, phone and CPF/CNPJ after normalizing them the same way
+  `supabase/functions/_shared/contact.ts` normalizes the incoming lead.
+
+  ## 1. Functions
+  - `normalize_phone_digits(text)` - Digits only, without the 55 country code or a trunk zero
+  - `normalize_document_digits(text)` - Digits only, left-padded to 11 (CPF) or 14 (CNPJ)
+  - `find_client_by_contact(p_user_id, p_document, p_email, p_phone)` - Id of the
+    consultant's client matching the already normalized document, email or phone, in
+    that order of precedence (oldest client first on ties), or NULL
+
+  ## 2. Security
+  - `find_client_by_contact` is only executable by `service_role` (the lead-intake function)
+
+  ## Notes
+  - Arguments must already be normalized; NULL arguments are ignored
+*/
+
+CREATE OR REPLACE FUNCTION normalize_phone_digits(p_phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN length(digits) IN (12, 13) AND digits LIKE '55%' THEN substr(digits, 3)
+    WHEN length(digits) IN (11, 12) AND digits LIKE '0%' THEN substr(digits, 2)
+    ELSE NULLIF(digits, '')
+  END
+  FROM (SELECT regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g') AS digits) phone;
+$$;
+
+CREATE OR REPLACE FUNCTION normalize_document_digits(p_document text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN digits = '' OR length(digits) > 14 THEN NULL
+    WHEN length(digits) <= 11 THEN lpad(digits, 11, '0')
+    ELSE lpad(digits, 14, '0')
+  END
+  FROM (SELECT regexp_replace(COALESCE(p_document, ''), '\D', '', 'g') AS digits) document;
+$$;
+
+CREATE OR REPLACE FUNCTION find_client_by_contact(
+  p_user_id uuid,
+  p_document text DEFAULT NULL,
+  p_email text DEFAULT NULL,
+  p_phone text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT c.id
+  FROM clients c
+  LEFT JOIN client_metadata cm ON cm.client_id = c.id
+  WHERE c.user_id = p_user_id
+    AND (
+      normalize_document_digits(cm.document_number) = p_document
+      OR lower(trim(c.email)) = p_email
+      OR normalize_phone_digits(c.phone) = p_phone
+    )
+  ORDER BY
+    (normalize_document_digits(cm.document_number) = p_document) IS TRUE DESC,
+    (lower(trim(c.email)) = p_email) IS TRUE DESC,
+    c.created_at
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION find_client_by_contact(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_client_by_contact(uuid, text, text, text) TO service_role;
@@ -0,0 +1,126 @@
+/*
+  # Atomic Webhook Failure Count and Held Events For Disabled Webhooks
+
+  ## Overview
+  The dispatcher processes a batch of events concurrently and counted failures by
+  reading `failure_count` and writing it back plus one, so simultaneous failures of
+  the same webhook overwrote each other and the circuit breaker opened late. It also
+  dead-lettered every due event of a webhook the consultant had only disabled, so
+  turning a webhook off for a moment lost its queue.
+
+  ## 1. Functions
+  - `record_webhook_failure(p_webhook_id, p_error, p_threshold, p_probe_delay_seconds)`
+    Increments `failure_count` in a single statement and, when it reaches the threshold
+    and the circuit is closed, opens it and schedules the first health check. Returns
+    true when this call opened the circuit.
+  - `trigger_webhook_retry_dispatch()` - Events of disabled webhooks no longer count as
+    due, so they do not wake the dispatcher every minute
+
+  ## 2. Security
+  - `record_webhook_failure` is only executable by `service_role` (the dispatcher)
+
+  ## Notes
+  - Events of a disabled webhook stay pending and are delivered once it is enabled again;
+    events whose webhook was deleted are still dead-lettered
+*/
+
+CREATE OR REPLACE FUNCTION record_webhook_failure(
+  p_webhook_id uuid,
+  p_error text,
+  p_threshold integer,
+  p_probe_delay_seconds integer
+)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_opens_circuit boolean;
+BEGIN
+  -- The row stays locked until the end of the transaction, so concurrent failures queue up here
+  UPDATE webhook_configurations
+  SET failure_count = failure_count + 1,
+      last_error = p_error
+  WHERE id = p_webhook_id
+  RETURNING circuit_opened_at IS NULL AND failure_count >= p_threshold INTO v_opens_circuit;
+
+  IF v_opens_circuit THEN
+    UPDATE webhook_configurations
+    SET circuit_opened_at = now(),
+        next_probe_at = now() + make_interval(secs => p_probe_delay_seconds),
+        probe_attempts = 0
+    WHERE id = p_webhook_id;
+  END IF;
+
+  RETURN COALESCE(v_opens_circuit, false);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_webhook_failure(uuid, text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_webhook_failure(uuid, text, integer, integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION trigger_webhook_retry_dispatch()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_config webhook_dispatcher_config%ROWTYPE;
+  v_request_id bigint;
+  v_run_id uuid;
+BEGIN
+  SELECT * INTO v_config
+  FROM webhook_dispatcher_config
+  WHERE id = '00000000-0000-0000-0000-000000000001'::uuid;
+
+  IF NOT v_config.enabled THEN
+    RETURN;
+  END IF;
+
+  -- Only wake the Edge Function when there is something due
+  IF NOT EXISTS (
+    SELECT 1
+    FROM webhook_events_queue q
+    JOIN webhook_configurations w ON w.id = q.webhook_config_id
+    WHERE q.status = 'pending' AND q.scheduled_for <= now() AND w.enabled = true
+  ) AND NOT EXISTS (
+    SELECT 1 FROM webhook_configurations
+    WHERE enabled = true AND circuit_opened_at IS NOT NULL AND next_probe_at <= now()
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO webhook_dispatcher_runs (triggered_by, started_at)
+  VALUES ('retry_schedule', now())
+  RETURNING id INTO v_run_id;
+
+  SELECT net.http_post(
+    url := v_config.supabase_url || '/functions/v1/webhook-dispatcher',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'X-Internal-Secret', v_config.internal_secret
+    ),
+    body := jsonb_build_object(
+      'triggered_by', 'retry_schedule',
+      'timestamp', now()
+    )
+  ) INTO v_request_id;
+
+  UPDATE webhook_dispatcher_runs
+  SET request_id = v_request_id
+  WHERE id = v_run_id;
+EXCEPTION WHEN OTHERS THEN
+  INSERT INTO webhook_dispatcher_runs (
+    triggered_by,
+    started_at,
+    completed_at,
+    success,
+    error_message
+  ) VALUES (
+    'retry_schedule',
+    now(),
+    now(),
+    false,
+    SQLERRM
+  );
+END;
+$$;
@@ -0,0 +1,130 @@
+/*
+  # Create And Promote Summary Versions Atomically
+
+  ## Overview
+  The app computed a new version's `version_number` as the meeting's highest number
+  plus one and inserted it in a second request, so two summarization runs finishing
+  together picked the same number and one of them failed on the
+  `(meeting_id, version_number)` unique constraint. Promoting a version cleared the
+  current flag and set it on the new version in two requests, so a failure in between
+  left the meeting without a current version.
+
+  ## 1. Functions
+  - `create_summary_version(...)` - Locks the meeting, numbers the version after the
+    meeting's latest one and inserts it for the caller
+  - `promote_summary_version(p_version_id uuid)` - Clears the meeting's current version
+    and marks the given one current, in a single transaction
+
+  ## 2. Security
+  - Both run as the caller (SECURITY INVOKER), so the meeting_summary_versions RLS
+    policies still apply
+  - The meeting must belong to one of the caller's clients
+
+  ## Notes
+  - `meeting_summary_versions` already has `UNIQUE (meeting_id, version_number)`
+    (20260109140000); it stays as the last line of defence
+*/
+
+CREATE OR REPLACE FUNCTION create_summary_version(
+  p_meeting_id uuid,
+  p_model text,
+  p_provider text DEFAULT 'openai',
+  p_summary jsonb DEFAULT '[]'::jsonb,
+  p_decisions jsonb DEFAULT '[]'::jsonb,
+  p_suggested_tasks jsonb DEFAULT '[]'::jsonb,
+  p_risk_signals text DEFAULT NULL,
+  p_prompt_template_id uuid DEFAULT NULL,
+  p_prompt_template_version integer DEFAULT NULL,
+  p_custom_instructions text DEFAULT NULL,
+  p_credits_used integer DEFAULT 0
+)
+RETURNS meeting_summary_versions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_meeting_id uuid;
+  v_version meeting_summary_versions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  -- Concurrent runs for the same meeting wait here, so each sees the previous number
+  SELECT m.id INTO v_meeting_id
+  FROM meetings m
+  JOIN clients c ON c.id = m.client_id
+  WHERE m.id = p_meeting_id
+    AND c.user_id = auth.uid()
+  FOR UPDATE OF m;
+
+  IF v_meeting_id IS NULL THEN
+    RAISE EXCEPTION 'Meeting % not found', p_meeting_id;
+  END IF;
+
+  INSERT INTO meeting_summary_versions (
+    meeting_id, user_id, version_number, summary, decisions, suggested_tasks, risk_signals,
+    provider, model, prompt_template_id, prompt_template_version, custom_instructions, credits_used
+  )
+  VALUES (
+    p_meeting_id,
+    auth.uid(),
+    (SELECT COALESCE(max(version_number), 0) + 1 FROM meeting_summary_versions WHERE meeting_id = p_meeting_id),
+    COALESCE(p_summary, '[]'::jsonb),
+    COALESCE(p_decisions, '[]'::jsonb),
+    COALESCE(p_suggested_tasks, '[]'::jsonb),
+    p_risk_signals,
+    COALESCE(p_provider, 'openai'),
+    p_model,
+    p_prompt_template_id,
+    p_prompt_template_version,
+    p_custom_instructions,
+    COALESCE(p_credits_used, 0)
+  )
+  RETURNING * INTO v_version;
+
+  RETURN v_version;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION promote_summary_version(p_version_id uuid)
+RETURNS meeting_summary_versions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_meeting_id uuid;
+  v_version meeting_summary_versions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT m.id INTO v_meeting_id
+  FROM meeting_summary_versions v
+  JOIN meetings m ON m.id = v.meeting_id
+  JOIN clients c ON c.id = m.client_id
+  WHERE v.id = p_version_id
+    AND c.user_id = auth.uid()
+  FOR UPDATE OF m;
+
+  IF v_meeting_id IS NULL THEN
+    RAISE EXCEPTION 'Summary version % not found', p_version_id;
+  END IF;
+
+  -- Two statements: the partial unique index allows only one current version per meeting
+  UPDATE meeting_summary_versions
+  SET is_current = false
+  WHERE meeting_id = v_meeting_id
+    AND is_current = true
+    AND id <> p_version_id;
+
+  UPDATE meeting_summary_versions
+  SET is_current = true, promoted_at = now()
+  WHERE id = p_version_id
+  RETURNING * INTO v_version;
+
+  RETURN v_version;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_summary_version(uuid, text, text, jsonb, jsonb, jsonb, text, uuid, integer, text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION promote_summary_version(uuid) TO authenticated;